@@ -3,7 +3,11 @@ import StorytellerSuitePlugin from './main';
 import { NewStoryModal } from './modals/NewStoryModal';
 import { EditStoryModal } from './modals/EditStoryModal';
 import { FolderSuggestModal } from './modals/FolderSuggestModal';
+import { ScriptSuggestModal } from './modals/ScriptSuggestModal';
 import { setLocale, t, getAvailableLanguages, getLanguageName, isLanguageAvailable } from './i18n/strings';
+import { DEFAULT_SCENE_STATUSES, normalizeStatuses } from './utils/SceneKanban';
+import { CompileEngine } from './compile/CompileEngine';
+import { addUserScriptStep } from './compile/UserScriptLoader';
 
 export class StorytellerSuiteSettingTab extends PluginSettingTab {
     plugin: StorytellerSuitePlugin;
@@ -148,11 +152,7 @@ export class StorytellerSuiteSettingTab extends PluginSettingTab {
                     .setTooltip(t('delete'))
                     .onClick(async () => {
                         if (confirm(t('confirmDeleteStory', story.name))) {
-                            this.plugin.settings.stories = this.plugin.settings.stories.filter(s => s.id !== story.id);
-                            if (this.plugin.settings.activeStoryId === story.id) {
-                                this.plugin.settings.activeStoryId = this.plugin.settings.stories[0]?.id || '';
-                            }
-                            await this.plugin.saveSettings();
+                            await this.plugin.deleteStory(story.id);
                             this.display();
                         }
                     })
@@ -260,6 +260,16 @@ export class StorytellerSuiteSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName(t('renamePropagation'))
+            .setDesc(t('renamePropagationDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableRenamePropagation !== false)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableRenamePropagation = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName(t('forwardDateBias'))
             .setDesc(t('forwardDateBiasDesc'))
@@ -907,6 +917,46 @@ export class StorytellerSuiteSettingTab extends PluginSettingTab {
                     comp.inputEl.addEventListener('click', openSuggest);
                     return comp;
                 });
+
+            new Setting(containerEl)
+                .setName(t('calendarsFolder'))
+                .setDesc(t('calendarsFolderDesc'))
+                .addText(text => {
+                    const comp = text
+                        .setPlaceholder(t('calendarsFolderPh'))
+                        .setValue(this.plugin.settings.calendarFolderPath || '')
+                        .onChange(async (value) => {
+                            this.plugin.settings.calendarFolderPath = value;
+                            await this.plugin.saveSettings();
+                        });
+                    let suppress = false;
+                    const openSuggest = () => {
+                        if (suppress) return;
+                        const modal = new FolderSuggestModal(
+                            this.app,
+                            async (folderPath) => {
+                                this.plugin.settings.calendarFolderPath = folderPath;
+                                comp.setValue(folderPath);
+                                await this.plugin.saveSettings();
+                            },
+                            () => {
+                                suppress = true;
+                                setTimeout(() => { suppress = false; }, 300);
+                                setTimeout(() => comp.inputEl.focus(), 0);
+                            }
+                        );
+                        modal.open();
+                    };
+                    comp.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+                        if (e.key === 'ArrowDown' || (e.ctrlKey && e.key.toLowerCase() === ' ')) {
+                            e.preventDefault();
+                            openSuggest();
+                        }
+                    });
+                    comp.inputEl.addEventListener('focus', openSuggest);
+                    comp.inputEl.addEventListener('click', openSuggest);
+                    return comp;
+                });
         }
 
         // --- Map Settings Section ---
@@ -1082,6 +1132,75 @@ export class StorytellerSuiteSettingTab extends PluginSettingTab {
                 })
             );
 
+        // --- Writing Goals Section ---
+        new Setting(containerEl)
+            .setName(t('writingGoals'))
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName(t('dailyWordGoal'))
+            .setDesc(t('dailyWordGoalDesc'))
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(String(this.plugin.settings.dailyWordCountGoal ?? 0))
+                    .onChange(async (value) => {
+                        this.plugin.settings.dailyWordCountGoal = Math.max(0, parseInt(value, 10) || 0);
+                        await this.plugin.saveSettings();
+                        this.plugin.writingProgress?.refreshStatusBar();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName(t('showWritingProgressInStatusBar'))
+            .setDesc(t('showWritingProgressInStatusBarDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showWordCountInStatusBar ?? true)
+                .onChange(async (value) => {
+                    this.plugin.settings.showWordCountInStatusBar = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.writingProgress?.refreshStatusBar();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName(t('notifyOnGoalReached'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.notifyOnGoalReached ?? true)
+                .onChange(async (value) => {
+                    this.plugin.settings.notifyOnGoalReached = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        // --- Scene Statuses Section ---
+        new Setting(containerEl)
+            .setName(t('sceneStatuses'))
+            .setDesc(t('sceneStatusesDesc'))
+            .addTextArea(text => {
+                text.setPlaceholder(DEFAULT_SCENE_STATUSES.join(', '))
+                    .setValue(normalizeStatuses(this.plugin.settings.sceneStatuses).join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.sceneStatuses = normalizeStatuses(value.split(','));
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // --- Compile Section ---
+        new Setting(containerEl)
+            .setName(t('compile'))
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName(t('allowUserScripts'))
+            .setDesc(t('allowUserScriptsDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.allowUserScripts === true)
+                .onChange(async (value) => {
+                    this.plugin.settings.allowUserScripts = value;
+                    await this.plugin.saveSettings();
+                }));
+        this.addUserScriptSteps(containerEl);
+
         // --- Default Templates Section ---
         new Setting(containerEl)
             .setName(t('defaultTemplates'))
@@ -1185,6 +1304,70 @@ export class StorytellerSuiteSettingTab extends PluginSettingTab {
     /**
      * Add tutorial section to help new users understand the plugin features
      */
+    /**
+     * Picker for adding a vault script to a compile workflow, followed by the script steps
+     * already in the user's workflows
+     */
+    private addUserScriptSteps(containerEl: HTMLElement): void {
+        const engine = new CompileEngine(this.app, this.plugin);
+        const workflows = engine.getAllWorkflows();
+        let workflowId = workflows[0]?.id || '';
+
+        new Setting(containerEl)
+            .setName(t('userScriptSteps'))
+            .setDesc(t('userScriptStepsDesc'))
+            .addDropdown(dropdown => {
+                workflows.forEach(workflow => dropdown.addOption(workflow.id, workflow.name));
+                dropdown.setValue(workflowId).onChange(value => { workflowId = value; });
+            })
+            .addButton(btn => btn
+                .setButtonText(t('addUserScriptStep'))
+                .onClick(() => {
+                    new ScriptSuggestModal(this.app, async (scriptPath) => {
+                        await this.saveUserScriptStep(engine, workflowId, scriptPath);
+                        this.display();
+                    }).open();
+                }));
+
+        for (const workflow of this.plugin.settings.compileWorkflows || []) {
+            workflow.steps.filter(step => step.stepType === 'user-script').forEach(step => {
+                new Setting(containerEl)
+                    .setName(String(step.options.scriptPath || ''))
+                    .setDesc(workflow.name)
+                    .addExtraButton(btn => btn
+                        .setIcon('trash')
+                        .setTooltip(t('delete'))
+                        .onClick(async () => {
+                            workflow.steps = workflow.steps.filter(s => s !== step);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            });
+        }
+    }
+
+    /**
+     * Add a script step to a workflow. Built-in workflows are rebuilt on every compile,
+     * so the step goes into a saved copy of them instead.
+     */
+    private async saveUserScriptStep(engine: CompileEngine, workflowId: string, scriptPath: string): Promise<void> {
+        const saved = this.plugin.settings.compileWorkflows || [];
+        let workflow = saved.find(w => w.id === workflowId);
+        if (!workflow) {
+            const preset = engine.getWorkflowById(workflowId);
+            if (!preset) return;
+            const copyId = `${preset.id}-scripts`;
+            workflow = saved.find(w => w.id === copyId) ||
+                { ...preset, id: copyId, name: t('workflowWithScripts', preset.name) };
+        }
+
+        const isJoinStep = (stepType: string) => !!engine.getStepDefinition(stepType)?.availableKinds.includes('join');
+        const updated = addUserScriptStep(workflow, scriptPath, isJoinStep);
+        this.plugin.settings.compileWorkflows = [...saved.filter(w => w.id !== updated.id), updated];
+        await this.plugin.saveSettings();
+        new Notice(t('userScriptStepAdded', scriptPath, updated.name));
+    }
+
     private addTutorialSection(containerEl: HTMLElement): void {
         new Setting(containerEl)
             .setName(t('tutorialGettingStarted'))
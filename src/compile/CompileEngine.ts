@@ -15,10 +15,15 @@ import type {
     ManuscriptCompileInput,
     CompileStepKind,
     CompileStepDefinition,
+    CompileStepError,
     Scene,
-    Story
+    Story,
+    DraftSnapshot
 } from '../types';
 import { builtInSteps } from './steps';
+import { loadUserScriptStep, checkUserScriptOutput } from './UserScriptLoader';
+import { isInteriorLocation } from './Fountain';
+import { plainRef, sameRef } from '../utils/ItemCustody';
 
 /**
  * Status callback for compile progress updates
@@ -79,14 +84,19 @@ export class CompileEngine {
     }
 
     /**
-     * Compile a draft using the specified workflow
+     * Compile a draft using the specified workflow.
+     * With a snapshot, the snapshot's scene order and archived text are compiled instead of the live scenes.
      */
     public async compile(
         draft: StoryDraft,
         workflow: CompileWorkflow,
-        statusCallback?: (status: CompileStatus) => void
+        statusCallback?: (status: CompileStatus) => void,
+        snapshot?: DraftSnapshot
     ): Promise<CompileResult> {
         const startTime = Date.now();
+        if (snapshot) {
+            draft = { ...draft, name: snapshot.name, sceneOrder: snapshot.scenes };
+        }
         
         try {
             statusCallback?.({ kind: 'started', message: 'Starting compilation...' });
@@ -98,7 +108,7 @@ export class CompileEngine {
             }
 
             // Load all scenes in order
-            const scenes = await this.loadScenesInOrder(draft);
+            const scenes = snapshot ? await this.loadSnapshotScenes(snapshot) : await this.loadScenesInOrder(draft);
             if (scenes.length === 0) {
                 throw new Error('No scenes found in draft');
             }
@@ -107,19 +117,24 @@ export class CompileEngine {
             let sceneInputs: SceneCompileInput[] = await this.buildSceneInputs(scenes, draft);
             let manuscriptInput: ManuscriptCompileInput | null = null;
 
-            // Determine step kinds based on workflow order
-            const stepKinds = this.calculateStepKinds(workflow.steps);
+            // Resolve step definitions (loading user scripts) and their kinds based on workflow order
+            const enabledSteps = workflow.steps.filter(s => s.enabled);
+            const stepErrors: CompileStepError[] = [];
+            const stepDefs = await this.resolveStepDefinitions(enabledSteps, stepErrors);
+            const stepKinds = this.calculateStepKinds(enabledSteps, stepDefs);
 
             // Process each enabled step
-            const enabledSteps = workflow.steps.filter(s => s.enabled);
             for (let i = 0; i < enabledSteps.length; i++) {
                 const stepConfig = enabledSteps[i];
-                const stepDef = this.stepRegistry.get(stepConfig.stepType);
+                const stepDef = stepDefs.get(stepConfig.id);
                 
                 if (!stepDef) {
-                    console.warn(`[Compile] Unknown step type: ${stepConfig.stepType}`);
+                    if (stepConfig.stepType !== 'user-script') {
+                        console.warn(`[Compile] Unknown step type: ${stepConfig.stepType}`);
+                    }
                     continue;
                 }
+                const isUserScript = stepConfig.stepType === 'user-script';
 
                 const kind = stepKinds.get(stepConfig.id) || 'scene';
                 
@@ -134,21 +149,36 @@ export class CompileEngine {
                 // Build context for this step
                 const context: CompileContext = {
                     kind,
-                    optionValues: stepConfig.options,
+                    optionValues: isUserScript
+                        ? { ...this.getOptionDefaults(stepDef), ...stepConfig.options }
+                        : stepConfig.options,
                     projectPath: this.plugin.getEntityFolder('scene'),
                     draft,
                     story,
                     app: this.app
                 };
 
-                // Execute step based on kind
-                if (kind === 'scene' && sceneInputs.length > 0) {
-                    sceneInputs = await stepDef.compile(sceneInputs, context) as SceneCompileInput[];
-                } else if (kind === 'join' && sceneInputs.length > 0) {
-                    manuscriptInput = await stepDef.compile(sceneInputs, context) as ManuscriptCompileInput;
-                    sceneInputs = []; // Clear scenes after join
-                } else if (kind === 'manuscript' && manuscriptInput) {
-                    manuscriptInput = await stepDef.compile(manuscriptInput, context) as ManuscriptCompileInput;
+                // Execute step based on kind; a failing user script is skipped and reported
+                try {
+                    if (kind === 'scene' && sceneInputs.length > 0) {
+                        const output = await stepDef.compile(sceneInputs, context);
+                        sceneInputs = (isUserScript ? checkUserScriptOutput(output, kind) : output) as SceneCompileInput[];
+                    } else if (kind === 'join' && sceneInputs.length > 0) {
+                        const output = await stepDef.compile(sceneInputs, context);
+                        manuscriptInput = (isUserScript ? checkUserScriptOutput(output, kind) : output) as ManuscriptCompileInput;
+                        sceneInputs = []; // Clear scenes after join
+                    } else if (kind === 'manuscript' && manuscriptInput) {
+                        const current: ManuscriptCompileInput = manuscriptInput;
+                        const output = await stepDef.compile(current, context);
+                        // Keep chapter boundaries and title metadata unless the step replaced them
+                        const next = (isUserScript ? checkUserScriptOutput(output, kind) : output) as ManuscriptCompileInput;
+                        manuscriptInput = { ...current, ...next };
+                    }
+                } catch (error) {
+                    if (!isUserScript) throw error;
+                    const message = error instanceof Error ? error.message : String(error);
+                    console.error(`[Compile] User script "${stepDef.name}" failed:`, error);
+                    stepErrors.push({ stepId: stepConfig.id, stepName: stepDef.name, phase: 'run', message });
                 }
             }
 
@@ -167,6 +197,9 @@ export class CompileEngine {
                     compileDuration: Date.now() - startTime
                 }
             };
+            if (stepErrors.length > 0) {
+                result.stepErrors = stepErrors;
+            }
 
             statusCallback?.({
                 kind: 'completed',
@@ -216,11 +249,26 @@ export class CompileEngine {
         return orderedScenes;
     }
 
+    /**
+     * Load a snapshot's scenes in order, reading their text from the archived copies.
+     * Metadata such as linked locations comes from the live scene when it still exists.
+     */
+    private async loadSnapshotScenes(snapshot: DraftSnapshot): Promise<Scene[]> {
+        const allScenes = await this.plugin.listScenes();
+        return snapshot.scenes
+            .filter(ref => ref.includeInCompile)
+            .map(ref => {
+                const live = allScenes.find(s => s.id === ref.sceneId || s.name === ref.sceneId);
+                return { ...live, id: ref.sceneId, name: ref.name, chapterName: ref.chapterName, filePath: ref.path };
+            });
+    }
+
     /**
      * Build scene inputs from loaded scenes
      */
     private async buildSceneInputs(scenes: Scene[], draft: StoryDraft): Promise<SceneCompileInput[]> {
         const inputs: SceneCompileInput[] = [];
+        const locations = await this.plugin.listLocations();
         
         for (let i = 0; i < scenes.length; i++) {
             const scene = scenes[i];
@@ -241,6 +289,8 @@ export class CompileEngine {
                 r.sceneId === scene.id || r.sceneId === scene.name
             );
             const indentLevel = sceneRef?.indent || 0;
+            const locationRef = scene.linkedLocations?.[0];
+            const location = locationRef ? locations.find(l => l.id === locationRef || sameRef(l.name, locationRef)) : undefined;
 
             inputs.push({
                 path: scene.filePath || '',
@@ -249,7 +299,11 @@ export class CompileEngine {
                 indentLevel,
                 index: i,
                 chapterName: scene.chapterName,
-                sceneNumber: this.calculateSceneNumber(i, indentLevel, draft)
+                sceneNumber: this.calculateSceneNumber(i, indentLevel, draft),
+                location: location?.name ?? (locationRef ? plainRef(locationRef) : undefined),
+                interior: location ? isInteriorLocation(location) : undefined,
+                timeOfDay: scene.timeOfDay,
+                characters: (scene.linkedCharacters || []).map(plainRef)
             });
         }
 
@@ -295,17 +349,66 @@ export class CompileEngine {
         return String(index + 1);
     }
 
+    /**
+     * Resolve the definition for each step, loading user scripts from the vault.
+     * Scripts that fail to load, or that are not allowed to run, are left out and reported in stepErrors.
+     */
+    private async resolveStepDefinitions(
+        steps: CompileStepConfig[],
+        stepErrors: CompileStepError[]
+    ): Promise<Map<string, CompileStepDefinition>> {
+        const defs = new Map<string, CompileStepDefinition>();
+
+        for (const step of steps) {
+            if (step.stepType !== 'user-script') {
+                const def = this.stepRegistry.get(step.stepType);
+                if (def) defs.set(step.id, def);
+                continue;
+            }
+
+            const scriptPath = typeof step.options.scriptPath === 'string' ? step.options.scriptPath.trim() : '';
+            if (!this.plugin.settings.allowUserScripts) {
+                const message = 'User scripts are turned off. Enable "Allow user scripts" in settings to run this step.';
+                stepErrors.push({ stepId: step.id, stepName: scriptPath || 'User Script', phase: 'load', message });
+                continue;
+            }
+            try {
+                defs.set(step.id, await loadUserScriptStep(this.app, scriptPath));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`[Compile] Could not load user script "${scriptPath}":`, error);
+                stepErrors.push({ stepId: step.id, stepName: scriptPath || 'User Script', phase: 'load', message });
+            }
+        }
+
+        return defs;
+    }
+
+    /**
+     * Default option values declared by a step definition
+     */
+    private getOptionDefaults(def: CompileStepDefinition): Record<string, unknown> {
+        const defaults: Record<string, unknown> = {};
+        for (const option of def.options) {
+            defaults[option.id] = option.default;
+        }
+        return defaults;
+    }
+
     /**
      * Calculate the kind (scene/join/manuscript) for each step
      */
-    private calculateStepKinds(steps: CompileStepConfig[]): Map<string, CompileStepKind> {
+    private calculateStepKinds(
+        steps: CompileStepConfig[],
+        defs: Map<string, CompileStepDefinition>
+    ): Map<string, CompileStepKind> {
         const kinds = new Map<string, CompileStepKind>();
         let hasJoined = false;
 
         for (const step of steps) {
             if (!step.enabled) continue;
 
-            const def = this.stepRegistry.get(step.stepType);
+            const def = defs.get(step.id);
             if (!def) continue;
 
             if (def.availableKinds.includes('join')) {
@@ -409,7 +512,10 @@ export class CompileEngine {
             this.createBeatSheetWorkflow(),
             this.createCleanProseWorkflow(),
             this.createPlainTextWorkflow(),
-            this.createHtmlExportWorkflow()
+            this.createHtmlExportWorkflow(),
+            this.createDocxManuscriptWorkflow(),
+            this.createEpubWorkflow(),
+            this.createScreenplayWorkflow()
         ];
     }
 
@@ -841,11 +947,207 @@ export class CompileEngine {
         };
     }
 
+    /**
+     * Shared prose steps for the DOCX and EPUB workflows: clean content
+     * sections grouped by chapter, with title metadata for the title page
+     */
+    private createBookSteps(): CompileStepConfig[] {
+        return [
+            {
+                id: 'step-1',
+                stepType: 'strip-frontmatter',
+                enabled: true,
+                options: {}
+            },
+            {
+                id: 'step-2',
+                stepType: 'extract-content-section',
+                enabled: true,
+                options: {
+                    contentHeaders: 'Content',
+                    excludeHeaders: 'Beats,Beat Sheet,Notes,Outline,Summary,Synopsis,Research',
+                    headerLevel: 2,
+                    fallbackToAll: true
+                }
+            },
+            {
+                id: 'step-3',
+                stepType: 'clean-content',
+                enabled: true,
+                options: {
+                    removeCallouts: true,
+                    removeCodeBlocks: true,
+                    removeTags: true,
+                    removeBlockIds: true,
+                    normalizeWhitespace: true
+                }
+            },
+            {
+                id: 'step-4',
+                stepType: 'remove-wikilinks',
+                enabled: true,
+                options: {
+                    keepLinkText: true,
+                    removeExternalLinks: true
+                }
+            },
+            {
+                id: 'step-5',
+                stepType: 'remove-comments',
+                enabled: true,
+                options: {}
+            },
+            {
+                id: 'step-6',
+                stepType: 'concatenate-by-chapter',
+                enabled: true,
+                options: {
+                    chapterFormat: '# Chapter $number: $name',
+                    numberStyle: 'arabic',
+                    sceneSeparator: '\n\n#\n\n',
+                    chapterSeparator: '\n\n',
+                    includeUnassigned: false
+                }
+            },
+            {
+                id: 'step-7',
+                stepType: 'add-title-page',
+                enabled: true,
+                options: {
+                    includeWordCount: false
+                }
+            }
+        ];
+    }
+
+    /**
+     * Create Word manuscript workflow - standard manuscript format for editors and agents
+     */
+    public createDocxManuscriptWorkflow(): CompileWorkflow {
+        return {
+            id: 'docx-manuscript-workflow',
+            name: 'Word Manuscript (DOCX)',
+            description: 'Standard manuscript format Word document: title page, double-spaced prose, each chapter on a new page',
+            steps: [
+                ...this.createBookSteps(),
+                {
+                    id: 'step-8',
+                    stepType: 'export-docx',
+                    enabled: true,
+                    options: {
+                        outputPath: '$1.docx',
+                        font: 'Times New Roman'
+                    }
+                }
+            ]
+        };
+    }
+
+    /**
+     * Create EPUB workflow - e-book for e-readers and beta readers
+     */
+    public createEpubWorkflow(): CompileWorkflow {
+        return {
+            id: 'epub-workflow',
+            name: 'EPUB eBook',
+            description: 'EPUB e-book with a title page, table of contents and one section per chapter',
+            steps: [
+                ...this.createBookSteps(),
+                {
+                    id: 'step-8',
+                    stepType: 'export-epub',
+                    enabled: true,
+                    options: {
+                        outputPath: '$1.epub',
+                        language: 'en'
+                    }
+                }
+            ]
+        };
+    }
+
+    /**
+     * Create screenplay workflow - Fountain script with sluglines, character cues and a title page
+     */
+    public createScreenplayWorkflow(): CompileWorkflow {
+        return {
+            id: 'screenplay-workflow',
+            name: 'Screenplay (Fountain)',
+            description: 'Fountain screenplay: INT./EXT. sluglines from each scene\'s location and time of day, dialogue under character cues, and a title page. Optionally also a paginated PDF',
+            steps: [
+                {
+                    id: 'step-1',
+                    stepType: 'strip-frontmatter',
+                    enabled: true,
+                    options: {}
+                },
+                {
+                    id: 'step-2',
+                    stepType: 'extract-content-section',
+                    enabled: true,
+                    options: {
+                        contentHeaders: 'Content',
+                        excludeHeaders: 'Beats,Beat Sheet,Notes,Outline,Summary,Synopsis,Research',
+                        headerLevel: 2,
+                        fallbackToAll: true
+                    }
+                },
+                {
+                    id: 'step-3',
+                    stepType: 'clean-content',
+                    enabled: true,
+                    options: {
+                        removeCallouts: true,
+                        removeCodeBlocks: true,
+                        removeTags: true,
+                        removeBlockIds: true,
+                        normalizeWhitespace: true
+                    }
+                },
+                {
+                    id: 'step-4',
+                    stepType: 'remove-wikilinks',
+                    enabled: true,
+                    options: {
+                        keepLinkText: true,
+                        removeExternalLinks: true
+                    }
+                },
+                {
+                    id: 'step-5',
+                    stepType: 'remove-comments',
+                    enabled: true,
+                    options: {}
+                },
+                {
+                    id: 'step-6',
+                    stepType: 'export-fountain',
+                    enabled: true,
+                    options: {
+                        outputPath: '$1.fountain',
+                        sceneNumbers: false,
+                        exportPdf: false
+                    }
+                }
+            ]
+        };
+    }
+
+    /**
+     * Get preset workflows followed by the user's own workflows from settings
+     * (user workflows are where `user-script` steps are configured)
+     */
+    public getAllWorkflows(): CompileWorkflow[] {
+        const presets = this.getPresetWorkflows();
+        const presetIds = new Set(presets.map(w => w.id));
+        const custom = (this.plugin.settings.compileWorkflows || []).filter(w => w && !presetIds.has(w.id));
+        return [...presets, ...custom];
+    }
+
     /**
      * Get workflow by ID
      */
     public getWorkflowById(workflowId: string): CompileWorkflow | undefined {
-        const presets = this.getPresetWorkflows();
-        return presets.find(w => w.id === workflowId);
+        return this.getAllWorkflows().find(w => w.id === workflowId);
     }
 }
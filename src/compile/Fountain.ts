@@ -0,0 +1,498 @@
+/**
+ * Fountain - Builds a Fountain screenplay and a paginated screenplay PDF from compiled scenes
+ * Each scene gets an INT./EXT. slugline from its linked location and time of day. Quoted
+ * dialogue that the DialogueAnalyzer attributes to a character becomes a character cue with
+ * its dialogue; the remaining prose becomes action. The PDF follows the usual screenplay
+ * layout: US Letter, 12pt Courier, 1.5" left margin, about one page per minute.
+ */
+
+import type { Location } from '../types';
+import { DialogueAnalyzer, buildNameIndex, findQuotes, isSpeechTag } from '../utils/DialogueAnalyzer';
+import { plainRef } from '../utils/ItemCustody';
+
+/** One scene to write as screenplay */
+export interface FountainScene {
+    name: string;
+    contents: string;
+    /** Linked location name used in the slugline */
+    location?: string;
+    /** Interior (INT.) or exterior (EXT.); undefined when unknown */
+    interior?: boolean;
+    /** e.g. DAY, NIGHT, CONTINUOUS */
+    timeOfDay?: string;
+    chapterName?: string;
+    sceneNumber?: string;
+    /** Character names that may speak in the scene */
+    characters?: string[];
+}
+
+/** Fountain title page entries */
+export interface FountainTitlePage {
+    title: string;
+    credit?: string;
+    author?: string;
+    source?: string;
+    draftDate?: string;
+    contact?: string;
+}
+
+export interface FountainOptions {
+    /** Append scene numbers to sluglines (#1#) */
+    sceneNumbers?: boolean;
+    /** Add a section (# Chapter) whenever the chapter changes; sections are not printed */
+    chapterSections?: boolean;
+    /** Centered text after the last scene (leave empty for none) */
+    endMarker?: string;
+}
+
+/** Screenplay element parsed from Fountain text */
+export type FountainElement =
+    | { type: 'heading' | 'action' | 'transition' | 'centered'; text: string }
+    | { type: 'dialogue'; character: string; lines: Array<{ parenthetical: boolean; text: string }> }
+    | { type: 'pageBreak' };
+
+/** Parsed Fountain document */
+export interface FountainDocument {
+    titlePage: Array<{ key: string; value: string }>;
+    elements: FountainElement[];
+}
+
+const INTERIOR_TYPES = new Set(['building', 'room']);
+const INTERIOR_WORDS = /\b(?:interior|indoors?|building|room|house|home|inn|tavern|hall|office|shop|apartment|cabin|cellar|chamber)\b/i;
+const SCENE_BREAK_LINE = /^\s*(?:(?:[-*_]\s*){3,}|#|(?:#\s+){2,}#)\s*$/;
+const HEADING_START = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[. ]/i;
+const TITLE_KEY = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+
+/** Whether a location is indoors, judged by its hierarchy type or location type */
+export function isInteriorLocation(location: Pick<Location, 'type' | 'locationType'>): boolean {
+    return (!!location.type && INTERIOR_TYPES.has(location.type)) || INTERIOR_WORDS.test(location.locationType || '');
+}
+
+/** Slugline for a scene, e.g. "INT. RUSTY ANCHOR - NIGHT"; a forced heading when it has no location */
+export function sceneHeading(scene: FountainScene, sceneNumbers = false): string {
+    const place = plainRef(scene.location);
+    let heading = place
+        ? `${scene.interior === false ? 'EXT.' : 'INT.'} ${place.toUpperCase()}`
+        : `.${scene.name.toUpperCase()}`;
+    const time = (scene.timeOfDay || '').trim();
+    if (time) heading += ` - ${time.toUpperCase()}`;
+    if (sceneNumbers && scene.sceneNumber) heading += ` #${scene.sceneNumber}#`;
+    return heading;
+}
+
+/** Prose paragraph as a Fountain action block, forced when it would read as another element */
+function actionBlock(text: string): string {
+    const flat = text.split(/\s*\n\s*/).join(' ').trim();
+    const looksSpecial = (/[A-Z]/.test(flat) && !/[a-z]/.test(flat)) || HEADING_START.test(flat) || /^[.@!>~=#[]/.test(flat);
+    return looksSpecial ? `!${flat}` : flat;
+}
+
+function dialogueBlock(character: string, text: string): string {
+    // A quote cut short by its speech tag ("We leave at dawn," she said) ends the line
+    const spoken = text.split(/\s*\n\s*/).join(' ').trim().replace(/,$/, '.');
+    return `${character.toUpperCase()}\n${spoken}`;
+}
+
+/**
+ * Convert one scene's prose to Fountain blocks (heading not included)
+ */
+export function sceneToFountain(scene: FountainScene): string[] {
+    const cast = scene.characters || [];
+    const names = buildNameIndex(cast);
+    const attributed = new DialogueAnalyzer(cast).analyzeScene({ name: scene.name, content: scene.contents });
+    let lineIndex = 0;
+    const blocks: string[] = [];
+
+    for (const paragraph of scene.contents.split(/\n\s*\n/)) {
+        const quotes = findQuotes(paragraph);
+        // The analyzer returns one line per paragraph with quotes, in order
+        const speaker = quotes.length > 0 ? attributed[lineIndex++]?.speaker : undefined;
+        const text = paragraph.trim();
+        if (!text || SCENE_BREAK_LINE.test(text) || /^#{1,6}\s/.test(text)) continue;
+
+        if (speaker) {
+            const before = paragraph.slice(0, quotes[0].start).trim();
+            const after = quotes.slice(1).map((q, i) => paragraph.slice(quotes[i].end, q.start))
+                .concat(paragraph.slice(quotes[quotes.length - 1].end))
+                .map(segment => segment.trim())
+                .filter(segment => /\w/.test(segment) && !isSpeechTag(segment));
+            if (/\w/.test(before) && !isSpeechTag(before)) blocks.push(actionBlock(before.replace(/[,:]$/, '.')));
+            blocks.push(dialogueBlock(speaker, quotes.map(q => q.text.trim()).join(' ')));
+            if (after.length > 0) blocks.push(actionBlock(after.join(' ').replace(/^[\s,.;:—–-]+/, '')));
+            continue;
+        }
+
+        // Script-style lines: "Mara: Get down."
+        const scripted = /^([^:\n]{1,40}):\s+([\s\S]+)$/.exec(text);
+        const scriptedSpeaker = scripted ? names.get(scripted[1].trim()) : undefined;
+        if (scripted && scriptedSpeaker) {
+            blocks.push(dialogueBlock(scriptedSpeaker, scripted[2]));
+            continue;
+        }
+
+        blocks.push(actionBlock(text));
+    }
+    return blocks;
+}
+
+/**
+ * Fountain title page: "Key: Value" lines followed by a blank line
+ */
+export function buildTitlePage(page: FountainTitlePage): string {
+    const entries: Array<[string, string | undefined]> = [
+        ['Title', page.title],
+        ['Credit', page.credit || (page.author ? 'Written by' : undefined)],
+        ['Author', page.author],
+        ['Source', page.source],
+        ['Draft date', page.draftDate],
+        ['Contact', page.contact]
+    ];
+    return entries
+        .filter((entry): entry is [string, string] => !!entry[1] && entry[1].trim() !== '')
+        .map(([key, value]) => {
+            const lines = value.trim().split(/\s*\n\s*/);
+            // Multi-line values go on indented lines below the key
+            return lines.length > 1 ? `${key}:\n${lines.map(l => `    ${l}`).join('\n')}` : `${key}: ${lines[0]}`;
+        })
+        .join('\n') + '\n\n';
+}
+
+/**
+ * Complete Fountain screenplay for a list of scenes
+ */
+export function buildFountain(scenes: FountainScene[], titlePage: FountainTitlePage, options: FountainOptions = {}): string {
+    const parts: string[] = [];
+    let chapter: string | undefined;
+    for (const scene of scenes) {
+        if (options.chapterSections && scene.chapterName && scene.chapterName !== chapter) {
+            chapter = scene.chapterName;
+            parts.push(`# ${chapter}`);
+        }
+        parts.push(sceneHeading(scene, options.sceneNumbers), ...sceneToFountain(scene));
+    }
+    const endMarker = (options.endMarker || '').trim();
+    if (endMarker) parts.push(`> ${endMarker.toUpperCase()} <`);
+    return buildTitlePage(titlePage) + parts.join('\n\n') + '\n';
+}
+
+// ============================================================
+// Parsing
+// ============================================================
+
+/**
+ * Parse Fountain text into a title page and screenplay elements.
+ * Covers the elements needed for printing; notes, boneyard, sections and synopses are skipped.
+ */
+export function parseFountain(text: string): FountainDocument {
+    const lines = text.replace(/\r\n?/g, '\n').replace(/\/\*[\s\S]*?\*\//g, '').split('\n');
+    const titlePage: Array<{ key: string; value: string }> = [];
+    let i = 0;
+
+    if (TITLE_KEY.test(lines[0] || '') && !HEADING_START.test(lines[0])) {
+        for (; i < lines.length && lines[i].trim() !== ''; i++) {
+            const entry = TITLE_KEY.exec(lines[i]);
+            if (entry && !/^\s/.test(lines[i])) {
+                titlePage.push({ key: entry[1].trim(), value: entry[2].trim() });
+            } else if (titlePage.length > 0) {
+                const last = titlePage[titlePage.length - 1];
+                last.value = last.value ? `${last.value}\n${lines[i].trim()}` : lines[i].trim();
+            }
+        }
+    }
+
+    const elements: FountainElement[] = [];
+    const blank = (index: number) => index < 0 || index >= lines.length || lines[index].trim() === '';
+    while (i < lines.length) {
+        const raw = lines[i].replace(/\[\[[\s\S]*?\]\]/g, '');
+        const line = raw.trim();
+        if (line === '' || line.startsWith('#') || (line.startsWith('=') && !/^={3,}$/.test(line))) {
+            i++;
+            continue;
+        }
+        if (/^={3,}$/.test(line)) {
+            elements.push({ type: 'pageBreak' });
+            i++;
+            continue;
+        }
+        if (line.startsWith('>') && line.endsWith('<')) {
+            elements.push({ type: 'centered', text: line.slice(1, -1).trim() });
+            i++;
+            continue;
+        }
+        if (line.startsWith('>') || (/^[A-Z0-9 .'-]+ TO:$/.test(line) && blank(i - 1) && blank(i + 1))) {
+            elements.push({ type: 'transition', text: line.replace(/^>\s*/, '').toUpperCase() });
+            i++;
+            continue;
+        }
+        if (blank(i - 1) && (HEADING_START.test(line) || /^\.[^.]/.test(line))) {
+            const heading = line.replace(/^\./, '').replace(/\s*#[^#\s]+#\s*$/, '');
+            elements.push({ type: 'heading', text: heading.toUpperCase() });
+            i++;
+            continue;
+        }
+        const isCue = !line.startsWith('!') && (line.startsWith('@') || (/[A-Z]/.test(line) && !/[a-z]/.test(line.replace(/\(.*\)$/, ''))));
+        if (isCue && blank(i - 1) && !blank(i + 1)) {
+            const dialogue: Array<{ parenthetical: boolean; text: string }> = [];
+            for (i++; i < lines.length && lines[i].trim() !== ''; i++) {
+                const spoken = lines[i].trim();
+                dialogue.push({ parenthetical: /^\(.*\)$/.test(spoken), text: spoken });
+            }
+            elements.push({ type: 'dialogue', character: line.replace(/^@/, '').replace(/\s*\^$/, ''), lines: dialogue });
+            continue;
+        }
+        const action: string[] = [];
+        for (; i < lines.length && lines[i].trim() !== ''; i++) {
+            action.push(lines[i].replace(/^!/, '').trimEnd());
+        }
+        elements.push({ type: 'action', text: action.join('\n') });
+    }
+
+    return { titlePage, elements };
+}
+
+// ============================================================
+// Screenplay PDF
+// ============================================================
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 12;
+const CHAR_WIDTH = 7.2;
+const LEFT_MARGIN = 108;
+const TOP_MARGIN = 72;
+/** Lines between 1" top and bottom margins */
+const LINES_PER_PAGE = 54;
+/** Width of an action line in characters (6") */
+const PAGE_CHARS = 60;
+
+/** Indent from the left margin and wrap width, in characters */
+const LAYOUT = {
+    action: { indent: 0, width: PAGE_CHARS },
+    character: { indent: 22, width: 38 },
+    parenthetical: { indent: 16, width: 25 },
+    dialogue: { indent: 10, width: 35 }
+};
+
+interface PrintLine {
+    indent: number;
+    text: string;
+}
+
+/** Word-wrap text to a width, keeping explicit line breaks */
+export function wrapText(text: string, width: number): string[] {
+    const wrapped: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(w => w.length > 0)) {
+            if (!line) {
+                line = word;
+            } else if (line.length + 1 + word.length <= width) {
+                line += ` ${word}`;
+            } else {
+                wrapped.push(line);
+                line = word;
+            }
+            while (line.length > width) {
+                wrapped.push(line.slice(0, width));
+                line = line.slice(width);
+            }
+        }
+        wrapped.push(line);
+    }
+    return wrapped;
+}
+
+/** Strip Fountain emphasis markers; the PDF uses a single plain font */
+function plainText(text: string): string {
+    return text.replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2').replace(/\\([*_])/g, '$1');
+}
+
+function indented(text: string, layout: { indent: number; width: number }): PrintLine[] {
+    return wrapText(plainText(text), layout.width).map(line => ({ indent: layout.indent, text: line }));
+}
+
+/**
+ * Lay out screenplay elements onto pages of printed lines
+ */
+export function paginateScreenplay(elements: FountainElement[]): PrintLine[][] {
+    const pages: PrintLine[][] = [];
+    let page: PrintLine[] = [];
+    const newPage = () => {
+        pages.push(page);
+        page = [];
+    };
+    const remaining = () => LINES_PER_PAGE - page.length;
+    const blankBefore = () => page.length > 0 ? 1 : 0;
+    const append = (lines: PrintLine[]) => {
+        if (page.length > 0) page.push({ indent: 0, text: '' });
+        page.push(...lines);
+    };
+
+    elements.forEach(element => {
+        switch (element.type) {
+            case 'pageBreak':
+                if (page.length > 0) newPage();
+                return;
+            case 'heading': {
+                // Keep a heading with at least two lines of what follows
+                const lines = indented(element.text, LAYOUT.action);
+                if (lines.length + blankBefore() + 3 > remaining() && page.length > 0) newPage();
+                append(lines);
+                return;
+            }
+            case 'transition':
+            case 'centered': {
+                const lines = wrapText(plainText(element.text), PAGE_CHARS).map(text => ({
+                    indent: element.type === 'transition'
+                        ? PAGE_CHARS - text.length
+                        : Math.floor((PAGE_CHARS - text.length) / 2),
+                    text
+                }));
+                if (lines.length + blankBefore() > remaining()) newPage();
+                append(lines);
+                return;
+            }
+            case 'action': {
+                let lines = indented(element.text, LAYOUT.action);
+                while (lines.length + blankBefore() > remaining()) {
+                    // Split long action at the page end, leaving at least two lines on each side
+                    const room = remaining() - blankBefore();
+                    if (room < 2 || lines.length - room < 2) {
+                        newPage();
+                        break;
+                    }
+                    append(lines.slice(0, room));
+                    lines = lines.slice(room);
+                    newPage();
+                }
+                append(lines);
+                return;
+            }
+            case 'dialogue': {
+                const cue = element.character.toUpperCase();
+                let body: PrintLine[] = [];
+                element.lines.forEach(line => {
+                    body.push(...indented(line.text, line.parenthetical ? LAYOUT.parenthetical : LAYOUT.dialogue));
+                });
+                let cueLine: PrintLine = { indent: LAYOUT.character.indent, text: cue };
+                while (body.length + 1 + blankBefore() > remaining()) {
+                    // Break long speeches with (MORE) / (CONT'D); otherwise move the whole block
+                    const room = remaining() - blankBefore() - 2;
+                    if (room < 2 || body.length - room < 2) {
+                        newPage();
+                        break;
+                    }
+                    append([cueLine, ...body.slice(0, room), { indent: LAYOUT.character.indent, text: '(MORE)' }]);
+                    body = body.slice(room);
+                    cueLine = { indent: LAYOUT.character.indent, text: `${cue} (CONT'D)` };
+                    newPage();
+                }
+                append([cueLine, ...body]);
+                return;
+            }
+        }
+    });
+    if (page.length > 0 || pages.length === 0) pages.push(page);
+    return pages;
+}
+
+/** Map text to the WinAnsi characters the standard Courier font can show */
+function toWinAnsi(text: string): string {
+    return text
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/—/g, '--')
+        .replace(/–/g, '-')
+        .replace(/…/g, '...')
+        .replace(/\u00A0/g, ' ')
+        .replace(/[^\x20-\x7E\xA1-\xFF]/g, '?');
+}
+
+function pdfString(text: string): string {
+    return `(${toWinAnsi(text).replace(/[\\()]/g, '\\$&')})`;
+}
+
+function textAt(x: number, y: number, text: string): string {
+    return `BT /F1 ${FONT_SIZE} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`;
+}
+
+/** Baseline of a line counted from the top margin */
+function lineY(line: number): number {
+    return PAGE_HEIGHT - TOP_MARGIN - (line + 1) * LINE_HEIGHT + 3;
+}
+
+function titlePageContent(entries: Array<{ key: string; value: string }>): string {
+    const value = (key: string) => entries.find(e => e.key.toLowerCase() === key)?.value;
+    const commands: string[] = [];
+    const centered = (text: string, line: number) => {
+        const x = LEFT_MARGIN + ((PAGE_CHARS - text.length) * CHAR_WIDTH) / 2;
+        commands.push(textAt(x, lineY(line), text));
+    };
+    let line = 18;
+    (value('title') || '').split('\n').forEach(text => centered(text.toUpperCase(), line++));
+    line += 3;
+    ['credit', 'author', 'authors', 'source'].forEach(key => {
+        const text = value(key);
+        if (!text) return;
+        text.split('\n').forEach(part => centered(part, line++));
+        line++;
+    });
+    const bottom = ['contact', 'copyright'].map(value).filter((v): v is string => !!v).join('\n').split('\n').filter(Boolean);
+    bottom.forEach((text, i) => commands.push(textAt(LEFT_MARGIN, lineY(LINES_PER_PAGE - bottom.length + i), text)));
+    const draft = value('draft date');
+    if (draft) {
+        commands.push(textAt(PAGE_WIDTH - 72 - draft.length * CHAR_WIDTH, lineY(LINES_PER_PAGE - 1), draft));
+    }
+    return commands.join('\n');
+}
+
+/**
+ * Render Fountain text as a paginated screenplay PDF
+ * Page numbers appear top right from page 2; the title page is unnumbered.
+ */
+export function buildScreenplayPdf(fountain: string, info: { title?: string; author?: string } = {}): Uint8Array {
+    const doc = parseFountain(fountain);
+    const contents: string[] = [];
+    if (doc.titlePage.length > 0) contents.push(titlePageContent(doc.titlePage));
+    paginateScreenplay(doc.elements).forEach((lines, index) => {
+        const commands = lines
+            .map((line, i) => line.text ? textAt(LEFT_MARGIN + line.indent * CHAR_WIDTH, lineY(i), line.text) : '')
+            .filter(Boolean);
+        if (index > 0) {
+            const number = `${index + 1}.`;
+            commands.push(textAt(PAGE_WIDTH - 72 - number.length * CHAR_WIDTH, PAGE_HEIGHT - 36 - 9, number));
+        }
+        contents.push(commands.join('\n'));
+    });
+
+    // Objects: 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content stream per page
+    const objects: string[] = [];
+    const pageIds = contents.map((_, i) => 5 + i * 2);
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+    const title = info.title || doc.titlePage.find(e => e.key.toLowerCase() === 'title')?.value || '';
+    const author = info.author || doc.titlePage.find(e => e.key.toLowerCase() === 'author')?.value || '';
+    objects.push(`<< /Title ${pdfString(title)} /Author ${pdfString(author)} /Producer (Storyteller Suite) >>`);
+    contents.forEach((content, i) => {
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every character is WinAnsi (single byte) by now
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+    return bytes;
+}
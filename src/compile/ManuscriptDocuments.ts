@@ -0,0 +1,485 @@
+/**
+ * ManuscriptDocuments - Builds DOCX and EPUB files from a compiled manuscript
+ * The markdown manuscript is split into chapters (using the boundaries recorded by
+ * concatenate-by-chapter), parsed into simple blocks and rendered into each format.
+ */
+
+import type { ManuscriptCompileInput } from '../types';
+import { createZip } from './ZipWriter';
+
+/** Run of inline text with emphasis */
+export interface TextRun {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+}
+
+/** Block-level element of a chapter body */
+export type ManuscriptBlock =
+    | { type: 'paragraph'; runs: TextRun[] }
+    | { type: 'heading'; level: number; runs: TextRun[] }
+    | { type: 'quote'; runs: TextRun[] }
+    | { type: 'break' };
+
+/** One chapter (or untitled opening section) of the manuscript */
+export interface ManuscriptSection {
+    title?: string;
+    blocks: ManuscriptBlock[];
+}
+
+/** Everything the DOCX/EPUB writers need */
+export interface ManuscriptDocument {
+    title: string;
+    author: string;
+    wordCount: number;
+    sections: ManuscriptSection[];
+}
+
+const SCENE_BREAK_LINE = /^\s*(?:(?:[-*_]\s*){3,}|#|(?:#\s+){2,}#)\s*$/;
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/** Count words the same way the compile engine does for stats */
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/**
+ * Parse inline markdown emphasis into runs; links are reduced to their text
+ */
+export function parseInline(text: string): TextRun[] {
+    const cleaned = text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+        .replace(/\[\[([^\]]+)\]\]/g, '$1');
+
+    const runs: TextRun[] = [];
+    const pattern = /(\*\*\*|___|\*\*|__|\*|_)(\S(?:.*?\S)?)\1/g;
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(cleaned)) !== null) {
+        // Skip intra-word underscores such as snake_case, retrying from the next character so
+        // the skipped match does not swallow the opening marker of a later one
+        const end = match.index + match[0].length;
+        if (match[1].startsWith('_') && (/\w/.test(cleaned.charAt(match.index - 1)) || /\w/.test(cleaned.charAt(end)))) {
+            pattern.lastIndex = match.index + 1;
+            continue;
+        }
+        if (match.index > last) runs.push({ text: cleaned.slice(last, match.index) });
+        const marker = match[1];
+        runs.push({
+            text: match[2],
+            bold: marker.length >= 2 || undefined,
+            italic: marker.length !== 2 || undefined
+        });
+        last = end;
+    }
+    if (last < cleaned.length) runs.push({ text: cleaned.slice(last) });
+    return runs.filter(r => r.text.length > 0);
+}
+
+/**
+ * Parse a chapter body into paragraphs, headings, block quotes and scene breaks
+ */
+export function parseBlocks(markdown: string): ManuscriptBlock[] {
+    const blocks: ManuscriptBlock[] = [];
+    let paragraph: string[] = [];
+    let quote: string[] = [];
+
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+        if (quote.length > 0) blocks.push({ type: 'quote', runs: parseInline(quote.join(' ')) });
+        paragraph = [];
+        quote = [];
+    };
+
+    for (const rawLine of markdown.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) {
+            flush();
+            continue;
+        }
+        if (SCENE_BREAK_LINE.test(line)) {
+            flush();
+            // Collapse repeated breaks and never start a section with one
+            if (blocks.length > 0 && blocks[blocks.length - 1].type !== 'break') blocks.push({ type: 'break' });
+            continue;
+        }
+        const heading = line.match(HEADING_LINE);
+        if (heading) {
+            flush();
+            blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+            continue;
+        }
+        if (line.startsWith('>')) {
+            if (paragraph.length > 0) flush();
+            quote.push(line.replace(/^>\s?/, ''));
+            continue;
+        }
+        if (quote.length > 0) flush();
+        paragraph.push(line);
+    }
+    flush();
+
+    while (blocks.length > 0 && blocks[blocks.length - 1].type === 'break') blocks.pop();
+    return blocks;
+}
+
+/**
+ * Split the manuscript into sections at chapter boundaries.
+ * Front matter added by add-title-page/apply-template is dropped, since the
+ * exports render their own title page. Without recorded chapters, level-one
+ * headings are treated as chapter starts.
+ */
+export function splitManuscript(input: ManuscriptCompileInput): ManuscriptSection[] {
+    let contents = input.contents;
+    const frontMatter = input.metadata?.frontMatter;
+    if (frontMatter && contents.startsWith(frontMatter)) {
+        contents = contents.slice(frontMatter.length);
+    }
+    const lines = contents.split(/\r?\n/);
+
+    // Line index where each chapter starts
+    const starts: Array<{ line: number; title: string }> = [];
+    if (input.chapters && input.chapters.length > 0) {
+        let from = 0;
+        for (const chapter of input.chapters) {
+            for (let i = from; i < lines.length; i++) {
+                const line = lines[i].trim();
+                if (line === chapter.heading || line.replace(/^#+\s*/, '') === chapter.title) {
+                    starts.push({ line: i, title: chapter.title });
+                    from = i + 1;
+                    break;
+                }
+            }
+        }
+    } else {
+        lines.forEach((line, i) => {
+            const match = line.match(/^#\s+(.+?)\s*$/);
+            if (match) starts.push({ line: i, title: match[1] });
+        });
+    }
+
+    const sections: ManuscriptSection[] = [];
+    const opening = parseBlocks(lines.slice(0, starts.length > 0 ? starts[0].line : lines.length).join('\n'));
+    if (opening.length > 0) sections.push({ blocks: opening });
+
+    starts.forEach((start, i) => {
+        const end = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+        sections.push({ title: start.title, blocks: parseBlocks(lines.slice(start.line + 1, end).join('\n')) });
+    });
+    return sections;
+}
+
+/**
+ * Build the document model for the writers
+ * @param fallbackTitle Used when no title was recorded by add-title-page/apply-template
+ */
+export function buildManuscriptDocument(
+    input: ManuscriptCompileInput,
+    fallbackTitle: string,
+    fallbackAuthor = ''
+): ManuscriptDocument {
+    const sections = splitManuscript(input);
+    const bodyText = sections
+        .flatMap(s => s.blocks)
+        .map(b => ('runs' in b ? b.runs.map(r => r.text).join('') : ''))
+        .join(' ');
+    return {
+        title: input.metadata?.title || fallbackTitle,
+        author: input.metadata?.author || fallbackAuthor,
+        wordCount: countWords(bodyText),
+        sections
+    };
+}
+
+/** Escape text for XML content and attribute values */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/** Word count as shown on a manuscript title page ("about 85,000 words") */
+export function approximateWordCount(count: number): string {
+    const step = count < 10000 ? 100 : 1000;
+    const rounded = Math.max(step, Math.round(count / step) * step);
+    return `about ${rounded.toLocaleString('en-US')} words`;
+}
+
+// ============================================================
+// DOCX (standard manuscript format)
+// ============================================================
+
+export interface DocxOptions {
+    /** Body font; standard manuscript format uses Times New Roman or Courier */
+    font?: string;
+    /** Text closing the manuscript */
+    endMarker?: string;
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function docxRuns(runs: TextRun[]): string {
+    return runs.map(run => {
+        const props = `${run.bold ? '<w:b/>' : ''}${run.italic ? '<w:i/>' : ''}`;
+        return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+    }).join('');
+}
+
+function docxParagraph(content: string, style?: string, extraProps = ''): string {
+    const props = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProps}`;
+    return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function docxStyles(font: string): string {
+    const f = escapeXml(font);
+    return XML_HEADER + `<w:styles xmlns:w="${W_NS}">` +
+        '<w:docDefaults>' +
+        `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${f}" w:hAnsi="${f}" w:cs="${f}" w:eastAsia="${f}"/>` +
+        '<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+        '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="480" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+        '</w:docDefaults>' +
+        '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/>' +
+        '<w:pPr><w:ind w:firstLine="720"/></w:pPr></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="TitlePageText"><w:name w:val="Title Page Text"/><w:basedOn w:val="Normal"/>' +
+        '<w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/></w:pPr></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+        '<w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="2880" w:after="480"/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+        '<w:pPr><w:keepNext/><w:ind w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="SceneBreak"><w:name w:val="Scene Break"/><w:basedOn w:val="Normal"/>' +
+        '<w:pPr><w:ind w:firstLine="0"/><w:jc w:val="center"/></w:pPr></w:style>' +
+        '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/>' +
+        '<w:pPr><w:ind w:left="720" w:right="720" w:firstLine="0"/></w:pPr></w:style>' +
+        '</w:styles>';
+}
+
+function docxHeader(doc: ManuscriptDocument): string {
+    const surname = doc.author.trim().split(/\s+/).pop() || '';
+    const keyword = doc.title.toUpperCase();
+    const label = [surname, keyword].filter(Boolean).join(' / ') + ' / ';
+    return XML_HEADER + `<w:hdr xmlns:w="${W_NS}">` +
+        '<w:p><w:pPr><w:spacing w:line="240" w:lineRule="auto"/><w:ind w:firstLine="0"/><w:jc w:val="right"/></w:pPr>' +
+        `<w:r><w:t xml:space="preserve">${escapeXml(label)}</w:t></w:r>` +
+        '<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> PAGE </w:instrText></w:r>' +
+        '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>1</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>' +
+        '</w:p></w:hdr>';
+}
+
+function docxBody(doc: ManuscriptDocument, endMarker: string): string {
+    const parts: string[] = [];
+
+    // Title page: contact line with word count, then title and byline centred mid-page
+    const text = (value: string) => `<w:r><w:t xml:space="preserve">${escapeXml(value)}</w:t></w:r>`;
+    parts.push(docxParagraph(
+        `${text(doc.author)}<w:r><w:tab/></w:r>${text(approximateWordCount(doc.wordCount))}`,
+        'TitlePageText',
+        '<w:tabs><w:tab w:val="right" w:pos="9360"/></w:tabs>'
+    ));
+    parts.push(docxParagraph(text(doc.title), 'TitlePageText', '<w:spacing w:before="4320" w:after="240"/><w:jc w:val="center"/>'));
+    if (doc.author) {
+        parts.push(docxParagraph(text(`by ${doc.author}`), 'TitlePageText', '<w:jc w:val="center"/>'));
+    }
+
+    doc.sections.forEach(section => {
+        // Every section starts on a new page; untitled ones get an empty heading-less break
+        if (section.title) {
+            parts.push(docxParagraph(docxRuns(parseInline(section.title)), 'Heading1'));
+        } else {
+            parts.push(docxParagraph('', undefined, '<w:pageBreakBefore/>'));
+        }
+        for (const block of section.blocks) {
+            if (block.type === 'paragraph') parts.push(docxParagraph(docxRuns(block.runs)));
+            else if (block.type === 'quote') parts.push(docxParagraph(docxRuns(block.runs), 'Quote'));
+            else if (block.type === 'heading') parts.push(docxParagraph(docxRuns(block.runs), 'Heading2'));
+            else parts.push(docxParagraph(text('#'), 'SceneBreak'));
+        }
+    });
+
+    if (endMarker) parts.push(docxParagraph(text(endMarker), 'SceneBreak'));
+
+    return XML_HEADER + `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>` +
+        parts.join('') +
+        '<w:sectPr><w:headerReference w:type="default" r:id="rId2"/>' +
+        '<w:pgSz w:w="12240" w:h="15840"/>' +
+        '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+        '<w:titlePg/></w:sectPr>' +
+        '</w:body></w:document>';
+}
+
+/**
+ * Build a .docx in standard manuscript format: 12pt, double-spaced, one-inch margins,
+ * indented paragraphs, chapters on new pages and a "Surname / TITLE / page" header
+ */
+export function buildDocx(doc: ManuscriptDocument, options: DocxOptions = {}, created: Date = new Date()): Uint8Array {
+    const font = options.font || 'Times New Roman';
+    const stamp = created.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    return createZip([
+        {
+            path: '[Content_Types].xml',
+            data: XML_HEADER + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+                '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+                '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' +
+                '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+                '</Types>'
+        },
+        {
+            path: '_rels/.rels',
+            data: XML_HEADER + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+                '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+                '</Relationships>'
+        },
+        {
+            path: 'docProps/core.xml',
+            data: XML_HEADER + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+                'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+                'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+                `<dc:title>${escapeXml(doc.title)}</dc:title><dc:creator>${escapeXml(doc.author)}</dc:creator>` +
+                `<dcterms:created xsi:type="dcterms:W3CDTF">${stamp}</dcterms:created>` +
+                `<dcterms:modified xsi:type="dcterms:W3CDTF">${stamp}</dcterms:modified>` +
+                '</cp:coreProperties>'
+        },
+        {
+            path: 'word/_rels/document.xml.rels',
+            data: XML_HEADER + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+                '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+                '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>' +
+                '</Relationships>'
+        },
+        { path: 'word/styles.xml', data: docxStyles(font) },
+        { path: 'word/header1.xml', data: docxHeader(doc) },
+        { path: 'word/document.xml', data: docxBody(doc, options.endMarker ?? 'END') }
+    ], created);
+}
+
+// ============================================================
+// EPUB 3
+// ============================================================
+
+export interface EpubOptions {
+    /** BCP 47 language tag */
+    language?: string;
+    /** Stable unique identifier for the book */
+    identifier: string;
+}
+
+const EPUB_CSS = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 3em 0 1.5em; page-break-before: always; }
+h2 { text-align: center; font-size: 1.1em; margin: 1.5em 0 1em; }
+p { margin: 0; text-indent: 1.5em; text-align: justify; }
+h1 + p, h2 + p, hr + p, blockquote + p { text-indent: 0; }
+blockquote { margin: 1em 2em; font-style: italic; }
+hr.scene-break { border: none; margin: 1.5em 0; text-align: center; }
+hr.scene-break::after { content: "* * *"; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page h1 { page-break-before: avoid; margin-bottom: 0.5em; }
+.title-page .author { text-indent: 0; text-align: center; font-size: 1.2em; }
+`;
+
+function xhtmlRuns(runs: TextRun[]): string {
+    return runs.map(run => {
+        let html = escapeXml(run.text);
+        if (run.italic) html = `<em>${html}</em>`;
+        if (run.bold) html = `<strong>${html}</strong>`;
+        return html;
+    }).join('');
+}
+
+function xhtmlPage(title: string, language: string, body: string): string {
+    return '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>\n' +
+        `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">\n` +
+        `<head><meta charset="UTF-8"/><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>\n` +
+        `<body>\n${body}\n</body>\n</html>\n`;
+}
+
+function xhtmlSection(section: ManuscriptSection): string {
+    const parts: string[] = [];
+    if (section.title) parts.push(`<h1>${xhtmlRuns(parseInline(section.title))}</h1>`);
+    for (const block of section.blocks) {
+        if (block.type === 'paragraph') parts.push(`<p>${xhtmlRuns(block.runs)}</p>`);
+        else if (block.type === 'quote') parts.push(`<blockquote><p>${xhtmlRuns(block.runs)}</p></blockquote>`);
+        else if (block.type === 'heading') parts.push(`<h2>${xhtmlRuns(block.runs)}</h2>`);
+        else parts.push('<hr class="scene-break"/>');
+    }
+    return `<section epub:type="chapter">\n${parts.join('\n')}\n</section>`;
+}
+
+/**
+ * Build an EPUB 3 book with a title page, one XHTML file per chapter, a navigation
+ * document and an NCX table of contents for older readers
+ */
+export function buildEpub(doc: ManuscriptDocument, options: EpubOptions, modified: Date = new Date()): Uint8Array {
+    const language = options.language || 'en';
+    const stamp = modified.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const chapters = doc.sections.map((section, i) => ({
+        id: `chapter-${i + 1}`,
+        href: `chapter-${i + 1}.xhtml`,
+        label: section.title ? parseInline(section.title).map(r => r.text).join('') : doc.title,
+        section
+    }));
+
+    const titleBody = '<section epub:type="titlepage" class="title-page">\n' +
+        `<h1>${escapeXml(doc.title)}</h1>\n` +
+        (doc.author ? `<p class="author">${escapeXml(doc.author)}</p>\n` : '') +
+        '</section>';
+
+    const nav = '<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n<ol>\n' +
+        chapters.map(c => `<li><a href="${c.href}">${escapeXml(c.label)}</a></li>`).join('\n') +
+        '\n</ol>\n</nav>';
+
+    const ncx = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">\n' +
+        `<head><meta name="dtb:uid" content="${escapeXml(options.identifier)}"/></head>\n` +
+        `<docTitle><text>${escapeXml(doc.title)}</text></docTitle>\n<navMap>\n` +
+        chapters.map((c, i) =>
+            `<navPoint id="nav-${i + 1}" playOrder="${i + 1}"><navLabel><text>${escapeXml(c.label)}</text></navLabel><content src="${c.href}"/></navPoint>`
+        ).join('\n') +
+        '\n</navMap>\n</ncx>\n';
+
+    const opf = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" xml:lang="${escapeXml(language)}">\n` +
+        '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n' +
+        `<dc:identifier id="bookid">${escapeXml(options.identifier)}</dc:identifier>\n` +
+        `<dc:title>${escapeXml(doc.title)}</dc:title>\n` +
+        (doc.author ? `<dc:creator>${escapeXml(doc.author)}</dc:creator>\n` : '') +
+        `<dc:language>${escapeXml(language)}</dc:language>\n` +
+        `<meta property="dcterms:modified">${stamp}</meta>\n` +
+        '</metadata>\n<manifest>\n' +
+        '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>\n' +
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>\n' +
+        '<item id="css" href="style.css" media-type="text/css"/>\n' +
+        '<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>\n' +
+        chapters.map(c => `<item id="${c.id}" href="${c.href}" media-type="application/xhtml+xml"/>`).join('\n') +
+        '\n</manifest>\n<spine toc="ncx">\n<itemref idref="title"/>\n' +
+        chapters.map(c => `<itemref idref="${c.id}"/>`).join('\n') +
+        '\n</spine>\n</package>\n';
+
+    return createZip([
+        // The mimetype entry must come first and be stored uncompressed
+        { path: 'mimetype', data: 'application/epub+zip' },
+        {
+            path: 'META-INF/container.xml',
+            data: '<?xml version="1.0" encoding="UTF-8"?>\n' +
+                '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">' +
+                '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>' +
+                '</container>\n'
+        },
+        { path: 'OEBPS/content.opf', data: opf },
+        { path: 'OEBPS/toc.ncx', data: ncx },
+        { path: 'OEBPS/nav.xhtml', data: xhtmlPage('Contents', language, nav) },
+        { path: 'OEBPS/style.css', data: EPUB_CSS },
+        { path: 'OEBPS/title.xhtml', data: xhtmlPage(doc.title, language, titleBody) },
+        ...chapters.map(c => ({ path: `OEBPS/${c.href}`, data: xhtmlPage(c.label, language, xhtmlSection(c.section)) }))
+    ], modified);
+}
@@ -3,9 +3,12 @@
  * Provides functionality similar to Longform's scene ordering system
  */
 
-import { TFile } from 'obsidian';
+import { TFile, normalizePath } from 'obsidian';
 import type StorytellerSuitePlugin from '../main';
-import type { Scene, Story, StoryDraft, IndentedSceneRef, Chapter } from '../types';
+import type { Scene, Story, StoryDraft, IndentedSceneRef, Chapter, DraftSnapshot, SnapshotSceneRef } from '../types';
+
+/** Extension of archived scene copies; anything but .md keeps them out of Obsidian's index */
+const SNAPSHOT_EXTENSION = 'txt';
 
 /**
  * Represents a scene with its ordering metadata
@@ -35,6 +38,14 @@ export interface SceneDiscoveryResult {
     existing: Scene[];
 }
 
+/**
+ * One archived version of a scene
+ */
+export interface SceneRevision {
+    snapshot: DraftSnapshot;
+    ref: SnapshotSceneRef;
+}
+
 /**
  * Manages scene ordering for manuscripts
  */
@@ -585,6 +596,147 @@ export class SceneOrderManager {
         await this.plugin.saveSettings();
     }
 
+    /**
+     * Get snapshots of a draft, newest first
+     */
+    getSnapshots(draftId: string): DraftSnapshot[] {
+        return (this.plugin.settings.draftSnapshots || [])
+            .filter(snap => snap.draftId === draftId)
+            .sort((a, b) => b.version - a.version);
+    }
+
+    /**
+     * Freeze the text of every scene in a draft into a versioned archive folder.
+     * Copies are saved as plain text, not markdown, so Obsidian does not index them:
+     * their tags and links stay out of search, the graph and tag scans, and renames
+     * do not rewrite links inside them.
+     */
+    async createSnapshot(draft: StoryDraft, name?: string): Promise<DraftSnapshot> {
+        const version = this.getSnapshots(draft.id).reduce((max, snap) => Math.max(max, snap.version), 0) + 1;
+        const folder = normalizePath(`${this.getArchiveFolder()}/${this.safeFileName(draft.name)}/v${version}`);
+        await this.plugin.ensureFolder(folder);
+
+        const vault = this.plugin.app.vault;
+        const scenes = await this.plugin.listScenes();
+        const usedNames = new Set<string>();
+        const refs: SnapshotSceneRef[] = [];
+
+        for (const ref of draft.sceneOrder) {
+            const scene = scenes.find(s => s.id === ref.sceneId || s.name === ref.sceneId);
+            if (!scene) continue;
+
+            const text = await this.readLiveSceneText(scene);
+            let baseName = this.safeFileName(scene.name);
+            for (let n = 2; usedNames.has(baseName.toLowerCase()); n++) {
+                baseName = `${this.safeFileName(scene.name)} ${n}`;
+            }
+            usedNames.add(baseName.toLowerCase());
+
+            const path = `${folder}/${baseName}.${SNAPSHOT_EXTENSION}`;
+            const existing = vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await vault.modify(existing, text);
+            } else {
+                await vault.create(path, text);
+            }
+
+            refs.push({
+                ...ref,
+                name: scene.name,
+                chapterName: scene.chapterName,
+                path,
+                wordCount: text.split(/\s+/).filter(w => w.length > 0).length
+            });
+        }
+
+        const snapshot: DraftSnapshot = {
+            id: `snapshot-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            draftId: draft.id,
+            storyId: draft.storyId,
+            version,
+            name: name || `${draft.name} v${version}`,
+            folder,
+            scenes: refs,
+            created: new Date().toISOString()
+        };
+
+        if (!this.plugin.settings.draftSnapshots) {
+            this.plugin.settings.draftSnapshots = [];
+        }
+        this.plugin.settings.draftSnapshots.push(snapshot);
+        await this.plugin.saveSettings();
+
+        return snapshot;
+    }
+
+    /**
+     * Delete a snapshot and move its archive folder to the trash
+     */
+    async deleteSnapshot(snapshotId: string): Promise<void> {
+        const snapshots = this.plugin.settings.draftSnapshots || [];
+        const snapshot = snapshots.find(snap => snap.id === snapshotId);
+        if (!snapshot) return;
+
+        const folder = this.plugin.app.vault.getAbstractFileByPath(snapshot.folder);
+        if (folder) {
+            await this.plugin.app.vault.trash(folder, true);
+        }
+        this.plugin.settings.draftSnapshots = snapshots.filter(snap => snap.id !== snapshotId);
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Archived versions of a scene across every draft of its story, newest first
+     */
+    getSceneRevisions(storyId: string, sceneId: string): SceneRevision[] {
+        const revisions: SceneRevision[] = [];
+        (this.plugin.settings.draftSnapshots || [])
+            .filter(snap => snap.storyId === storyId)
+            .forEach(snapshot => {
+                const ref = snapshot.scenes.find(r => r.sceneId === sceneId);
+                if (ref) revisions.push({ snapshot, ref });
+            });
+        return revisions.sort((a, b) => b.snapshot.created.localeCompare(a.snapshot.created));
+    }
+
+    /**
+     * Read the archived text of a scene; empty when the archive file is gone
+     */
+    async readSnapshotText(ref: SnapshotSceneRef): Promise<string> {
+        const file = this.plugin.app.vault.getAbstractFileByPath(ref.path);
+        return file instanceof TFile ? this.plugin.app.vault.read(file) : '';
+    }
+
+    /**
+     * Read the current text of a scene from its file
+     */
+    async readLiveSceneText(scene: Scene): Promise<string> {
+        if (scene.filePath) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(scene.filePath);
+            if (file instanceof TFile) {
+                return this.plugin.app.vault.read(file);
+            }
+        }
+        return scene.content || '';
+    }
+
+    /**
+     * Folder that holds snapshot archives, next to the scene folder so archived
+     * copies are not picked up as scenes
+     */
+    private getArchiveFolder(): string {
+        const sceneFolder = normalizePath(this.plugin.getEntityFolder('scene'));
+        const parent = sceneFolder.includes('/') ? sceneFolder.substring(0, sceneFolder.lastIndexOf('/')) : '';
+        return parent ? `${parent}/Archive` : 'Archive';
+    }
+
+    /**
+     * Strip characters that are not allowed in vault file names
+     */
+    private safeFileName(name: string): string {
+        return name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Untitled';
+    }
+
     /**
      * Get the current scene based on the active file
      */
@@ -0,0 +1,174 @@
+/**
+ * UserScriptLoader - Loads custom compile steps from JavaScript files in the vault
+ * A script assigns a CompileStepDefinition-shaped object to `module.exports`:
+ *
+ *   module.exports = {
+ *       name: 'Smart Quotes',
+ *       description: 'Replace straight quotes with curly quotes',
+ *       availableKinds: ['scene', 'manuscript'],
+ *       options: [{ id: 'single', name: 'Single quotes', description: '', type: 'boolean', default: true }],
+ *       compile: async (input, context) => input
+ *   };
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import type {
+    CompileStepConfig,
+    CompileStepDefinition,
+    CompileStepKind,
+    CompileStepOption,
+    CompileWorkflow,
+    SceneCompileInput,
+    ManuscriptCompileInput
+} from '../types';
+
+const STEP_KINDS: CompileStepKind[] = ['scene', 'join', 'manuscript'];
+const OPTION_TYPES: CompileStepOption['type'][] = ['text', 'boolean', 'number', 'select'];
+
+/**
+ * Evaluate script source as a CommonJS module and return its export
+ * (`module.exports`, or its `default` when the script was transpiled from ESM)
+ */
+export function evaluateUserScript(source: string, scriptPath: string): unknown {
+    const module: { exports: unknown } = { exports: {} };
+    const factory = new Function('module', 'exports', `${source}\n//# sourceURL=${scriptPath}`);
+    factory(module, module.exports);
+
+    const exported = module.exports as Record<string, unknown> | null;
+    if (exported && typeof exported === 'object' && 'default' in exported) {
+        return exported.default;
+    }
+    return exported;
+}
+
+/**
+ * Check that an exported value is a usable step definition
+ * @returns Human readable problems; empty when the definition is valid
+ */
+export function validateUserScriptStep(value: unknown): string[] {
+    if (!value || typeof value !== 'object') {
+        return ['Script must assign an object to module.exports'];
+    }
+    const def = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof def.compile !== 'function') {
+        errors.push('Missing compile function');
+    }
+    if (!Array.isArray(def.availableKinds) || def.availableKinds.length === 0) {
+        errors.push('availableKinds must list at least one of scene, join, manuscript');
+    } else {
+        const invalid = def.availableKinds.filter(k => !STEP_KINDS.includes(k as CompileStepKind));
+        if (invalid.length > 0) errors.push(`Unknown step kinds: ${invalid.join(', ')}`);
+    }
+    if (def.name !== undefined && typeof def.name !== 'string') {
+        errors.push('name must be a string');
+    }
+    if (def.options !== undefined) {
+        if (!Array.isArray(def.options)) {
+            errors.push('options must be an array');
+        } else {
+            def.options.forEach((option, i) => {
+                const opt = option as Partial<CompileStepOption> | null;
+                if (!opt || typeof opt.id !== 'string' || !opt.id) {
+                    errors.push(`Option ${i + 1} is missing an id`);
+                } else if (!opt.type || !OPTION_TYPES.includes(opt.type)) {
+                    errors.push(`Option "${opt.id}" has an invalid type`);
+                }
+            });
+        }
+    }
+    return errors;
+}
+
+/**
+ * Evaluate and validate a script, filling in defaults for the optional fields
+ * @throws Error when the script fails to evaluate or does not export a valid step
+ */
+export function createUserScriptStep(source: string, scriptPath: string): CompileStepDefinition {
+    let exported: unknown;
+    try {
+        exported = evaluateUserScript(source, scriptPath);
+    } catch (error) {
+        throw new Error(`Script error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const errors = validateUserScriptStep(exported);
+    if (errors.length > 0) {
+        throw new Error(`Invalid compile step: ${errors.join('; ')}`);
+    }
+
+    const def = exported as Partial<CompileStepDefinition>;
+    const baseName = scriptPath.split('/').pop()?.replace(/\.js$/i, '') || scriptPath;
+    return {
+        id: `user-script:${scriptPath}`,
+        name: def.name || baseName,
+        description: def.description || '',
+        availableKinds: def.availableKinds as CompileStepKind[],
+        options: def.options || [],
+        compile: def.compile as CompileStepDefinition['compile']
+    };
+}
+
+/**
+ * Read a script from the vault and turn it into a step definition
+ * @throws Error when the file is missing or the script is invalid
+ */
+export async function loadUserScriptStep(app: App, scriptPath: string): Promise<CompileStepDefinition> {
+    if (!scriptPath) {
+        throw new Error('No script path configured');
+    }
+    const path = normalizePath(scriptPath);
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        throw new Error(`Script not found: ${path}`);
+    }
+    const source = await app.vault.read(file);
+    return createUserScriptStep(source, path);
+}
+
+/**
+ * Check the value a user script returned against what its kind must produce
+ * @throws Error describing the mismatch
+ */
+export function checkUserScriptOutput(
+    output: unknown,
+    kind: CompileStepKind
+): SceneCompileInput[] | ManuscriptCompileInput {
+    if (kind === 'scene') {
+        const valid = Array.isArray(output) &&
+            output.every(s => s && typeof s === 'object' && typeof (s as SceneCompileInput).contents === 'string');
+        if (!valid) throw new Error('Scene steps must return an array of scenes with string contents');
+        return output as SceneCompileInput[];
+    }
+    if (!output || typeof output !== 'object' || typeof (output as ManuscriptCompileInput).contents !== 'string') {
+        throw new Error(`${kind === 'join' ? 'Join' : 'Manuscript'} steps must return an object with string contents`);
+    }
+    return output as ManuscriptCompileInput;
+}
+
+/**
+ * Copy of a workflow with a user-script step for the given script. The step goes before the
+ * first join step, so the script receives scenes; it is appended when the workflow never joins.
+ * @param isJoinStep Whether a step type joins scenes into a manuscript
+ */
+export function addUserScriptStep(
+    workflow: CompileWorkflow,
+    scriptPath: string,
+    isJoinStep: (stepType: string) => boolean
+): CompileWorkflow {
+    const ids = new Set(workflow.steps.map(step => step.id));
+    let n = 1;
+    while (ids.has(`user-script-${n}`)) n++;
+    const step: CompileStepConfig = {
+        id: `user-script-${n}`,
+        stepType: 'user-script',
+        enabled: true,
+        options: { scriptPath: normalizePath(scriptPath) }
+    };
+
+    const steps = [...workflow.steps];
+    const joinIndex = steps.findIndex(s => s.enabled && isJoinStep(s.stepType));
+    steps.splice(joinIndex >= 0 ? joinIndex : steps.length, 0, step);
+    return { ...workflow, steps };
+}
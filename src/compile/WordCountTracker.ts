@@ -5,7 +5,7 @@
 
 import { TFile, Notice } from 'obsidian';
 import type StorytellerSuitePlugin from '../main';
-import type { DailyWritingStats, Scene, Story } from '../types';
+import type { DailyWritingStats, ProjectGoal, Scene, Story } from '../types';
 
 /**
  * Session writing statistics
@@ -161,6 +161,7 @@ export class WordCountTracker {
         const today = this.getTodayKey();
         const stats = this.getDailyStats();
         const existingStats = stats[today];
+        const goalAlreadyMet = existingStats?.goalMet ?? false;
 
         if (existingStats) {
             existingStats.wordsWritten += Math.max(0, netWords);
@@ -188,8 +189,10 @@ export class WordCountTracker {
 
         await this.saveDailyStats(stats);
         
-        // Check if goal reached
-        this.checkDailyGoal();
+        // Notify once, when the goal is first reached today
+        if (!goalAlreadyMet) {
+            this.checkDailyGoal();
+        }
     }
 
     /**
@@ -199,6 +202,13 @@ export class WordCountTracker {
         return this.getDailyStats()[this.getTodayKey()];
     }
 
+    /**
+     * Get every recorded day, oldest first
+     */
+    getAllDailyStats(): DailyWritingStats[] {
+        return Object.values(this.getDailyStats()).sort((a, b) => a.date.localeCompare(b.date));
+    }
+
     /**
      * Get stats for a date range
      */
@@ -311,7 +321,7 @@ export class WordCountTracker {
     /**
      * Get today's date key
      */
-    private getTodayKey(): string {
+    getTodayKey(): string {
         return this.getDateKey(new Date());
     }
 
@@ -375,6 +385,36 @@ export class WordCountTracker {
         await this.plugin.saveSettings();
     }
 
+    /**
+     * Get project goals for a story
+     */
+    getProjectGoals(storyId: string): ProjectGoal[] {
+        return (this.plugin.settings.projectGoals || []).filter(goal => goal.storyId === storyId);
+    }
+
+    /**
+     * Add a project goal, or replace the one with the same ID
+     */
+    async saveProjectGoal(goal: ProjectGoal): Promise<void> {
+        const goals = this.plugin.settings.projectGoals || [];
+        const index = goals.findIndex(g => g.id === goal.id);
+        if (index >= 0) {
+            goals[index] = goal;
+        } else {
+            goals.push(goal);
+        }
+        this.plugin.settings.projectGoals = goals;
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Delete a project goal
+     */
+    async deleteProjectGoal(goalId: string): Promise<void> {
+        this.plugin.settings.projectGoals = (this.plugin.settings.projectGoals || []).filter(g => g.id !== goalId);
+        await this.plugin.saveSettings();
+    }
+
     /**
      * Set target word count for a scene
      * Note: This updates the scene's frontmatter, so it needs to re-save the scene file
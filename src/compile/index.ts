@@ -7,7 +7,7 @@ export { CompileEngine } from './CompileEngine';
 export type { CompileStatus } from './CompileEngine';
 
 export { SceneOrderManager } from './SceneOrderManager';
-export type { OrderedScene, ChapterWithScenes, SceneDiscoveryResult } from './SceneOrderManager';
+export type { OrderedScene, ChapterWithScenes, SceneDiscoveryResult, SceneRevision } from './SceneOrderManager';
 
 export { WordCountTracker } from './WordCountTracker';
 export type { SessionStats, SceneWordCount } from './WordCountTracker';
@@ -31,5 +31,11 @@ export {
     normalizeSceneSeparatorsStep,
     exportMarkdownStep,
     exportHtmlStep,
-    customRegexStep
+    exportDocxStep,
+    exportEpubStep,
+    exportFountainStep,
+    customRegexStep,
+    userScriptStep
 } from './steps';
+
+export { loadUserScriptStep, createUserScriptStep, validateUserScriptStep } from './UserScriptLoader';
@@ -8,8 +8,11 @@ import type {
     CompileStepDefinition,
     CompileContext,
     SceneCompileInput,
-    ManuscriptCompileInput
+    ManuscriptCompileInput,
+    ManuscriptChapter
 } from '../types';
+import { buildManuscriptDocument, buildDocx, buildEpub } from './ManuscriptDocuments';
+import { buildFountain, buildScreenplayPdf } from './Fountain';
 
 // ============================================================
 // Strip Frontmatter Step
@@ -395,7 +398,15 @@ const addTitlePageStep: CompileStepDefinition = {
         }
 
         return {
-            contents: titlePage + manuscript.contents
+            ...manuscript,
+            contents: titlePage + manuscript.contents,
+            metadata: {
+                ...manuscript.metadata,
+                title: context.story.name,
+                date,
+                wordCount: manuscript.contents.split(/\s+/).filter(w => w.length > 0).length,
+                frontMatter: titlePage + (manuscript.metadata?.frontMatter ?? '')
+            }
         };
     }
 };
@@ -505,8 +516,13 @@ const concatenateByChapterStep: CompileStepDefinition = {
             }
         };
 
-        // Build manuscript
+        // Build manuscript, recording where each chapter starts for structured exports
         const parts: string[] = [];
+        const chapters: ManuscriptChapter[] = [];
+        const recordChapter = (header: string) => {
+            const heading = header.split('\n').map(l => l.trim()).find(l => l.length > 0);
+            if (heading) chapters.push({ heading, title: heading.replace(/^#+\s*/, '') });
+        };
 
         for (const chapter of chapterMap.values()) {
             const chapterContent = chapter.scenes.map(s => s.contents).join(sceneSeparator);
@@ -522,17 +538,20 @@ const concatenateByChapterStep: CompileStepDefinition = {
                 header = header.replace(/Chapter\s*:\s*/g, '').replace(/\s*:\s*$/g, '');
             }
             
+            recordChapter(header);
             parts.push(header + '\n\n' + chapterContent);
         }
 
         // Add unassigned scenes if requested
         if (includeUnassigned && unassigned.length > 0) {
             const unassignedContent = unassigned.map(s => s.contents).join(sceneSeparator);
+            recordChapter(unassignedLabel);
             parts.push(unassignedLabel + '\n\n' + unassignedContent);
         }
 
         return {
-            contents: parts.join(chapterSeparator)
+            contents: parts.join(chapterSeparator),
+            chapters
         };
     }
 };
@@ -1018,16 +1037,28 @@ const applyTemplateStep: CompileStepDefinition = {
             }
         }
 
-        let result = template
+        const fill = (text: string) => text
             .replace(/\$title/g, context.story.name)
             .replace(/\$author/g, author)
             .replace(/\$date/g, date)
             .replace(/\$wordcount/g, wordCount.toLocaleString())
-            .replace(/\$chapters/g, String((manuscript.contents.match(/^# /gm) || []).length))
-            .replace(/\$content/g, toc + manuscript.contents);
+            .replace(/\$chapters/g, String((manuscript.contents.match(/^# /gm) || []).length));
+        const result = fill(template).replace(/\$content/g, toc + manuscript.contents);
+
+        // Text ahead of the content is title material that DOCX/EPUB exports replace with their own title page
+        const contentIndex = template.indexOf('$content');
+        const frontMatter = contentIndex >= 0 ? fill(template.slice(0, contentIndex)) + toc : '';
 
         return {
-            contents: result
+            ...manuscript,
+            contents: result,
+            metadata: {
+                ...manuscript.metadata,
+                title: context.story.name,
+                date,
+                ...(context.optionValues.author ? { author: context.optionValues.author as string } : {}),
+                frontMatter: frontMatter + (manuscript.metadata?.frontMatter ?? '')
+            }
         };
     }
 };
@@ -1467,6 +1498,241 @@ function convertMarkdownToHtml(markdown: string): string {
     return processed.join('\n');
 }
 
+// ============================================================
+// Export to DOCX / EPUB Steps
+// ============================================================
+
+/**
+ * Resolve an export output path relative to the story folder and force its extension
+ */
+function resolveExportPath(template: string, extension: string, context: CompileContext): string {
+    const date = new Date().toISOString().split('T')[0];
+    let outputPath = template
+        .replace(/\$1/g, context.story.name)
+        .replace(/\$2/g, context.draft.name)
+        .replace(/\$date/g, date);
+    if (!outputPath.toLowerCase().endsWith(extension)) {
+        outputPath += extension;
+    }
+    return normalizePath(`${context.projectPath}/${outputPath}`);
+}
+
+/**
+ * Create or overwrite a binary file in the vault, creating its parent folder if needed
+ */
+async function writeBinaryFile(app: App, fullPath: string, bytes: Uint8Array): Promise<void> {
+    const data = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    const existingFile = app.vault.getAbstractFileByPath(fullPath);
+    if (existingFile instanceof TFile) {
+        await app.vault.modifyBinary(existingFile, data);
+        return;
+    }
+    const parentPath = fullPath.substring(0, fullPath.lastIndexOf('/'));
+    if (parentPath && !app.vault.getAbstractFileByPath(parentPath)) {
+        await app.vault.createFolder(parentPath);
+    }
+    await app.vault.createBinary(fullPath, data);
+}
+
+const exportDocxStep: CompileStepDefinition = {
+    id: 'export-docx',
+    name: 'Export to Word (DOCX)',
+    description: 'Saves the manuscript as a Word document in standard manuscript format. Uses chapters from Concatenate by Chapter and title/author from Add Title Page and Apply Manuscript Template',
+    availableKinds: ['manuscript'],
+    options: [
+        {
+            id: 'outputPath',
+            name: 'Output Path',
+            description: 'Path relative to story folder. $1 = story title, $2 = draft name, $date = current date',
+            type: 'text',
+            default: '$1.docx'
+        },
+        {
+            id: 'font',
+            name: 'Font',
+            description: 'Manuscript font (12pt, double-spaced)',
+            type: 'select',
+            default: 'Times New Roman',
+            choices: [
+                { value: 'Times New Roman', label: 'Times New Roman' },
+                { value: 'Courier New', label: 'Courier New' }
+            ]
+        },
+        {
+            id: 'author',
+            name: 'Author Name',
+            description: 'Used when no Apply Manuscript Template step provides an author',
+            type: 'text',
+            default: ''
+        },
+        {
+            id: 'endMarker',
+            name: 'End Marker',
+            description: 'Text centered after the last chapter (leave empty for none)',
+            type: 'text',
+            default: 'END'
+        }
+    ],
+    compile: async (input, context) => {
+        const manuscript = input as ManuscriptCompileInput;
+        const fullPath = resolveExportPath((context.optionValues.outputPath as string) || '$1.docx', '.docx', context);
+        const doc = buildManuscriptDocument(manuscript, context.story.name, (context.optionValues.author as string) || '');
+        const bytes = buildDocx(doc, {
+            font: (context.optionValues.font as string) || 'Times New Roman',
+            endMarker: context.optionValues.endMarker === undefined ? 'END' : String(context.optionValues.endMarker)
+        });
+        await writeBinaryFile(context.app as App, fullPath, bytes);
+        return manuscript;
+    }
+};
+
+const exportEpubStep: CompileStepDefinition = {
+    id: 'export-epub',
+    name: 'Export to EPUB',
+    description: 'Saves the manuscript as an EPUB e-book with one section per chapter. Uses chapters from Concatenate by Chapter and title/author from Add Title Page and Apply Manuscript Template',
+    availableKinds: ['manuscript'],
+    options: [
+        {
+            id: 'outputPath',
+            name: 'Output Path',
+            description: 'Path relative to story folder. $1 = story title, $2 = draft name, $date = current date',
+            type: 'text',
+            default: '$1.epub'
+        },
+        {
+            id: 'author',
+            name: 'Author Name',
+            description: 'Used when no Apply Manuscript Template step provides an author',
+            type: 'text',
+            default: ''
+        },
+        {
+            id: 'language',
+            name: 'Language',
+            description: 'Book language code (e.g. en, en-GB, de)',
+            type: 'text',
+            default: 'en'
+        }
+    ],
+    compile: async (input, context) => {
+        const manuscript = input as ManuscriptCompileInput;
+        const fullPath = resolveExportPath((context.optionValues.outputPath as string) || '$1.epub', '.epub', context);
+        const doc = buildManuscriptDocument(manuscript, context.story.name, (context.optionValues.author as string) || '');
+        const bytes = buildEpub(doc, {
+            language: (context.optionValues.language as string) || 'en',
+            // Stable per story and draft so readers treat re-exports as the same book
+            identifier: `urn:storyteller:${context.story.id}:${context.draft.id}`
+        });
+        await writeBinaryFile(context.app as App, fullPath, bytes);
+        return manuscript;
+    }
+};
+
+// ============================================================
+// Export to Fountain Step
+// ============================================================
+const exportFountainStep: CompileStepDefinition = {
+    id: 'export-fountain',
+    name: 'Export to Fountain Screenplay',
+    description: 'Joins the scenes into a Fountain screenplay: INT./EXT. sluglines from each scene\'s linked location and time of day, attributed dialogue under character cues, and a title page. Can also save a paginated screenplay PDF',
+    availableKinds: ['join'],
+    options: [
+        {
+            id: 'outputPath',
+            name: 'Output Path',
+            description: 'Path relative to story folder. $1 = story title, $2 = draft name, $date = current date',
+            type: 'text',
+            default: '$1.fountain'
+        },
+        {
+            id: 'author',
+            name: 'Author Name',
+            description: 'Shown on the title page as "Written by"',
+            type: 'text',
+            default: ''
+        },
+        {
+            id: 'source',
+            name: 'Source',
+            description: 'Title page source line, e.g. Based on the novel by ...',
+            type: 'text',
+            default: ''
+        },
+        {
+            id: 'contact',
+            name: 'Contact',
+            description: 'Contact details for the bottom of the title page',
+            type: 'text',
+            default: ''
+        },
+        {
+            id: 'sceneNumbers',
+            name: 'Scene Numbers',
+            description: 'Number the sluglines (#1#, #2#, ...)',
+            type: 'boolean',
+            default: false
+        },
+        {
+            id: 'endMarker',
+            name: 'End Marker',
+            description: 'Centered text after the last scene (leave empty for none)',
+            type: 'text',
+            default: 'THE END'
+        },
+        {
+            id: 'exportPdf',
+            name: 'Also Export PDF',
+            description: 'Save a paginated screenplay PDF next to the Fountain file',
+            type: 'boolean',
+            default: false
+        },
+        {
+            id: 'openAfterExport',
+            name: 'Open After Export',
+            description: 'Open the Fountain file in a new pane',
+            type: 'boolean',
+            default: false
+        }
+    ],
+    compile: async (input, context) => {
+        const scenes = input as SceneCompileInput[];
+        const fullPath = resolveExportPath((context.optionValues.outputPath as string) || '$1.fountain', '.fountain', context);
+        const author = (context.optionValues.author as string) || '';
+        const fountain = buildFountain(scenes, {
+            title: context.story.name,
+            author,
+            source: (context.optionValues.source as string) || '',
+            contact: (context.optionValues.contact as string) || '',
+            draftDate: new Date().toISOString().split('T')[0]
+        }, {
+            sceneNumbers: context.optionValues.sceneNumbers === true,
+            endMarker: context.optionValues.endMarker === undefined ? 'THE END' : String(context.optionValues.endMarker)
+        });
+
+        const app = context.app as App;
+        const existingFile = app.vault.getAbstractFileByPath(fullPath);
+        if (existingFile instanceof TFile) {
+            await app.vault.modify(existingFile, fountain);
+        } else {
+            const parentPath = fullPath.substring(0, fullPath.lastIndexOf('/'));
+            if (parentPath && !app.vault.getAbstractFileByPath(parentPath)) {
+                await app.vault.createFolder(parentPath);
+            }
+            await app.vault.create(fullPath, fountain);
+        }
+
+        if (context.optionValues.exportPdf === true) {
+            const pdfPath = fullPath.replace(/\.fountain$/i, '') + '.pdf';
+            await writeBinaryFile(app, pdfPath, buildScreenplayPdf(fountain, { title: context.story.name, author }));
+        }
+        if (context.optionValues.openAfterExport === true) {
+            app.workspace.openLinkText(fullPath, '', true);
+        }
+
+        return { contents: fountain };
+    }
+};
+
 // ============================================================
 // Custom Regex Step
 // ============================================================
@@ -1527,6 +1793,27 @@ const customRegexStep: CompileStepDefinition = {
     }
 };
 
+// ============================================================
+// User Script Step
+// ============================================================
+const userScriptStep: CompileStepDefinition = {
+    id: 'user-script',
+    name: 'User Script',
+    description: 'Run a custom compile step from a JavaScript file in the vault',
+    availableKinds: ['scene', 'join', 'manuscript'],
+    options: [
+        {
+            id: 'scriptPath',
+            name: 'Script Path',
+            description: 'Vault path to a .js file that exports a compile step definition',
+            type: 'text',
+            default: ''
+        }
+    ],
+    // The CompileEngine loads the script and runs its own definition in place of this one
+    compile: async (input) => input
+};
+
 // ============================================================
 // Export all built-in steps
 // ============================================================
@@ -1550,7 +1837,11 @@ export const builtInSteps: CompileStepDefinition[] = [
     normalizeSceneSeparatorsStep,
     exportMarkdownStep,
     exportHtmlStep,
-    customRegexStep
+    exportDocxStep,
+    exportEpubStep,
+    exportFountainStep,
+    customRegexStep,
+    userScriptStep
 ];
 
 // Export individual steps for direct use
@@ -1574,5 +1865,9 @@ export {
     normalizeSceneSeparatorsStep,
     exportMarkdownStep,
     exportHtmlStep,
-    customRegexStep
+    exportDocxStep,
+    exportEpubStep,
+    exportFountainStep,
+    customRegexStep,
+    userScriptStep
 };
@@ -1,7 +1,7 @@
 import { normalizePath, TFolder } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
 
-export type EntityFolderType = 'character' | 'location' | 'event' | 'item' | 'reference' | 'chapter' | 'scene' | 'map' | 'culture' | 'faction' | 'economy' | 'magicSystem' | 'calendar';
+export type EntityFolderType = 'character' | 'location' | 'event' | 'item' | 'reference' | 'chapter' | 'scene' | 'map' | 'culture' | 'faction' | 'economy' | 'magicSystem' | 'calendar' | 'group' | 'gallery';
 
 export interface FolderResolverOptions {
   enableCustomEntityFolders: boolean | undefined;
@@ -71,7 +71,8 @@ export class FolderResolver {
   getEntityFolder(type: EntityFolderType): string {
     const o = this.opts;
 
-    if (o.enableCustomEntityFolders) {
+    // The gallery is not story-scoped, so story folder templates do not apply to it
+    if (o.enableCustomEntityFolders && type !== 'gallery') {
       const root = o.storyRootFolderTemplate ? this.resolveTemplatePath(o.storyRootFolderTemplate) : '';
       const prefer = (path?: string, fallbackLeaf?: string): string | undefined => {
         if (path && path.trim()) return this.resolveTemplatePath(path);
@@ -91,6 +92,7 @@ export class FolderResolver {
       if (type === 'economy')     { const p = prefer(o.economyFolderPath,     'Economies');    if (p) return p; }
       if (type === 'magicSystem') { const p = prefer(o.magicSystemFolderPath, 'MagicSystems'); if (p) return p; }
       if (type === 'calendar')    { const p = prefer(o.calendarFolderPath,    'Calendars');    if (p) return p; }
+      if (type === 'group')       { const p = prefer(undefined,               'Groups');       if (p) return p; }
     }
 
     if (o.enableOneStoryMode) {
@@ -109,8 +111,13 @@ export class FolderResolver {
       if (type === 'economy')     return `${prefix}Economies`;
       if (type === 'magicSystem') return `${prefix}MagicSystems`;
       if (type === 'calendar')    return `${prefix}Calendars`;
+      if (type === 'group')       return `${prefix}Groups`;
+      if (type === 'gallery')     return `${prefix}Gallery`;
     }
 
+    // Gallery entries are shared across stories
+    if (type === 'gallery') return 'StorytellerSuite/Gallery';
+
     const story = this.getActiveStory();
     if (!story) throw new Error('No active story selected.');
     const base = `StorytellerSuite/Stories/${story.name}`;
@@ -127,6 +134,7 @@ export class FolderResolver {
     if (type === 'economy')     return `${base}/Economies`;
     if (type === 'magicSystem') return `${base}/MagicSystems`;
     if (type === 'calendar')    return `${base}/Calendars`;
+    if (type === 'group')       return `${base}/Groups`;
     throw new Error('Unknown entity type');
   }
 
@@ -145,7 +153,7 @@ export class FolderResolver {
   resolveAll(): Record<EntityFolderType, { path?: string; error?: string }> {
     const types: EntityFolderType[] = [
       'character', 'location', 'event', 'item', 'reference', 'chapter', 'scene', 'map',
-      'culture', 'faction', 'economy', 'magicSystem', 'calendar'
+      'culture', 'faction', 'economy', 'magicSystem', 'calendar', 'group', 'gallery'
     ];
     const out = {} as Record<EntityFolderType, { path?: string; error?: string }>;
     for (const t of types) out[t] = this.tryGetEntityFolder(t);
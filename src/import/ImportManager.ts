@@ -13,7 +13,9 @@ import {
     ImportResult,
     ImportValidation,
     ChapterImportConfig,
-    ImportProgressCallback
+    ImportProgressCallback,
+    CsvEntityRecord,
+    CsvImportTarget
 } from './ImportTypes';
 import { PlainTextParser } from './parsers/PlainTextParser';
 import { MarkdownParser } from './parsers/MarkdownParser';
@@ -25,7 +27,8 @@ import { RtfParser } from './parsers/RtfParser';
 import { OdtParser } from './parsers/OdtParser';
 import { FountainParser } from './parsers/FountainParser';
 import { PdfParser } from './parsers/PdfParser';
-import { Chapter, Scene, Character, Location } from '../types';
+import { CsvParser, buildCsvEntityRecords } from './parsers/CsvParser';
+import { Chapter, Scene, Character, Location, Event } from '../types';
 
 /**
  * Import Manager class
@@ -43,6 +46,7 @@ export class ImportManager {
             new MarkdownParser(),
             new DocxParser(),
             new JsonParser(),
+            new CsvParser(),
             new EpubParser(),
             new HtmlParser(),
             new RtfParser(),
@@ -80,6 +84,20 @@ export class ImportManager {
         return this.parsers.find(p => p.format === 'pdf') as PdfParser | undefined;
     }
 
+    /**
+     * Get CSV parser for re-parsing after column mapping
+     */
+    getCsvParser(): CsvParser | undefined {
+        return this.parsers.find(p => p.format === 'csv') as CsvParser | undefined;
+    }
+
+    /**
+     * Whether the configuration imports CSV rows as entities rather than chapters
+     */
+    isCsvEntityImport(config: ImportConfiguration): boolean {
+        return config.format === 'csv' && !!config.csvMapping && config.csvMapping.target !== 'outline';
+    }
+
     /**
      * Detect file format from content and filename
      */
@@ -137,6 +155,20 @@ export class ImportManager {
             }
         }
 
+        if (this.isCsvEntityImport(config)) {
+            const table = config.parsedDocument.csvTable;
+            if (!config.csvMapping!.columns.includes('name')) {
+                errors.push('Map one column to "Name" to import CSV rows as entities.');
+            } else if (!table || buildCsvEntityRecords(table, config.csvMapping!).length === 0) {
+                errors.push('No CSV rows with a name to import.');
+            }
+            return {
+                isValid: errors.length === 0,
+                errors,
+                warnings
+            };
+        }
+
         // Check chapters
         const enabledChapters = config.chapters.filter(c => c.enabled);
         if (enabledChapters.length === 0) {
@@ -222,6 +254,13 @@ export class ImportManager {
                 throw new Error('Failed to get or create story.');
             }
 
+            // CSV rows describing characters, locations or events skip chapter import entirely
+            if (this.isCsvEntityImport(config)) {
+                const result = await this.importCsvEntities(storyId, config, onProgress);
+                new Notice(`Import complete: ${result.stats.entitiesCreated} ${config.csvMapping!.target} created`);
+                return result;
+            }
+
             // Create entities if entity extraction is enabled
             let createdEntities: { characters: Character[]; locations: Location[] } = {
                 characters: [],
@@ -343,6 +382,147 @@ export class ImportManager {
         return { characters: createdCharacters, locations: createdLocations };
     }
 
+    /**
+     * Create characters, locations or events from CSV rows, resolving name conflicts
+     * with the configured strategy
+     */
+    private async importCsvEntities(
+        storyId: string,
+        config: ImportConfiguration,
+        onProgress?: ImportProgressCallback
+    ): Promise<ImportResult> {
+        const mapping = config.csvMapping!;
+        const records = buildCsvEntityRecords(config.parsedDocument.csvTable!, mapping);
+        const warnings: string[] = [...config.parsedDocument.warnings];
+        const skipped: string[] = [];
+        let created = 0;
+        let renamed = 0;
+
+        const previousStoryId = this.plugin.settings.activeStoryId;
+        this.plugin.settings.activeStoryId = storyId;
+        await this.plugin.saveSettings();
+
+        try {
+            const existing: Array<{ name: string; filePath?: string }> =
+                mapping.target === 'characters' ? await this.plugin.listCharacters()
+                    : mapping.target === 'locations' ? await this.plugin.listLocations()
+                        : await this.plugin.listEvents();
+            const existingNames = new Set(existing.map(e => e.name));
+
+            for (let i = 0; i < records.length; i++) {
+                const record = records[i];
+                let finalName = record.name;
+
+                onProgress?.({
+                    currentStep: 'Creating entity...',
+                    currentItem: finalName,
+                    processed: i,
+                    total: records.length,
+                    percentage: Math.round(10 + (i / records.length) * 85)
+                });
+
+                if (existingNames.has(finalName)) {
+                    if (config.conflictResolution === 'skip') {
+                        skipped.push(finalName);
+                        continue;
+                    } else if (config.conflictResolution === 'rename') {
+                        let counter = 2;
+                        while (existingNames.has(`${record.name} (${counter})`)) {
+                            counter++;
+                        }
+                        finalName = `${record.name} (${counter})`;
+                        renamed++;
+                    } else if (config.conflictResolution === 'overwrite') {
+                        const match = existing.find(e => e.name === finalName);
+                        const fileToDelete = match?.filePath
+                            ? this.plugin.app.vault.getAbstractFileByPath(match.filePath)
+                            : null;
+                        if (fileToDelete) {
+                            await this.plugin.app.vault.delete(fileToDelete);
+                        }
+                    }
+                }
+
+                try {
+                    await this.saveCsvEntity(mapping.target, { ...record, name: finalName });
+                    existingNames.add(finalName);
+                    created++;
+                } catch (error) {
+                    warnings.push(`Failed to create "${finalName}": ${error}`);
+                    skipped.push(finalName);
+                }
+            }
+
+            onProgress?.({
+                currentStep: 'Import complete!',
+                currentItem: '',
+                processed: records.length,
+                total: records.length,
+                percentage: 100
+            });
+
+            return {
+                success: true,
+                storyId,
+                chaptersCreated: [],
+                scenesCreated: [],
+                stats: {
+                    totalChapters: 0,
+                    totalScenes: 0,
+                    totalWords: 0,
+                    chaptersSkipped: 0,
+                    chaptersRenamed: 0,
+                    entitiesCreated: created,
+                    entitiesSkipped: skipped.length,
+                    entitiesRenamed: renamed
+                },
+                warnings,
+                skippedChapters: skipped
+            };
+        } finally {
+            if (previousStoryId) {
+                this.plugin.settings.activeStoryId = previousStoryId;
+                await this.plugin.saveSettings();
+            }
+        }
+    }
+
+    /**
+     * Save one CSV entity record as the matching entity type
+     */
+    private async saveCsvEntity(target: CsvImportTarget, record: CsvEntityRecord): Promise<void> {
+        const customFields = Object.keys(record.customFields).length > 0 ? record.customFields : undefined;
+        if (target === 'characters') {
+            const character: Character = {
+                traits: [],
+                events: [],
+                locations: [],
+                groups: [],
+                ...record.fields,
+                name: record.name,
+                customFields
+            };
+            await this.plugin.saveCharacter(character);
+        } else if (target === 'locations') {
+            const location: Location = {
+                groups: [],
+                ...record.fields,
+                name: record.name,
+                customFields
+            };
+            await this.plugin.saveLocation(location);
+        } else if (target === 'events') {
+            const event: Event = {
+                characters: [],
+                groups: [],
+                ...record.fields,
+                name: record.name,
+                customFields
+            };
+            await this.plugin.saveEvent(event);
+        }
+    }
+
     /**
      * Build entity name to ID mapping for linking
      */
@@ -552,7 +732,8 @@ export class ImportManager {
                         );
                         const parsedScenes = parsedChapter?.scenes;
 
-                        if (parsedScenes && parsedScenes.length > 1) {
+                        // CSV rows are explicit scenes, so even a single row keeps its own title and fields
+                        if (parsedScenes && (parsedScenes.length > 1 || (config.format === 'csv' && parsedScenes.length > 0))) {
                             // Create multiple scenes based on detected scene breaks
                             for (let sceneIdx = 0; sceneIdx < parsedScenes.length; sceneIdx++) {
                                 const parsedScene = parsedScenes[sceneIdx];
@@ -610,17 +791,21 @@ export class ImportManager {
                                     }
                                 }
 
+                                for (const tag of parsedScene.tags || []) {
+                                    if (!sceneTags.includes(tag)) sceneTags.push(tag);
+                                }
+
                                 const scene: Scene = {
                                     name: finalSceneName,
                                     chapterId: chapter.id,
                                     chapterName: finalName,
-                                    status: sceneStatus,
+                                    status: parsedScene.status || sceneStatus,
                                     priority: sceneIdx + 1,
                                     content: parsedScene.content,
                                     tags: sceneTags.length > 0 ? sceneTags : undefined,
-                                    linkedCharacters: sceneEntities.characterIds,
-                                    linkedLocations: sceneEntities.locationIds,
-                                    linkedEvents: [],
+                                    linkedCharacters: [...new Set([...sceneEntities.characterIds, ...(parsedScene.characters || [])])],
+                                    linkedLocations: [...new Set([...sceneEntities.locationIds, ...(parsedScene.locations || [])])],
+                                    linkedEvents: parsedScene.events || [],
                                     linkedItems: [],
                                     linkedGroups: []
                                 };
@@ -785,7 +970,8 @@ export class ImportManager {
             draftStrategy: 'separate-stories',
             conflictResolution: 'rename',
             preserveFormatting: true,
-            contentPlacement: 'chapter-summary',
+            // Outline spreadsheets have one row per scene
+            contentPlacement: parsed.format === 'csv' ? 'scene-files' : 'chapter-summary',
             entityExtractionEnabled: false,
             entityMappings: [],
             configuredAt: new Date().toISOString()
@@ -115,6 +115,68 @@ export interface ParsedScene {
 
     /** Word count */
     wordCount: number;
+
+    /** Scene status (from structured sources such as CSV) */
+    status?: string;
+
+    /** Scene tags */
+    tags?: string[];
+
+    /** Names of characters appearing in the scene */
+    characters?: string[];
+
+    /** Names of locations used in the scene */
+    locations?: string[];
+
+    /** Names of events linked to the scene */
+    events?: string[];
+}
+
+/**
+ * What the rows of a CSV file describe
+ */
+export type CsvImportTarget = 'outline' | 'characters' | 'locations' | 'events';
+
+/**
+ * Raw CSV data: header row plus data rows
+ */
+export interface CsvTable {
+    /** Column headers from the first row */
+    headers: string[];
+
+    /** Data rows (each padded to the header length) */
+    rows: string[][];
+
+    /** Detected delimiter */
+    delimiter: string;
+}
+
+/**
+ * Column-to-field mapping chosen in the import wizard
+ */
+export interface CsvColumnMapping {
+    /** What each row becomes */
+    target: CsvImportTarget;
+
+    /**
+     * Field key for each column, aligned with CsvTable.headers.
+     * 'ignore' skips the column; 'custom' stores it as a custom field named after the header.
+     */
+    columns: string[];
+}
+
+/**
+ * Entity built from one CSV row
+ */
+export interface CsvEntityRecord {
+    /** Entity name */
+    name: string;
+
+    /** Mapped entity fields */
+    fields: Record<string, string | string[] | boolean>;
+
+    /** Unmapped columns kept as custom fields */
+    customFields: Record<string, string>;
 }
 
 /**
@@ -155,6 +217,9 @@ export interface ParsedDocument {
 
     /** Source format */
     format: ImportFormat;
+
+    /** Raw table for CSV sources, kept for column mapping */
+    csvTable?: CsvTable;
 }
 
 /**
@@ -232,6 +297,10 @@ export interface ImportConfiguration {
     /** Entity mappings (how to handle extracted entities) */
     entityMappings: EntityMappingConfig[];
 
+    // CSV
+    /** Column mapping for CSV sources */
+    csvMapping?: CsvColumnMapping;
+
     // Metadata
     /** When import was configured */
     configuredAt: string;
@@ -273,6 +342,15 @@ export interface ImportResult {
 
         /** Chapters renamed due to conflicts */
         chaptersRenamed: number;
+
+        /** Entities created from CSV rows */
+        entitiesCreated?: number;
+
+        /** Entities skipped due to conflicts */
+        entitiesSkipped?: number;
+
+        /** Entities renamed due to conflicts */
+        entitiesRenamed?: number;
     };
 
     /** Warnings encountered during import */
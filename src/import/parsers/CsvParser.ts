@@ -0,0 +1,399 @@
+/**
+ * CSV Parser
+ * Parses spreadsheet exports (.csv, .tsv) with one row per scene or per entity
+ *
+ * Rows are mapped to fields through a CsvColumnMapping. The parser suggests a mapping
+ * from the header names; the import wizard lets the user adjust it before import.
+ */
+
+import {
+    ImportFormat,
+    DocumentParser,
+    ParsedDocument,
+    ParsedChapter,
+    ParsedScene,
+    CsvTable,
+    CsvColumnMapping,
+    CsvImportTarget,
+    CsvEntityRecord
+} from '../ImportTypes';
+
+/**
+ * Field that a CSV column can be mapped to
+ */
+export interface CsvFieldDefinition {
+    /** Field key on the target entity (or outline field) */
+    key: string;
+
+    /** Label shown in the mapping step */
+    label: string;
+
+    /** Header names that suggest this field (lowercase) */
+    aliases: string[];
+
+    /** Cell holds a list separated by commas, semicolons or pipes */
+    list?: boolean;
+
+    /** Cell holds a yes/no value */
+    boolean?: boolean;
+}
+
+/**
+ * Fields available for each import target
+ */
+export const CSV_FIELDS: Record<CsvImportTarget, CsvFieldDefinition[]> = {
+    outline: [
+        { key: 'chapter', label: 'Chapter name', aliases: ['chapter', 'chapter name', 'chapter title', 'part'] },
+        { key: 'chapterNumber', label: 'Chapter number', aliases: ['chapter number', 'chapter #', 'chapter no', 'ch', 'ch.', 'no.'] },
+        { key: 'scene', label: 'Scene name', aliases: ['scene', 'scene name', 'scene title', 'title'] },
+        { key: 'content', label: 'Scene content', aliases: ['content', 'text', 'prose', 'body', 'synopsis', 'summary', 'description', 'notes'] },
+        { key: 'status', label: 'Status', aliases: ['status', 'state'] },
+        { key: 'tags', label: 'Tags', aliases: ['tags', 'tag'], list: true },
+        { key: 'characters', label: 'Characters', aliases: ['characters', 'character', 'cast'], list: true },
+        { key: 'locations', label: 'Locations', aliases: ['locations', 'location', 'setting'], list: true },
+        { key: 'events', label: 'Events', aliases: ['events', 'event'], list: true }
+    ],
+    characters: [
+        { key: 'name', label: 'Name', aliases: ['name', 'character', 'character name'] },
+        { key: 'description', label: 'Description', aliases: ['description', 'summary', 'notes', 'bio'] },
+        { key: 'backstory', label: 'Backstory', aliases: ['backstory', 'background', 'history'] },
+        { key: 'traits', label: 'Traits', aliases: ['traits', 'personality'], list: true },
+        { key: 'status', label: 'Status', aliases: ['status'] },
+        { key: 'affiliation', label: 'Affiliation', aliases: ['affiliation', 'faction', 'allegiance'] },
+        { key: 'locations', label: 'Locations', aliases: ['locations', 'location', 'home'], list: true },
+        { key: 'events', label: 'Events', aliases: ['events'], list: true }
+    ],
+    locations: [
+        { key: 'name', label: 'Name', aliases: ['name', 'location', 'location name', 'place'] },
+        { key: 'description', label: 'Description', aliases: ['description', 'summary', 'notes'] },
+        { key: 'history', label: 'History', aliases: ['history', 'background'] },
+        { key: 'locationType', label: 'Location type', aliases: ['type', 'location type', 'category', 'kind'] },
+        { key: 'region', label: 'Region', aliases: ['region', 'area'] },
+        { key: 'status', label: 'Status', aliases: ['status'] },
+        { key: 'parentLocation', label: 'Parent location', aliases: ['parent', 'parent location', 'within', 'part of'] }
+    ],
+    events: [
+        { key: 'name', label: 'Name', aliases: ['name', 'event', 'event name', 'title'] },
+        { key: 'dateTime', label: 'Date/time', aliases: ['date', 'datetime', 'date/time', 'when', 'time'] },
+        { key: 'description', label: 'Description', aliases: ['description', 'summary', 'notes'] },
+        { key: 'outcome', label: 'Outcome', aliases: ['outcome', 'result', 'consequence'] },
+        { key: 'location', label: 'Location', aliases: ['location', 'place', 'where'] },
+        { key: 'characters', label: 'Characters', aliases: ['characters', 'who', 'participants'], list: true },
+        { key: 'status', label: 'Status', aliases: ['status'] },
+        { key: 'tags', label: 'Tags', aliases: ['tags', 'tag'], list: true },
+        { key: 'isMilestone', label: 'Milestone', aliases: ['milestone', 'is milestone', 'key event'], boolean: true }
+    ]
+};
+
+/**
+ * Count words in text
+ */
+function countWords(text: string): number {
+    return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Split a list cell ("Ana, Bo; Cy") into trimmed values
+ */
+function splitList(value: string): string[] {
+    return value.split(/\s*[;,|]\s*/).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Interpret a yes/no style cell
+ */
+function parseBoolean(value: string): boolean {
+    return /^(y|yes|true|1|x|✓)$/i.test(value.trim());
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(content: string, fileName: string): string {
+    if (fileName.toLowerCase().endsWith('.tsv')) return '\t';
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    let best = ',';
+    let bestCount = 0;
+    for (const candidate of [',', ';', '\t']) {
+        const count = firstLine.split(candidate).length - 1;
+        if (count > bestCount) {
+            best = candidate;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+/**
+ * Parse CSV text into a header row and data rows.
+ * Handles quoted cells with embedded delimiters, doubled quotes and line breaks.
+ */
+export function parseCsv(content: string, fileName = ''): CsvTable {
+    const text = content.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text, fileName);
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && cell.length === 0) {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell.length > 0 || record.length > 0) {
+        record.push(cell);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim().length > 0));
+    const headers = (nonEmpty.shift() || []).map(h => h.trim());
+    const rows = nonEmpty.map(r => headers.map((_, index) => (r[index] ?? '').trim()));
+    return { headers, rows, delimiter };
+}
+
+/**
+ * Field key suggested for a header under the given target, or 'ignore'
+ */
+function suggestField(header: string, target: CsvImportTarget, used: Set<string>): string {
+    const normalized = header.trim().toLowerCase();
+    for (const field of CSV_FIELDS[target]) {
+        if (field.aliases.includes(normalized) && (field.key === 'content' || !used.has(field.key))) {
+            return field.key;
+        }
+    }
+    return target === 'outline' ? 'ignore' : 'custom';
+}
+
+/**
+ * Guess what the rows describe from headers and file name
+ */
+export function suggestCsvTarget(headers: string[], fileName = ''): CsvImportTarget {
+    const lower = headers.map(h => h.trim().toLowerCase());
+    const has = (...names: string[]) => names.some(name => lower.includes(name));
+    const file = fileName.toLowerCase();
+
+    if (has('chapter', 'chapter name', 'chapter title', 'scene', 'scene name', 'scene title')) return 'outline';
+    if (/character|cast/.test(file) || has('character', 'character name', 'traits', 'backstory', 'affiliation')) return 'characters';
+    if (/event|timeline/.test(file) || has('event', 'event name', 'date', 'when', 'outcome', 'milestone')) return 'events';
+    if (/location|place|setting/.test(file) || has('location', 'location name', 'place', 'region', 'parent location')) return 'locations';
+    return 'outline';
+}
+
+/**
+ * Suggest a column mapping for a table
+ */
+export function suggestCsvMapping(headers: string[], target: CsvImportTarget): CsvColumnMapping {
+    const used = new Set<string>();
+    const columns = headers.map(header => {
+        const key = suggestField(header, target, used);
+        used.add(key);
+        return key;
+    });
+    return { target, columns };
+}
+
+/**
+ * Build chapters and scenes from outline rows.
+ * Rows with an empty chapter cell continue the previous chapter, as in most outline spreadsheets.
+ */
+export function buildOutlineDocument(table: CsvTable, mapping: CsvColumnMapping, fileName: string): ParsedDocument {
+    const warnings: string[] = [];
+    const column = (key: string) => mapping.columns.indexOf(key);
+    const chapterCol = column('chapter');
+    const numberCol = column('chapterNumber');
+    const sceneCol = column('scene');
+    const contentCols = mapping.columns.map((key, index) => key === 'content' ? index : -1).filter(index => index >= 0);
+    const listFields = ['tags', 'characters', 'locations', 'events'] as const;
+    const title = fileName.replace(/\.(csv|tsv)$/i, '');
+
+    if (chapterCol < 0 && numberCol < 0) {
+        warnings.push('No chapter column mapped. All rows were imported into a single chapter.');
+    }
+
+    const chapters: ParsedChapter[] = [];
+    let current: ParsedChapter | null = null;
+    let currentNumberCell = '';
+
+    table.rows.forEach((row, rowIndex) => {
+        const chapterName = chapterCol >= 0 ? row[chapterCol] : '';
+        const numberCell = numberCol >= 0 ? row[numberCol] : '';
+        const explicitNumber = parseInt(numberCell, 10);
+        // Number cells like "I" or "Prologue" are compared as text
+        const numberChanged = !!numberCell && (isFinite(explicitNumber)
+            ? explicitNumber !== current?.number
+            : numberCell !== currentNumberCell);
+        const startsChapter = !current || (chapterName && chapterName !== current.title) || numberChanged;
+
+        if (numberCell) currentNumberCell = numberCell;
+        if (startsChapter) {
+            const numberFromName = chapterName.match(/(\d+)/);
+            const number = !isNaN(explicitNumber)
+                ? explicitNumber
+                : numberFromName ? parseInt(numberFromName[1], 10) : chapters.length + 1;
+            current = {
+                title: chapterName || (chapterCol < 0 && numberCol < 0 ? title : `Chapter ${number}`),
+                number,
+                content: '',
+                wordCount: 0,
+                scenes: [],
+                startLine: rowIndex + 2
+            };
+            chapters.push(current);
+        }
+        if (!current) return;
+
+        const content = contentCols.map(index => row[index]).filter(Boolean).join('\n\n');
+        const scene: ParsedScene = {
+            title: (sceneCol >= 0 && row[sceneCol]) || `Scene ${(current.scenes?.length || 0) + 1}`,
+            content,
+            wordCount: countWords(content)
+        };
+        const status = column('status') >= 0 ? row[column('status')] : '';
+        if (status) scene.status = status;
+        for (const field of listFields) {
+            const index = column(field);
+            if (index >= 0 && row[index]) scene[field] = splitList(row[index]);
+        }
+
+        current.scenes!.push(scene);
+        current.endLine = rowIndex + 2;
+    });
+
+    for (const chapter of chapters) {
+        chapter.content = (chapter.scenes || []).map(s => s.content).filter(Boolean).join('\n\n');
+        chapter.wordCount = countWords(chapter.content);
+    }
+
+    const numbers = chapters.map(c => c.number);
+    if (new Set(numbers).size !== numbers.length) {
+        warnings.push('Duplicate chapter numbers found. Rows for the same chapter should be kept together.');
+    }
+
+    return {
+        metadata: {
+            title,
+            totalWords: chapters.reduce((sum, ch) => sum + ch.wordCount, 0),
+            chapterCount: chapters.length,
+            confidence: chapterCol >= 0 || numberCol >= 0 ? 100 : 70,
+            detectionMethod: 'CSV outline columns'
+        },
+        chapters,
+        warnings,
+        format: 'csv',
+        csvTable: table
+    };
+}
+
+/**
+ * Build entity records (characters, locations or events) from rows
+ */
+export function buildCsvEntityRecords(table: CsvTable, mapping: CsvColumnMapping): CsvEntityRecord[] {
+    const fields = CSV_FIELDS[mapping.target];
+    const nameCol = mapping.columns.indexOf('name');
+    if (mapping.target === 'outline' || nameCol < 0) return [];
+
+    const records: CsvEntityRecord[] = [];
+    for (const row of table.rows) {
+        const name = row[nameCol];
+        if (!name) continue;
+
+        const record: CsvEntityRecord = { name, fields: {}, customFields: {} };
+        mapping.columns.forEach((key, index) => {
+            const value = row[index];
+            if (!value || key === 'ignore' || key === 'name') return;
+            if (key === 'custom') {
+                if (table.headers[index]) record.customFields[table.headers[index]] = value;
+                return;
+            }
+            const field = fields.find(f => f.key === key);
+            if (!field) return;
+            record.fields[key] = field.list ? splitList(value) : field.boolean ? parseBoolean(value) : value;
+        });
+        records.push(record);
+    }
+    return records;
+}
+
+/**
+ * CSV document parser
+ */
+export class CsvParser implements DocumentParser {
+    name = 'CSV Parser';
+    format: ImportFormat = 'csv';
+
+    canParse(content: string, fileName: string): boolean {
+        const extension = fileName.toLowerCase().split('.').pop();
+        return extension === 'csv' || extension === 'tsv';
+    }
+
+    parse(content: string, fileName: string): ParsedDocument {
+        const table = parseCsv(content, fileName);
+        if (table.headers.length === 0) {
+            return {
+                metadata: {
+                    title: fileName,
+                    totalWords: 0,
+                    chapterCount: 0,
+                    confidence: 0,
+                    detectionMethod: 'Empty CSV'
+                },
+                chapters: [],
+                warnings: ['The CSV file has no header row.'],
+                format: this.format,
+                csvTable: table
+            };
+        }
+
+        const target = suggestCsvTarget(table.headers, fileName);
+        return this.parseWithMapping(table, suggestCsvMapping(table.headers, target), fileName);
+    }
+
+    /**
+     * Re-parse a table after the user adjusts the column mapping
+     */
+    parseWithMapping(table: CsvTable, mapping: CsvColumnMapping, fileName: string): ParsedDocument {
+        if (mapping.target === 'outline') {
+            return buildOutlineDocument(table, mapping, fileName);
+        }
+        const records = buildCsvEntityRecords(table, mapping);
+        return {
+            metadata: {
+                title: fileName.replace(/\.(csv|tsv)$/i, ''),
+                totalWords: 0,
+                chapterCount: 0,
+                confidence: mapping.columns.includes('name') ? 100 : 0,
+                detectionMethod: `CSV ${mapping.target} rows`
+            },
+            chapters: [],
+            warnings: records.length < table.rows.length
+                ? [`${table.rows.length - records.length} row(s) have no name and will be skipped.`]
+                : [],
+            format: this.format,
+            csvTable: table
+        };
+    }
+}
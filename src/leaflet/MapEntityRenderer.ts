@@ -9,6 +9,17 @@ import type StorytellerSuitePlugin from '../main';
 import type { Location, MapBinding, EntityRef, Character, Event, PlotItem, StoryMap } from '../types';
 import { LocationService } from '../services/LocationService';
 import { MapHierarchyManager } from '../utils/MapHierarchyManager';
+import { eventsInRange, positionAt, stopsInRange } from './MapTimeline';
+import type { MapTimelineFilter } from './MapTimeline';
+import { estimateScarcity, locationKey, resolveTradeRoutes } from '../utils/TradeNetwork';
+import type { ResolvedTradeRoute, RouteStatus, ScarcityEstimate } from '../utils/TradeNetwork';
+
+/** Trade route line colors by status */
+const TRADE_ROUTE_COLORS: Record<RouteStatus, string> = {
+    active: '#b8860b',
+    disrupted: '#d35400',
+    closed: '#7f8c8d'
+};
 
 export class MapEntityRenderer {
     private map: L.Map;
@@ -19,6 +30,8 @@ export class MapEntityRenderer {
     private locationMarkers: Map<string, L.Marker> = new Map();
     private entityMarkers: Map<string, L.Marker> = new Map();
     private portalMarkers: Map<string, L.Marker> = new Map();
+    /** Resource scarcity per location id, shown in location popups */
+    private marketEstimates: Map<string, ScarcityEstimate[]> = new Map();
 
     constructor(map: L.Map, plugin: StorytellerSuitePlugin) {
         this.map = map;
@@ -33,7 +46,7 @@ export class MapEntityRenderer {
      * Initialize layer groups for different entity types
      */
     private initializeLayers(): void {
-        const layerTypes = ['locations', 'portals', 'characters', 'events', 'items', 'custom'];
+        const layerTypes = ['locations', 'portals', 'trade', 'paths', 'characters', 'events', 'items', 'custom'];
 
         for (const type of layerTypes) {
             const layer = L.layerGroup().addTo(this.map);
@@ -50,6 +63,9 @@ export class MapEntityRenderer {
         locationsLayer.clearLayers();
         this.locationMarkers.clear();
 
+        // Routes and market estimates first, so location popups can show them
+        await this.renderTradeRoutes(mapId, locations);
+
         for (const location of locations) {
             const binding = location.mapBindings?.find(b => b.mapId === mapId);
             if (!binding) continue;
@@ -74,6 +90,73 @@ export class MapEntityRenderer {
         });
     }
 
+    /**
+     * Draw trade routes whose endpoints are both bound to this map, labelled with their goods
+     */
+    private async renderTradeRoutes(mapId: string, locations: Location[]): Promise<void> {
+        const tradeLayer = this.markerLayers.get('trade');
+        if (!tradeLayer) return;
+        tradeLayer.clearLayers();
+        this.marketEstimates.clear();
+
+        const economies = await this.plugin.listEconomies();
+        const routes = resolveTradeRoutes(economies, locations);
+        estimateScarcity(economies, locations, routes).forEach(estimate => {
+            const list = this.marketEstimates.get(estimate.locationId);
+            if (list) list.push(estimate);
+            else this.marketEstimates.set(estimate.locationId, [estimate]);
+        });
+
+        for (const resolved of routes) {
+            const from = resolved.origin?.mapBindings?.find(b => b.mapId === mapId);
+            const to = resolved.destination?.mapBindings?.find(b => b.mapId === mapId);
+            if (!from || !to) continue;
+
+            const line = L.polyline([from.coordinates, to.coordinates], {
+                color: TRADE_ROUTE_COLORS[resolved.status],
+                weight: 4,
+                opacity: resolved.status === 'closed' ? 0.5 : 0.85,
+                dashArray: resolved.status === 'active' ? undefined : '10 8',
+                className: `storyteller-trade-route storyteller-trade-${resolved.status}`
+            });
+            const goods = resolved.route.goods?.length ? resolved.route.goods.join(', ') : resolved.route.name;
+            line.bindTooltip(`${goods} →`, {
+                permanent: true,
+                direction: 'center',
+                className: 'storyteller-trade-label'
+            });
+            line.bindPopup(this.buildTradeRoutePopup(resolved), {
+                maxWidth: 300,
+                className: 'storyteller-map-popup'
+            });
+            tradeLayer.addLayer(line);
+        }
+    }
+
+    /**
+     * Build popup for a trade route
+     */
+    private buildTradeRoutePopup(resolved: ResolvedTradeRoute): HTMLElement {
+        const container = document.createElement('div');
+        container.className = 'storyteller-trade-popup';
+
+        const header = container.createDiv('popup-header');
+        header.createEl('h3', { cls: 'popup-title', text: resolved.route.name });
+        header.createEl('span', { cls: 'popup-type', text: resolved.status });
+
+        const content = container.createDiv('popup-content');
+        const addInfo = (label: string, value: string) => {
+            const row = content.createDiv('popup-info');
+            row.createEl('span', { cls: 'info-label', text: `${label}:` });
+            row.createEl('span', { cls: 'info-value', text: value });
+        };
+        addInfo('Economy', resolved.economy.name);
+        addInfo('Route', `${resolved.origin?.name} → ${resolved.destination?.name}`);
+        addInfo('Goods', resolved.route.goods?.join(', ') || 'Any');
+        if (resolved.route.status) addInfo('Status', resolved.route.status);
+        return container;
+    }
+
     /**
      * Update marker visibility based on zoom level
      */
@@ -310,8 +393,10 @@ export class MapEntityRenderer {
 
     /**
      * Render entities on the map based on their locations
+     * With a timeline filter, dated characters are placed where they were at the end of the
+     * range, dated events are limited to the range, and each character's route is drawn.
      */
-    async renderEntitiesForMap(mapId: string): Promise<void> {
+    async renderEntitiesForMap(mapId: string, timeline?: MapTimelineFilter): Promise<void> {
         const locations = await this.plugin.listLocations();
         const charactersLayer = this.markerLayers.get('characters')!;
         const eventsLayer = this.markerLayers.get('events')!;
@@ -320,29 +405,59 @@ export class MapEntityRenderer {
         charactersLayer.clearLayers();
         eventsLayer.clearLayers();
         itemsLayer.clearLayers();
+        this.markerLayers.get('paths')?.clearLayers();
         this.entityMarkers.clear();
 
         // Group entities by coordinate to detect stacking
         const entityGroups: Map<string, { entityRef: EntityRef; coordinates: [number, number]; location: Location }[]> = new Map();
+        const addToGroup = (entityRef: EntityRef, coordinates: [number, number], location: Location) => {
+            const coordKey = `${coordinates[0].toFixed(4)},${coordinates[1].toFixed(4)}`;
+            if (!entityGroups.has(coordKey)) {
+                entityGroups.set(coordKey, []);
+            }
+            entityGroups.get(coordKey)!.push({ entityRef, coordinates, location });
+        };
+
+        // Dated entities are placed by the timeline instead of their static location refs
+        const timed = new Set<string>();
+        if (timeline) {
+            timeline.data.paths.forEach(path => timed.add(`character:${path.characterId}`));
+            timeline.data.events.forEach(event => timed.add(`event:${event.eventId}`));
+        }
 
         for (const location of locations) {
             const binding = location.mapBindings?.find(b => b.mapId === mapId);
             if (!binding || !location.entityRefs) continue;
 
-            const coordKey = `${binding.coordinates[0].toFixed(4)},${binding.coordinates[1].toFixed(4)}`;
-            
             for (const entityRef of location.entityRefs) {
-                if (!entityGroups.has(coordKey)) {
-                    entityGroups.set(coordKey, []);
-                }
-                entityGroups.get(coordKey)!.push({
-                    entityRef,
-                    coordinates: binding.coordinates,
-                    location
-                });
+                if (timed.has(`${entityRef.entityType}:${entityRef.entityId}`)) continue;
+                addToGroup(entityRef, binding.coordinates, location);
             }
         }
 
+        if (timeline) {
+            const byId = new Map<string, Location>();
+            locations.forEach(location => byId.set(location.id || location.name, location));
+
+            for (const path of timeline.data.paths) {
+                const stop = positionAt(path, timeline.to);
+                const location = stop ? byId.get(stop.locationId) : undefined;
+                if (!stop || !location) continue;
+                addToGroup({
+                    entityId: path.characterId,
+                    entityName: path.characterName,
+                    entityType: 'character',
+                    relationship: stop.relationship
+                }, stop.coordinates, location);
+            }
+            for (const event of eventsInRange(timeline.data.events, timeline.from, timeline.to)) {
+                const location = byId.get(event.locationId);
+                if (!location) continue;
+                addToGroup({ entityId: event.eventId, entityName: event.eventName, entityType: 'event' }, event.coordinates, location);
+            }
+            this.renderCharacterPaths(timeline);
+        }
+
         // Render entities with offset for stacked ones
         for (const [coordKey, entities] of entityGroups) {
             const totalAtLocation = entities.length;
@@ -378,6 +493,61 @@ export class MapEntityRenderer {
         }
     }
 
+    /**
+     * Draw each character's route between locations over the selected range
+     */
+    private renderCharacterPaths(timeline: MapTimelineFilter): void {
+        const pathsLayer = this.markerLayers.get('paths');
+        if (!pathsLayer) return;
+
+        for (const path of timeline.data.paths) {
+            const stops = stopsInRange(path, timeline.from, timeline.to);
+            const color = this.getPathColor(path.characterName);
+            const points: [number, number][] = [];
+            for (const stop of stops) {
+                const last = points[points.length - 1];
+                if (!last || !this.areCoordinatesEqual(last, stop.coordinates)) {
+                    points.push(stop.coordinates);
+                }
+                const dot = L.circleMarker(stop.coordinates, {
+                    radius: 4,
+                    color,
+                    fillColor: color,
+                    fillOpacity: 0.9,
+                    weight: 1
+                });
+                const label = stop.relationship ? `${stop.locationName} (${stop.relationship})` : stop.locationName;
+                dot.bindTooltip(`${path.characterName}: ${label}`, {
+                    direction: 'top',
+                    className: 'storyteller-map-tooltip'
+                });
+                pathsLayer.addLayer(dot);
+            }
+            if (points.length < 2) continue;
+
+            const line = L.polyline(points, {
+                color,
+                weight: 3,
+                opacity: 0.8,
+                dashArray: '6 6',
+                className: 'storyteller-character-path'
+            });
+            line.bindTooltip(path.characterName, { sticky: true, className: 'storyteller-map-tooltip' });
+            pathsLayer.addLayer(line);
+        }
+    }
+
+    /**
+     * Stable color per character so a path keeps its color while the slider moves
+     */
+    private getPathColor(name: string): string {
+        let hash = 0;
+        for (let i = 0; i < name.length; i++) {
+            hash = (hash * 31 + name.charCodeAt(i)) | 0;
+        }
+        return `hsl(${Math.abs(hash) % 360}, 70%, 45%)`;
+    }
+
     /**
      * Create a marker for a location with entity popup
      */
@@ -771,6 +941,21 @@ export class MapEntityRenderer {
             }
         }
 
+        // Estimated availability of traded resources here
+        const market = this.marketEstimates.get(locationKey(location));
+        if (market && market.length > 0) {
+            const marketSection = container.createDiv('popup-section');
+            marketSection.createEl('h4', { text: 'Market' });
+            const marketList = marketSection.createEl('ul', { cls: 'popup-entity-list' });
+            for (const estimate of market.slice(0, 6)) {
+                const price = isFinite(estimate.priceMultiplier) ? ` ×${estimate.priceMultiplier.toFixed(2)}` : '';
+                marketList.createEl('li', { text: `${estimate.resource}: ${estimate.availability}${price}` });
+            }
+            if (market.length > 6) {
+                marketList.createEl('li', { text: `... and ${market.length - 6} more`, cls: 'popup-more' });
+            }
+        }
+
         // Action buttons
         const actions = container.createDiv('popup-actions');
         actions.innerHTML = `
@@ -1275,6 +1460,7 @@ export class MapEntityRenderer {
         this.markerLayers.clear();
         this.locationMarkers.clear();
         this.entityMarkers.clear();
+        this.marketEstimates.clear();
     }
 }
 
@@ -0,0 +1,165 @@
+/**
+ * MapTimeSlider - Leaflet control for choosing a story-date range
+ * Two range handles pick the window; Play sweeps the end handle forward to animate movement.
+ */
+
+import * as L from 'leaflet';
+import { setIcon } from 'obsidian';
+import { DateTime } from 'luxon';
+
+/** Slider resolution: positions between the earliest and latest date */
+const STEPS = 1000;
+/** Animation: step size (in slider positions) and delay between steps */
+const PLAY_STEP = 10;
+const PLAY_INTERVAL_MS = 150;
+
+export class MapTimeSlider {
+    private control: L.Control | null = null;
+    private fromInput: HTMLInputElement | null = null;
+    private toInput: HTMLInputElement | null = null;
+    private labelEl: HTMLElement | null = null;
+    private playBtn: HTMLButtonElement | null = null;
+    private playTimer: number | null = null;
+    private fromStep = 0;
+    private toStep = STEPS;
+
+    constructor(
+        private map: L.Map,
+        private bounds: { min: number; max: number },
+        private onChange: (from: number, to: number) => void,
+        initial?: { from?: number; to?: number }
+    ) {
+        if (initial?.from !== undefined) this.fromStep = this.toStepValue(initial.from);
+        if (initial?.to !== undefined) this.toStep = this.toStepValue(initial.to);
+        if (this.fromStep > this.toStep) this.fromStep = this.toStep;
+    }
+
+    /** Selected range in milliseconds */
+    getRange(): { from: number; to: number } {
+        return { from: this.toTime(this.fromStep), to: this.toTime(this.toStep) };
+    }
+
+    /**
+     * Add the control to the bottom-left corner of the map
+     */
+    addTo(): void {
+        const Control = L.Control.extend({
+            onAdd: () => this.buildContainer()
+        });
+        this.control = new Control({ position: 'bottomleft' });
+        this.control.addTo(this.map);
+    }
+
+    /**
+     * Stop any animation and remove the control
+     */
+    remove(): void {
+        this.stop();
+        if (this.control) {
+            this.control.remove();
+            this.control = null;
+        }
+    }
+
+    private buildContainer(): HTMLElement {
+        const container = L.DomUtil.create('div', 'storyteller-time-slider leaflet-bar');
+        // Keep slider drags and scrolls from panning or zooming the map
+        L.DomEvent.disableClickPropagation(container);
+        L.DomEvent.disableScrollPropagation(container);
+
+        const header = container.createDiv('storyteller-time-slider-header');
+        this.playBtn = header.createEl('button', {
+            cls: 'clickable-icon storyteller-time-slider-play',
+            attr: { 'aria-label': 'Play', 'title': 'Play' }
+        });
+        setIcon(this.playBtn, 'play');
+        this.playBtn.onclick = () => (this.playTimer === null ? this.play() : this.stop());
+        this.labelEl = header.createSpan('storyteller-time-slider-label');
+
+        const track = container.createDiv('storyteller-time-slider-track');
+        this.fromInput = this.createRange(track, this.fromStep, 'Range start');
+        this.toInput = this.createRange(track, this.toStep, 'Range end');
+
+        this.fromInput.oninput = () => {
+            this.fromStep = Math.min(Number(this.fromInput!.value), this.toStep);
+            this.update();
+        };
+        this.toInput.oninput = () => {
+            this.stop();
+            this.toStep = Math.max(Number(this.toInput!.value), this.fromStep);
+            this.update();
+        };
+
+        this.updateLabel();
+        return container;
+    }
+
+    private createRange(parent: HTMLElement, value: number, label: string): HTMLInputElement {
+        const input = parent.createEl('input', {
+            type: 'range',
+            cls: 'storyteller-time-slider-range',
+            attr: { min: '0', max: String(STEPS), step: '1', 'aria-label': label }
+        });
+        input.value = String(value);
+        return input;
+    }
+
+    /**
+     * Animate the end handle from the start handle to the latest date
+     */
+    private play(): void {
+        if (this.toStep >= STEPS) this.toStep = this.fromStep;
+        if (this.playBtn) {
+            setIcon(this.playBtn, 'pause');
+            this.playBtn.setAttr('aria-label', 'Pause');
+            this.playBtn.setAttr('title', 'Pause');
+        }
+        this.update();
+        this.playTimer = window.setInterval(() => {
+            this.toStep = Math.min(STEPS, this.toStep + PLAY_STEP);
+            this.update();
+            if (this.toStep >= STEPS) this.stop();
+        }, PLAY_INTERVAL_MS);
+    }
+
+    private stop(): void {
+        if (this.playTimer !== null) {
+            window.clearInterval(this.playTimer);
+            this.playTimer = null;
+        }
+        if (this.playBtn) {
+            setIcon(this.playBtn, 'play');
+            this.playBtn.setAttr('aria-label', 'Play');
+            this.playBtn.setAttr('title', 'Play');
+        }
+    }
+
+    private update(): void {
+        if (this.fromInput) this.fromInput.value = String(this.fromStep);
+        if (this.toInput) this.toInput.value = String(this.toStep);
+        this.updateLabel();
+        const { from, to } = this.getRange();
+        this.onChange(from, to);
+    }
+
+    private updateLabel(): void {
+        if (!this.labelEl) return;
+        const { from, to } = this.getRange();
+        this.labelEl.setText(`${this.formatTime(from)} – ${this.formatTime(to)}`);
+    }
+
+    private formatTime(ms: number): string {
+        return DateTime.fromMillis(ms).toLocaleString(DateTime.DATE_MED);
+    }
+
+    private toTime(step: number): number {
+        const span = this.bounds.max - this.bounds.min;
+        return this.bounds.min + (span * step) / STEPS;
+    }
+
+    private toStepValue(ms: number): number {
+        const span = this.bounds.max - this.bounds.min;
+        if (span <= 0) return STEPS;
+        return Math.round(Math.max(0, Math.min(1, (ms - this.bounds.min) / span)) * STEPS);
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * MapTimeline - Places characters and events on a map by story date
+ *
+ * Character positions come from `locationHistory` entries that carry a `timeRange`;
+ * events come from `dateTime` plus `location`. Only locations bound to the map are used.
+ * All times are epoch milliseconds from parseEventDate, so custom calendars are respected.
+ */
+
+import type { Character, Event, Location } from '../types';
+import { parseEventDate, toMillis } from '../utils/DateParsing';
+
+/** One stay of a character at a location */
+export interface TimelineStop {
+    /** Location id (or name when the location has no id) */
+    locationId: string;
+    locationName: string;
+    coordinates: [number, number];
+    relationship?: string;
+    /** Start of the stay; -Infinity when only an end is known */
+    start: number;
+    /** End of the stay; the next stay's start (or Infinity) when open-ended */
+    end: number;
+}
+
+/** A character's stays on one map in chronological order */
+export interface CharacterPath {
+    characterId: string;
+    characterName: string;
+    stops: TimelineStop[];
+}
+
+/** A dated event placed at a bound location */
+export interface TimedEvent {
+    eventId: string;
+    eventName: string;
+    locationId: string;
+    coordinates: [number, number];
+    start: number;
+    end: number;
+}
+
+/** Everything the time slider needs for one map */
+export interface MapTimelineData {
+    paths: CharacterPath[];
+    events: TimedEvent[];
+    /** Earliest and latest finite times, when anything is dated */
+    bounds?: { min: number; max: number };
+}
+
+/** Time window currently selected on the slider */
+export interface MapTimelineFilter {
+    data: MapTimelineData;
+    from: number;
+    to: number;
+}
+
+/** Parse a story date to its start and end in milliseconds */
+function parseRange(value?: string): { start?: number; end?: number } {
+    if (!value || !value.trim()) return {};
+    const parsed = parseEventDate(value);
+    if (parsed.error || !parsed.start) return {};
+    const start = toMillis(parsed.start);
+    return { start, end: toMillis(parsed.end) ?? start };
+}
+
+/** Start of a story date in milliseconds, for slider parameters */
+export function parseTimelineDate(value?: string): number | undefined {
+    return parseRange(value).start;
+}
+
+/**
+ * Collect dated character paths and events for a map
+ */
+export function buildMapTimeline(
+    mapId: string,
+    characters: Character[],
+    locations: Location[],
+    events: Event[]
+): MapTimelineData {
+    // Bound locations, reachable by id or name
+    const bound = new Map<string, { location: Location; coordinates: [number, number] }>();
+    for (const location of locations) {
+        const binding = location.mapBindings?.find(b => b.mapId === mapId);
+        if (!binding) continue;
+        const entry = { location, coordinates: binding.coordinates };
+        if (location.id) bound.set(location.id, entry);
+        bound.set(location.name, entry);
+    }
+
+    const finite: number[] = [];
+    const track = (...values: number[]) => values.forEach(v => { if (isFinite(v)) finite.push(v); });
+
+    const paths: CharacterPath[] = [];
+    for (const character of characters) {
+        const stops: TimelineStop[] = [];
+        for (const entry of character.locationHistory || []) {
+            const place = bound.get(entry.locationId);
+            if (!place || !entry.timeRange) continue;
+            const from = parseRange(entry.timeRange.start);
+            const to = parseRange(entry.timeRange.end);
+            if (from.start === undefined && to.end === undefined) continue;
+            stops.push({
+                locationId: place.location.id || place.location.name,
+                locationName: place.location.name,
+                coordinates: place.coordinates,
+                relationship: entry.relationship,
+                start: from.start ?? -Infinity,
+                end: to.end ?? NaN
+            });
+        }
+        if (stops.length === 0) continue;
+
+        stops.sort((a, b) => a.start - b.start);
+        // Open-ended stays last until the next one begins
+        stops.forEach((stop, i) => {
+            if (isNaN(stop.end)) stop.end = i + 1 < stops.length ? stops[i + 1].start : Infinity;
+            track(stop.start, stop.end);
+        });
+        paths.push({ characterId: character.id || character.name, characterName: character.name, stops });
+    }
+
+    const timedEvents: TimedEvent[] = [];
+    for (const event of events) {
+        const place = event.location ? bound.get(event.location) : undefined;
+        const when = parseRange(event.dateTime);
+        if (!place || when.start === undefined) continue;
+        timedEvents.push({
+            eventId: event.id || event.name,
+            eventName: event.name,
+            locationId: place.location.id || place.location.name,
+            coordinates: place.coordinates,
+            start: when.start,
+            end: when.end ?? when.start
+        });
+        track(when.start, when.end ?? when.start);
+    }
+    timedEvents.sort((a, b) => a.start - b.start);
+
+    return {
+        paths,
+        events: timedEvents,
+        bounds: finite.length > 0 ? { min: Math.min(...finite), max: Math.max(...finite) } : undefined
+    };
+}
+
+/** Where a character is at a moment: the stay covering it, else the last stay begun before it */
+export function positionAt(path: CharacterPath, time: number): TimelineStop | undefined {
+    let latest: TimelineStop | undefined;
+    for (const stop of path.stops) {
+        if (stop.start > time) break;
+        latest = stop;
+        if (time <= stop.end) return stop;
+    }
+    return latest;
+}
+
+/** Stays overlapping a range, in order; the route a character took through it */
+export function stopsInRange(path: CharacterPath, from: number, to: number): TimelineStop[] {
+    return path.stops.filter(stop => stop.start <= to && stop.end >= from);
+}
+
+/** Events overlapping a range */
+export function eventsInRange(events: TimedEvent[], from: number, to: number): TimedEvent[] {
+    return events.filter(event => event.start <= to && event.end >= from);
+}
@@ -10,6 +10,9 @@ import { RasterCoords } from './utils/RasterCoords';
 import { EntityMarkerDiscovery } from './EntityMarkerDiscovery';
 import { MapEntityRenderer } from './MapEntityRenderer';
 import { ObsidianTileLayer } from './ObsidianTileLayer';
+import { MapTimeSlider } from './MapTimeSlider';
+import { buildMapTimeline, parseTimelineDate } from './MapTimeline';
+import type { MapTimelineFilter } from './MapTimeline';
 
 /**
  * Core Leaflet Map Renderer
@@ -34,6 +37,10 @@ export class LeafletRenderer extends Component {
     private imageHeight: number = 0;
     private imageBounds: L.LatLngBounds | null = null;
     private wheelHandler: ((e: WheelEvent) => void) | null = null;
+    private timeSlider: MapTimeSlider | null = null;
+    private timeline: MapTimelineFilter | null = null;
+    private timelineRender: Promise<void> | null = null;
+    private timelinePending = false;
 
     constructor(
         private plugin: StorytellerSuitePlugin,
@@ -100,6 +107,9 @@ export class LeafletRenderer extends Component {
                     await this.mapEntityRenderer.renderLocationsForMap(mapId);
                     await this.mapEntityRenderer.renderPortalMarkers(mapId);
                     await this.mapEntityRenderer.renderEntitiesForMap(mapId);
+                    if (this.params.timeSlider) {
+                        await this.setTimeSliderEnabled(true);
+                    }
                 }
             }
 
@@ -1125,7 +1135,87 @@ export class LeafletRenderer extends Component {
         const mapId = this.params.mapId;
         // Refresh both locations and entities to ensure markers appear at correct positions
         await this.mapEntityRenderer.renderLocationsForMap(mapId);
-        await this.mapEntityRenderer.renderEntitiesForMap(mapId);
+        if (this.timeline) {
+            // Entities may have moved or been re-dated; rebuild the timeline and keep the range
+            const { from, to } = this.timeline;
+            if (!await this.setTimeSliderEnabled(true, { from, to })) {
+                await this.setTimeSliderEnabled(false);
+            }
+        } else {
+            await this.mapEntityRenderer.renderEntitiesForMap(mapId);
+        }
+    }
+
+    /**
+     * Whether the story-date slider is showing
+     */
+    isTimeSliderEnabled(): boolean {
+        return this.timeSlider !== null;
+    }
+
+    /**
+     * Show or hide the story-date slider
+     * While shown, characters move along their location history and events are limited to
+     * the selected range. Returns false when nothing on this map is dated.
+     */
+    async setTimeSliderEnabled(enabled: boolean, initial?: { from?: number; to?: number }): Promise<boolean> {
+        const mapId = (this.params as any).mapId || this.params.id;
+        if (!this.map || !this.mapEntityRenderer || !mapId) return false;
+
+        if (!enabled) {
+            this.timeSlider?.remove();
+            this.timeSlider = null;
+            this.timeline = null;
+            await this.mapEntityRenderer.renderEntitiesForMap(mapId);
+            return true;
+        }
+
+        const data = buildMapTimeline(
+            mapId,
+            await this.plugin.listCharacters(),
+            await this.plugin.listLocations(),
+            await this.plugin.listEvents()
+        );
+        if (!data.bounds) {
+            new Notice('No dated character locations or events on this map');
+            return false;
+        }
+
+        this.timeSlider?.remove();
+        this.timeSlider = new MapTimeSlider(
+            this.map,
+            data.bounds,
+            (from, to) => this.applyTimeRange(from, to),
+            initial ?? {
+                from: parseTimelineDate(this.params.timeStart),
+                to: parseTimelineDate(this.params.timeEnd)
+            }
+        );
+        this.timeSlider.addTo();
+        this.timeline = { data, ...this.timeSlider.getRange() };
+        await this.mapEntityRenderer.renderEntitiesForMap(mapId, this.timeline);
+        return true;
+    }
+
+    /**
+     * Re-render for a new slider range
+     * Slider and animation events arrive faster than markers render, so only the latest range is drawn.
+     */
+    private async applyTimeRange(from: number, to: number): Promise<void> {
+        if (!this.timeline) return;
+        this.timeline = { ...this.timeline, from, to };
+        if (this.timelineRender) {
+            this.timelinePending = true;
+            return;
+        }
+        const mapId = (this.params as any).mapId || this.params.id;
+        while (this.timeline && this.mapEntityRenderer) {
+            this.timelinePending = false;
+            this.timelineRender = this.mapEntityRenderer.renderEntitiesForMap(mapId, this.timeline);
+            await this.timelineRender;
+            if (!this.timelinePending) break;
+        }
+        this.timelineRender = null;
     }
 
     /**
@@ -1278,6 +1368,13 @@ export class LeafletRenderer extends Component {
      * Called automatically by Obsidian when the markdown section is unloaded
      */
     async onunload(): Promise<void> {
+        // Stop slider animation before the map goes away
+        if (this.timeSlider) {
+            this.timeSlider.remove();
+            this.timeSlider = null;
+        }
+        this.timeline = null;
+
         // Clean up MapEntityRenderer
         if (this.mapEntityRenderer) {
             this.mapEntityRenderer.cleanup();
@@ -46,6 +46,11 @@ export interface BlockParameters {
     // Overlays
     overlay?: Array<[string, [number, number], [number, number]]>; // Image overlays
 
+    // Time Slider
+    timeSlider?: boolean;    // Show the story-date slider for character paths and events
+    timeStart?: string;      // Initial start of the selected range (story date)
+    timeEnd?: string;        // Initial end of the selected range (story date)
+
     // Map ID
     id?: string;             // Unique map identifier
 
@@ -161,6 +161,18 @@ function normalizeParameters(params: BlockParameters): BlockParameters {
     if (typeof (params as any).draw === 'string') {
         params.draw = ((params as any).draw as string).toLowerCase() === 'true';
     }
+    if (typeof (params as any).timeSlider === 'string') {
+        params.timeSlider = ((params as any).timeSlider as string).toLowerCase() === 'true';
+    }
+    // YAML may read plain dates as Date objects; story dates are parsed from strings
+    for (const key of ['timeStart', 'timeEnd']) {
+        const value = (params as any)[key];
+        if (value instanceof Date) {
+            params[key] = value.toISOString().slice(0, 10);
+        } else if (value !== undefined && typeof value !== 'string') {
+            params[key] = String(value);
+        }
+    }
 
     // Normalize arrays
     if (params.marker && typeof params.marker === 'string') {
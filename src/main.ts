@@ -16,7 +16,7 @@ import * as L from 'leaflet';
 // import 'leaflet.markercluster/dist/leaflet.markercluster';
 
 import { App, Notice, Plugin, TFile, TFolder, normalizePath, stringifyYaml, WorkspaceLeaf } from 'obsidian';
-import { parseEventDate, toMillis } from './utils/DateParsing';
+import { parseEventDate, toMillis, setActiveCalendar } from './utils/DateParsing';
 import { buildFrontmatter, getWhitelistKeys, parseSectionsFromMarkdown } from './yaml/EntitySections';
 import { stringifyYamlWithLogging, validateFrontmatterPreservation } from './utils/YamlSerializer';
 import { setLocale, t } from './i18n/strings';
@@ -26,7 +26,7 @@ import { ConfirmModal } from './modals/ui/ConfirmModal';
 import { CharacterModal } from './modals/CharacterModal';
 import {
     Character, Location, Event, GalleryImage, GalleryData, Story, Group, PlotItem, Reference, Chapter, Scene,
-    Culture, Economy, MagicSystem,
+    Culture, Economy, MagicSystem, Calendar,
     TimelineFork, CausalityLink, TimelineConflict, TimelineEra, TimelineTrack,
     PacingAnalysis, WritingSession, StoryAnalytics, LocationSensoryProfile,
     StoryMap
@@ -43,6 +43,9 @@ import { NetworkGraphView, VIEW_TYPE_NETWORK_GRAPH } from './views/NetworkGraphV
 import { TimelineView, VIEW_TYPE_TIMELINE } from './views/TimelineView';
 import { AnalyticsDashboardView, VIEW_TYPE_ANALYTICS } from './views/AnalyticsDashboardView';
 import { MapView, VIEW_TYPE_MAP } from './views/MapView';
+import { FactionDiplomacyView, VIEW_TYPE_FACTION_DIPLOMACY } from './views/FactionDiplomacyView';
+import { SceneKanbanView, VIEW_TYPE_SCENE_KANBAN } from './views/SceneKanbanView';
+import { DEFAULT_SCENE_STATUSES } from './utils/SceneKanban';
 // DEPRECATED: Map functionality has been deprecated
 // import { MapEditorView, VIEW_TYPE_MAP_EDITOR } from './views/MapEditorView';
 import { GalleryImageSuggestModal } from './modals/GalleryImageSuggestModal';
@@ -57,6 +60,13 @@ import { EconomyModal } from './modals/EconomyModal';
 import { EconomyListModal } from './modals/EconomyListModal';
 import { MagicSystemModal } from './modals/MagicSystemModal';
 import { MagicSystemListModal } from './modals/MagicSystemListModal';
+import { CalendarModal } from './modals/CalendarModal';
+import { CalendarListModal } from './modals/CalendarListModal';
+import { RenamePropagationService } from './services/RenamePropagationService';
+import { GroupGallerySyncService } from './services/GroupGallerySyncService';
+import { EntityIndex, IndexedEntityType } from './services/EntityIndex';
+import { MentionIndex } from './services/MentionIndex';
+import { WritingProgress } from './services/WritingProgress';
 import { PlatformUtils } from './utils/PlatformUtils';
 import { getTemplateSections } from './utils/EntityTemplates';
 import { LeafletCodeBlockProcessor } from './leaflet/processor';
@@ -69,15 +79,23 @@ import { TrackManagerModal } from './modals/TrackManagerModal';
 import { ConflictViewModal } from './modals/ConflictViewModal';
 import { TagTimelineModal } from './modals/TagTimelineModal';
 import { ConflictDetector } from './utils/ConflictDetector';
+import type { ConflictContext } from './utils/ConflictDetector';
 import { TimelineTrackManager } from './utils/TimelineTrackManager';
 import { EraManager } from './utils/EraManager';
+import { applyOverrides, findAlteration, planForkMerge } from './utils/TimelineForks';
+import type { ForkCanon, ForkEntityType, ForkMergePlan } from './utils/TimelineForks';
 import { LocationMigration } from './utils/LocationMigration';
+import { estimateScarcity, formatTradeReport, resolveTradeRoutes } from './utils/TradeNetwork';
+
+import { clearStoryScopedRecords, getScopedRecords, migrateStoryScopedRecords, setScopedRecords } from './utils/StoryScopedRecords';
+import type { StoryScopedKey, StoryScopedRecords, StoryScopedSettings } from './utils/StoryScopedRecords';
+export type { StoryScopedKey } from './utils/StoryScopedRecords';
 
 /**
  * Plugin settings interface defining all configurable options
  * These settings are persisted in Obsidian's data.json file
  */
- interface StorytellerSuiteSettings {
+ interface StorytellerSuiteSettings extends StoryScopedSettings {
     stories: Story[]; // List of all stories
     activeStoryId: string; // Currently selected story
     galleryUploadFolder: string; // New setting for uploads
@@ -124,8 +142,12 @@ import { LocationMigration } from './utils/LocationMigration';
     sanitizedSeedData?: boolean;
     /** How to serialize customFields into frontmatter */
     customFieldsMode?: 'flatten' | 'nested';
+    /** Offer to update name references in other entities when an entity is renamed */
+    enableRenamePropagation?: boolean;
     /** Internal: set after relationships migration to avoid repeating it */
     relationshipsMigrated?: boolean;
+    /** Internal: set once groups and gallery metadata have been written out as notes */
+    groupGalleryNotesMigrated?: boolean;
     /** Network graph view zoom level (saved per session) */
     networkGraphZoom?: number;
     /** Network graph view pan position (saved per session) */
@@ -138,18 +160,16 @@ import { LocationMigration } from './utils/LocationMigration';
     storyBoardColorBy?: 'status' | 'chapter' | 'none';
     storyBoardShowEdges?: boolean;
 
+    /** Scene statuses, in kanban column order */
+    sceneStatuses?: string[];
+
     /** Map settings */
     enableFrontmatterMarkers?: boolean;
     enableDataViewMarkers?: boolean;
     /** Persisted map view states (zoom/center) per map ID */
     mapViewStates?: Record<string, { zoom: number; center: { lat: number; lng: number } }>;
 
-    /** Timeline & Causality */
-    timelineForks?: TimelineFork[];
-    causalityLinks?: CausalityLink[];
-    timelineConflicts?: TimelineConflict[];
-    timelineEras?: TimelineEra[];
-    timelineTracks?: TimelineTrack[];
+    /** Timeline & Causality (forks, causality links, conflicts, eras and tracks are per story) */
     enableAdvancedTimeline?: boolean;
     autoDetectConflicts?: boolean;
 
@@ -166,10 +186,10 @@ import { LocationMigration } from './utils/LocationMigration';
     economyFolderPath?: string;
     factionFolderPath?: string;
     magicSystemFolderPath?: string;
+    calendarFolderPath?: string;
 
-    /** Sensory Profiles */
+    /** Sensory Profiles (per story) */
     enableSensoryProfiles?: boolean;
-    sensoryProfiles?: LocationSensoryProfile[];
 
     /** Dashboard tab visibility - array of tab IDs to hide */
     hiddenDashboardTabs?: string[];
@@ -198,12 +218,18 @@ import { LocationMigration } from './utils/LocationMigration';
     
     /** Currently active draft ID */
     activeDraftId?: string;
+
+    /** Frozen copies of draft scene text */
+    draftSnapshots?: import('./types').DraftSnapshot[];
     
     /** Compile workflows */
     compileWorkflows?: import('./types').CompileWorkflow[];
     
     /** Default compile workflow name */
     defaultCompileWorkflow?: string;
+
+    /** Whether compile workflows may run user-script steps; off so a synced vault cannot run code on compile */
+    allowUserScripts?: boolean;
     
     /** Daily word count goal */
     dailyWordCountGoal?: number;
@@ -219,6 +245,9 @@ import { LocationMigration } from './utils/LocationMigration';
     
     /** Daily writing statistics */
     dailyWritingStats?: import('./types').DailyWritingStats[];
+
+    /** Project goals with a target length and deadline */
+    projectGoals?: import('./types').ProjectGoal[];
     
     /** User compile scripts folder path */
     compileScriptsFolder?: string;
@@ -265,22 +294,26 @@ import { LocationMigration } from './utils/LocationMigration';
     enableDataViewMarkers: false,
     mapViewStates: {},
     customFieldsMode: 'flatten',
+    enableRenamePropagation: true,
     relationshipsMigrated: false,
-    timelineForks: [],
-    causalityLinks: [],
-    timelineConflicts: [],
-    timelineEras: [],
-    timelineTracks: [],
+    groupGalleryNotesMigrated: false,
+    timelineForks: {},
+    causalityLinks: {},
+    timelineConflicts: {},
+    timelineEras: {},
+    timelineTracks: {},
     enableAdvancedTimeline: false,
     autoDetectConflicts: true,
     analyticsEnabled: false,
     writingSessions: [],
+    pacingHistory: {},
     trackWritingSessions: false,
     enableWorldBuilding: true,
     cultureFolderPath: '',
     economyFolderPath: '',
     factionFolderPath: '',
     magicSystemFolderPath: '',
+    calendarFolderPath: '',
     enableSensoryProfiles: true,
     hiddenDashboardTabs: [],
     templateStorageFolder: 'StorytellerSuite/Templates',
@@ -295,13 +328,17 @@ import { LocationMigration } from './utils/LocationMigration';
     // Manuscript & Compile defaults
     storyDrafts: [],
     activeDraftId: undefined,
+    draftSnapshots: [],
     compileWorkflows: [],
     defaultCompileWorkflow: 'Default Workflow',
+    allowUserScripts: false,
+    sceneStatuses: [...DEFAULT_SCENE_STATUSES],
     dailyWordCountGoal: 1000,
     showWordCountInStatusBar: true,
     notifyOnGoalReached: true,
     countDeletionsForGoal: false,
     dailyWritingStats: [],
+    projectGoals: [],
     compileScriptsFolder: 'StorytellerSuite/CompileScripts',
     manuscriptOutputFolder: 'StorytellerSuite/Manuscripts'
 }
@@ -320,8 +357,8 @@ export default class StorytellerSuitePlugin extends Plugin {
         }
         return true;
     }
-    /** Build a resolver using current settings */
-    public getFolderResolver(): FolderResolver {
+    /** Build a resolver using current settings, for the active story unless another is given */
+    public getFolderResolver(story?: Story): FolderResolver {
         const options: FolderResolverOptions = {
             enableCustomEntityFolders: this.settings.enableCustomEntityFolders,
             storyRootFolderTemplate: this.settings.storyRootFolderTemplate,
@@ -337,10 +374,11 @@ export default class StorytellerSuitePlugin extends Plugin {
             economyFolderPath: this.settings.economyFolderPath,
             factionFolderPath: this.settings.factionFolderPath,
             magicSystemFolderPath: this.settings.magicSystemFolderPath,
+            calendarFolderPath: this.settings.calendarFolderPath,
             enableOneStoryMode: this.settings.enableOneStoryMode,
             oneStoryBaseFolder: this.settings.oneStoryBaseFolder,
         };
-        return new FolderResolver(options, () => this.getActiveStory());
+        return new FolderResolver(options, () => story ?? this.getActiveStory());
     }
 
     /**
@@ -436,6 +474,11 @@ export default class StorytellerSuitePlugin extends Plugin {
     templateNoteManager: TemplateNoteManager;
     trackManager: TimelineTrackManager;
     eraManager: EraManager;
+    renamePropagation: RenamePropagationService;
+    entityIndex: EntityIndex;
+    mentionIndex: MentionIndex;
+    writingProgress: WritingProgress;
+    groupGallerySync: GroupGallerySyncService;
     private warnedMissingNameFiles: Set<string> = new Set();
 
     // Mobile/tablet orientation and resize handlers
@@ -481,7 +524,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 	/**
 	 * Helper: Get the folder path for a given entity type in the active story
 	 */
-    getEntityFolder(type: 'character' | 'location' | 'event' | 'item' | 'reference' | 'chapter' | 'scene' | 'map' | 'culture' | 'faction' | 'economy' | 'magicSystem' | 'calendar'): string {
+    getEntityFolder(type: 'character' | 'location' | 'event' | 'item' | 'reference' | 'chapter' | 'scene' | 'map' | 'culture' | 'faction' | 'economy' | 'magicSystem' | 'calendar' | 'group' | 'gallery'): string {
         const resolver = this.getFolderResolver();
         return resolver.getEntityFolder(type);
     }
@@ -544,6 +587,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 		this.settings.stories.push(story);
 		this.settings.activeStoryId = id;
 		await this.saveSettings();
+		await this.refreshActiveCalendar();
         // Ensure folders using resolver so all modes are respected (custom, one-story, default)
         await this.ensureFolder(this.getEntityFolder('character'));
         await this.ensureFolder(this.getEntityFolder('location'));
@@ -562,6 +606,8 @@ export default class StorytellerSuitePlugin extends Plugin {
 		if (this.settings.stories.find(s => s.id === storyId)) {
 			this.settings.activeStoryId = storyId;
 			await this.saveSettings();
+			await this.refreshActiveCalendar();
+			this.renamePropagation?.rebuildNameIndex();
 		} else {
 			throw new Error('Story not found');
 		}
@@ -602,6 +648,19 @@ export default class StorytellerSuitePlugin extends Plugin {
 		await this.saveSettings();
 	}
 
+	/**
+	 * Remove a story from the list along with its per-story collections.
+	 * The story's notes stay in the vault.
+	 */
+	async deleteStory(storyId: string): Promise<void> {
+		this.settings.stories = this.settings.stories.filter(s => s.id !== storyId);
+		clearStoryScopedRecords(this.settings, storyId);
+		if (this.settings.activeStoryId === storyId) {
+			this.settings.activeStoryId = this.settings.stories[0]?.id || '';
+		}
+		await this.saveSettings();
+	}
+
 	/**
 	 * Migrate legacy string relationships to typed TypedRelationship format
 	 * This runs once per vault on plugin upgrade
@@ -678,6 +737,22 @@ export default class StorytellerSuitePlugin extends Plugin {
 		// Initialize locale from settings
 		setLocale(this.settings.language);
 
+		// Serve list* calls from an in-memory index kept current by vault events
+		this.entityIndex = new EntityIndex(this, (file, type) => this.parseEntityFile(file, type));
+		this.entityIndex.register();
+
+		// Index entity mentions in scene and chapter prose in the background
+		this.mentionIndex = new MentionIndex(this);
+		this.mentionIndex.register();
+
+		// Record daily writing from scene edits and show goal progress in the status bar
+		this.writingProgress = new WritingProgress(this);
+		this.writingProgress.register();
+
+		// Mirror groups and gallery metadata to notes; the initial sync runs once the vault is ready
+		this.groupGallerySync = new GroupGallerySyncService(this);
+		this.groupGallerySync.register();
+
 		// Initialize template manager
 		this.templateManager = new TemplateStorageManager(
 			this.app,
@@ -718,6 +793,10 @@ export default class StorytellerSuitePlugin extends Plugin {
 		this.trackManager = new TimelineTrackManager(this);
 		this.eraManager = new EraManager(this);
 
+		// Keep name-based references in sync when entities are renamed
+		this.renamePropagation = new RenamePropagationService(this);
+		this.renamePropagation.register();
+
 		// Initialize default tracks if none exist
 		await this.trackManager.initializeDefaultTracks();
 
@@ -758,6 +837,18 @@ export default class StorytellerSuitePlugin extends Plugin {
 			(leaf) => new MapView(leaf, this)
 		);
 
+		// Register the faction diplomacy view for stances and power over time
+		this.registerView(
+			VIEW_TYPE_FACTION_DIPLOMACY,
+			(leaf) => new FactionDiplomacyView(leaf, this)
+		);
+
+		// Register the scene kanban view for moving scenes between statuses
+		this.registerView(
+			VIEW_TYPE_SCENE_KANBAN,
+			(leaf) => new SceneKanbanView(leaf, this)
+		);
+
 		// DEPRECATED: Map functionality has been deprecated
 		// Register the map editor view for full-screen map editing
 		// this.registerView(
@@ -787,6 +878,9 @@ export default class StorytellerSuitePlugin extends Plugin {
 		this.app.workspace.onLayoutReady(async () => {
 			await this.discoverExistingStories();
 			await this.initializeOneStoryModeIfNeeded();
+			await this.refreshActiveCalendar();
+			this.renamePropagation.rebuildNameIndex();
+			await this.groupGallerySync.initialize();
 
 			// Run migration for typed relationships (only runs once)
 			if (!this.settings.relationshipsMigrated) {
@@ -1124,6 +1218,11 @@ export default class StorytellerSuitePlugin extends Plugin {
 			console.error('Storyteller Suite: Error cleaning up orientation handlers', error);
 		}
 
+		this.entityIndex?.destroy();
+		this.mentionIndex?.destroy();
+		this.writingProgress?.destroy();
+		this.groupGallerySync?.destroy();
+
 		// Cleanup all active maps
 		try {
 			if (this.leafletProcessor) {
@@ -1286,13 +1385,13 @@ export default class StorytellerSuitePlugin extends Plugin {
 			id: 'manage-timeline-tracks',
 			name: 'Manage timeline tracks',
 			callback: () => {
-				const tracks = this.settings.timelineTracks || [];
+				const tracks = this.getTimelineTracks();
 				new TrackManagerModal(
 					this.app,
 					this,
 					tracks,
 					async (updatedTracks) => {
-						this.settings.timelineTracks = updatedTracks;
+						this.setStoryRecords('timelineTracks', updatedTracks);
 						await this.saveSettings();
 					}
 				).open();
@@ -1305,7 +1404,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 			name: 'Detect timeline conflicts',
 			callback: async () => {
 				const events = await this.listEvents();
-				const conflicts = ConflictDetector.detectAllConflicts(events);
+				const conflicts = ConflictDetector.detectAllConflicts(events, await this.getConflictContext());
 				new ConflictViewModal(this.app, this, conflicts).open();
 
 				// Show quick summary
@@ -1352,6 +1451,47 @@ export default class StorytellerSuitePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'open-faction-diplomacy',
+			name: 'Open faction diplomacy',
+			callback: async () => {
+				if (!this.ensureActiveStoryOrGuide()) return;
+				await this.activateFactionDiplomacyView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-scene-kanban',
+			name: 'Open scene kanban board',
+			callback: async () => {
+				if (!this.ensureActiveStoryOrGuide()) return;
+				await this.activateSceneKanbanView();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-trade-report',
+			name: 'Export trade and scarcity report',
+			callback: async () => {
+				if (!this.ensureActiveStoryOrGuide()) return;
+				const economies = await this.listEconomies();
+				const locations = await this.listLocations();
+				const routes = resolveTradeRoutes(economies, locations);
+				if (routes.length === 0) {
+					new Notice('No trade routes found');
+					return;
+				}
+				const report = formatTradeReport(routes, estimateScarcity(economies, locations, routes), locations);
+				const fileName = `Trade Report ${new Date().toISOString().split('T')[0]}.md`;
+				try {
+					await this.app.vault.create(fileName, report);
+					new Notice(`Trade report exported to ${fileName}`);
+				} catch (error) {
+					new Notice(`Failed to export trade report: ${String(error)}`);
+				}
+			}
+		});
+
 		// Plot Item management commands
 		this.addCommand({
 			id: 'create-new-plot-item',
@@ -1440,6 +1580,28 @@ export default class StorytellerSuitePlugin extends Plugin {
 			}
 		});
 
+		// Calendar management commands
+		this.addCommand({
+			id: 'create-new-calendar',
+			name: 'Create new calendar',
+			callback: () => {
+                if (!this.ensureActiveStoryOrGuide()) return;
+				new CalendarModal(this.app, this, null, async (calendarData: Calendar) => {
+					await this.saveCalendar(calendarData);
+					new Notice(`Calendar "${calendarData.name}" created.`);
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'view-calendars',
+			name: 'View calendars',
+			callback: async () => {
+				const calendars = await this.listCalendars();
+				new CalendarListModal(this.app, this, calendars).open();
+			}
+		});
+
 		// Map view command
 		this.addCommand({
 			id: 'open-map-view',
@@ -1835,10 +1997,10 @@ export default class StorytellerSuitePlugin extends Plugin {
 				new Notice('Scanning timeline for conflicts...');
 
 				const events = await this.listEvents();
-				const detectedConflicts = ConflictDetector.detectAllConflicts(events);
+				const detectedConflicts = ConflictDetector.detectAllConflicts(events, await this.getConflictContext());
 				const conflicts = ConflictDetector.toStorageFormat(detectedConflicts);
 
-				this.settings.timelineConflicts = conflicts;
+				this.setStoryRecords('timelineConflicts', conflicts);
 				await this.saveSettings();
 
 				new Notice(`Found ${conflicts.length} timeline conflict(s)`);
@@ -1853,10 +2015,10 @@ export default class StorytellerSuitePlugin extends Plugin {
 						// Re-scan callback - re-run conflict detection
 						new Notice('Re-scanning timeline for conflicts...');
 						const events = await this.listEvents();
-						const detectedConflicts = ConflictDetector.detectAllConflicts(events);
+						const detectedConflicts = ConflictDetector.detectAllConflicts(events, await this.getConflictContext());
 						const newConflicts = ConflictDetector.toStorageFormat(detectedConflicts);
 
-						this.settings.timelineConflicts = newConflicts;
+						this.setStoryRecords('timelineConflicts', newConflicts);
 						await this.saveSettings();
 						new Notice(`Found ${newConflicts.length} timeline conflict(s)`);
 					}
@@ -1869,7 +2031,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 			id: 'view-timeline-conflicts',
 			name: 'View timeline conflicts',
 			callback: async () => {
-				const conflicts = this.settings.timelineConflicts || [];
+				const conflicts = this.getStoryRecords('timelineConflicts');
 
 				if (conflicts.length === 0) {
 					new Notice('No conflicts detected. Run "Detect timeline conflicts" to scan.');
@@ -1885,10 +2047,10 @@ export default class StorytellerSuitePlugin extends Plugin {
 						// Re-scan callback - re-run conflict detection
 						new Notice('Re-scanning timeline for conflicts...');
 						const events = await this.listEvents();
-						const detectedConflicts = ConflictDetector.detectAllConflicts(events);
+						const detectedConflicts = ConflictDetector.detectAllConflicts(events, await this.getConflictContext());
 						const newConflicts = ConflictDetector.toStorageFormat(detectedConflicts);
 
-						this.settings.timelineConflicts = newConflicts;
+						this.setStoryRecords('timelineConflicts', newConflicts);
 						await this.saveSettings();
 						new Notice(`Found ${newConflicts.length} timeline conflict(s)`);
 					}
@@ -1978,6 +2140,10 @@ export default class StorytellerSuitePlugin extends Plugin {
 					if (result.success) {
 						const wordCount = result.stats?.wordCount ?? 0;
 						new Notice(`Manuscript compiled! ${wordCount} words`);
+						if (result.stepErrors?.length) {
+							const details = result.stepErrors.map(e => `${e.stepName}: ${e.message}`).join('; ');
+							new Notice(t('compileStepErrors', result.stepErrors.length, details), 10000);
+						}
 					} else {
 						new Notice(`Compile failed: ${result.error || 'Unknown error'}`);
 					}
@@ -2010,6 +2176,50 @@ export default class StorytellerSuitePlugin extends Plugin {
 			}
 		});
 
+		// Snapshot the active draft
+		this.addCommand({
+			id: 'snapshot-draft',
+			name: 'Snapshot manuscript draft text',
+			callback: async () => {
+				const activeStory = this.getActiveStory();
+				if (!activeStory) {
+					new Notice('No active story selected');
+					return;
+				}
+
+				const { SceneOrderManager } = await import('./compile');
+				const manager = new SceneOrderManager(this);
+				const draft = manager.getActiveDraft(activeStory);
+				if (!draft) {
+					new Notice('No draft available. Create a draft first.');
+					return;
+				}
+
+				const snapshot = await manager.createSnapshot(draft);
+				new Notice(t('snapshotCreated', snapshot.name, String(snapshot.scenes.length)));
+			}
+		});
+
+		// Compare the current scene with its snapshots
+		this.addCommand({
+			id: 'compare-scene-revisions',
+			name: 'Compare scene with draft snapshots',
+			callback: async () => {
+				const activeStory = this.getActiveStory();
+				if (!activeStory) {
+					new Notice('No active story selected');
+					return;
+				}
+
+				const { SceneOrderManager } = await import('./compile');
+				const { SnapshotDiffModal } = await import('./modals/SnapshotDiffModal');
+				const currentScene = await new SceneOrderManager(this).getCurrentScene();
+				new SnapshotDiffModal(this.app, this, activeStory.id, {
+					sceneId: currentScene ? currentScene.id || currentScene.name : undefined
+				}).open();
+			}
+		});
+
 		// Indent current scene
 		this.addCommand({
 			id: 'indent-scene',
@@ -2254,6 +2464,56 @@ export default class StorytellerSuitePlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Open the faction diplomacy view, reusing an open one
+	 */
+	async activateFactionDiplomacyView() {
+		const { workspace } = this.app;
+
+		const existingLeaves = workspace.getLeavesOfType(VIEW_TYPE_FACTION_DIPLOMACY);
+		if (existingLeaves.length > 0) {
+			workspace.revealLeaf(existingLeaves[0]);
+			return;
+		}
+
+		const leaf = workspace.getLeaf('tab');
+		if (leaf) {
+			await leaf.setViewState({
+				type: VIEW_TYPE_FACTION_DIPLOMACY,
+				active: true
+			});
+			workspace.revealLeaf(leaf);
+		} else {
+			console.error("Storyteller Suite: Could not create workspace leaf for faction diplomacy.");
+			new Notice("Error opening faction diplomacy: Could not create workspace leaf.");
+		}
+	}
+
+	/**
+	 * Open the scene kanban view, reusing an open one
+	 */
+	async activateSceneKanbanView() {
+		const { workspace } = this.app;
+
+		const existingLeaves = workspace.getLeavesOfType(VIEW_TYPE_SCENE_KANBAN);
+		if (existingLeaves.length > 0) {
+			workspace.revealLeaf(existingLeaves[0]);
+			return;
+		}
+
+		const leaf = workspace.getLeaf('tab');
+		if (leaf) {
+			await leaf.setViewState({
+				type: VIEW_TYPE_SCENE_KANBAN,
+				active: true
+			});
+			workspace.revealLeaf(leaf);
+		} else {
+			console.error("Storyteller Suite: Could not create workspace leaf for scene kanban.");
+			new Notice("Error opening scene kanban: Could not create workspace leaf.");
+		}
+	}
+
 	/**
 	 * Open the map editor view
 	 * @deprecated Use activateMapView() instead - MapEditorView has been replaced by MapView
@@ -2418,6 +2678,23 @@ export default class StorytellerSuitePlugin extends Plugin {
         }
     }
 
+	/**
+	 * Parse an entity note for the entity index with the defaults and
+	 * custom field normalization each entity type expects
+	 */
+	private async parseEntityFile(file: TFile, type: IndexedEntityType): Promise<Record<string, unknown> | null> {
+		const defaults: Record<string, unknown> = { name: '' };
+		if (type === 'item') defaults.isPlotCritical = false;
+		if (type === 'map') Object.assign(defaults, { markers: [], scale: 'custom' });
+
+		const data = await this.parseFile<Record<string, unknown>>(file, defaults, type);
+		if (!data) return null;
+		if (type === 'character' || type === 'location' || type === 'event' || type === 'item' || type === 'map') {
+			return this.normalizeEntityCustomFields(type, data);
+		}
+		return data;
+	}
+
 	/**
 	 * Generic file parser for storytelling entity files
 	 * Extracts frontmatter and ALL markdown content sections dynamically
@@ -2610,6 +2887,12 @@ export default class StorytellerSuitePlugin extends Plugin {
         return buildFrontmatter('magicSystem', src, preserve, { customFieldsMode: mode, originalFrontmatter }) as Record<string, any>;
     }
 
+    private buildFrontmatterForCalendar(src: any, originalFrontmatter?: Record<string, unknown>): Record<string, any> {
+        const preserve = new Set<string>(Object.keys(src || {}));
+        const mode = this.settings.customFieldsMode ?? 'flatten';
+        return buildFrontmatter('calendar', src, preserve, { customFieldsMode: mode, originalFrontmatter }) as Record<string, any>;
+    }
+
 
 	/**
 	 * Save a character to the vault as a markdown file (in the active story)
@@ -2743,31 +3026,24 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
 	async listCharacters(): Promise<Character[]> {
     await this.ensureCharacterFolder();
-    const folderPath = this.getEntityFolder('character');
-        
-        // Use vault.getMarkdownFiles() instead of folder.children for immediate file detection
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(file => 
-            file.path.startsWith(prefix) && 
-            file.extension === 'md'
-        );
-		
-		// Parse each character file
-		const characters: Character[] = [];
-        for (const file of files) {
-            let charData = await this.parseFile<Character>(file, { name: '' }, 'character');
-            if (charData) charData = this.normalizeEntityCustomFields('character', charData);
-            const charResult = charData;
-            if (charResult) {
-                characters.push(charResult);
-			}
-		}
-		
+		const characters = await this.entityIndex.list<Character>('character');
+
 		// Return sorted by name
 		return characters.sort((a, b) => a.name.localeCompare(b.name));
 	}
 
+	/**
+	 * Story data for conflict checks beyond events (lifespans, stated ages, custody, magic rules)
+	 */
+	async getConflictContext(): Promise<ConflictContext> {
+		return {
+			characters: await this.listCharacters(),
+			scenes: await this.listScenes(),
+			items: await this.listPlotItems(),
+			magicSystems: await this.listMagicSystems()
+		};
+	}
+
 	/**
 	 * Delete a character file by moving it to trash
 	 * @param filePath Path to the character file to delete
@@ -2906,26 +3182,8 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
 	async listLocations(): Promise<Location[]> {
     await this.ensureLocationFolder();
-    const folderPath = this.getEntityFolder('location');
-        
-        // Use vault.getMarkdownFiles() instead of folder.children for immediate file detection
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(file => 
-            file.path.startsWith(prefix) && 
-            file.extension === 'md'
-        );
-		
-		// Parse each location file
-		const locations: Location[] = [];
-        for (const file of files) {
-            let locData = await this.parseFile<Location>(file, { name: '' }, 'location');
-            if (locData) locData = this.normalizeEntityCustomFields('location', locData);
-            if (locData) {
-                locations.push(locData);
-			}
-		}
-		
+		const locations = await this.entityIndex.list<Location>('location');
+
 		// Return sorted by name
 		return locations.sort((a, b) => a.name.localeCompare(b.name));
 	}
@@ -2948,18 +3206,15 @@ export default class StorytellerSuitePlugin extends Plugin {
 	// Sensory Profile Methods
 
 	async saveSensoryProfile(profile: LocationSensoryProfile): Promise<void> {
-		if (!this.settings.sensoryProfiles) {
-			this.settings.sensoryProfiles = [];
-		}
-
-		const existingIndex = this.settings.sensoryProfiles.findIndex(
+		const profiles = this.getStoryRecords('sensoryProfiles');
+		const existingIndex = profiles.findIndex(
 			p => p.locationId === profile.locationId
 		);
 
 		if (existingIndex >= 0) {
-			this.settings.sensoryProfiles[existingIndex] = profile;
+			this.setStoryRecords('sensoryProfiles', profiles.map((p, i) => i === existingIndex ? profile : p));
 		} else {
-			this.settings.sensoryProfiles.push(profile);
+			this.setStoryRecords('sensoryProfiles', [...profiles, profile]);
 		}
 
 		await this.saveSettings();
@@ -2967,16 +3222,16 @@ export default class StorytellerSuitePlugin extends Plugin {
 	}
 
 	getSensoryProfile(locationId: string): LocationSensoryProfile | null {
-		if (!this.settings.sensoryProfiles) return null;
-		return this.settings.sensoryProfiles.find(p => p.locationId === locationId) || null;
+		return this.getStoryRecords('sensoryProfiles').find(p => p.locationId === locationId) || null;
 	}
 
 	async deleteSensoryProfile(locationId: string): Promise<void> {
-		if (!this.settings.sensoryProfiles) return;
+		const profiles = this.getStoryRecords('sensoryProfiles');
+		if (profiles.length === 0) return;
 
-		this.settings.sensoryProfiles = this.settings.sensoryProfiles.filter(
+		this.setStoryRecords('sensoryProfiles', profiles.filter(
 			p => p.locationId !== locationId
-		);
+		));
 
 		await this.saveSettings();
 		new Notice('Sensory profile deleted.');
@@ -3131,28 +3386,8 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
 	async listMaps(): Promise<StoryMap[]> {
 		await this.ensureMapFolder();
-		const folderPath = this.getEntityFolder('map');
-		
-		// Use vault.getMarkdownFiles() instead of folder.children for immediate file detection
-		const allFiles = this.app.vault.getMarkdownFiles();
-		const prefix = normalizePath(folderPath) + '/';
-		const files = allFiles.filter(file => 
-			file.path.startsWith(prefix) && 
-			file.extension === 'md'
-		);
-		
-		// Parse each map file
-		const maps: StoryMap[] = [];
-		for (const file of files) {
-			let mapData = await this.parseFile<StoryMap>(file, { name: '', markers: [], scale: 'custom' }, 'map');
-			if (mapData) {
-				mapData = this.normalizeEntityCustomFields('map', mapData);
-				if (mapData) {
-					maps.push(mapData);
-				}
-			}
-		}
-		
+		const maps = await this.entityIndex.list<StoryMap>('map');
+
 		// Return sorted by name
 		return maps.sort((a, b) => a.name.localeCompare(b.name));
 	}
@@ -3564,7 +3799,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 		if (this.settings.autoDetectConflicts !== false) {  // Default to true
 			try {
 				const allEvents = await this.listEvents();
-				const conflicts = ConflictDetector.detectAllConflicts(allEvents);
+				const conflicts = ConflictDetector.detectAllConflicts(allEvents, await this.getConflictContext());
 				const eventConflicts = ConflictDetector.getConflictsForEvent(
 					event.name,
 					conflicts
@@ -3601,23 +3836,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
     async listEvents(): Promise<Event[]> {
     await this.ensureEventFolder();
-    const folderPath = this.getEntityFolder('event');
-        
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(file => 
-            file.path.startsWith(prefix) && 
-            file.extension === 'md'
-        );
-		
-		const events: Event[] = [];
-        for (const file of files) {
-            let eventData = await this.parseFile<Event>(file, { name: '' }, 'event');
-            if (eventData) eventData = this.normalizeEntityCustomFields('event', eventData);
-            if (eventData) {
-                events.push(eventData);
-			}
-		}
+		const events = await this.entityIndex.list<Event>('event');
 		
         // Robust chronological sort using parsed times; unresolved go last
         const referenceDate = this.getReferenceTodayDate();
@@ -3761,22 +3980,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
 	async listPlotItems(): Promise<PlotItem[]> {
     await this.ensureItemFolder();
-    const folderPath = this.getEntityFolder('item');
-		const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(file => 
-            file.path.startsWith(prefix) && 
-			file.extension === 'md'
-		);
-
-		const items: PlotItem[] = [];
-        for (const file of files) {
-            let itemData = await this.parseFile<PlotItem>(file, { name: '', isPlotCritical: false }, 'item');
-            if (itemData) itemData = this.normalizeEntityCustomFields('item', itemData);
-            if (itemData) {
-                items.push(itemData);
-			}
-		}
+		const items = await this.entityIndex.list<PlotItem>('item');
 		return items.sort((a, b) => a.name.localeCompare(b.name));
 	}
 
@@ -3875,15 +4079,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 	/** List all references */
 	async listReferences(): Promise<Reference[]> {
     await this.ensureReferenceFolder();
-    const folderPath = this.getEntityFolder('reference');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(f => f.path.startsWith(prefix) && f.extension === 'md');
-		const refs: Reference[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<Reference>(file, { name: '' }, 'reference');
-            if (data) refs.push(data);
-        }
+		const refs = await this.entityIndex.list<Reference>('reference');
 		return refs.sort((a, b) => a.name.localeCompare(b.name));
 	}
 
@@ -3988,15 +4184,7 @@ export default class StorytellerSuitePlugin extends Plugin {
     /** List all chapters (sorted by number then name) */
     async listChapters(): Promise<Chapter[]> {
         await this.ensureChapterFolder();
-        const folderPath = this.getEntityFolder('chapter');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const prefix = normalizePath(folderPath) + '/';
-        const files = allFiles.filter(f => f.path.startsWith(prefix) && f.extension === 'md');
-        const chapters: Chapter[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<Chapter>(file, { name: '' }, 'chapter');
-            if (data) chapters.push(data);
-        }
+        const chapters = await this.entityIndex.list<Chapter>('chapter');
         return chapters.sort((a, b) => {
             const na = a.number ?? Number.MAX_SAFE_INTEGER;
             const nb = b.number ?? Number.MAX_SAFE_INTEGER;
@@ -4037,6 +4225,10 @@ export default class StorytellerSuitePlugin extends Plugin {
         await this.ensureFolder(this.getEntityFolder('magicSystem'));
     }
 
+    async ensureCalendarFolder(): Promise<void> {
+        await this.ensureFolder(this.getEntityFolder('calendar'));
+    }
+
 
     async saveScene(scene: Scene): Promise<void> {
         // Normalize chapterName for display if id is present
@@ -4127,14 +4319,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 
     async listScenes(): Promise<Scene[]> {
         await this.ensureSceneFolder();
-        const folderPath = this.getEntityFolder('scene');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const files = allFiles.filter(f => f.path.startsWith(folderPath + '/') && f.extension === 'md');
-        const scenes: Scene[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<Scene>(file, { name: '' }, 'scene');
-            if (data) scenes.push(data);
-        }
+        const scenes = await this.entityIndex.list<Scene>('scene');
         // Sort: chapter -> priority -> name
         return scenes.sort((a, b) => {
             const ca = a.chapterId ? 0 : 1;
@@ -4252,14 +4437,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 
     async listCultures(): Promise<Culture[]> {
         await this.ensureCultureFolder();
-        const folderPath = this.getEntityFolder('culture');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const files = allFiles.filter(f => f.path.startsWith(folderPath + '/') && f.extension === 'md');
-        const cultures: Culture[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<Culture>(file, { name: '' }, 'culture');
-            if (data) cultures.push(data);
-        }
+        const cultures = await this.entityIndex.list<Culture>('culture');
         return cultures.sort((a, b) => a.name.localeCompare(b.name));
     }
 
@@ -4363,14 +4541,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 
     async listEconomies(): Promise<Economy[]> {
         await this.ensureEconomyFolder();
-        const folderPath = this.getEntityFolder('economy');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const files = allFiles.filter(f => f.path.startsWith(folderPath + '/') && f.extension === 'md');
-        const economies: Economy[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<Economy>(file, { name: '' }, 'economy');
-            if (data) economies.push(data);
-        }
+        const economies = await this.entityIndex.list<Economy>('economy');
         return economies.sort((a, b) => a.name.localeCompare(b.name));
     }
 
@@ -4478,14 +4649,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 
     async listMagicSystems(): Promise<MagicSystem[]> {
         await this.ensureMagicSystemFolder();
-        const folderPath = this.getEntityFolder('magicSystem');
-        const allFiles = this.app.vault.getMarkdownFiles();
-        const files = allFiles.filter(f => f.path.startsWith(folderPath + '/') && f.extension === 'md');
-        const magicSystems: MagicSystem[] = [];
-        for (const file of files) {
-            const data = await this.parseFile<MagicSystem>(file, { name: '' }, 'magicSystem');
-            if (data) magicSystems.push(data);
-        }
+        const magicSystems = await this.entityIndex.list<MagicSystem>('magicSystem');
         return magicSystems.sort((a, b) => a.name.localeCompare(b.name));
     }
 
@@ -4500,6 +4664,178 @@ export default class StorytellerSuitePlugin extends Plugin {
         }
     }
 
+    /**
+     * Calendar Data Management
+     */
+
+    async saveCalendar(calendar: Calendar): Promise<void> {
+        await this.ensureCalendarFolder();
+        const folderPath = this.getEntityFolder('calendar');
+
+        // Stories reference their calendar by id
+        if (!calendar.id) {
+            calendar.id = Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+        }
+
+        const fileName = `${calendar.name.replace(/[\\/:"*?<>|]+/g, '')}.md`;
+        const filePath = normalizePath(`${folderPath}/${fileName}`);
+
+        const { filePath: currentFilePath, description, history, ...rest } = calendar as any;
+        if ((rest as any).sections) delete (rest as any).sections;
+
+        let finalFilePath = filePath;
+        if (currentFilePath && currentFilePath !== filePath) {
+            finalFilePath = await this.safeRenameFile(currentFilePath, filePath, 'File');
+        }
+
+        const existingFile = this.app.vault.getAbstractFileByPath(finalFilePath);
+        let existingSections: Record<string, string> = {};
+        let originalFrontmatter: Record<string, unknown> | undefined;
+        if (existingFile && existingFile instanceof TFile) {
+            try {
+                const existingContent = await this.app.vault.cachedRead(existingFile);
+                existingSections = parseSectionsFromMarkdown(existingContent);
+
+                const { parseFrontmatterFromContent } = await import('./yaml/EntitySections');
+                const directFrontmatter = parseFrontmatterFromContent(existingContent);
+                const fileCache = this.app.metadataCache.getFileCache(existingFile);
+                const cachedFrontmatter = fileCache?.frontmatter as Record<string, unknown> | undefined;
+
+                if (directFrontmatter || cachedFrontmatter) {
+                    originalFrontmatter = { ...(cachedFrontmatter || {}), ...(directFrontmatter || {}) };
+                }
+            } catch (error) {
+                console.warn(`Error reading existing calendar file: ${error}`);
+            }
+        }
+
+        const finalFrontmatter = this.buildFrontmatterForCalendar(rest, originalFrontmatter);
+
+        if (originalFrontmatter) {
+            const validation = validateFrontmatterPreservation(finalFrontmatter, originalFrontmatter);
+            if (validation.lostFields.length > 0) {
+                console.warn(`[saveCalendar] Warning: Fields will be lost on save:`, validation.lostFields);
+            }
+        }
+
+        const frontmatterString = Object.keys(finalFrontmatter).length > 0
+            ? stringifyYamlWithLogging(finalFrontmatter, originalFrontmatter, `Calendar: ${calendar.name}`)
+            : '';
+
+        const providedSections = {
+            Description: description !== undefined ? description : '',
+            History: history !== undefined ? history : ''
+        };
+        const templateSections = getTemplateSections('calendar', providedSections);
+
+        let allSections: Record<string, string>;
+        if (existingFile && existingFile instanceof TFile) {
+            allSections = { ...existingSections, ...templateSections };
+            Object.entries(providedSections).forEach(([key, value]) => {
+                allSections[key] = value;
+            });
+        } else {
+            allSections = templateSections;
+        }
+
+        let mdContent = `---\n${frontmatterString}---\n\n`;
+        mdContent += Object.entries(allSections)
+            .map(([key, content]) => `## ${key}\n${content || ''}`)
+            .join('\n\n');
+        if (!mdContent.endsWith('\n')) mdContent += '\n';
+
+        if (existingFile && existingFile instanceof TFile) {
+            await this.app.vault.modify(existingFile, mdContent);
+        } else {
+            await this.app.vault.create(finalFilePath, mdContent);
+            new Notice('Note created with standard sections for easy editing.');
+        }
+
+        calendar.filePath = finalFilePath;
+        if (this.getActiveStory()?.calendarId === calendar.id) {
+            setActiveCalendar(calendar);
+        }
+        this.app.metadataCache.trigger("dataview:refresh-views");
+    }
+
+    async listCalendars(): Promise<Calendar[]> {
+        await this.ensureCalendarFolder();
+        const calendars = await this.entityIndex.list<Calendar>('calendar');
+        return calendars.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    async deleteCalendar(filePath: string): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(filePath));
+        if (file instanceof TFile) {
+            const deleted = (await this.listCalendars()).find(c => c.filePath === file.path);
+            await this.app.vault.trash(file, true);
+            new Notice(`Calendar file "${file.basename}" moved to trash.`);
+            const story = this.getActiveStory();
+            if (story && deleted?.id && story.calendarId === deleted.id) {
+                await this.setStoryCalendar(undefined);
+            }
+            this.app.metadataCache.trigger('dataview:refresh-views');
+        } else {
+            new Notice(`Error: Could not find calendar file to delete at ${filePath}`);
+        }
+    }
+
+    /**
+     * Get the calendar assigned to the active story, if any
+     */
+    async getStoryCalendar(): Promise<Calendar | undefined> {
+        const calendarId = this.getActiveStory()?.calendarId;
+        if (!calendarId) return undefined;
+        const calendars = await this.listCalendars();
+        return calendars.find(c => c.id === calendarId);
+    }
+
+    /**
+     * Assign a calendar to the active story (undefined restores Gregorian dates)
+     */
+    async setStoryCalendar(calendarId: string | undefined): Promise<void> {
+        const story = this.getActiveStory();
+        if (!story) return;
+        story.calendarId = calendarId;
+        await this.saveSettings();
+        await this.refreshActiveCalendar();
+    }
+
+    /**
+     * Load the active story's calendar into date parsing so events, eras and
+     * the timeline axis use it
+     */
+    async refreshActiveCalendar(): Promise<void> {
+        try {
+            setActiveCalendar(await this.getStoryCalendar());
+        } catch (error) {
+            console.warn('Storyteller Suite: Could not load story calendar', error);
+            setActiveCalendar(null);
+        }
+    }
+
+    // ============================================================
+    // Per-Story Collections
+    // ============================================================
+
+    /**
+     * Get the active story's records of a per-story collection
+     * @param key - Settings key of the collection
+     * @returns The stored array; mutate it only through setStoryRecords
+     */
+    getStoryRecords<K extends StoryScopedKey>(key: K): StoryScopedRecords[K][] {
+        return getScopedRecords(this.settings, key, this.settings.activeStoryId);
+    }
+
+    /**
+     * Replace the active story's records of a per-story collection (other stories are untouched)
+     * @param key - Settings key of the collection
+     * @param records - New records for the active story
+     */
+    setStoryRecords<K extends StoryScopedKey>(key: K, records: StoryScopedRecords[K][]): void {
+        setScopedRecords(this.settings, key, this.settings.activeStoryId, records);
+    }
+
     // ============================================================
     // Timeline Fork Management
     // ============================================================
@@ -4534,8 +4870,7 @@ export default class StorytellerSuitePlugin extends Plugin {
             notes: ''
         };
 
-        this.settings.timelineForks = this.settings.timelineForks || [];
-        this.settings.timelineForks.push(fork);
+        this.setStoryRecords('timelineForks', [...this.getStoryRecords('timelineForks'), fork]);
         this.saveSettings();
 
         new Notice(`Timeline fork "${name}" created`);
@@ -4543,11 +4878,11 @@ export default class StorytellerSuitePlugin extends Plugin {
     }
 
     /**
-     * Get all timeline forks
-     * @returns Array of all timeline forks
+     * Get all timeline forks of the active story
+     * @returns Array of timeline forks
      */
     getTimelineForks(): TimelineFork[] {
-        return this.settings.timelineForks || [];
+        return this.getStoryRecords('timelineForks');
     }
 
     /**
@@ -4556,7 +4891,7 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @returns The timeline fork or undefined if not found
      */
     getTimelineFork(forkId: string): TimelineFork | undefined {
-        return this.settings.timelineForks?.find(f => f.id === forkId);
+        return this.getTimelineForks().find(f => f.id === forkId);
     }
 
     /**
@@ -4564,9 +4899,10 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param fork - Updated fork object
      */
     async updateTimelineFork(fork: TimelineFork): Promise<void> {
-        const index = this.settings.timelineForks?.findIndex(f => f.id === fork.id);
-        if (index !== undefined && index >= 0) {
-            this.settings.timelineForks![index] = fork;
+        const forks = this.getTimelineForks();
+        const index = forks.findIndex(f => f.id === fork.id);
+        if (index >= 0) {
+            this.setStoryRecords('timelineForks', forks.map((f, i) => i === index ? fork : f));
             await this.saveSettings();
             new Notice(`Timeline fork "${fork.name}" updated`);
         } else {
@@ -4581,7 +4917,7 @@ export default class StorytellerSuitePlugin extends Plugin {
     async deleteTimelineFork(forkId: string): Promise<void> {
         const fork = this.getTimelineFork(forkId);
         if (fork) {
-            this.settings.timelineForks = this.settings.timelineForks?.filter(f => f.id !== forkId);
+            this.setStoryRecords('timelineForks', this.getTimelineForks().filter(f => f.id !== forkId));
             await this.saveSettings();
             new Notice(`Timeline fork "${fork.name}" deleted`);
         } else {
@@ -4639,6 +4975,70 @@ export default class StorytellerSuitePlugin extends Plugin {
         return forks.filter(fork => fork.forkEvents?.includes(eventId));
     }
 
+    /**
+     * Preview what merging a fork into canon would change
+     * @param forkId - ID of the fork
+     * @returns The merge plan, or undefined if the fork does not exist
+     */
+    async planTimelineForkMerge(forkId: string): Promise<ForkMergePlan | undefined> {
+        const fork = this.getTimelineFork(forkId);
+        if (!fork) return undefined;
+        return planForkMerge(fork, await this.loadForkCanon());
+    }
+
+    private async loadForkCanon(): Promise<ForkCanon> {
+        return {
+            characters: await this.listCharacters(),
+            locations: await this.listLocations(),
+            events: await this.listEvents(),
+            items: await this.listPlotItems()
+        };
+    }
+
+    /**
+     * Merge a fork into canon: write its overrides to the canonical entities and move its
+     * fork-only events onto the main timeline. The fork is kept, marked as merged.
+     * @param forkId - ID of the fork
+     * @returns The applied plan, or undefined if the fork does not exist
+     */
+    async mergeTimelineFork(forkId: string): Promise<ForkMergePlan | undefined> {
+        const fork = this.getTimelineFork(forkId);
+        if (!fork) {
+            new Notice(`Error: Timeline fork not found`);
+            return undefined;
+        }
+        const canon = await this.loadForkCanon();
+        const plan = planForkMerge(fork, canon);
+
+        const savers: Record<ForkEntityType, (entity: object) => Promise<void>> = {
+            character: e => this.saveCharacter(e as Character),
+            location: e => this.saveLocation(e as Location),
+            event: e => this.saveEvent(e as Event),
+            item: e => this.savePlotItem(e as PlotItem)
+        };
+        const lists: Record<ForkEntityType, Array<{ id?: string; name: string }>> = {
+            character: canon.characters,
+            location: canon.locations,
+            event: canon.events,
+            item: canon.items
+        };
+        for (const type of Object.keys(savers) as ForkEntityType[]) {
+            for (const entity of lists[type]) {
+                const alteration = findAlteration(fork, type, entity);
+                if (!alteration?.overrides) continue;
+                if (!plan.changes.some(c => c.entityType === type && c.entityName === entity.name)) continue;
+                await savers[type](applyOverrides(entity, alteration));
+            }
+        }
+
+        fork.forkEvents = [];
+        fork.status = 'merged';
+        fork.mergedAt = new Date().toISOString();
+        await this.saveSettings();
+        new Notice(`Timeline fork "${fork.name}" merged into canon`);
+        return plan;
+    }
+
     /**
      * Generate a random color for timeline fork visualization
      * @returns Hex color string
@@ -4668,18 +5068,17 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param era - Era object to create
      */
     async createTimelineEra(era: TimelineEra): Promise<void> {
-        this.settings.timelineEras = this.settings.timelineEras || [];
-        this.settings.timelineEras.push(era);
+        this.setStoryRecords('timelineEras', [...this.getStoryRecords('timelineEras'), era]);
         await this.saveSettings();
         new Notice(`Era "${era.name}" created`);
     }
 
     /**
-     * Get all timeline eras
-     * @returns Array of all eras
+     * Get all timeline eras of the active story
+     * @returns Array of eras
      */
     getTimelineEras(): TimelineEra[] {
-        return this.settings.timelineEras || [];
+        return this.getStoryRecords('timelineEras');
     }
 
     /**
@@ -4688,7 +5087,7 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @returns The era or undefined if not found
      */
     getTimelineEra(eraId: string): TimelineEra | undefined {
-        return this.settings.timelineEras?.find(e => e.id === eraId);
+        return this.getTimelineEras().find(e => e.id === eraId);
     }
 
     /**
@@ -4696,9 +5095,10 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param era - Updated era object
      */
     async updateTimelineEra(era: TimelineEra): Promise<void> {
-        const index = this.settings.timelineEras?.findIndex(e => e.id === era.id);
-        if (index !== undefined && index >= 0) {
-            this.settings.timelineEras![index] = era;
+        const eras = this.getTimelineEras();
+        const index = eras.findIndex(e => e.id === era.id);
+        if (index >= 0) {
+            this.setStoryRecords('timelineEras', eras.map((e, i) => i === index ? era : e));
             await this.saveSettings();
             new Notice(`Era "${era.name}" updated`);
         } else {
@@ -4713,7 +5113,7 @@ export default class StorytellerSuitePlugin extends Plugin {
     async deleteTimelineEra(eraId: string): Promise<void> {
         const era = this.getTimelineEra(eraId);
         if (era) {
-            this.settings.timelineEras = this.settings.timelineEras?.filter(e => e.id !== eraId);
+            this.setStoryRecords('timelineEras', this.getTimelineEras().filter(e => e.id !== eraId));
             await this.saveSettings();
             new Notice(`Era "${era.name}" deleted`);
         } else {
@@ -4730,18 +5130,17 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param track - Track object to create
      */
     async createTimelineTrack(track: TimelineTrack): Promise<void> {
-        this.settings.timelineTracks = this.settings.timelineTracks || [];
-        this.settings.timelineTracks.push(track);
+        this.setStoryRecords('timelineTracks', [...this.getStoryRecords('timelineTracks'), track]);
         await this.saveSettings();
         new Notice(`Track "${track.name}" created`);
     }
 
     /**
-     * Get all timeline tracks
-     * @returns Array of all tracks
+     * Get all timeline tracks of the active story
+     * @returns Array of tracks
      */
     getTimelineTracks(): TimelineTrack[] {
-        return this.settings.timelineTracks || [];
+        return this.getStoryRecords('timelineTracks');
     }
 
     /**
@@ -4750,7 +5149,7 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @returns The track or undefined if not found
      */
     getTimelineTrack(trackId: string): TimelineTrack | undefined {
-        return this.settings.timelineTracks?.find(t => t.id === trackId);
+        return this.getTimelineTracks().find(t => t.id === trackId);
     }
 
     /**
@@ -4758,9 +5157,10 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param track - Updated track object
      */
     async updateTimelineTrack(track: TimelineTrack): Promise<void> {
-        const index = this.settings.timelineTracks?.findIndex(t => t.id === track.id);
-        if (index !== undefined && index >= 0) {
-            this.settings.timelineTracks![index] = track;
+        const tracks = this.getTimelineTracks();
+        const index = tracks.findIndex(t => t.id === track.id);
+        if (index >= 0) {
+            this.setStoryRecords('timelineTracks', tracks.map((t, i) => i === index ? track : t));
             await this.saveSettings();
             new Notice(`Track "${track.name}" updated`);
         } else {
@@ -4775,7 +5175,7 @@ export default class StorytellerSuitePlugin extends Plugin {
     async deleteTimelineTrack(trackId: string): Promise<void> {
         const track = this.getTimelineTrack(trackId);
         if (track) {
-            this.settings.timelineTracks = this.settings.timelineTracks?.filter(t => t.id !== trackId);
+            this.setStoryRecords('timelineTracks', this.getTimelineTracks().filter(t => t.id !== trackId));
             await this.saveSettings();
             new Notice(`Track "${track.name}" deleted`);
         } else {
@@ -4812,8 +5212,7 @@ export default class StorytellerSuitePlugin extends Plugin {
             description
         };
 
-        this.settings.causalityLinks = this.settings.causalityLinks || [];
-        this.settings.causalityLinks.push(link);
+        this.setStoryRecords('causalityLinks', [...this.getStoryRecords('causalityLinks'), link]);
         this.saveSettings();
 
         new Notice(`Causality link created: ${causeEvent} → ${effectEvent}`);
@@ -4821,11 +5220,11 @@ export default class StorytellerSuitePlugin extends Plugin {
     }
 
     /**
-     * Get all causality links
-     * @returns Array of all causality links
+     * Get all causality links of the active story
+     * @returns Array of causality links
      */
     getCausalityLinks(): CausalityLink[] {
-        return this.settings.causalityLinks || [];
+        return this.getStoryRecords('causalityLinks');
     }
 
     /**
@@ -4834,7 +5233,7 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @returns Object containing causes and effects for the event
      */
     getCausalityLinksForEvent(eventId: string): { causes: CausalityLink[], effects: CausalityLink[] } {
-        const links = this.settings.causalityLinks || [];
+        const links = this.getCausalityLinks();
 
         return {
             causes: links.filter(l => l.effectEvent === eventId),
@@ -4847,9 +5246,10 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param link - Updated link object
      */
     async updateCausalityLink(link: CausalityLink): Promise<void> {
-        const index = this.settings.causalityLinks?.findIndex(l => l.id === link.id);
-        if (index !== undefined && index >= 0) {
-            this.settings.causalityLinks![index] = link;
+        const links = this.getCausalityLinks();
+        const index = links.findIndex(l => l.id === link.id);
+        if (index >= 0) {
+            this.setStoryRecords('causalityLinks', links.map((l, i) => i === index ? link : l));
             await this.saveSettings();
             new Notice(`Causality link updated`);
         } else {
@@ -4862,9 +5262,9 @@ export default class StorytellerSuitePlugin extends Plugin {
      * @param linkId - ID of the link to delete
      */
     async deleteCausalityLink(linkId: string): Promise<void> {
-        const linksBefore = this.settings.causalityLinks?.length || 0;
-        this.settings.causalityLinks = this.settings.causalityLinks?.filter(l => l.id !== linkId);
-        const linksAfter = this.settings.causalityLinks?.length || 0;
+        const linksBefore = this.getCausalityLinks().length;
+        this.setStoryRecords('causalityLinks', this.getCausalityLinks().filter(l => l.id !== linkId));
+        const linksAfter = this.getCausalityLinks().length;
 
         if (linksBefore > linksAfter) {
             await this.saveSettings();
@@ -4913,7 +5313,8 @@ export default class StorytellerSuitePlugin extends Plugin {
 				layout: layout,
 				colorBy: colorBy,
 				showChapterHeaders: true,
-				showEdges: showEdges
+				showEdges: showEdges,
+				statuses: this.settings.sceneStatuses
 			});
 
 			// Determine canvas file path
@@ -5023,7 +5424,8 @@ export default class StorytellerSuitePlugin extends Plugin {
 				layout: layout,
 				colorBy: colorBy,
 				showChapterHeaders: true,
-				showEdges: showEdges
+				showEdges: showEdges,
+				statuses: this.settings.sceneStatuses
 			});
 
 			// Save updated canvas
@@ -5204,11 +5606,15 @@ export default class StorytellerSuitePlugin extends Plugin {
 		
 		const group = this.settings.groups.find(g => g.id === id && g.storyId === activeStory.id);
 		if (!group) throw new Error('Group not found');
+		const oldName = group.name;
 		if (updates.name !== undefined) group.name = updates.name;
 		if (updates.description !== undefined) group.description = updates.description;
 		if (updates.color !== undefined) group.color = updates.color;
 		await this.saveSettings();
 		this.emitGroupsChanged();
+		if (group.name !== oldName) {
+			void this.renamePropagation?.handleNameChange('group', oldName, group.name, group.id);
+		}
 	}
 
 	/**
@@ -5525,6 +5931,11 @@ export default class StorytellerSuitePlugin extends Plugin {
 			}
 		}
 		
+		// MIGRATION: Timeline, sensory and pacing collections used to be flat arrays shared by all stories
+		if (migrateStoryScopedRecords(this.settings)) {
+			settingsUpdated = true;
+		}
+
 		// Ensure backward compatibility for new settings
         if (!this.settings.galleryUploadFolder) {
 			this.settings.galleryUploadFolder = DEFAULT_SETTINGS.galleryUploadFolder;
@@ -5588,6 +5999,12 @@ export default class StorytellerSuitePlugin extends Plugin {
       if (view && view.activeTabId === 'groups' && typeof view.refreshActiveTab === 'function') {
         view.refreshActiveTab();
       }
+      // Group names are matched in prose
+      this.mentionIndex?.schedule();
+      // Faction stances and power live on groups
+      this.app.workspace.getLeavesOfType(VIEW_TYPE_FACTION_DIPLOMACY).forEach(leaf => {
+        if (leaf.view instanceof FactionDiplomacyView) void leaf.view.refresh();
+      });
     } catch (e) {
       // no-op
     }
@@ -5715,6 +6132,7 @@ export default class StorytellerSuitePlugin extends Plugin {
 	 */
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.groupGallerySync?.schedulePush();
 	}
 
 	/**
@@ -0,0 +1,181 @@
+// Core Obsidian imports for modal functionality
+import { App, Modal, Setting, Notice, ButtonComponent, TFile } from 'obsidian';
+import { t } from '../i18n/strings';
+
+// Import types and related modals
+import { Calendar } from '../types';
+import StorytellerSuitePlugin from '../main';
+import { CalendarModal } from './CalendarModal';
+
+/**
+ * Modal dialog for displaying and managing a list of calendars
+ * Lets the user pick which calendar the active story uses for its dates
+ */
+export class CalendarListModal extends Modal {
+    /** Reference to the main plugin instance */
+    plugin: StorytellerSuitePlugin;
+
+    /** Array of calendar data to display */
+    calendars: Calendar[];
+
+    /** Container element for the calendar list (stored for re-rendering) */
+    listContainer: HTMLElement;
+
+    constructor(app: App, plugin: StorytellerSuitePlugin, calendars: Calendar[]) {
+        super(app);
+        this.plugin = plugin;
+        this.calendars = calendars;
+        this.modalEl.addClass('storyteller-list-modal');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('calendars') });
+
+        this.listContainer = contentEl.createDiv('storyteller-list-container');
+
+        new Setting(contentEl)
+            .setName(t('search'))
+            .addText(text => {
+                text.setPlaceholder(t('searchCalendars'))
+                    .onChange(value => this.renderList(value.toLowerCase(), this.listContainer));
+            });
+
+        this.renderList('', this.listContainer);
+
+        new Setting(contentEl)
+            .addButton(button => {
+                const hasActiveStory = !!this.plugin.getActiveStory();
+                button
+                    .setButtonText(t('createCalendar'))
+                    .setCta()
+                    .onClick(() => {
+                        if (!this.plugin.getActiveStory()) {
+                            new Notice(t('selectOrCreateStoryFirst'));
+                            return;
+                        }
+                        this.close();
+                        new CalendarModal(this.app, this.plugin, null, async (calendarData: Calendar) => {
+                            await this.plugin.saveCalendar(calendarData);
+                            new Notice(t('calendarCreated', calendarData.name));
+                            new Notice(t('noteCreatedWithSections'));
+                        }).open();
+                    });
+                if (!hasActiveStory) {
+                    button.setDisabled(true).setTooltip(t('selectOrCreateStoryFirst'));
+                }
+            });
+    }
+
+    /**
+     * Render the filtered calendar list
+     * @param filter Lowercase search term to filter calendars by
+     * @param container The container element to render the list into
+     */
+    renderList(filter: string, container: HTMLElement) {
+        container.empty();
+
+        const activeCalendarId = this.plugin.getActiveStory()?.calendarId;
+        const filteredCalendars = this.calendars.filter(calendar =>
+            calendar.name.toLowerCase().includes(filter) ||
+            (calendar.calendarType || '').toLowerCase().includes(filter) ||
+            (calendar.description || '').toLowerCase().includes(filter)
+        );
+
+        if (filteredCalendars.length === 0) {
+            container.createEl('p', { text: t('noCalendarsFound') + (filter ? t('matchingFilter') : '') });
+            return;
+        }
+
+        filteredCalendars.forEach(calendar => {
+            const itemEl = container.createDiv('storyteller-list-item');
+            const isActive = !!calendar.id && calendar.id === activeCalendarId;
+
+            const infoEl = itemEl.createDiv('storyteller-list-item-info');
+            infoEl.createEl('strong', { text: isActive ? `${calendar.name} (${t('storyCalendar')})` : calendar.name });
+
+            const metaInfo: string[] = [];
+            if (calendar.calendarType) metaInfo.push(`Type: ${calendar.calendarType}`);
+            if (calendar.months?.length) metaInfo.push(`Months: ${calendar.months.length}`);
+            if (calendar.weekdays?.length) metaInfo.push(`Weekdays: ${calendar.weekdays.length}`);
+            if (calendar.moons?.length) metaInfo.push(`Moons: ${calendar.moons.length}`);
+            if (metaInfo.length > 0) {
+                infoEl.createEl('p', { text: metaInfo.join(' | '), cls: 'storyteller-list-meta' });
+            }
+
+            const actionsEl = itemEl.createDiv('storyteller-list-item-actions');
+
+            // Use for the active story (or switch back to Gregorian dates)
+            new ButtonComponent(actionsEl)
+                .setIcon(isActive ? 'calendar-x' : 'calendar-check')
+                .setTooltip(isActive ? t('clearStoryCalendar') : t('useAsStoryCalendar'))
+                .onClick(async () => {
+                    if (!this.plugin.getActiveStory()) {
+                        new Notice(t('selectOrCreateStoryFirst'));
+                        return;
+                    }
+                    if (isActive) {
+                        await this.plugin.setStoryCalendar(undefined);
+                        new Notice(t('storyCalendarCleared'));
+                    } else {
+                        if (!calendar.id) {
+                            // Older notes may lack an id; saving assigns one
+                            await this.plugin.saveCalendar(calendar);
+                        }
+                        await this.plugin.setStoryCalendar(calendar.id);
+                        new Notice(t('storyCalendarSet', calendar.name));
+                    }
+                    this.renderList(filter, container);
+                });
+
+            new ButtonComponent(actionsEl)
+                .setIcon('pencil')
+                .setTooltip(t('edit'))
+                .onClick(() => {
+                    this.close();
+                    new CalendarModal(this.app, this.plugin, calendar, async (updatedData: Calendar) => {
+                        await this.plugin.saveCalendar(updatedData);
+                        new Notice(t('calendarUpdated', updatedData.name));
+                    }).open();
+                });
+
+            new ButtonComponent(actionsEl)
+                .setIcon('trash')
+                .setTooltip(t('delete'))
+                .setClass('mod-warning')
+                .onClick(async () => {
+                    if (confirm(t('confirmDeleteCalendar', calendar.name))) {
+                        if (calendar.filePath) {
+                            await this.plugin.deleteCalendar(calendar.filePath);
+                            this.calendars = this.calendars.filter(c => c.filePath !== calendar.filePath);
+                            this.renderList(filter, container);
+                        } else {
+                            new Notice(t('cannotDeleteWithoutPath'));
+                        }
+                    }
+                });
+
+            new ButtonComponent(actionsEl)
+                .setIcon('go-to-file')
+                .setTooltip(t('openNote'))
+                .onClick(() => {
+                    if (!calendar.filePath) {
+                        new Notice(t('cannotOpenWithoutPath'));
+                        return;
+                    }
+                    const file = this.app.vault.getAbstractFileByPath(calendar.filePath);
+                    if (file instanceof TFile) {
+                        this.app.workspace.getLeaf(false).openFile(file);
+                        this.close();
+                    } else {
+                        new Notice(t('workspaceLeafRevealError'));
+                    }
+                });
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,326 @@
+import { App, Setting, Notice } from 'obsidian';
+import type { Calendar, CalendarEpoch, CalendarLeapRule, CalendarMonth, CalendarMoon } from '../types';
+import type StorytellerSuitePlugin from '../main';
+import { ResponsiveModal } from './ResponsiveModal';
+import { GalleryImageSuggestModal } from './GalleryImageSuggestModal';
+import { CalendarSystem } from '../utils/CalendarSystem';
+import { t } from '../i18n/strings';
+
+export type CalendarModalSubmitCallback = (calendar: Calendar) => Promise<void>;
+export type CalendarModalDeleteCallback = (calendar: Calendar) => Promise<void>;
+
+/** Split a "a | b | c" line into trimmed cells */
+function cells(line: string): string[] {
+    return line.split('|').map(c => c.trim());
+}
+
+function lines(value: string): string[] {
+    return value.split('\n').map(l => l.trim()).filter(Boolean);
+}
+
+/**
+ * Modal for creating and editing custom calendars.
+ * Months, weekdays, leap rules, epochs and moons are edited as one entry per line.
+ */
+export class CalendarModal extends ResponsiveModal {
+    calendar: Calendar;
+    plugin: StorytellerSuitePlugin;
+    onSubmit: CalendarModalSubmitCallback;
+    onDelete?: CalendarModalDeleteCallback;
+    isNew: boolean;
+    private summaryEl: HTMLElement | null = null;
+
+    constructor(
+        app: App,
+        plugin: StorytellerSuitePlugin,
+        calendar: Calendar | null,
+        onSubmit: CalendarModalSubmitCallback,
+        onDelete?: CalendarModalDeleteCallback
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.isNew = calendar === null;
+
+        this.calendar = calendar || {
+            name: '',
+            calendarType: 'solar',
+            status: 'active',
+            months: [],
+            weekdays: [],
+            hoursPerDay: 24,
+            leapRules: [],
+            epochs: [],
+            moons: [],
+            linkedEvents: [],
+            linkedCultures: [],
+            customFields: {},
+            groups: [],
+            connections: []
+        };
+
+        if (!this.calendar.customFields) this.calendar.customFields = {};
+        if (!this.calendar.months) this.calendar.months = [];
+        if (!this.calendar.weekdays) this.calendar.weekdays = [];
+        if (!this.calendar.leapRules) this.calendar.leapRules = [];
+        if (!this.calendar.epochs) this.calendar.epochs = [];
+        if (!this.calendar.moons) this.calendar.moons = [];
+        if (!this.calendar.linkedEvents) this.calendar.linkedEvents = [];
+        if (!this.calendar.linkedCultures) this.calendar.linkedCultures = [];
+        if (!this.calendar.groups) this.calendar.groups = [];
+        if (!this.calendar.connections) this.calendar.connections = [];
+
+        this.onSubmit = onSubmit;
+        this.onDelete = onDelete;
+        this.modalEl.addClass('storyteller-calendar-modal');
+    }
+
+    onOpen(): void {
+        super.onOpen();
+
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', {
+            text: this.isNew ? t('createNewCalendar') : `${t('editCalendar')}: ${this.calendar.name}`
+        });
+
+        // Name (Required)
+        new Setting(contentEl)
+            .setName(t('name'))
+            .setDesc(t('calendarNameDesc'))
+            .addText(text => {
+                text.setValue(this.calendar.name)
+                    .onChange(value => this.calendar.name = value);
+                text.inputEl.addClass('storyteller-modal-input-large');
+            });
+
+        // Profile Image
+        let imagePathDesc: HTMLElement;
+        new Setting(contentEl)
+            .setName(t('representativeImage'))
+            .setDesc('')
+            .then(setting => {
+                imagePathDesc = setting.descEl.createEl('small', {
+                    text: t('currentValue', this.calendar.profileImagePath || t('none'))
+                });
+            })
+            .addButton(button => button
+                .setButtonText(t('select'))
+                .onClick(() => {
+                    new GalleryImageSuggestModal(this.app, this.plugin, (selectedImage) => {
+                        const path = selectedImage ? selectedImage.filePath : '';
+                        this.calendar.profileImagePath = path || undefined;
+                        imagePathDesc.setText(t('currentValue', this.calendar.profileImagePath || t('none')));
+                    }).open();
+                })
+            )
+            .addButton(button => button
+                .setButtonText(t('clear'))
+                .onClick(() => {
+                    this.calendar.profileImagePath = undefined;
+                    imagePathDesc.setText(t('currentValue', t('none')));
+                })
+            );
+
+        // Calendar Type
+        new Setting(contentEl)
+            .setName(t('calendarType'))
+            .setDesc(t('calendarTypeDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    'solar': t('solar'),
+                    'lunar': t('lunar'),
+                    'lunisolar': t('lunisolar'),
+                    'custom': t('custom')
+                })
+                .setValue(this.calendar.calendarType || 'solar')
+                .onChange(value => this.calendar.calendarType = value)
+            );
+
+        // Hours per day
+        new Setting(contentEl)
+            .setName(t('hoursPerDay'))
+            .setDesc(t('hoursPerDayDesc'))
+            .addText(text => {
+                text.setValue(String(this.calendar.hoursPerDay ?? 24))
+                    .onChange(value => {
+                        const hours = parseInt(value, 10);
+                        this.calendar.hoursPerDay = hours > 0 ? hours : undefined;
+                    });
+                text.inputEl.type = 'number';
+            });
+
+        // Months
+        this.addLinesSetting(contentEl, t('calendarMonths'), t('calendarMonthsDesc'),
+            (this.calendar.months || []).map(m => [m.name, String(m.days), m.abbreviation].filter(v => v !== undefined && v !== '').join(' | ')),
+            value => {
+                this.calendar.months = lines(value).map(line => {
+                    const [name, days, abbreviation] = cells(line);
+                    const month: CalendarMonth = { name, days: parseInt(days, 10) || 0 };
+                    if (abbreviation) month.abbreviation = abbreviation;
+                    return month;
+                });
+            });
+
+        // Weekdays
+        this.addLinesSetting(contentEl, t('calendarWeekdays'), t('calendarWeekdaysDesc'),
+            this.calendar.weekdays || [],
+            value => this.calendar.weekdays = lines(value));
+
+        new Setting(contentEl)
+            .setName(t('weekdayOffset'))
+            .setDesc(t('weekdayOffsetDesc'))
+            .addText(text => {
+                text.setValue(String(this.calendar.weekdayOffset ?? 0))
+                    .onChange(value => {
+                        this.calendar.weekdayOffset = parseInt(value, 10) || 0;
+                        this.updateSummary();
+                    });
+                text.inputEl.type = 'number';
+            });
+
+        // Leap rules: interval | days | month | offset
+        this.addLinesSetting(contentEl, t('leapRules'), t('leapRulesDesc'),
+            (this.calendar.leapRules || []).map(r => [String(r.interval), String(r.days ?? 1), r.month || '', String(r.offset ?? 0)].join(' | ')),
+            value => {
+                this.calendar.leapRules = lines(value).map(line => {
+                    const [interval, days, month, offset] = cells(line);
+                    const rule: CalendarLeapRule = { interval: parseInt(interval, 10) || 0 };
+                    if (days) rule.days = parseInt(days, 10);
+                    if (month) rule.month = month;
+                    if (offset) rule.offset = parseInt(offset, 10) || 0;
+                    return rule;
+                });
+            });
+
+        // Epochs: name | abbreviation | start year | backwards
+        this.addLinesSetting(contentEl, t('calendarEpochs'), t('calendarEpochsDesc'),
+            (this.calendar.epochs || []).map(e => [e.name, e.abbreviation || '', String(e.startYear), e.backwards ? 'backwards' : ''].join(' | ').replace(/(\s\|\s)+$/, '')),
+            value => {
+                this.calendar.epochs = lines(value).map(line => {
+                    const [name, abbreviation, startYear, direction] = cells(line);
+                    const epoch: CalendarEpoch = { name, startYear: parseInt(startYear, 10) || 1 };
+                    if (abbreviation) epoch.abbreviation = abbreviation;
+                    if (direction && direction.toLowerCase().startsWith('back')) epoch.backwards = true;
+                    return epoch;
+                });
+            });
+
+        // Moons: name | cycle days | offset days | color
+        this.addLinesSetting(contentEl, t('calendarMoons'), t('calendarMoonsDesc'),
+            (this.calendar.moons || []).map(m => [m.name, String(m.cycleDays), String(m.offsetDays ?? 0), m.color || ''].join(' | ').replace(/(\s\|\s)+$/, '')),
+            value => {
+                this.calendar.moons = lines(value).map(line => {
+                    const [name, cycleDays, offsetDays, color] = cells(line);
+                    const moon: CalendarMoon = { name, cycleDays: parseFloat(cycleDays) || 0 };
+                    if (offsetDays) moon.offsetDays = parseFloat(offsetDays) || 0;
+                    if (color) moon.color = color;
+                    return moon;
+                });
+            });
+
+        this.summaryEl = contentEl.createDiv('storyteller-calendar-summary');
+        this.updateSummary();
+
+        // Description (Markdown Section)
+        new Setting(contentEl)
+            .setName(t('description'))
+            .setDesc(t('calendarDescriptionDesc'))
+            .setClass('storyteller-modal-setting-vertical')
+            .addTextArea(text => {
+                text.setValue(this.calendar.description || '')
+                    .onChange(value => this.calendar.description = value);
+                text.inputEl.rows = 4;
+                text.inputEl.style.width = '100%';
+            });
+
+        // History (Markdown Section)
+        new Setting(contentEl)
+            .setName(t('history'))
+            .setDesc(t('calendarHistoryDesc'))
+            .setClass('storyteller-modal-setting-vertical')
+            .addTextArea(text => {
+                text.setValue(this.calendar.history || '')
+                    .onChange(value => this.calendar.history = value);
+                text.inputEl.rows = 3;
+                text.inputEl.style.width = '100%';
+            });
+
+        // Buttons
+        const buttonsSetting = new Setting(contentEl);
+
+        buttonsSetting.addButton(button => button
+            .setButtonText(t('save'))
+            .setCta()
+            .onClick(async () => {
+                if (!this.calendar.name) {
+                    new Notice(t('calendarNameRequired'));
+                    return;
+                }
+                const errors = CalendarSystem.validate(this.calendar);
+                if (errors.length > 0) {
+                    new Notice(t('calendarInvalid', errors[0]));
+                    return;
+                }
+                await this.onSubmit(this.calendar);
+                this.close();
+            })
+        );
+
+        buttonsSetting.addButton(button => button
+            .setButtonText(t('cancel'))
+            .onClick(() => this.close())
+        );
+
+        if (!this.isNew && this.onDelete) {
+            buttonsSetting.addButton(button => button
+                .setButtonText(t('delete'))
+                .setWarning()
+                .onClick(async () => {
+                    if (this.onDelete) {
+                        await this.onDelete(this.calendar);
+                        this.close();
+                    }
+                })
+            );
+        }
+    }
+
+    /** Add a vertical textarea setting edited as one entry per line */
+    private addLinesSetting(containerEl: HTMLElement, name: string, desc: string, initial: string[], apply: (value: string) => void): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .setClass('storyteller-modal-setting-vertical')
+            .addTextArea(text => {
+                text.setValue(initial.join('\n'))
+                    .onChange(value => {
+                        apply(value);
+                        this.updateSummary();
+                    });
+                text.inputEl.rows = Math.min(Math.max(initial.length, 3), 13);
+                text.inputEl.style.width = '100%';
+            });
+    }
+
+    /** Show year length or the first validation problem below the editors */
+    private updateSummary(): void {
+        if (!this.summaryEl) return;
+        this.summaryEl.empty();
+        const errors = CalendarSystem.validate(this.calendar);
+        if (errors.length > 0) {
+            this.summaryEl.createEl('small', { text: errors[0], cls: 'mod-warning' });
+            return;
+        }
+        const system = new CalendarSystem(this.calendar);
+        const firstDay = system.format({ year: 1, month: 0, day: 1 });
+        this.summaryEl.createEl('small', {
+            text: t('calendarYearLength', system.yearLength(1), firstDay)
+        });
+    }
+
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -8,6 +8,7 @@ import StorytellerSuitePlugin from '../main';
 import { t } from '../i18n/strings';
 import { GalleryImageSuggestModal } from './GalleryImageSuggestModal';
 import { addImageSelectionButtons } from '../utils/ImageSelectionHelper';
+import { addMentionAppearances } from '../utils/MentionAppearancesHelper';
 import { ResponsiveModal } from './ResponsiveModal';
 import { PromptModal } from './ui/PromptModal';
 import { PlatformUtils } from '../utils/PlatformUtils';
@@ -138,6 +139,16 @@ export class CharacterModal extends ResponsiveModal {
                 .inputEl.addClass('storyteller-modal-input-large')
             );
 
+        new Setting(contentEl)
+            .setName(t('aliases'))
+            .setDesc(t('aliasesDesc'))
+            .addText(text => text
+                .setValue((this.character.aliases || []).join(', '))
+                .onChange(value => {
+                    const aliases = value.split(',').map(a => a.trim()).filter(a => a.length > 0);
+                    this.character.aliases = aliases.length > 0 ? aliases : undefined;
+                }));
+
         // --- Profile Image ---
         const profileImageSetting = new Setting(contentEl)
             .setName(t('profileImage'))
@@ -221,6 +232,21 @@ export class CharacterModal extends ResponsiveModal {
                 .setValue(this.character.affiliation || '')
                 .onChange(value => { this.character.affiliation = value || undefined; }));
 
+        // --- Lifespan ---
+        new Setting(contentEl)
+            .setName(t('birthDate'))
+            .setDesc(t('birthDateDesc'))
+            .addText(text => text
+                .setValue(this.character.birthDate || '')
+                .onChange(value => { this.character.birthDate = value.trim() || undefined; }));
+
+        new Setting(contentEl)
+            .setName(t('deathDate'))
+            .setDesc(t('deathDateDesc'))
+            .addText(text => text
+                .setValue(this.character.deathDate || '')
+                .onChange(value => { this.character.deathDate = value.trim() || undefined; }));
+
         // --- Current Location ---
         contentEl.createEl('h3', { text: 'Location' });
         const locationContainer = contentEl.createDiv('storyteller-location-picker-container');
@@ -312,6 +338,9 @@ export class CharacterModal extends ResponsiveModal {
                     ).open();
                 }));
 
+        // --- Appears In (prose mentions) ---
+        addMentionAppearances(contentEl, this.plugin, 'character', this.character);
+
         // --- Custom Fields ---
         this.workingCustomFields = { ...(this.character.customFields || {}) };
         contentEl.createEl('h3', { text: t('customFields') });
@@ -426,10 +455,27 @@ export class CharacterModal extends ResponsiveModal {
             const item = container.createDiv('storyteller-modal-list-item');
             
             const infoSpan = item.createSpan();
-            infoSpan.setText(`${conn.target} (${t(conn.type)})`);
+            infoSpan.setText(`${conn.direction === 'one-way' ? '→ ' : ''}${conn.target} (${t(conn.type)})`);
             if (conn.label) {
                 infoSpan.appendText(` - ${conn.label}`);
             }
+            if (conn.intensity !== undefined) {
+                infoSpan.appendText(` · ${t('relationshipIntensityShort', String(conn.intensity))}`);
+            }
+            if (conn.history?.length) {
+                infoSpan.appendText(` · ${t('relationshipChangesCount', String(conn.history.length))}`);
+            }
+
+            new ButtonComponent(item)
+                .setTooltip(t('editRelationship'))
+                .setIcon('pencil')
+                .onClick(async () => {
+                    const { RelationshipEditorModal } = await import('./RelationshipEditorModal');
+                    new RelationshipEditorModal(this.app, this.plugin, conn, 'any', (relationship) => {
+                        this.character.connections?.splice(index, 1, relationship);
+                        this.renderConnectionsList(container);
+                    }).open();
+                });
 
             new ButtonComponent(item)
                 .setClass('storyteller-modal-list-remove')
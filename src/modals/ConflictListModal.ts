@@ -76,7 +76,7 @@ export class ConflictListModal extends Modal {
             .setWarning()
             .onClick(async () => {
                 this.conflicts.forEach(c => c.dismissed = true);
-                this.plugin.settings.timelineConflicts = this.conflicts;
+                this.plugin.setStoryRecords('timelineConflicts', this.conflicts);
                 await this.plugin.saveSettings();
                 new Notice('All conflicts dismissed');
                 this.renderConflicts(contentEl);
@@ -206,7 +206,7 @@ export class ConflictListModal extends Modal {
             .setClass('mod-warning')
             .onClick(async () => {
                 conflict.dismissed = true;
-                this.plugin.settings.timelineConflicts = this.conflicts;
+                this.plugin.setStoryRecords('timelineConflicts', this.conflicts);
                 await this.plugin.saveSettings();
                 new Notice('Conflict dismissed');
                 this.renderConflicts(this.contentEl);
@@ -13,7 +13,7 @@ export class ConflictViewModal extends Modal {
     private conflicts: DetectedConflict[];
     private filteredConflicts: DetectedConflict[];
     private selectedSeverity: 'all' | 'error' | 'warning' | 'info' = 'all';
-    private selectedType: 'all' | 'location' | 'character' | 'temporal' | 'dependency' = 'all';
+    private selectedType: 'all' | 'location' | 'character' | 'temporal' | 'dependency' | 'age' | 'custody' | 'magic' = 'all';
     private conflictListEl: HTMLElement | null = null;
     private locations: Location[] = [];
 
@@ -139,6 +139,9 @@ export class ConflictViewModal extends Modal {
                     .addOption('character', 'Character Conflicts')
                     .addOption('temporal', 'Temporal Conflicts')
                     .addOption('dependency', 'Dependency Conflicts')
+                    .addOption('age', 'Age & Lifespan Conflicts')
+                    .addOption('custody', 'Item Custody Conflicts')
+                    .addOption('magic', 'Magic Rule Violations')
                     .setValue(this.selectedType)
                     .onChange(value => {
                         this.selectedType = value as any;
@@ -224,6 +227,35 @@ export class ConflictViewModal extends Modal {
             });
         }
 
+        if (conflict.item) {
+            detailsEl.createEl('div', {
+                text: `Item: ${conflict.item}`,
+                cls: 'storyteller-conflict-detail'
+            });
+        }
+
+        if (conflict.magicSystem) {
+            detailsEl.createEl('div', {
+                text: `Magic system: ${conflict.magicSystem}`,
+                cls: 'storyteller-conflict-detail'
+            });
+        }
+
+        if (conflict.scene) {
+            const scene = conflict.scene;
+            const sceneEl = detailsEl.createEl('div', {
+                text: 'Scene: ',
+                cls: 'storyteller-conflict-detail'
+            });
+            const sceneLink = sceneEl.createEl('a', {
+                text: scene.name,
+                cls: 'storyteller-conflict-event-link'
+            });
+            sceneLink.addEventListener('click', () => {
+                this.openScene(scene);
+            });
+        }
+
         if (conflict.details.description) {
             detailsEl.createEl('div', {
                 text: conflict.details.description,
@@ -287,7 +319,10 @@ export class ConflictViewModal extends Modal {
             location: conflicts.filter(c => c.type === 'location'),
             character: conflicts.filter(c => c.type === 'character'),
             temporal: conflicts.filter(c => c.type === 'temporal'),
-            dependency: conflicts.filter(c => c.type === 'dependency')
+            dependency: conflicts.filter(c => c.type === 'dependency'),
+            age: conflicts.filter(c => c.type === 'age'),
+            custody: conflicts.filter(c => c.type === 'custody'),
+            magic: conflicts.filter(c => c.type === 'magic')
         };
     }
 
@@ -326,6 +361,16 @@ export class ConflictViewModal extends Modal {
         }
     }
 
+    private async openScene(scene: { name: string; filePath?: string }): Promise<void> {
+        this.close();
+
+        if (scene.filePath && this.app.vault.getAbstractFileByPath(scene.filePath)) {
+            await this.app.workspace.openLinkText(scene.filePath, '', false);
+        } else {
+            new Notice(`Could not find file for scene: ${scene.name}`);
+        }
+    }
+
     private async exportReport(): Promise<void> {
         const report = ConflictDetector.generateConflictReport(this.conflicts);
 
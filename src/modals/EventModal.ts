@@ -495,7 +495,7 @@ export class EventModal extends Modal {
 
         // --- Era Membership ---
         contentEl.createEl('h3', { text: 'Timeline Eras' });
-        const eras = this.plugin.settings.timelineEras || [];
+        const eras = this.plugin.getTimelineEras();
         if (eras.length > 0) {
             contentEl.createEl('p', {
                 text: 'This event belongs to the following timeline eras based on its date:',
@@ -0,0 +1,103 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from '../i18n/strings';
+import type StorytellerSuitePlugin from '../main';
+import type { TimelineFork } from '../types';
+import type { ForkEntityType, ForkMergePlan } from '../utils/TimelineForks';
+
+/** Readable labels for entity types shown in the preview */
+const TYPE_LABELS: Record<ForkEntityType, string> = {
+    character: 'Character',
+    location: 'Location',
+    event: 'Event',
+    item: 'Item'
+};
+
+/**
+ * Modal that previews the field changes and events a fork merge applies to canon,
+ * then performs the merge on confirmation
+ */
+export class ForkMergeModal extends Modal {
+    private plugin: StorytellerSuitePlugin;
+    private fork: TimelineFork;
+    private plan: ForkMergePlan;
+    private onMerged?: () => void | Promise<void>;
+
+    constructor(
+        app: App,
+        plugin: StorytellerSuitePlugin,
+        fork: TimelineFork,
+        plan: ForkMergePlan,
+        onMerged?: () => void | Promise<void>
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.fork = fork;
+        this.plan = plan;
+        this.onMerged = onMerged;
+        this.modalEl.addClass('storyteller-fork-merge-modal');
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('forkMergeTitle', this.fork.name) });
+
+        const { changes, events, missing } = this.plan;
+        if (changes.length === 0 && events.length === 0) {
+            contentEl.createEl('p', { text: t('forkMergeNothing') });
+        }
+
+        if (changes.length > 0) {
+            contentEl.createEl('p', { text: t('forkMergeDesc') });
+            const listEl = contentEl.createDiv('storyteller-list-container');
+            changes.forEach(change => {
+                const itemEl = listEl.createDiv('storyteller-list-item');
+                const infoEl = itemEl.createDiv('storyteller-list-item-info');
+                infoEl.createEl('strong', { text: `${TYPE_LABELS[change.entityType]}: ${change.entityName} · ${change.field}` });
+                const diffEl = infoEl.createDiv('storyteller-fork-merge-diff');
+                diffEl.createSpan({ text: this.formatValue(change.from), cls: 'storyteller-fork-merge-from' });
+                diffEl.createSpan({ text: ' → ' });
+                diffEl.createSpan({ text: this.formatValue(change.to), cls: 'storyteller-fork-merge-to' });
+            });
+        }
+
+        if (events.length > 0) {
+            contentEl.createEl('h4', { text: t('forkMergeEvents') });
+            const eventList = contentEl.createEl('ul');
+            events.forEach(name => eventList.createEl('li', { text: name }));
+        }
+
+        if (missing.length > 0) {
+            contentEl.createEl('h4', { text: t('forkMergeMissing') });
+            const missingList = contentEl.createEl('ul');
+            missing.forEach(name => missingList.createEl('li', { text: name }));
+        }
+
+        const buttons = new Setting(contentEl);
+        if (changes.length > 0 || events.length > 0) {
+            buttons.addButton(b => b
+                .setButtonText(t('forkMergeConfirm'))
+                .setCta()
+                .onClick(async () => {
+                    b.setDisabled(true);
+                    await this.plugin.mergeTimelineFork(this.fork.id);
+                    this.close();
+                    await this.onMerged?.();
+                }));
+        }
+        buttons.addButton(b => b
+            .setButtonText(t('cancel'))
+            .onClick(() => this.close()));
+    }
+
+    private formatValue(value: unknown): string {
+        if (value === undefined || value === null || value === '') return t('forkMergeEmptyValue');
+        if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : t('forkMergeEmptyValue');
+        if (typeof value === 'object') return JSON.stringify(value);
+        return String(value);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,60 @@
+// Modal for asking how two entities in the network graph are connected
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { GraphNode } from '../types';
+import { t } from '../i18n/strings';
+
+export type GraphPathCallback = (fromId: string, toId: string) => void;
+
+export class GraphPathModal extends Modal {
+    nodes: GraphNode[];
+    onSubmit: GraphPathCallback;
+    private fromId = '';
+    private toId = '';
+
+    constructor(app: App, nodes: GraphNode[], onSubmit: GraphPathCallback) {
+        super(app);
+        this.nodes = [...nodes].sort((a, b) => a.label.localeCompare(b.label));
+        this.onSubmit = onSubmit;
+        this.modalEl.addClass('storyteller-graph-path-modal');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('findConnection') });
+        contentEl.createEl('p', { text: t('findConnectionDesc'), cls: 'setting-item-description' });
+
+        const addNodeDropdown = (name: string, onChange: (id: string) => void) => {
+            new Setting(contentEl)
+                .setName(name)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', t('select'));
+                    this.nodes.forEach(node => dropdown.addOption(node.id, `${node.label} (${node.type})`));
+                    dropdown.onChange(onChange);
+                });
+        };
+        addNodeDropdown(t('connectionFrom'), id => { this.fromId = id; });
+        addNodeDropdown(t('connectionTo'), id => { this.toId = id; });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('cancel'))
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(t('findConnection'))
+                .setCta()
+                .onClick(() => {
+                    if (!this.fromId || !this.toId || this.fromId === this.toId) {
+                        new Notice(t('selectTwoEntities'));
+                        return;
+                    }
+                    this.onSubmit(this.fromId, this.toId);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -10,6 +10,8 @@ import { CharacterSuggestModal } from './CharacterSuggestModal';
 import { LocationSuggestModal } from './LocationSuggestModal';
 import { EventSuggestModal } from './EventSuggestModal';
 import { PlotItemSuggestModal } from './PlotItemSuggestModal';
+import { GroupStanceModal } from './GroupStanceModal';
+import { POWER_LABELS, POWER_METRICS } from '../utils/FactionDiplomacy';
 import { TemplatePickerModal } from './TemplatePickerModal';
 import { Template } from '../templates/TemplateTypes';
 
@@ -39,7 +41,8 @@ export class GroupModal extends ResponsiveModal {
             this.group = {
                 ...group,
                 members: group.members.map(m => ({ ...m })),
-                groupRelationships: group.groupRelationships ? [...group.groupRelationships] : [],
+                groupRelationships: (group.groupRelationships || []).map(rel => ({ ...rel })),
+                powerHistory: group.powerHistory?.map(snapshot => ({ ...snapshot })),
                 territories: group.territories ? [...group.territories] : [],
                 colors: group.colors ? [...group.colors] : [],
                 linkedEvents: group.linkedEvents ? [...group.linkedEvents] : [],
@@ -341,6 +344,54 @@ export class GroupModal extends ResponsiveModal {
                     .onChange(value => { this.group.politicalInfluence = value; })
                 );
 
+            // Power History
+            contentEl.createEl('h4', { text: t('powerHistory'), cls: 'storyteller-subsection-header' });
+            contentEl.createEl('p', { text: t('powerHistoryDesc'), cls: 'setting-item-description' });
+            (this.group.powerHistory || []).forEach((snapshot, index) => {
+                const setting = new Setting(contentEl)
+                    .setClass('storyteller-power-snapshot')
+                    .addText(text => text
+                        .setPlaceholder(t('stanceChangeDatePh'))
+                        .setValue(snapshot.date || '')
+                        .onChange(value => { snapshot.date = value.trim() || undefined; }))
+                    .addDropdown(dropdown => {
+                        dropdown.addOption('', t('stanceNoEvent'));
+                        this.allEvents.forEach(e => dropdown.addOption(e.name, e.name));
+                        dropdown.setValue(snapshot.event || '')
+                            .onChange(value => { snapshot.event = value || undefined; });
+                    });
+                POWER_METRICS.forEach(metric => {
+                    setting.addText(text => {
+                        text.inputEl.type = 'number';
+                        text.setPlaceholder(POWER_LABELS[metric])
+                            .setValue(snapshot[metric] !== undefined ? String(snapshot[metric]) : '')
+                            .onChange(value => {
+                                const parsed = parseInt(value, 10);
+                                snapshot[metric] = isNaN(parsed) ? undefined : Math.max(0, Math.min(100, parsed));
+                            });
+                        text.inputEl.setAttr('title', POWER_LABELS[metric]);
+                    });
+                });
+                setting.addButton(btn => btn
+                    .setIcon('trash')
+                    .setTooltip('Remove')
+                    .onClick(() => {
+                        this.group.powerHistory = this.group.powerHistory!.filter((_, i) => i !== index);
+                        void this.onOpen();
+                    })
+                );
+            });
+
+            new Setting(contentEl)
+                .addButton(btn => btn
+                    .setButtonText(t('addPowerSnapshot'))
+                    .onClick(() => {
+                        if (!this.group.powerHistory) this.group.powerHistory = [];
+                        this.group.powerHistory.push({});
+                        void this.onOpen();
+                    })
+                );
+
             // === IDENTITY & SYMBOLS ===
             contentEl.createEl('h3', { text: 'Identity & Symbols' });
 
@@ -417,6 +468,17 @@ export class GroupModal extends ResponsiveModal {
                             .setValue(rel.relationshipType || 'neutral')
                             .onChange(value => { rel.relationshipType = value as any; });
                     })
+                    .addExtraButton(btn => btn
+                        .setIcon('history')
+                        .setTooltip(`${t('stanceOverTime')}${rel.changes?.length ? ` (${rel.changes.length})` : ''}`)
+                        .onClick(() => {
+                            const title = `${this.group.name || t('group')} ↔ ${rel.groupName || '?'}`;
+                            new GroupStanceModal(this.app, this.plugin, title, rel, (updated) => {
+                                this.group.groupRelationships![index] = updated;
+                                void this.onOpen();
+                            }).open();
+                        })
+                    )
                     .addButton(btn => btn
                         .setIcon('trash')
                         .setTooltip('Remove')
@@ -1027,6 +1089,7 @@ export class GroupModal extends ResponsiveModal {
         this.group.parentGroup = undefined;
         this.group.subgroups = [];
         this.group.groupRelationships = [];
+        this.group.powerHistory = [];
         this.group.linkedCulture = undefined;
         this.group.connections = [];
     }
@@ -0,0 +1,117 @@
+// Modal for editing the stance between two groups and how it changes over time
+
+import { App, Modal, Setting } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import { Event, GroupRelationship } from '../types';
+import { STANCES, STANCE_LABELS, Stance, datedChanges } from '../utils/FactionDiplomacy';
+import { t } from '../i18n/strings';
+
+export type GroupStanceCallback = (relationship: GroupRelationship) => void | Promise<void>;
+
+export class GroupStanceModal extends Modal {
+    plugin: StorytellerSuitePlugin;
+    relationship: GroupRelationship;
+    title: string;
+    onSubmit: GroupStanceCallback;
+    private events: Event[] = [];
+
+    constructor(
+        app: App,
+        plugin: StorytellerSuitePlugin,
+        title: string,
+        relationship: GroupRelationship,
+        onSubmit: GroupStanceCallback
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.title = title;
+        this.relationship = {
+            ...relationship,
+            changes: (relationship.changes || []).map(change => ({ ...change }))
+        };
+        this.onSubmit = onSubmit;
+        this.modalEl.addClass('storyteller-group-stance-modal');
+    }
+
+    async onOpen() {
+        if (this.events.length === 0) this.events = await this.plugin.listEvents();
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.title });
+
+        new Setting(contentEl)
+            .setName(t('startingStance'))
+            .setDesc(t('startingStanceDesc'))
+            .addDropdown(dropdown => {
+                STANCES.forEach(stance => dropdown.addOption(stance, STANCE_LABELS[stance]));
+                dropdown.setValue(this.relationship.relationshipType || 'neutral')
+                    .onChange(value => { this.relationship.relationshipType = value as Stance; });
+            });
+
+        contentEl.createEl('h3', { text: t('stanceChanges') });
+        const changes = this.relationship.changes || (this.relationship.changes = []);
+        if (changes.length === 0) {
+            contentEl.createEl('p', { text: t('noStanceChanges'), cls: 'storyteller-modal-list-empty' });
+        }
+
+        // Dated changes first, in story order; undated ones keep their place after them
+        const dated = datedChanges(this.relationship, this.events).map(entry => entry.change);
+        const ordered = [...dated, ...changes.filter(change => !dated.includes(change))];
+        ordered.forEach(change => {
+            new Setting(contentEl)
+                .setClass('storyteller-stance-change')
+                .addDropdown(dropdown => {
+                    STANCES.forEach(stance => dropdown.addOption(stance, STANCE_LABELS[stance]));
+                    dropdown.setValue(change.relationshipType)
+                        .onChange(value => { change.relationshipType = value as Stance; });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', t('stanceNoEvent'));
+                    this.events.forEach(event => dropdown.addOption(event.name, event.name));
+                    dropdown.setValue(change.event || '')
+                        .onChange(value => { change.event = value || undefined; });
+                })
+                .addText(text => text
+                    .setPlaceholder(t('stanceChangeDatePh'))
+                    .setValue(change.date || '')
+                    .onChange(value => { change.date = value.trim() || undefined; }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(t('removeStanceChange'))
+                    .onClick(() => {
+                        changes.splice(changes.indexOf(change), 1);
+                        this.render();
+                    }));
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('addStanceChange'))
+                .setIcon('plus')
+                .onClick(() => {
+                    changes.push({ relationshipType: this.relationship.relationshipType || 'neutral' });
+                    this.render();
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('cancel'))
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(t('save'))
+                .setCta()
+                .onClick(async () => {
+                    if (changes.length === 0) delete this.relationship.changes;
+                    await this.onSubmit(this.relationship);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
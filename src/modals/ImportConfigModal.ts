@@ -6,13 +6,14 @@
 import { App, Modal, Notice, Setting, TextComponent, DropdownComponent, ButtonComponent } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
 import { ImportManager } from '../import/ImportManager';
-import { ImportConfiguration, ParsedDocument, ChapterImportConfig, ConflictResolution, ContentPlacement, EntityMappingConfig, EntityMappingAction, DraftStrategy } from '../import/ImportTypes';
+import { ImportConfiguration, ParsedDocument, ChapterImportConfig, ConflictResolution, ContentPlacement, EntityMappingConfig, EntityMappingAction, DraftStrategy, CsvColumnMapping, CsvImportTarget } from '../import/ImportTypes';
 import { EntityExtractor, ExtractedEntity } from '../import/EntityExtractor';
+import { CSV_FIELDS, buildCsvEntityRecords, suggestCsvMapping, suggestCsvTarget } from '../import/parsers/CsvParser';
 
 /**
  * Import wizard step
  */
-type ImportStep = 'upload' | 'review' | 'entities' | 'configure' | 'confirm';
+type ImportStep = 'upload' | 'columns' | 'review' | 'entities' | 'configure' | 'confirm';
 
 /**
  * Import Configuration Modal
@@ -27,6 +28,7 @@ export class ImportConfigModal extends Modal {
     private fileName: string = '';
     private extractedCharacters: ExtractedEntity[] = [];
     private extractedLocations: ExtractedEntity[] = [];
+    private csvMapping: CsvColumnMapping | null = null;
 
     constructor(app: App, plugin: StorytellerSuitePlugin) {
         super(app);
@@ -54,6 +56,9 @@ export class ImportConfigModal extends Modal {
             case 'upload':
                 this.renderUploadStep();
                 break;
+            case 'columns':
+                this.renderColumnsStep();
+                break;
             case 'review':
                 this.renderReviewStep();
                 break;
@@ -86,7 +91,7 @@ export class ImportConfigModal extends Modal {
         const fileInput = fileInputContainer.createEl('input', {
             type: 'file',
             attr: {
-                accept: '.txt,.md,.markdown,.docx,.json,.epub,.html,.htm,.rtf,.odt,.fountain,.spmd,.pdf'
+                accept: '.txt,.md,.markdown,.docx,.json,.csv,.tsv,.epub,.html,.htm,.rtf,.odt,.fountain,.spmd,.pdf'
             }
         });
         fileInput.addClass('storyteller-file-input');
@@ -167,7 +172,13 @@ export class ImportConfigModal extends Modal {
                     this.parsedDocument = this.importManager.parseDocument(content, this.fileName);
                 }
 
-                if (this.parsedDocument) {
+                if (this.parsedDocument?.format === 'csv') {
+                    // Spreadsheets need their columns mapped before chapters or entities exist
+                    this.csvMapping = null;
+                    this.configuration = null;
+                    this.currentStep = 'columns';
+                    this.renderStep();
+                } else if (this.parsedDocument) {
                     new Notice(`Found ${this.parsedDocument.chapters.length} chapters`);
                     this.currentStep = 'review';
                     this.renderStep();
@@ -193,6 +204,7 @@ export class ImportConfigModal extends Modal {
         ul.createEl('li', { text: 'OpenDocument Text (.odt) - LibreOffice/OpenOffice' });
         ul.createEl('li', { text: 'Fountain screenplays (.fountain) with act/scene structure' });
         ul.createEl('li', { text: 'JSON (.json) with structured chapter data' });
+        ul.createEl('li', { text: 'Spreadsheets (.csv, .tsv) with one row per scene, character, location or event' });
 
         // Buttons
         const buttonContainer = this.contentEl.createDiv('storyteller-modal-buttons');
@@ -203,6 +215,127 @@ export class ImportConfigModal extends Modal {
             );
     }
 
+    /**
+     * Step 1b: Map CSV columns to fields
+     */
+    private renderColumnsStep(): void {
+        const table = this.parsedDocument?.csvTable;
+        if (!table) return;
+
+        this.titleEl.setText('Import Story - Map Columns');
+
+        if (!this.csvMapping) {
+            const target = suggestCsvTarget(table.headers, this.fileName);
+            this.csvMapping = suggestCsvMapping(table.headers, target);
+        }
+        const mapping = this.csvMapping;
+
+        this.contentEl.createEl('p', {
+            text: `Found ${table.rows.length} rows and ${table.headers.length} columns. Choose what each row describes and which field each column fills.`
+        }).addClass('storyteller-import-description');
+
+        new Setting(this.contentEl)
+            .setName('Rows are')
+            .addDropdown(dropdown => dropdown
+                .addOption('outline', 'Scenes (grouped into chapters)')
+                .addOption('characters', 'Characters')
+                .addOption('locations', 'Locations')
+                .addOption('events', 'Events')
+                .setValue(mapping.target)
+                .onChange(value => {
+                    this.csvMapping = suggestCsvMapping(table.headers, value as CsvImportTarget);
+                    this.renderStep();
+                })
+            );
+
+        const columnList = this.contentEl.createDiv('storyteller-csv-columns');
+        columnList.style.maxHeight = '300px';
+        columnList.style.overflowY = 'auto';
+
+        const fields = CSV_FIELDS[mapping.target];
+        table.headers.forEach((header, index) => {
+            const samples = table.rows
+                .map(row => row[index])
+                .filter(Boolean)
+                .slice(0, 3)
+                .map(value => value.length > 40 ? `${value.slice(0, 40)}…` : value);
+
+            new Setting(columnList)
+                .setName(header || `Column ${index + 1}`)
+                .setDesc(samples.length > 0 ? `e.g. ${samples.join(' | ')}` : 'Empty column')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('ignore', 'Ignore');
+                    if (mapping.target !== 'outline') {
+                        dropdown.addOption('custom', 'Custom field');
+                    }
+                    for (const field of fields) {
+                        dropdown.addOption(field.key, field.label);
+                    }
+                    dropdown.setValue(mapping.columns[index] || 'ignore');
+                    dropdown.onChange(value => {
+                        mapping.columns[index] = value;
+                    });
+                });
+        });
+
+        // Buttons
+        const buttonContainer = this.contentEl.createDiv('storyteller-modal-buttons');
+        new Setting(buttonContainer)
+            .addButton(btn => btn
+                .setButtonText('Back')
+                .onClick(() => {
+                    this.currentStep = 'upload';
+                    this.renderStep();
+                })
+            )
+            .addButton(btn => btn
+                .setButtonText('Next')
+                .setCta()
+                .onClick(() => this.applyCsvMapping())
+            );
+    }
+
+    /**
+     * Re-parse the CSV with the chosen mapping and move to the next step
+     */
+    private applyCsvMapping(): void {
+        const table = this.parsedDocument?.csvTable;
+        const csvParser = this.importManager.getCsvParser();
+        if (!table || !this.csvMapping || !csvParser) return;
+
+        const mapping = this.csvMapping;
+        if (mapping.target === 'outline') {
+            if (!mapping.columns.includes('content') && !mapping.columns.includes('scene')) {
+                new Notice('Map at least one column to "Scene name" or "Scene content".');
+                return;
+            }
+        } else if (!mapping.columns.includes('name')) {
+            new Notice('Map one column to "Name".');
+            return;
+        }
+
+        const previous = this.configuration;
+        this.parsedDocument = csvParser.parseWithMapping(table, mapping, this.fileName);
+        this.configuration = this.importManager.createDefaultConfiguration(this.parsedDocument, this.fileName);
+        this.configuration.csvMapping = { target: mapping.target, columns: [...mapping.columns] };
+        if (previous) {
+            // Keep story target choices when coming back to adjust the mapping
+            this.configuration.createNewStory = previous.createNewStory;
+            this.configuration.targetStoryId = previous.targetStoryId;
+            this.configuration.targetStoryName = previous.targetStoryName;
+            this.configuration.conflictResolution = previous.conflictResolution;
+        }
+
+        if (mapping.target === 'outline') {
+            new Notice(`Found ${this.parsedDocument.chapters.length} chapters`);
+            this.currentStep = 'review';
+        } else {
+            new Notice(`Found ${buildCsvEntityRecords(table, mapping).length} ${mapping.target}`);
+            this.currentStep = 'configure';
+        }
+        this.renderStep();
+    }
+
     /**
      * Step 2: Review detected chapters
      */
@@ -380,7 +513,7 @@ export class ImportConfigModal extends Modal {
             .addButton(btn => btn
                 .setButtonText('Back')
                 .onClick(() => {
-                    this.currentStep = 'upload';
+                    this.currentStep = this.parsedDocument?.format === 'csv' ? 'columns' : 'upload';
                     this.renderStep();
                 })
             )
@@ -746,6 +879,49 @@ export class ImportConfigModal extends Modal {
 
         updateStoryTargetUI();
 
+        const entityImport = this.importManager.isCsvEntityImport(this.configuration);
+        if (entityImport) {
+            // Chapter options don't apply to character, location or event rows
+            new Setting(this.contentEl)
+                .setName('Conflict Resolution')
+                .setDesc(`How to handle ${this.configuration.csvMapping!.target} whose names already exist`)
+                .addDropdown(dropdown => dropdown
+                    .addOption('rename', 'Rename (add number suffix)')
+                    .addOption('skip', 'Skip existing names')
+                    .addOption('overwrite', 'Overwrite existing entries')
+                    .setValue(this.configuration!.conflictResolution)
+                    .onChange(value => {
+                        this.configuration!.conflictResolution = value as ConflictResolution;
+                    })
+                );
+        } else {
+            this.renderChapterOptions();
+        }
+
+        // Buttons
+        const buttonContainer = this.contentEl.createDiv('storyteller-modal-buttons');
+        new Setting(buttonContainer)
+            .addButton(btn => btn
+                .setButtonText('Back')
+                .onClick(() => {
+                    this.currentStep = entityImport ? 'columns' : 'entities';
+                    this.renderStep();
+                })
+            )
+            .addButton(btn => btn
+                .setButtonText('Next')
+                .setCta()
+                .onClick(() => {
+                    this.currentStep = 'confirm';
+                    this.renderStep();
+                })
+            );
+    }
+
+    /**
+     * Draft, placement, conflict and tag options for chapter imports
+     */
+    private renderChapterOptions(): void {
         // Draft version (for naming)
         new Setting(this.contentEl)
             .setName('Draft Version')
@@ -819,25 +995,6 @@ export class ImportConfigModal extends Modal {
                     }
                 })
             );
-
-        // Buttons
-        const buttonContainer = this.contentEl.createDiv('storyteller-modal-buttons');
-        new Setting(buttonContainer)
-            .addButton(btn => btn
-                .setButtonText('Back')
-                .onClick(() => {
-                    this.currentStep = 'entities';
-                    this.renderStep();
-                })
-            )
-            .addButton(btn => btn
-                .setButtonText('Next')
-                .setCta()
-                .onClick(() => {
-                    this.currentStep = 'confirm';
-                    this.renderStep();
-                })
-            );
     }
 
     /**
@@ -866,19 +1023,27 @@ export class ImportConfigModal extends Modal {
             summaryList.createEl('li', { text: `Draft: ${this.configuration.draftVersion}` });
         }
         
-        // Show enabled chapters count
-        const enabledChapters = this.configuration.chapters.filter(c => c.enabled);
-        summaryList.createEl('li', { text: `Chapters: ${enabledChapters.length} of ${this.configuration.chapters.length}` });
-        
-        // Calculate words for enabled chapters only
-        const enabledWords = enabledChapters.reduce((sum, ch) => sum + ch.content.split(/\s+/).length, 0);
-        summaryList.createEl('li', { text: `Total Words: ${enabledWords.toLocaleString()}` });
-        
-        // Content placement info
-        const placementText = this.configuration.contentPlacement === 'scene-files'
-            ? 'Scene files (will create scenes)'
-            : 'Chapter summaries';
-        summaryList.createEl('li', { text: `Content: ${placementText}` });
+        const entityImport = this.importManager.isCsvEntityImport(this.configuration);
+        if (entityImport) {
+            const mapping = this.configuration.csvMapping!;
+            const table = this.configuration.parsedDocument.csvTable;
+            const records = table ? buildCsvEntityRecords(table, mapping) : [];
+            summaryList.createEl('li', { text: `${mapping.target.charAt(0).toUpperCase()}${mapping.target.slice(1)}: ${records.length}` });
+        } else {
+            // Show enabled chapters count
+            const enabledChapters = this.configuration.chapters.filter(c => c.enabled);
+            summaryList.createEl('li', { text: `Chapters: ${enabledChapters.length} of ${this.configuration.chapters.length}` });
+
+            // Calculate words for enabled chapters only
+            const enabledWords = enabledChapters.reduce((sum, ch) => sum + ch.content.split(/\s+/).length, 0);
+            summaryList.createEl('li', { text: `Total Words: ${enabledWords.toLocaleString()}` });
+
+            // Content placement info
+            const placementText = this.configuration.contentPlacement === 'scene-files'
+                ? 'Scene files (will create scenes)'
+                : 'Chapter summaries';
+            summaryList.createEl('li', { text: `Content: ${placementText}` });
+        }
         summaryList.createEl('li', { text: `Conflict Resolution: ${this.configuration.conflictResolution}` });
 
         // Validation
@@ -967,7 +1132,11 @@ export class ImportConfigModal extends Modal {
                             }
                         );
 
-                        if (result.success) {
+                        if (result.success && entityImport) {
+                            const skippedMsg = result.stats.entitiesSkipped ? ` (${result.stats.entitiesSkipped} skipped)` : '';
+                            new Notice(`Successfully imported ${result.stats.entitiesCreated} ${this.configuration!.csvMapping!.target}${skippedMsg}!`);
+                            this.close();
+                        } else if (result.success) {
                             const scenesMsg = result.stats.totalScenes > 0 
                                 ? ` and ${result.stats.totalScenes} scenes` 
                                 : '';
@@ -0,0 +1,135 @@
+// Modal for adding/editing one period of an item's custody chain
+
+import { App, Modal, Setting, Notice } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import { ItemCustodyEntry } from '../types';
+import { CharacterSuggestModal } from './CharacterSuggestModal';
+import { LocationSuggestModal } from './LocationSuggestModal';
+import { EventSuggestModal } from './EventSuggestModal';
+import { t } from '../i18n/strings';
+
+export type ItemCustodyEntryCallback = (entry: ItemCustodyEntry) => void;
+
+export class ItemCustodyEntryModal extends Modal {
+    plugin: StorytellerSuitePlugin;
+    entry: ItemCustodyEntry;
+    onSubmit: ItemCustodyEntryCallback;
+    isNew: boolean;
+
+    constructor(
+        app: App,
+        plugin: StorytellerSuitePlugin,
+        entry: ItemCustodyEntry | null,
+        onSubmit: ItemCustodyEntryCallback
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.isNew = entry === null;
+        this.entry = entry ? { ...entry } : {};
+        this.onSubmit = onSubmit;
+        this.modalEl.addClass('storyteller-custody-entry-modal');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.isNew ? t('addCustodyEntry') : t('editCustodyEntry') });
+
+        new Setting(contentEl)
+            .setName(t('custodyOwner'))
+            .setDesc(this.entry.owner || t('none'))
+            .addButton(button => button
+                .setButtonText(t('select'))
+                .onClick(() => {
+                    new CharacterSuggestModal(this.app, this.plugin, (selected) => {
+                        this.entry.owner = selected?.name;
+                        this.onOpen();
+                    }).open();
+                }))
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip(t('clear'))
+                .onClick(() => {
+                    this.entry.owner = undefined;
+                    this.onOpen();
+                }));
+
+        new Setting(contentEl)
+            .setName(t('custodyLocation'))
+            .setDesc(this.entry.location || t('none'))
+            .addButton(button => button
+                .setButtonText(t('select'))
+                .onClick(() => {
+                    new LocationSuggestModal(this.app, this.plugin, (selected) => {
+                        this.entry.location = selected ? selected.name : undefined;
+                        this.onOpen();
+                    }).open();
+                }))
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip(t('clear'))
+                .onClick(() => {
+                    this.entry.location = undefined;
+                    this.onOpen();
+                }));
+
+        new Setting(contentEl)
+            .setName(t('custodyEvent'))
+            .setDesc(this.entry.event || t('none'))
+            .addButton(button => button
+                .setButtonText(t('select'))
+                .onClick(() => {
+                    new EventSuggestModal(this.app, this.plugin, (selected) => {
+                        this.entry.event = selected.name;
+                        this.onOpen();
+                    }).open();
+                }))
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip(t('clear'))
+                .onClick(() => {
+                    this.entry.event = undefined;
+                    this.onOpen();
+                }));
+
+        new Setting(contentEl)
+            .setName(t('custodyFrom'))
+            .setDesc(t('custodyFromDesc'))
+            .addText(text => text
+                .setValue(this.entry.from || '')
+                .onChange(value => { this.entry.from = value.trim() || undefined; }));
+
+        new Setting(contentEl)
+            .setName(t('custodyTo'))
+            .setDesc(t('custodyToDesc'))
+            .addText(text => text
+                .setValue(this.entry.to || '')
+                .onChange(value => { this.entry.to = value.trim() || undefined; }));
+
+        new Setting(contentEl)
+            .setName(t('custodyNotes'))
+            .addTextArea(text => text
+                .setValue(this.entry.notes || '')
+                .onChange(value => { this.entry.notes = value.trim() || undefined; }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('cancel'))
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.isNew ? t('add') : t('save'))
+                .setCta()
+                .onClick(() => {
+                    if (!this.entry.owner && !this.entry.location) {
+                        new Notice(t('custodyHolderRequired'));
+                        return;
+                    }
+                    this.onSubmit(this.entry);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
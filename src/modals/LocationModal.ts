@@ -7,6 +7,7 @@ import StorytellerSuitePlugin from '../main';
 import { t } from '../i18n/strings';
 import { GalleryImageSuggestModal } from './GalleryImageSuggestModal';
 import { addImageSelectionButtons } from '../utils/ImageSelectionHelper';
+import { addMentionAppearances } from '../utils/MentionAppearancesHelper';
 import { LocationSuggestModal } from './LocationSuggestModal';
 import { LocationPicker } from '../components/LocationPicker';
 import { LocationService } from '../services/LocationService';
@@ -181,6 +182,16 @@ export class LocationModal extends ResponsiveModal {
                 .inputEl.addClass('storyteller-modal-input-large')
             );
 
+        new Setting(contentEl)
+            .setName(t('aliases'))
+            .setDesc(t('aliasesDesc'))
+            .addText(text => text
+                .setValue((this.location.aliases || []).join(', '))
+                .onChange(value => {
+                    const aliases = value.split(',').map(a => a.trim()).filter(a => a.length > 0);
+                    this.location.aliases = aliases.length > 0 ? aliases : undefined;
+                }));
+
         new Setting(contentEl)
             .setName(t('description'))
             .setClass('storyteller-modal-setting-vertical')
@@ -427,6 +438,9 @@ export class LocationModal extends ResponsiveModal {
                     ).open();
                 }));
 
+        // --- Appears In (prose mentions) ---
+        addMentionAppearances(contentEl, this.plugin, 'location', this.location);
+
         // --- Child Locations ---
         contentEl.createEl('h3', { text: 'Child Locations' });
         const childLocationsContainer = contentEl.createDiv('storyteller-child-locations');
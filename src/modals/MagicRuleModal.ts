@@ -0,0 +1,162 @@
+// Modal for adding/editing one consistency rule of a magic system
+
+import { App, Modal, Setting, Notice } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import { ConsistencyRule, MagicAbility, MagicRuleCondition } from '../types';
+import { LocationSuggestModal } from './LocationSuggestModal';
+import { MAGIC_RULE_KINDS, MAGIC_RULE_LABELS } from '../utils/MagicRules';
+import { t } from '../i18n/strings';
+
+export type MagicRuleCallback = (rule: ConsistencyRule) => void;
+
+export class MagicRuleModal extends Modal {
+    plugin: StorytellerSuitePlugin;
+    rule: ConsistencyRule;
+    abilities: MagicAbility[];
+    materials: string[];
+    onSubmit: MagicRuleCallback;
+    isNew: boolean;
+
+    constructor(
+        app: App,
+        plugin: StorytellerSuitePlugin,
+        rule: ConsistencyRule | null,
+        abilities: MagicAbility[],
+        materials: string[],
+        onSubmit: MagicRuleCallback
+    ) {
+        super(app);
+        this.plugin = plugin;
+        this.isNew = rule === null;
+        this.rule = rule
+            ? { ...rule, condition: rule.condition ? { ...rule.condition } : undefined }
+            : { name: '', description: '', priority: 'important' };
+        this.abilities = abilities;
+        this.materials = materials;
+        this.onSubmit = onSubmit;
+        this.modalEl.addClass('storyteller-magic-rule-modal');
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.isNew ? t('addMagicRule') : t('editMagicRule') });
+
+        new Setting(contentEl)
+            .setName(t('name'))
+            .addText(text => text
+                .setValue(this.rule.name)
+                .onChange(value => { this.rule.name = value; }));
+
+        new Setting(contentEl)
+            .setName(t('description'))
+            .addTextArea(text => text
+                .setValue(this.rule.description)
+                .onChange(value => { this.rule.description = value; }));
+
+        new Setting(contentEl)
+            .setName(t('magicRulePriority'))
+            .setDesc(t('magicRulePriorityDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    critical: t('magicRuleCritical'),
+                    important: t('magicRuleImportant'),
+                    optional: t('magicRuleOptional')
+                })
+                .setValue(this.rule.priority || 'important')
+                .onChange(value => { this.rule.priority = value as ConsistencyRule['priority']; }));
+
+        new Setting(contentEl)
+            .setName(t('magicRuleCheck'))
+            .setDesc(t('magicRuleCheckDesc'))
+            .addDropdown(dropdown => {
+                dropdown.addOption('', t('magicRuleNoCheck'));
+                MAGIC_RULE_KINDS.forEach(kind => dropdown.addOption(kind, MAGIC_RULE_LABELS[kind]));
+                dropdown
+                    .setValue(this.rule.condition?.kind || '')
+                    .onChange(value => {
+                        this.rule.condition = value
+                            ? { ...this.rule.condition, kind: value as MagicRuleCondition['kind'] }
+                            : undefined;
+                        this.onOpen();
+                    });
+            });
+
+        const condition = this.rule.condition;
+        if (condition) this.renderCondition(contentEl, condition);
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('cancel'))
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(this.isNew ? t('add') : t('save'))
+                .setCta()
+                .onClick(() => {
+                    if (!this.rule.name.trim()) {
+                        new Notice(t('magicRuleNameRequired'));
+                        return;
+                    }
+                    this.onSubmit(this.rule);
+                    this.close();
+                }));
+    }
+
+    /**
+     * Fields for the selected kind of check
+     */
+    private renderCondition(contentEl: HTMLElement, condition: MagicRuleCondition) {
+        new Setting(contentEl)
+            .setName(t('magicRuleAbility'))
+            .setDesc(t('magicRuleAbilityDesc'))
+            .addDropdown(dropdown => {
+                dropdown.addOption('', t('magicRuleAnyAbility'));
+                this.abilities.forEach(ability => dropdown.addOption(ability.name, ability.name));
+                dropdown
+                    .setValue(condition.ability || '')
+                    .onChange(value => { condition.ability = value || undefined; });
+            });
+
+        switch (condition.kind) {
+            case 'requires-material':
+                new Setting(contentEl)
+                    .setName(t('magicRuleMaterial'))
+                    .setDesc(this.materials.length > 0 ? t('magicRuleMaterialKnown', this.materials.join(', ')) : '')
+                    .addText(text => text
+                        .setValue(condition.material || '')
+                        .onChange(value => { condition.material = value.trim() || undefined; }));
+                break;
+            case 'rest-between-uses':
+                new Setting(contentEl)
+                    .setName(t('magicRuleRestDays'))
+                    .addText(text => {
+                        text.inputEl.type = 'number';
+                        text.inputEl.min = '1';
+                        text
+                            .setValue(condition.days !== undefined ? String(condition.days) : '')
+                            .onChange(value => {
+                                const days = parseFloat(value);
+                                condition.days = isNaN(days) ? undefined : days;
+                            });
+                    });
+                break;
+            case 'forbidden-location':
+                new Setting(contentEl)
+                    .setName(t('magicRuleLocation'))
+                    .setDesc(condition.location || t('none'))
+                    .addButton(button => button
+                        .setButtonText(t('select'))
+                        .onClick(() => {
+                            new LocationSuggestModal(this.app, this.plugin, (selected) => {
+                                condition.location = selected ? selected.name : undefined;
+                                this.onOpen();
+                            }).open();
+                        }));
+                break;
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -1,8 +1,10 @@
-import { App, Setting, Notice, parseYaml } from 'obsidian';
-import type { MagicSystem } from '../types';
+import { App, ButtonComponent, Setting, Notice, parseYaml } from 'obsidian';
+import type { ConsistencyRule, MagicSystem } from '../types';
 import type StorytellerSuitePlugin from '../main';
 import { ResponsiveModal } from './ResponsiveModal';
 import { GalleryImageSuggestModal } from './GalleryImageSuggestModal';
+import { MagicRuleModal } from './MagicRuleModal';
+import { describeCondition } from '../utils/MagicRules';
 import { TemplatePickerModal } from './TemplatePickerModal';
 import { Template } from '../templates/TemplateTypes';
 import { t } from '../i18n/strings';
@@ -337,6 +339,22 @@ export class MagicSystemModal extends ResponsiveModal {
                 text.inputEl.style.width = '100%';
             });
 
+        // Consistency rules
+        contentEl.createEl('h3', { text: t('magicRules') });
+        contentEl.createEl('p', { text: t('magicRulesDesc'), cls: 'setting-item-description' });
+        const rulesContainer = contentEl.createDiv('storyteller-magic-rules');
+        this.renderRules(rulesContainer);
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('addMagicRule'))
+                .setIcon('plus')
+                .onClick(() => {
+                    this.openRuleModal(null, rule => {
+                        this.magicSystem.consistencyRules = [...(this.magicSystem.consistencyRules || []), rule];
+                        this.renderRules(rulesContainer);
+                    });
+                }));
+
         // Buttons
         const buttonsSetting = new Setting(contentEl);
 
@@ -372,6 +390,59 @@ export class MagicSystemModal extends ResponsiveModal {
         }
     }
 
+    /**
+     * List consistency rules with their checkable condition
+     */
+    private renderRules(container: HTMLElement): void {
+        container.empty();
+        const rules = this.magicSystem.consistencyRules || [];
+        if (rules.length === 0) {
+            container.createEl('p', { text: t('magicRulesEmpty'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+
+        const list = container.createDiv('storyteller-magic-rule-list');
+        rules.forEach((rule, index) => {
+            const row = list.createDiv('storyteller-modal-list-item');
+            const info = row.createSpan();
+            info.createEl('strong', { text: rule.name });
+            if (rule.priority) info.appendText(` · ${rule.priority}`);
+            info.createDiv({
+                text: rule.condition ? describeCondition(rule.condition, this.magicSystem.name || undefined) : t('magicRuleNoCheck'),
+                cls: 'setting-item-description'
+            });
+
+            new ButtonComponent(row)
+                .setIcon('pencil')
+                .setTooltip(t('editMagicRule'))
+                .onClick(() => {
+                    this.openRuleModal(rule, updated => {
+                        rules[index] = updated;
+                        this.renderRules(container);
+                    });
+                });
+            new ButtonComponent(row)
+                .setClass('storyteller-modal-list-remove')
+                .setTooltip(t('removeX', rule.name))
+                .setIcon('cross')
+                .onClick(() => {
+                    rules.splice(index, 1);
+                    this.renderRules(container);
+                });
+        });
+    }
+
+    private openRuleModal(rule: ConsistencyRule | null, onSubmit: (rule: ConsistencyRule) => void): void {
+        new MagicRuleModal(
+            this.app,
+            this.plugin,
+            rule,
+            this.magicSystem.abilities || [],
+            this.magicSystem.materials || [],
+            onSubmit
+        ).open();
+    }
+
     private hasMultipleEntities(template: Template): boolean {
         let entityCount = 0;
         if (template.entities.magicSystems?.length) entityCount += template.entities.magicSystems.length;
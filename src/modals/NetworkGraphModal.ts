@@ -5,11 +5,12 @@ import { App, ButtonComponent, Menu, Modal, Notice } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
 import { t } from '../i18n/strings';
 import { NetworkGraphRenderer } from '../views/NetworkGraphRenderer';
-import { GraphFilters } from '../types';
+import { GraphEntityType, GraphFilters } from '../types';
 import { ResponsiveModal } from './ResponsiveModal';
+import { GRAPH_ENTITY_LABEL_KEYS, GRAPH_ENTITY_TYPES } from '../utils/GraphUtils';
 
-const ENTITY_TYPES = ['character', 'location', 'event', 'item'] as const;
-type EntityType = typeof ENTITY_TYPES[number];
+const ENTITY_TYPES = GRAPH_ENTITY_TYPES;
+type EntityType = GraphEntityType;
 
 // Modal to explore the relationship network with progressive filters and tooling
 export class NetworkGraphModal extends ResponsiveModal {
@@ -321,7 +322,7 @@ export class NetworkGraphModal extends ResponsiveModal {
 		const checkboxGrid = entitySection.createDiv('storyteller-filter-grid');
 		this.filterInputs.entityCheckboxes.clear();
 		ENTITY_TYPES.forEach(type => {
-			const labelKey = (type + 's') as 'characters' | 'locations' | 'events' | 'items';
+			const labelKey = GRAPH_ENTITY_LABEL_KEYS[type];
 			const checkboxContainer = checkboxGrid.createDiv('storyteller-filter-checkbox storyteller-filter-checkbox--drawer');
 			const checkbox = checkboxContainer.createEl('input', { type: 'checkbox' });
 			checkbox.checked = true;
@@ -510,7 +511,7 @@ export class NetworkGraphModal extends ResponsiveModal {
 
 		const entityFilter = this.currentFilters.entityTypes;
 		if (entityFilter && entityFilter.length > 0 && entityFilter.length < ENTITY_TYPES.length) {
-			const labels = entityFilter.map(type => t((type + 's') as 'characters' | 'locations' | 'events' | 'items'));
+			const labels = entityFilter.map(type => t(GRAPH_ENTITY_LABEL_KEYS[type]));
 			chips.push({
 				label: labels.join(', '),
 				ariaLabel: t('filterByEntityTypes'),
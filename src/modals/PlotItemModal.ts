@@ -1,15 +1,18 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import { App, Modal, Setting, Notice, TextAreaComponent, parseYaml } from 'obsidian';
-import { PlotItem, Group } from '../types';
+import { App, Modal, Setting, Notice, TextAreaComponent, ButtonComponent, parseYaml } from 'obsidian';
+import { PlotItem, Group, Event } from '../types';
 import StorytellerSuitePlugin from '../main';
 import { GalleryImageSuggestModal } from './GalleryImageSuggestModal';
 import { addImageSelectionButtons } from '../utils/ImageSelectionHelper';
+import { addMentionAppearances } from '../utils/MentionAppearancesHelper';
 import { getWhitelistKeys, parseSectionsFromMarkdown } from '../yaml/EntitySections';
 import { t } from '../i18n/strings';
 import { CharacterSuggestModal } from './CharacterSuggestModal';
 import { LocationSuggestModal } from './LocationSuggestModal';
 import { EventSuggestModal } from './EventSuggestModal';
 import { PromptModal } from './ui/PromptModal';
+import { ItemCustodyEntryModal } from './ItemCustodyEntryModal';
+import { buildCustodyChain, describeCustody, plainRef, sameRef } from '../utils/ItemCustody';
 import { TemplatePickerModal } from './TemplatePickerModal';
 import { Template } from '../templates/TemplateTypes';
 
@@ -132,6 +135,16 @@ export class PlotItemModal extends Modal {
                 .inputEl.addClass('storyteller-modal-input-large')
             );
 
+        new Setting(contentEl)
+            .setName(t('aliases'))
+            .setDesc(t('aliasesDesc'))
+            .addText(text => text
+                .setValue((this.item.aliases || []).join(', '))
+                .onChange(value => {
+                    const aliases = value.split(',').map(a => a.trim()).filter(a => a.length > 0);
+                    this.item.aliases = aliases.length > 0 ? aliases : undefined;
+                }));
+
         new Setting(contentEl)
             .setName(t('plotCritical'))
             .setDesc(t('plotCritical'))
@@ -199,6 +212,9 @@ export class PlotItemModal extends Modal {
                     }).open();
                 })
             );
+        // --- Appears In (prose mentions) ---
+        addMentionAppearances(contentEl, this.plugin, 'item', this.item);
+
         // --- Groups ---
         contentEl.createEl('h3', { text: t('groups') });
         this.groupSelectorContainer = contentEl.createDiv('storyteller-group-selector-container');
@@ -258,7 +274,24 @@ export class PlotItemModal extends Modal {
                     }).open();
                 })
             );
-            
+
+        // --- Custody chain ---
+        contentEl.createEl('h3', { text: t('custodyChain') });
+        contentEl.createEl('p', { text: t('custodyChainDesc'), cls: 'setting-item-description' });
+        const events = await this.plugin.listEvents();
+        const custodyContainer = contentEl.createDiv('storyteller-custody-chain');
+        this.renderCustodyChain(custodyContainer, events);
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText(t('addTransfer'))
+                .setIcon('plus')
+                .onClick(() => {
+                    new ItemCustodyEntryModal(this.app, this.plugin, null, (entry) => {
+                        this.item.custodyHistory = [...(this.item.custodyHistory || []), entry];
+                        this.applyLatestCustody(events);
+                        this.onOpen();
+                    }).open();
+                }));
 
         // TODO: Add UI for pastOwners and associatedEvents lists
         
@@ -297,6 +330,76 @@ export class PlotItemModal extends Modal {
                 this.close();
             }));
     }
+    /**
+     * Render the custody chain in story order; entries that can't be dated follow the dated ones
+     */
+    renderCustodyChain(container: HTMLElement, events: Event[]) {
+        container.empty();
+        const history = this.item.custodyHistory || [];
+        if (history.length === 0) {
+            container.createEl('p', { text: t('custodyEmpty'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+
+        const dated = buildCustodyChain(this.item, events).map(period => period.index);
+        const order = [...dated, ...history.map((_, i) => i).filter(i => !dated.includes(i))];
+        const list = container.createDiv('storyteller-custody-list');
+
+        order.forEach(index => {
+            const entry = history[index];
+            const row = list.createDiv('storyteller-modal-list-item');
+            const info = row.createSpan();
+            info.createEl('strong', { text: describeCustody(entry) });
+            // Event-dated entries show their transfer event instead of a date
+            if (entry.from || entry.to) {
+                info.appendText(` · ${entry.from || '…'} – ${entry.to || '…'}`);
+            } else if (!dated.includes(index)) {
+                info.appendText(` · ${t('custodyUndated')}`);
+            }
+            if (entry.event) info.appendText(` · ${t('custodyVia', plainRef(entry.event))}`);
+            if (entry.notes) info.createDiv({ text: entry.notes, cls: 'setting-item-description' });
+
+            new ButtonComponent(row)
+                .setIcon('pencil')
+                .setTooltip(t('editCustodyEntry'))
+                .onClick(() => {
+                    new ItemCustodyEntryModal(this.app, this.plugin, entry, (updated) => {
+                        history[index] = updated;
+                        this.applyLatestCustody(events);
+                        this.onOpen();
+                    }).open();
+                });
+            new ButtonComponent(row)
+                .setClass('storyteller-modal-list-remove')
+                .setTooltip(t('removeX', describeCustody(entry)))
+                .setIcon('cross')
+                .onClick(() => {
+                    history.splice(index, 1);
+                    this.applyLatestCustody(events);
+                    this.renderCustodyChain(container, events);
+                });
+        });
+    }
+
+    /**
+     * Keep current owner, location and past owners in step with the latest custody period
+     */
+    private applyLatestCustody(events: Event[]) {
+        const chain = buildCustodyChain(this.item, events);
+        const latest = chain[chain.length - 1];
+        if (!latest) return;
+        this.item.currentOwner = latest.entry.owner;
+        this.item.currentLocation = latest.entry.location;
+        const past = this.item.pastOwners || [];
+        for (const period of chain.slice(0, -1)) {
+            const owner = period.entry.owner;
+            if (owner && !sameRef(owner, latest.entry.owner) && !past.some(p => sameRef(p, owner))) {
+                past.push(owner);
+            }
+        }
+        this.item.pastOwners = past;
+    }
+
     renderGroupSelector(container: HTMLElement) {
         container.empty();
         const allGroups = this.plugin.getGroups();
@@ -445,6 +548,7 @@ export class PlotItemModal extends Modal {
         this.item.pastOwners = [];
         this.item.currentLocation = undefined;
         this.item.associatedEvents = [];
+        this.item.custodyHistory = [];
         this.item.groups = [];
         this.item.connections = [];
     }
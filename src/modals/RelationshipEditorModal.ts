@@ -1,22 +1,29 @@
 // Modal for adding/editing a single typed relationship
 
-import { App, Modal, Setting, Notice } from 'obsidian';
+import { App, Modal, Setting, Notice, SliderComponent } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
-import { TypedRelationship, RelationshipType, Character, Location, Event, PlotItem } from '../types';
+import { TypedRelationship, RelationshipType, Event, Scene } from '../types';
 import { CharacterSuggestModal } from './CharacterSuggestModal';
 import { LocationSuggestModal } from './LocationSuggestModal';
 import { EventSuggestModal } from './EventSuggestModal';
 import { PlotItemSuggestModal } from './PlotItemSuggestModal';
 import { t } from '../i18n/strings';
+import { datedRelationshipChanges } from '../utils/RelationshipHistory';
 
 export type RelationshipEditorCallback = (relationship: TypedRelationship) => void;
 
+const RELATIONSHIP_TYPES: RelationshipType[] = [
+    'ally', 'enemy', 'family', 'rival', 'romantic', 'mentor', 'acquaintance', 'neutral', 'custom'
+];
+
 export class RelationshipEditorModal extends Modal {
     plugin: StorytellerSuitePlugin;
     relationship: TypedRelationship;
     onSubmit: RelationshipEditorCallback;
     isNew: boolean;
     entityType: 'any' | 'character' | 'location' | 'event' | 'item';
+    private events: Event[] = [];
+    private scenes: Scene[] = [];
 
     constructor(
         app: App,
@@ -29,7 +36,10 @@ export class RelationshipEditorModal extends Modal {
         this.plugin = plugin;
         this.isNew = relationship === null;
         this.entityType = entityType;
-        this.relationship = relationship ? { ...relationship } : {
+        this.relationship = relationship ? {
+            ...relationship,
+            history: relationship.history?.map(change => ({ ...change }))
+        } : {
             target: '',
             type: 'neutral',
             label: undefined
@@ -38,7 +48,9 @@ export class RelationshipEditorModal extends Modal {
         this.modalEl.addClass('storyteller-relationship-editor-modal');
     }
 
-    onOpen() {
+    async onOpen() {
+        this.events = await this.plugin.listEvents();
+        this.scenes = await this.plugin.listScenes();
         const { contentEl } = this;
         contentEl.empty();
         contentEl.createEl('h2', { text: this.isNew ? t('addRelationship') : t('editRelationship') });
@@ -63,6 +75,7 @@ export class RelationshipEditorModal extends Modal {
                         new CharacterSuggestModal(this.app, this.plugin, (selected) => {
                             if (selected) {
                                 this.relationship.target = selected.id || selected.name;
+                                this.relationship.targetType = 'character';
                                 targetDesc.setText(selected.name);
                             }
                         }).open();
@@ -70,6 +83,7 @@ export class RelationshipEditorModal extends Modal {
                         new CharacterSuggestModal(this.app, this.plugin, (selected) => {
                             if (selected) {
                                 this.relationship.target = selected.id || selected.name;
+                                this.relationship.targetType = 'character';
                                 targetDesc.setText(selected.name);
                             }
                         }).open();
@@ -77,6 +91,7 @@ export class RelationshipEditorModal extends Modal {
                         new LocationSuggestModal(this.app, this.plugin, (selected) => {
                             if (selected) {
                                 this.relationship.target = selected.id || selected.name;
+                                this.relationship.targetType = 'location';
                                 targetDesc.setText(selected.name);
                             }
                         }).open();
@@ -84,6 +99,7 @@ export class RelationshipEditorModal extends Modal {
                         new EventSuggestModal(this.app, this.plugin, (selected) => {
                             if (selected) {
                                 this.relationship.target = selected.id || selected.name;
+                                this.relationship.targetType = 'event';
                                 targetDesc.setText(selected.name);
                             }
                         }).open();
@@ -91,6 +107,7 @@ export class RelationshipEditorModal extends Modal {
                         new PlotItemSuggestModal(this.app, this.plugin, (selected) => {
                             if (selected) {
                                 this.relationship.target = selected.id || selected.name;
+                                this.relationship.targetType = 'item';
                                 targetDesc.setText(selected.name);
                             }
                         }).open();
@@ -102,16 +119,8 @@ export class RelationshipEditorModal extends Modal {
             .setName(t('relationshipType'))
             .setDesc(t('relationshipTypeDesc'))
             .addDropdown(dropdown => {
+                RELATIONSHIP_TYPES.forEach(type => dropdown.addOption(type, t(type)));
                 dropdown
-                    .addOption('ally', t('ally'))
-                    .addOption('enemy', t('enemy'))
-                    .addOption('family', t('family'))
-                    .addOption('rival', t('rival'))
-                    .addOption('romantic', t('romantic'))
-                    .addOption('mentor', t('mentor'))
-                    .addOption('acquaintance', t('acquaintance'))
-                    .addOption('neutral', t('neutral'))
-                    .addOption('custom', t('custom'))
                     .setValue(this.relationship.type)
                     .onChange(value => {
                         this.relationship.type = value as RelationshipType;
@@ -129,6 +138,47 @@ export class RelationshipEditorModal extends Modal {
                     this.relationship.label = value || undefined;
                 }));
 
+        // Direction: unset keeps the type's default mirroring
+        new Setting(contentEl)
+            .setName(t('relationshipDirection'))
+            .setDesc(t('relationshipDirectionDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('', t('relationshipDirectionDefault'))
+                .addOption('mutual', t('relationshipMutual'))
+                .addOption('one-way', t('relationshipOneWay'))
+                .setValue(this.relationship.direction || '')
+                .onChange(value => {
+                    this.relationship.direction = (value || undefined) as TypedRelationship['direction'];
+                }));
+
+        let intensitySlider: SliderComponent;
+        new Setting(contentEl)
+            .setName(t('relationshipIntensity'))
+            .setDesc(t('relationshipIntensityDesc'))
+            .addSlider(slider => {
+                intensitySlider = slider;
+                slider
+                    .setLimits(1, 10, 1)
+                    .setValue(this.relationship.intensity ?? 5)
+                    .setDynamicTooltip()
+                    .onChange(value => {
+                        this.relationship.intensity = value;
+                    });
+            })
+            .addExtraButton(button => button
+                .setIcon('reset')
+                .setTooltip(t('clear'))
+                .onClick(() => {
+                    intensitySlider.setValue(5);
+                    delete this.relationship.intensity;
+                }));
+
+        // Dated changes of type over the story
+        contentEl.createEl('h3', { text: t('relationshipHistory') });
+        contentEl.createEl('p', { text: t('relationshipHistoryDesc'), cls: 'setting-item-description' });
+        const historyContainer = contentEl.createDiv('storyteller-relationship-history');
+        this.renderHistory(historyContainer);
+
         // Buttons
         new Setting(contentEl)
             .addButton(button => button
@@ -144,11 +194,69 @@ export class RelationshipEditorModal extends Modal {
                         new Notice(t('pleaseSelectTarget'));
                         return;
                     }
+                    if (!this.relationship.history?.length) delete this.relationship.history;
                     this.onSubmit(this.relationship);
                     this.close();
                 }));
     }
 
+    // Render history rows: dated changes in story order, undated ones after them
+    private renderHistory(container: HTMLElement) {
+        container.empty();
+        const history = this.relationship.history || (this.relationship.history = []);
+        if (history.length === 0) {
+            container.createEl('p', { text: t('noRelationshipChanges'), cls: 'storyteller-modal-list-empty' });
+        }
+
+        const dated = datedRelationshipChanges(this.relationship, this.events, this.scenes).map(entry => entry.change);
+        const ordered = [...dated, ...history.filter(change => !dated.includes(change))];
+        ordered.forEach(change => {
+            new Setting(container)
+                .setClass('storyteller-relationship-change')
+                .addDropdown(dropdown => {
+                    RELATIONSHIP_TYPES.forEach(type => dropdown.addOption(type, t(type)));
+                    dropdown.setValue(change.type)
+                        .onChange(value => { change.type = value as RelationshipType; });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', t('relationshipNoEvent'));
+                    this.events.forEach(event => dropdown.addOption(event.name, event.name));
+                    dropdown.setValue(change.event || '')
+                        .onChange(value => { change.event = value || undefined; });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', t('relationshipNoScene'));
+                    this.scenes.forEach(scene => dropdown.addOption(scene.name, scene.name));
+                    dropdown.setValue(change.scene || '')
+                        .onChange(value => { change.scene = value || undefined; });
+                })
+                .addText(text => text
+                    .setPlaceholder(t('relationshipChangeDatePh'))
+                    .setValue(change.date || '')
+                    .onChange(value => { change.date = value.trim() || undefined; }))
+                .addText(text => text
+                    .setPlaceholder(t('label'))
+                    .setValue(change.label || '')
+                    .onChange(value => { change.label = value.trim() || undefined; }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(t('removeRelationshipChange'))
+                    .onClick(() => {
+                        history.splice(history.indexOf(change), 1);
+                        this.renderHistory(container);
+                    }));
+        });
+
+        new Setting(container)
+            .addButton(button => button
+                .setButtonText(t('addRelationshipChange'))
+                .setIcon('plus')
+                .onClick(() => {
+                    history.push({ type: this.relationship.type });
+                    this.renderHistory(container);
+                }));
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
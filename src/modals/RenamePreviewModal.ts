@@ -0,0 +1,112 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { t } from '../i18n/strings';
+import type { RenamePlan, RenameChange, RenamePropagationService } from '../services/RenamePropagationService';
+
+/** Readable labels for owner types shown in the preview */
+const OWNER_LABELS: Record<RenameChange['ownerType'], string> = {
+    character: 'Character',
+    location: 'Location',
+    event: 'Event',
+    item: 'Item',
+    chapter: 'Chapter',
+    scene: 'Scene',
+    reference: 'Reference',
+    culture: 'Culture',
+    economy: 'Economy',
+    magicSystem: 'Magic system',
+    calendar: 'Calendar',
+    map: 'Map',
+    group: 'Group',
+    galleryImage: 'Gallery image',
+    track: 'Timeline track',
+    causalityLink: 'Causality link',
+    fork: 'Timeline fork',
+    era: 'Timeline era'
+};
+
+/**
+ * Modal that previews which entities reference a renamed entity, applies the
+ * rewrite and then shows a summary with an undo button
+ */
+export class RenamePreviewModal extends Modal {
+    private service: RenamePropagationService;
+    private plan: RenamePlan;
+
+    constructor(app: App, service: RenamePropagationService, plan: RenamePlan) {
+        super(app);
+        this.service = service;
+        this.plan = plan;
+        this.modalEl.addClass('storyteller-rename-modal');
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('renameReferencesTitle') });
+        contentEl.createEl('p', { text: t('renameReferencesDesc', this.plan.oldName, this.plan.newName) });
+
+        if (this.plan.ownNamePath) {
+            contentEl.createEl('p', { text: t('renameOwnName', this.plan.newName), cls: 'storyteller-list-meta' });
+        }
+        this.renderChanges(contentEl, this.plan.changes);
+
+        const buttons = new Setting(contentEl);
+        buttons.addButton(b => b
+            .setButtonText(t('renameUpdateReferences'))
+            .setCta()
+            .onClick(async () => {
+                b.setDisabled(true);
+                await this.applyPlan();
+            }));
+        buttons.addButton(b => b
+            .setButtonText(t('renameKeepReferences'))
+            .onClick(() => this.close()));
+    }
+
+    private renderChanges(containerEl: HTMLElement, changes: RenameChange[]): void {
+        if (changes.length === 0) return;
+        const listEl = containerEl.createDiv('storyteller-list-container');
+        changes.forEach(change => {
+            const itemEl = listEl.createDiv('storyteller-list-item');
+            const infoEl = itemEl.createDiv('storyteller-list-item-info');
+            infoEl.createEl('strong', { text: `${OWNER_LABELS[change.ownerType]}: ${change.ownerName}` });
+            infoEl.createEl('p', { text: change.fields.join(', '), cls: 'storyteller-list-meta' });
+        });
+    }
+
+    private async applyPlan(): Promise<void> {
+        const result = await this.service.apply(this.plan);
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('renameSummaryTitle') });
+        contentEl.createEl('p', { text: t('renameSummaryDesc', result.updated.length, this.plan.oldName, this.plan.newName) });
+        this.renderChanges(contentEl, result.updated);
+
+        if (result.failures.length > 0) {
+            contentEl.createEl('h4', { text: t('renameFailures') });
+            const failEl = contentEl.createEl('ul');
+            result.failures.forEach(f => failEl.createEl('li', { text: `${f.change.ownerName}: ${f.error}` }));
+        }
+
+        const buttons = new Setting(contentEl);
+        if (result.updated.length > 0) {
+            buttons.addButton(b => b
+                .setButtonText(t('undo'))
+                .setWarning()
+                .onClick(async () => {
+                    b.setDisabled(true);
+                    await result.undo();
+                    new Notice(t('renameUndone', this.plan.oldName));
+                    this.close();
+                }));
+        }
+        buttons.addButton(b => b
+            .setButtonText(t('close'))
+            .setCta()
+            .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -12,6 +12,26 @@ import { addImageSelectionButtons } from '../utils/ImageSelectionHelper';
 import { GroupSuggestModal } from './GroupSuggestModal';
 import { TemplatePickerModal } from './TemplatePickerModal';
 import { Template } from '../templates/TemplateTypes';
+import { findMentions, unlinkedMentions } from '../utils/MentionScanner';
+import type { MentionEntityType, MentionMatcher } from '../utils/MentionScanner';
+import { normalizeStatuses, sameStatus } from '../utils/SceneKanban';
+
+/** Scene link array for each kind of mentioned entity */
+const LINK_FIELDS: Record<MentionEntityType, 'linkedCharacters' | 'linkedLocations' | 'linkedItems' | 'linkedEvents' | 'linkedGroups'> = {
+    character: 'linkedCharacters',
+    location: 'linkedLocations',
+    item: 'linkedItems',
+    event: 'linkedEvents',
+    group: 'linkedGroups'
+};
+
+const LINK_LIST_TYPES: Record<MentionEntityType, string> = {
+    character: 'characters',
+    location: 'locations',
+    item: 'items',
+    event: 'events',
+    group: 'groups'
+};
 
 export type SceneModalSubmitCallback = (sc: Scene) => Promise<void>;
 export type SceneModalDeleteCallback = (sc: Scene) => Promise<void>;
@@ -22,6 +42,9 @@ export class SceneModal extends Modal {
     onSubmit: SceneModalSubmitCallback;
     onDelete?: SceneModalDeleteCallback;
     isNew: boolean;
+    private mentionMatcher: MentionMatcher | null = null;
+    private suggestionsEl: HTMLElement | null = null;
+    private linkListEls: Partial<Record<MentionEntityType, HTMLElement>> = {};
 
     constructor(app: App, plugin: StorytellerSuitePlugin, sc: Scene | null, onSubmit: SceneModalSubmitCallback, onDelete?: SceneModalDeleteCallback) {
         super(app);
@@ -134,10 +157,24 @@ export class SceneModal extends Modal {
 
         new Setting(contentEl)
             .setName(t('status'))
-            .addDropdown(dd => dd
-                .addOptions({ Draft: 'Draft', Outline: 'Outline', WIP: 'WIP', Revised: 'Revised', Final: 'Final' })
-                .setValue(this.scene.status || 'Draft')
-                .onChange(v => this.scene.status = v)
+            .addDropdown(dd => {
+                const statuses = normalizeStatuses(this.plugin.settings.sceneStatuses);
+                const current = this.scene.status?.trim();
+                const configured = current ? statuses.find(status => sameStatus(status, current)) : undefined;
+                // Keep a status that is no longer configured selectable
+                if (current && !configured) statuses.push(current);
+                statuses.forEach(status => dd.addOption(status, status));
+                dd.setValue(configured || current || statuses[0])
+                    .onChange(v => this.scene.status = v);
+            });
+
+        new Setting(contentEl)
+            .setName(t('timeOfDay'))
+            .setDesc(t('timeOfDayDesc'))
+            .addText(text => text
+                .setPlaceholder(t('timeOfDayPh'))
+                .setValue(this.scene.timeOfDay || '')
+                .onChange(v => this.scene.timeOfDay = v.trim() || undefined)
             );
 
         new Setting(contentEl)
@@ -192,7 +229,10 @@ export class SceneModal extends Modal {
             .addTextArea((ta: TextAreaComponent) => {
                 ta.setPlaceholder(t('writeScenePh'))
                   .setValue(this.scene.content || '')
-                  .onChange(v => this.scene.content = v || undefined);
+                  .onChange(v => {
+                      this.scene.content = v || undefined;
+                      this.renderSuggestedLinks();
+                  });
                 ta.inputEl.rows = 10;
             });
 
@@ -276,6 +316,31 @@ export class SceneModal extends Modal {
             }).open();
         }));
 
+        this.linkListEls = {
+            character: charactersListEl,
+            location: locationsListEl,
+            event: eventsListEl,
+            item: itemsListEl,
+            group: groupsListEl
+        };
+
+        // Entities named in the prose that aren't linked yet
+        const suggestionsSetting = new Setting(contentEl)
+            .setName(t('suggestedLinks'))
+            .setDesc(t('suggestedLinksDesc'));
+        this.suggestionsEl = suggestionsSetting.controlEl.createDiv('storyteller-modal-linked-entities');
+        if (this.mentionMatcher) {
+            this.renderSuggestedLinks();
+        } else {
+            // The index may still be building in a large vault; fill the suggestions in once it is ready
+            this.plugin.mentionIndex.getMatcher()
+                .then(matcher => {
+                    this.mentionMatcher = matcher;
+                    this.renderSuggestedLinks();
+                })
+                .catch(error => console.error('Storyteller Suite: could not load mention suggestions', error));
+        }
+
         const buttons = new Setting(contentEl).setClass('storyteller-modal-buttons');
         if (!this.isNew && this.onDelete) {
             buttons.addButton(btn => btn
@@ -360,6 +425,52 @@ export class SceneModal extends Modal {
         });
     }
 
+    /**
+     * List entities mentioned in the content but missing from the links, each with a link button
+     */
+    private renderSuggestedLinks(): void {
+        const container = this.suggestionsEl;
+        if (!container || !this.mentionMatcher) return;
+        container.empty();
+
+        const linked: Partial<Record<MentionEntityType, string[]>> = {};
+        (Object.keys(LINK_FIELDS) as MentionEntityType[]).forEach(type => { linked[type] = this.scene[LINK_FIELDS[type]]; });
+        const suggestions = unlinkedMentions(findMentions(this.scene.content || '', this.mentionMatcher), linked);
+        if (suggestions.length === 0) {
+            container.createEl('span', { text: t('none'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+
+        const link = (type: MentionEntityType, id: string) => {
+            const field = LINK_FIELDS[type];
+            const list = this.scene[field] || [];
+            if (!list.includes(id)) list.push(id);
+            this.scene[field] = list;
+            const listEl = this.linkListEls[type];
+            if (listEl) this.renderLinkedEntities(listEl, list, LINK_LIST_TYPES[type]);
+        };
+
+        suggestions.forEach(mention => {
+            const itemEl = container.createDiv('storyteller-modal-list-item');
+            itemEl.createSpan({ text: `${mention.entityName} (${mention.type})` });
+            new ButtonComponent(itemEl)
+                .setIcon('link')
+                .setTooltip(t('linkX', mention.entityName))
+                .onClick(() => {
+                    link(mention.type, mention.entityId);
+                    this.renderSuggestedLinks();
+                });
+        });
+        if (suggestions.length > 1) {
+            new ButtonComponent(container)
+                .setButtonText(t('linkAll'))
+                .onClick(() => {
+                    suggestions.forEach(mention => link(mention.type, mention.entityId));
+                    this.renderSuggestedLinks();
+                });
+        }
+    }
+
     private hasMultipleEntities(template: Template): boolean {
         let entityCount = 0;
         if (template.entities.scenes?.length) entityCount += template.entities.scenes.length;
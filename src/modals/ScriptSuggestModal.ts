@@ -0,0 +1,33 @@
+import { App, SuggestModal, TFile } from 'obsidian';
+import { t } from '../i18n/strings';
+
+/**
+ * Modal that suggests JavaScript files in the vault and returns the chosen script's path
+ */
+export class ScriptSuggestModal extends SuggestModal<TFile> {
+  private readonly onChoose: (scriptPath: string) => void;
+  private readonly scripts: TFile[];
+
+  constructor(app: App, onChoose: (scriptPath: string) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder(t('filterScriptsPh'));
+    this.emptyStateText = t('noScriptsFound');
+    this.scripts = app.vault.getFiles()
+      .filter(file => file.extension === 'js')
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  getSuggestions(query: string): TFile[] {
+    const q = (query || '').toLowerCase();
+    return this.scripts.filter(file => file.path.toLowerCase().includes(q)).slice(0, 200);
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement) {
+    el.createEl('div', { text: file.path });
+  }
+
+  onChooseSuggestion(file: TFile) {
+    this.onChoose(file.path);
+  }
+}
@@ -0,0 +1,207 @@
+// Modal for comparing a scene's text between draft snapshots, or a snapshot and the live text
+
+import { App, Modal, Setting } from 'obsidian';
+import type StorytellerSuitePlugin from '../main';
+import type { Scene } from '../types';
+import { SceneOrderManager } from '../compile/SceneOrderManager';
+import type { SceneRevision } from '../compile/SceneOrderManager';
+import { diffWords, sideBySide, summarizeDiff } from '../utils/TextDiff';
+import type { DiffOp, DiffRow } from '../utils/TextDiff';
+import { t } from '../i18n/strings';
+
+/** Source value for the scene's current text */
+const LIVE = 'live';
+
+export interface SnapshotDiffOptions {
+    /** Scene to open on */
+    sceneId?: string;
+    /** Snapshot shown on the left; defaults to the newest revision */
+    leftSnapshotId?: string;
+    /** Snapshot shown on the right; defaults to the live text */
+    rightSnapshotId?: string;
+}
+
+export class SnapshotDiffModal extends Modal {
+    plugin: StorytellerSuitePlugin;
+    private storyId: string;
+    private manager: SceneOrderManager;
+    private scenes: Scene[] = [];
+    private sceneId = '';
+    private left = '';
+    private right = LIVE;
+    private revisionsEl: HTMLElement | null = null;
+    private diffEl: HTMLElement | null = null;
+    /** Guards against an older diff finishing after a newer one */
+    private diffRequest = 0;
+
+    constructor(app: App, plugin: StorytellerSuitePlugin, storyId: string, options: SnapshotDiffOptions = {}) {
+        super(app);
+        this.plugin = plugin;
+        this.storyId = storyId;
+        this.manager = new SceneOrderManager(plugin);
+        this.sceneId = options.sceneId || '';
+        this.left = options.leftSnapshotId || '';
+        this.right = options.rightSnapshotId || LIVE;
+        this.modalEl.addClass('storyteller-snapshot-diff-modal');
+    }
+
+    async onOpen(): Promise<void> {
+        this.scenes = await this.plugin.listScenes();
+        this.render();
+    }
+
+    /** Scenes that exist now or appear in any snapshot of the story */
+    private getSceneChoices(): { id: string; name: string }[] {
+        const choices = new Map<string, string>();
+        this.scenes.forEach(scene => choices.set(scene.id || scene.name, scene.name));
+        (this.plugin.settings.draftSnapshots || [])
+            .filter(snap => snap.storyId === this.storyId)
+            .forEach(snap => snap.scenes.forEach(ref => {
+                if (!choices.has(ref.sceneId)) choices.set(ref.sceneId, ref.name);
+            }));
+        return Array.from(choices, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private getRevisions(): SceneRevision[] {
+        return this.sceneId ? this.manager.getSceneRevisions(this.storyId, this.sceneId) : [];
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: t('compareSnapshots') });
+
+        const choices = this.getSceneChoices();
+        if (!this.sceneId || !choices.some(c => c.id === this.sceneId)) {
+            this.sceneId = choices[0]?.id || '';
+        }
+
+        new Setting(contentEl)
+            .setName(t('scene'))
+            .addDropdown(dropdown => {
+                choices.forEach(choice => dropdown.addOption(choice.id, choice.name));
+                dropdown.setValue(this.sceneId);
+                dropdown.onChange(value => {
+                    this.sceneId = value;
+                    this.left = '';
+                    this.right = LIVE;
+                    this.render();
+                });
+            });
+
+        const revisions = this.getRevisions();
+        if (!revisions.some(r => r.snapshot.id === this.left)) {
+            this.left = revisions[0]?.snapshot.id || LIVE;
+        }
+        if (this.right !== LIVE && !revisions.some(r => r.snapshot.id === this.right)) {
+            this.right = LIVE;
+        }
+
+        const addSourceDropdown = (name: string, value: string, onChange: (value: string) => void) => {
+            new Setting(contentEl)
+                .setName(name)
+                .addDropdown(dropdown => {
+                    revisions.forEach(r => dropdown.addOption(r.snapshot.id, this.revisionLabel(r)));
+                    dropdown.addOption(LIVE, t('liveText'));
+                    dropdown.setValue(value);
+                    dropdown.onChange(onChange);
+                });
+        };
+        addSourceDropdown(t('compareFrom'), this.left, value => {
+            this.left = value;
+            void this.renderDiff();
+        });
+        addSourceDropdown(t('compareTo'), this.right, value => {
+            this.right = value;
+            void this.renderDiff();
+        });
+
+        this.revisionsEl = contentEl.createDiv('storyteller-snapshot-revisions');
+        this.renderRevisions(revisions);
+
+        this.diffEl = contentEl.createDiv('storyteller-diff');
+        void this.renderDiff();
+    }
+
+    /** Per-scene revision list; clicking a revision compares it with the live text */
+    private renderRevisions(revisions: SceneRevision[]): void {
+        if (!this.revisionsEl) return;
+        const listEl = this.revisionsEl;
+        listEl.empty();
+        listEl.createEl('h4', { text: t('sceneRevisions') });
+        if (revisions.length === 0) {
+            listEl.createEl('p', { text: t('noSceneRevisions'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+        revisions.forEach(revision => {
+            const itemEl = listEl.createDiv('storyteller-modal-list-item storyteller-snapshot-revision');
+            if (revision.snapshot.id === this.left) itemEl.addClass('is-active');
+            itemEl.createSpan({ text: this.revisionLabel(revision) });
+            itemEl.createSpan({ text: t('snapshotWords', String(revision.ref.wordCount)), cls: 'storyteller-snapshot-revision-words' });
+            itemEl.addEventListener('click', () => {
+                this.left = revision.snapshot.id;
+                this.right = LIVE;
+                this.render();
+            });
+        });
+    }
+
+    private revisionLabel(revision: SceneRevision): string {
+        return `${revision.snapshot.name} · ${new Date(revision.snapshot.created).toLocaleString()}`;
+    }
+
+    /** Text of a source for the selected scene */
+    private async readSource(source: string): Promise<string> {
+        if (source === LIVE) {
+            const scene = this.scenes.find(s => s.id === this.sceneId || s.name === this.sceneId);
+            return scene ? this.manager.readLiveSceneText(scene) : '';
+        }
+        const revision = this.getRevisions().find(r => r.snapshot.id === source);
+        return revision ? this.manager.readSnapshotText(revision.ref) : '';
+    }
+
+    private async renderDiff(): Promise<void> {
+        const diffEl = this.diffEl;
+        if (!diffEl) return;
+        const request = ++this.diffRequest;
+        const rows = sideBySide(await this.readSource(this.left), await this.readSource(this.right));
+        if (request !== this.diffRequest) return;
+        diffEl.empty();
+
+        const summary = summarizeDiff(rows);
+        diffEl.createDiv({
+            cls: 'storyteller-diff-summary',
+            text: summary.added + summary.removed + summary.changed === 0
+                ? t('noDifferences')
+                : t('diffSummary', String(summary.added), String(summary.removed), String(summary.changed))
+        });
+
+        const gridEl = diffEl.createDiv('storyteller-diff-grid');
+        rows.forEach(row => this.renderRow(gridEl, row));
+    }
+
+    private renderRow(gridEl: HTMLElement, row: DiffRow): void {
+        const rowEl = gridEl.createDiv(`storyteller-diff-row storyteller-diff-${row.kind}`);
+        const words = row.kind === 'changed' ? diffWords(row.left || '', row.right || '') : null;
+
+        const addSide = (line: number | undefined, text: string | undefined, hidden: DiffOp) => {
+            rowEl.createDiv({ cls: 'storyteller-diff-line-number', text: line === undefined ? '' : String(line) });
+            const textEl = rowEl.createDiv('storyteller-diff-text');
+            if (text === undefined) {
+                textEl.addClass('is-empty');
+            } else if (words) {
+                words.filter(part => part.op !== hidden).forEach(part => {
+                    textEl.createSpan({ text: part.text, cls: part.op === 'same' ? '' : `storyteller-diff-${part.op}-word` });
+                });
+            } else {
+                textEl.setText(text);
+            }
+        };
+        addSide(row.leftLine, row.left, 'added');
+        addSide(row.rightLine, row.right, 'removed');
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -2,6 +2,22 @@ import { App, Modal, Setting, Notice, TextAreaComponent, DropdownComponent } fro
 import type StorytellerSuitePlugin from '../main';
 import type { TimelineFork, Event } from '../types';
 import { EventSuggestModal } from './EventSuggestModal';
+import { CharacterSuggestModal } from './CharacterSuggestModal';
+import { LocationSuggestModal } from './LocationSuggestModal';
+import { PlotItemSuggestModal } from './PlotItemSuggestModal';
+import { ForkMergeModal } from './ForkMergeModal';
+import { formatOverrideLines, getAlterations, parseOverrideLines } from '../utils/TimelineForks';
+import type { ForkEntityType } from '../utils/TimelineForks';
+
+/** Section labels for altered entity types */
+const ALTERED_TYPE_LABELS: Record<ForkEntityType, string> = {
+    character: 'Character',
+    location: 'Location',
+    event: 'Event',
+    item: 'Item'
+};
+
+type NamedEntity = { id?: string; name: string };
 
 export type TimelineForkModalSubmitCallback = (fork: TimelineFork) => Promise<void>;
 export type TimelineForkModalDeleteCallback = (fork: TimelineFork) => Promise<void>;
@@ -14,19 +30,24 @@ export class TimelineForkModal extends Modal {
     plugin: StorytellerSuitePlugin;
     onSubmit: TimelineForkModalSubmitCallback;
     onDelete?: TimelineForkModalDeleteCallback;
+    onMerged?: () => Promise<void>;
     isNew: boolean;
+    private canon: Record<ForkEntityType, NamedEntity[]> = { character: [], location: [], event: [], item: [] };
+    private alteredSectionEl: HTMLElement | null = null;
 
     constructor(
         app: App,
         plugin: StorytellerSuitePlugin,
         fork: TimelineFork | null,
         onSubmit: TimelineForkModalSubmitCallback,
-        onDelete?: TimelineForkModalDeleteCallback
+        onDelete?: TimelineForkModalDeleteCallback,
+        onMerged?: () => Promise<void>
     ) {
         super(app);
         this.plugin = plugin;
         this.onSubmit = onSubmit;
         this.onDelete = onDelete;
+        this.onMerged = onMerged;
         this.isNew = fork === null;
 
         this.fork = fork || {
@@ -168,30 +189,15 @@ export class TimelineForkModal extends Modal {
                 text.inputEl.style.width = '100%';
             });
 
-        // Display altered entities if editing existing fork
+        // Fork-scoped overrides: how entities differ inside this fork (existing forks only)
         if (!this.isNew) {
-            const alteredSection = contentEl.createDiv('storyteller-fork-altered-entities');
-            alteredSection.createEl('h3', { text: 'Altered Entities' });
-
-            if (this.fork.alteredCharacters && this.fork.alteredCharacters.length > 0) {
-                alteredSection.createEl('h4', { text: 'Characters:' });
-                const charList = alteredSection.createEl('ul');
-                this.fork.alteredCharacters.forEach(char => {
-                    charList.createEl('li', { text: `${char.entityId}: ${char.changes}` });
-                });
-            }
-
-            if (this.fork.alteredLocations && this.fork.alteredLocations.length > 0) {
-                alteredSection.createEl('h4', { text: 'Locations:' });
-                const locList = alteredSection.createEl('ul');
-                this.fork.alteredLocations.forEach(loc => {
-                    locList.createEl('li', { text: `${loc.entityId}: ${loc.changes}` });
-                });
-            }
+            this.canon = await this.loadCanon();
+            this.alteredSectionEl = contentEl.createDiv('storyteller-fork-altered-entities');
+            this.renderAlterations();
 
             if (this.fork.forkEvents && this.fork.forkEvents.length > 0) {
-                alteredSection.createEl('h4', { text: 'Fork-specific Events:' });
-                const eventList = alteredSection.createEl('ul');
+                contentEl.createEl('h4', { text: 'Fork-specific Events:' });
+                const eventList = contentEl.createEl('ul');
                 this.fork.forkEvents.forEach(eventId => {
                     eventList.createEl('li', { text: eventId });
                 });
@@ -223,6 +229,20 @@ export class TimelineForkModal extends Modal {
             .onClick(() => this.close())
         );
 
+        if (!this.isNew && this.fork.status !== 'merged') {
+            buttonsSetting.addButton(button => button
+                .setButtonText('Merge into canon')
+                .onClick(async () => {
+                    // Save pending edits first so the preview reflects them
+                    await this.onSubmit(this.fork);
+                    const plan = await this.plugin.planTimelineForkMerge(this.fork.id);
+                    if (!plan) return;
+                    this.close();
+                    new ForkMergeModal(this.app, this.plugin, this.fork, plan, this.onMerged).open();
+                })
+            );
+        }
+
         if (!this.isNew && this.onDelete) {
             buttonsSetting.addButton(button => button
                 .setButtonText('Delete')
@@ -237,6 +257,84 @@ export class TimelineForkModal extends Modal {
         }
     }
 
+    private async loadCanon(): Promise<Record<ForkEntityType, NamedEntity[]>> {
+        try {
+            return {
+                character: await this.plugin.listCharacters(),
+                location: await this.plugin.listLocations(),
+                event: await this.plugin.listEvents(),
+                item: await this.plugin.listPlotItems()
+            };
+        } catch (error) {
+            console.error('Storyteller Suite: Error loading entities for fork overrides:', error);
+            return { character: [], location: [], event: [], item: [] };
+        }
+    }
+
+    /**
+     * Render one editable block per altered entity, grouped by type
+     */
+    private renderAlterations(): void {
+        const container = this.alteredSectionEl;
+        if (!container) return;
+        container.empty();
+        container.createEl('h3', { text: 'Altered Entities' });
+        container.createEl('p', {
+            text: 'Overrides replace canonical field values inside this fork, one "field: value" per line (e.g. "status: Deceased"). Separate list values with commas.',
+            cls: 'setting-item-description'
+        });
+
+        (Object.keys(ALTERED_TYPE_LABELS) as ForkEntityType[]).forEach(type => {
+            const alterations = getAlterations(this.fork, type);
+            const header = new Setting(container)
+                .setName(`${ALTERED_TYPE_LABELS[type]}s`)
+                .setHeading();
+            header.addButton(button => button
+                .setButtonText(`Add ${ALTERED_TYPE_LABELS[type].toLowerCase()}`)
+                .onClick(() => this.chooseEntity(type, entity => {
+                    const list = getAlterations(this.fork, type, true);
+                    if (!list.some(a => a.entityId === entity.name)) {
+                        list.push({ entityId: entity.name, entityType: type, changes: '', overrides: {} });
+                    }
+                    this.renderAlterations();
+                }))
+            );
+
+            alterations.forEach((alteration, index) => {
+                const canonical = this.canon[type].find(e => e.id === alteration.entityId || e.name === alteration.entityId);
+                new Setting(container)
+                    .setName(alteration.entityId)
+                    .setDesc(canonical ? '' : 'Not found in canon')
+                    .setClass('storyteller-modal-setting-vertical')
+                    .addText(text => text
+                        .setPlaceholder('Summary of what changed')
+                        .setValue(alteration.changes || '')
+                        .onChange(value => alteration.changes = value))
+                    .addTextArea(text => {
+                        text.setPlaceholder('status: Deceased')
+                            .setValue(formatOverrideLines(alteration.overrides))
+                            .onChange(value => alteration.overrides = parseOverrideLines(value, canonical));
+                        text.inputEl.rows = 3;
+                        text.inputEl.style.width = '100%';
+                    })
+                    .addExtraButton(button => button
+                        .setIcon('trash')
+                        .setTooltip('Remove')
+                        .onClick(() => {
+                            alterations.splice(index, 1);
+                            this.renderAlterations();
+                        }));
+            });
+        });
+    }
+
+    private chooseEntity(type: ForkEntityType, onChoose: (entity: NamedEntity) => void): void {
+        if (type === 'character') new CharacterSuggestModal(this.app, this.plugin, onChoose).open();
+        else if (type === 'location') new LocationSuggestModal(this.app, this.plugin, location => { if (location) onChoose(location); }).open();
+        else if (type === 'event') new EventSuggestModal(this.app, this.plugin, onChoose).open();
+        else new PlotItemSuggestModal(this.app, this.plugin, onChoose).open();
+    }
+
     onClose(): void {
         const { contentEl } = this;
         contentEl.empty();
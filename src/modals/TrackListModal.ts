@@ -12,7 +12,7 @@ export class TrackListModal extends Modal {
     constructor(app: App, plugin: StorytellerSuitePlugin) {
         super(app);
         this.plugin = plugin;
-        this.tracks = plugin.settings.timelineTracks || [];
+        this.tracks = plugin.getTimelineTracks();
         this.modalEl.addClass('storyteller-track-list-modal');
     }
 
@@ -197,7 +197,7 @@ export class TrackListModal extends Modal {
                     const confirm = await this.confirmDelete(track.name);
                     if (confirm) {
                         await this.plugin.deleteTimelineTrack(track.id);
-                        this.tracks = this.plugin.settings.timelineTracks || [];
+                        this.tracks = this.plugin.getTimelineTracks();
                         this.renderTrackList();
                     }
                 });
@@ -219,12 +219,12 @@ export class TrackListModal extends Modal {
                     await this.plugin.createTimelineTrack(updatedTrack);
                 }
                 // Refresh the list
-                this.tracks = this.plugin.settings.timelineTracks || [];
+                this.tracks = this.plugin.getTimelineTracks();
                 this.renderTrackList();
             },
             async (trackToDelete) => {
                 await this.plugin.deleteTimelineTrack(trackToDelete.id);
-                this.tracks = this.plugin.settings.timelineTracks || [];
+                this.tracks = this.plugin.getTimelineTracks();
                 this.renderTrackList();
             }
         );
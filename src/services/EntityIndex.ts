@@ -0,0 +1,207 @@
+/**
+ * EntityIndex - In-memory cache of parsed entity notes
+ * Each entity type is parsed once from its folder and then kept current from vault and
+ * metadata cache events, so repeated list calls only re-parse files that actually changed.
+ */
+
+import { normalizePath, TAbstractFile, TFile } from 'obsidian';
+import type StorytellerSuitePlugin from '../main';
+
+/** Entity types whose notes are served from the index */
+export type IndexedEntityType =
+    'character' | 'location' | 'event' | 'item' | 'reference' | 'chapter' | 'scene' |
+    'culture' | 'economy' | 'magicSystem' | 'calendar' | 'map';
+
+export const INDEXED_ENTITY_TYPES: IndexedEntityType[] = [
+    'character', 'location', 'event', 'item', 'reference', 'chapter', 'scene',
+    'culture', 'economy', 'magicSystem', 'calendar', 'map'
+];
+
+/** Parses one entity note; returns null when the file is not a valid entity */
+export type EntityFileParser = (file: TFile, type: IndexedEntityType) => Promise<Record<string, unknown> | null>;
+
+/** A single change reported to subscribers */
+export interface EntityIndexChange {
+    type: IndexedEntityType;
+    kind: 'changed' | 'deleted';
+    path: string;
+    /** Previous path when the change came from a rename */
+    oldPath?: string;
+}
+
+export type EntityIndexListener = (changes: EntityIndexChange[]) => void;
+
+/** Milliseconds to batch bursts of vault events before notifying subscribers */
+const NOTIFY_DEBOUNCE_MS = 150;
+
+interface IndexEntry {
+    /** Parsed entity, or null when the file failed to parse */
+    data: Record<string, unknown> | null;
+    /** File modification time the entry was parsed at */
+    mtime: number;
+}
+
+interface IndexBucket {
+    /** Normalized folder the bucket was built from; a different folder rebuilds the bucket */
+    folder: string;
+    entries: Map<string, IndexEntry>;
+    /** Paths whose metadata changed since they were parsed */
+    stale: Set<string>;
+}
+
+/** Deep copy so callers can mutate returned entities without corrupting the cache */
+function cloneEntity<T>(data: Record<string, unknown>): T {
+    return structuredClone(data) as unknown as T;
+}
+
+export class EntityIndex {
+    private plugin: StorytellerSuitePlugin;
+    private parse: EntityFileParser;
+    private buckets = new Map<IndexedEntityType, IndexBucket>();
+    private listeners = new Set<EntityIndexListener>();
+    private pendingChanges: EntityIndexChange[] = [];
+    private notifyTimer: number | null = null;
+
+    constructor(plugin: StorytellerSuitePlugin, parse: EntityFileParser) {
+        this.plugin = plugin;
+        this.parse = parse;
+    }
+
+    /** Hook vault and metadata cache events; listeners are released with the plugin */
+    register(): void {
+        const { vault, metadataCache } = this.plugin.app;
+        this.plugin.registerEvent(vault.on('create', file => this.onFileChanged(file)));
+        this.plugin.registerEvent(vault.on('modify', file => this.onFileChanged(file)));
+        this.plugin.registerEvent(vault.on('delete', file => this.onFileDeleted(file.path)));
+        this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+            this.onFileDeleted(oldPath);
+            this.onFileChanged(file, oldPath);
+        }));
+        this.plugin.registerEvent(metadataCache.on('changed', file => this.onFileChanged(file)));
+    }
+
+    /**
+     * Subscribe to entity changes. Changes are batched, so one callback may carry several.
+     * @returns Function that removes the subscription
+     */
+    onChange(listener: EntityIndexListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Get all entities of a type for the active story folder.
+     * Only files that are new, modified or flagged by the metadata cache are re-parsed.
+     */
+    async list<T>(type: IndexedEntityType): Promise<T[]> {
+        const bucket = this.getBucket(type);
+        if (!bucket) return [];
+
+        const prefix = bucket.folder + '/';
+        const files = this.plugin.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(prefix) && f.extension === 'md');
+        const seen = new Set<string>();
+
+        for (const file of files) {
+            seen.add(file.path);
+            const entry = bucket.entries.get(file.path);
+            if (entry && entry.mtime === file.stat.mtime && !bucket.stale.has(file.path)) continue;
+
+            // Clear the flag before parsing so an edit that lands mid-parse flags the file again
+            bucket.stale.delete(file.path);
+            const data = await this.parse(file, type);
+            bucket.entries.set(file.path, { data, mtime: file.stat.mtime });
+        }
+
+        for (const path of Array.from(bucket.entries.keys())) {
+            if (!seen.has(path)) bucket.entries.delete(path);
+        }
+
+        const result: T[] = [];
+        bucket.entries.forEach(entry => {
+            if (entry.data) result.push(cloneEntity<T>(entry.data));
+        });
+        return result;
+    }
+
+    /** Drop cached entities so the next list call re-parses (all types when none given) */
+    invalidate(type?: IndexedEntityType): void {
+        if (type) this.buckets.delete(type);
+        else this.buckets.clear();
+    }
+
+    /** Resolve the bucket for a type, rebuilding it when the folder has moved (e.g. story switch) */
+    private getBucket(type: IndexedEntityType): IndexBucket | null {
+        const folder = this.resolveFolder(type);
+        if (!folder) return null;
+        let bucket = this.buckets.get(type);
+        if (!bucket || bucket.folder !== folder) {
+            bucket = { folder, entries: new Map(), stale: new Set() };
+            this.buckets.set(type, bucket);
+        }
+        return bucket;
+    }
+
+    private resolveFolder(type: IndexedEntityType): string | null {
+        try {
+            return normalizePath(this.plugin.getEntityFolder(type));
+        } catch {
+            // No resolvable folder (e.g. one-story mode without an active story)
+            return null;
+        }
+    }
+
+    /** Entity type whose folder directly or indirectly contains the path */
+    private typeForPath(path: string): IndexedEntityType | null {
+        for (const type of INDEXED_ENTITY_TYPES) {
+            const folder = this.resolveFolder(type);
+            if (folder && path.startsWith(folder + '/')) return type;
+        }
+        return null;
+    }
+
+    private onFileChanged(file: TAbstractFile, oldPath?: string): void {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        const type = this.typeForPath(file.path);
+        if (!type) return;
+        this.buckets.get(type)?.stale.add(file.path);
+        this.queueChange({ type, kind: 'changed', path: file.path, oldPath });
+    }
+
+    private onFileDeleted(path: string): void {
+        const type = this.typeForPath(path);
+        if (!type) return;
+        this.buckets.get(type)?.entries.delete(path);
+        this.queueChange({ type, kind: 'deleted', path });
+    }
+
+    private queueChange(change: EntityIndexChange): void {
+        this.pendingChanges.push(change);
+        if (this.notifyTimer !== null) window.clearTimeout(this.notifyTimer);
+        this.notifyTimer = window.setTimeout(() => this.flush(), NOTIFY_DEBOUNCE_MS);
+    }
+
+    private flush(): void {
+        this.notifyTimer = null;
+        const changes = this.pendingChanges;
+        this.pendingChanges = [];
+        if (changes.length === 0) return;
+        this.listeners.forEach(listener => {
+            try {
+                listener(changes);
+            } catch (error) {
+                console.error('Storyteller Suite: entity index listener failed', error);
+            }
+        });
+    }
+
+    /** Cancel pending notifications; called when the plugin unloads */
+    destroy(): void {
+        if (this.notifyTimer !== null) window.clearTimeout(this.notifyTimer);
+        this.notifyTimer = null;
+        this.pendingChanges = [];
+        this.listeners.clear();
+        this.buckets.clear();
+    }
+}
@@ -0,0 +1,473 @@
+/**
+ * GroupGallerySyncService - Stores groups and gallery image metadata as markdown notes
+ * Groups live in each story's Groups folder and gallery entries in the shared Gallery folder,
+ * using the same frontmatter whitelist and section layout as other entities. While views still
+ * read these records from settings, edits on either side are copied to the other.
+ */
+
+import { normalizePath, Notice, TAbstractFile, TFile } from 'obsidian';
+import type StorytellerSuitePlugin from '../main';
+import type { GalleryImage, Group, Story } from '../types';
+import {
+    buildFrontmatter, getWhitelistKeys, parseFrontmatterFromContent, parseSectionsFromMarkdown, toSafeFileName
+} from '../yaml/EntitySections';
+import { getTemplateSections } from '../utils/EntityTemplates';
+import { stringifyYamlWithLogging } from '../utils/YamlSerializer';
+
+type SyncedKind = 'group' | 'gallery';
+
+/** Frontmatter and sections for one note */
+export interface NoteContent {
+    frontmatter: Record<string, unknown>;
+    sections: Record<string, string>;
+}
+
+interface SyncedRecord {
+    /** Note the record was last written to or read from */
+    path: string;
+    /** Fingerprint of the record at that moment */
+    hash: string;
+}
+
+/** Milliseconds to batch bursts of vault events before reading notes back */
+const PULL_DEBOUNCE_MS = 300;
+
+/** Group text fields stored as sections rather than frontmatter */
+const GROUP_SECTIONS: Array<[keyof Group, string]> = [
+    ['description', 'Description'],
+    ['history', 'History'],
+    ['structure', 'Structure'],
+    ['goals', 'Goals'],
+    ['resources', 'Resources']
+];
+
+function isEmptyValue(value: unknown): boolean {
+    if (value === undefined || value === null || value === '') return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value as object).length === 0;
+    return false;
+}
+
+function isScalar(value: unknown): boolean {
+    return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/** Stable fingerprint of a record; key order, empty values and the `ignore` keys do not count */
+export function recordFingerprint(record: object, ignore: string[] = []): string {
+    const clean = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(clean);
+        if (value && typeof value === 'object') {
+            const out: Record<string, unknown> = {};
+            for (const key of Object.keys(value).sort()) {
+                const inner = clean((value as Record<string, unknown>)[key]);
+                if (!isEmptyValue(inner)) out[key] = inner;
+            }
+            return out;
+        }
+        return value;
+    };
+    const top: Record<string, unknown> = { ...(record as Record<string, unknown>) };
+    for (const key of ignore) delete top[key];
+    return JSON.stringify(clean(top));
+}
+
+/**
+ * Split frontmatter into whitelisted fields and scalar custom fields.
+ * Structured values outside the whitelist are left in the note untouched.
+ */
+function readFrontmatter(
+    kind: SyncedKind,
+    frontmatter: Record<string, unknown>
+): { fields: Record<string, unknown>; customFields: Record<string, string> } {
+    const whitelist = getWhitelistKeys(kind);
+    const fields: Record<string, unknown> = {};
+    const customFields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(frontmatter)) {
+        if (key === 'position' || value === null || value === undefined) continue;
+        if (key === 'customFields' && value && typeof value === 'object' && !Array.isArray(value)) {
+            for (const [cfKey, cfVal] of Object.entries(value as Record<string, unknown>)) {
+                if (isScalar(cfVal) && cfVal !== null) customFields[cfKey] = String(cfVal);
+            }
+        } else if (whitelist.has(key)) {
+            fields[key] = value;
+        } else if (isScalar(value)) {
+            customFields[key] = String(value);
+        }
+    }
+    return { fields, customFields };
+}
+
+export function groupToNote(group: Group): NoteContent {
+    const frontmatter: Record<string, unknown> = { ...group };
+    delete frontmatter.filePath;
+    const sections: Record<string, string> = {};
+    for (const [field, section] of GROUP_SECTIONS) {
+        sections[section] = (group[field] as string | undefined) ?? '';
+        delete frontmatter[field];
+    }
+    return { frontmatter, sections };
+}
+
+/** Group from a note; null when the note has no id or name */
+export function noteToGroup(note: NoteContent, storyId: string, filePath: string): Group | null {
+    const { fields, customFields } = readFrontmatter('group', note.frontmatter);
+    if (!fields.id || !fields.name) return null;
+    const group = {
+        ...fields,
+        id: String(fields.id),
+        name: String(fields.name),
+        storyId: fields.storyId ? String(fields.storyId) : storyId,
+        members: Array.isArray(fields.members) ? fields.members : []
+    } as Group;
+    for (const [field, section] of GROUP_SECTIONS) {
+        const text = note.sections[section];
+        if (text) (group as unknown as Record<string, unknown>)[field] = text;
+    }
+    if (Object.keys(customFields).length > 0) group.customFields = customFields;
+    group.filePath = filePath;
+    return group;
+}
+
+export function galleryImageToNote(image: GalleryImage): NoteContent {
+    const frontmatter: Record<string, unknown> = { ...image, imagePath: image.filePath };
+    delete frontmatter.filePath;
+    delete frontmatter.notePath;
+    delete frontmatter.description;
+    return { frontmatter, sections: { Description: image.description ?? '' } };
+}
+
+/** Gallery entry from a note; null when the note has no id or image path */
+export function noteToGalleryImage(note: NoteContent, notePath: string): GalleryImage | null {
+    const { fields } = readFrontmatter('gallery', note.frontmatter);
+    if (!fields.id || !fields.imagePath) return null;
+    const { imagePath, ...rest } = fields;
+    const image = { ...rest, id: String(fields.id), filePath: String(imagePath) } as GalleryImage;
+    if (note.sections.Description) image.description = note.sections.Description;
+    image.notePath = notePath;
+    return image;
+}
+
+function groupHash(group: Group): string {
+    return recordFingerprint(group, ['filePath']);
+}
+
+function galleryHash(image: GalleryImage): string {
+    return recordFingerprint(image, ['notePath']);
+}
+
+export class GroupGallerySyncService {
+    private plugin: StorytellerSuitePlugin;
+    /** Last synced state per record, keyed `group:<id>` or `gallery:<id>` */
+    private synced = new Map<string, SyncedRecord>();
+    /** Serializes pulls and pushes so they never interleave */
+    private queue: Promise<unknown> = Promise.resolve();
+    private pullTimer: number | null = null;
+    private ready = false;
+
+    constructor(plugin: StorytellerSuitePlugin) {
+        this.plugin = plugin;
+    }
+
+    /** Hook vault events so note edits flow back into settings */
+    register(): void {
+        const { vault } = this.plugin.app;
+        const onChange = (file: TAbstractFile, oldPath?: string) => {
+            if (!this.ready) return;
+            if (this.isSyncedPath(file.path) || (oldPath !== undefined && this.isSyncedPath(oldPath))) {
+                this.schedulePull();
+            }
+        };
+        this.plugin.registerEvent(vault.on('create', file => onChange(file)));
+        this.plugin.registerEvent(vault.on('modify', file => onChange(file)));
+        this.plugin.registerEvent(vault.on('delete', file => onChange(file)));
+        this.plugin.registerEvent(vault.on('rename', (file, oldPath) => onChange(file, oldPath)));
+    }
+
+    /**
+     * Read existing notes into settings, then on first run write every group and
+     * gallery entry from settings out as a note
+     */
+    async initialize(): Promise<void> {
+        await this.enqueue(async () => {
+            const migrated = !!this.plugin.settings.groupGalleryNotesMigrated;
+            // After migration the notes are authoritative, so records without a note were deleted
+            await this.pull(migrated);
+            if (!migrated) {
+                const written = await this.push();
+                this.plugin.settings.groupGalleryNotesMigrated = true;
+                await this.plugin.saveData(this.plugin.settings);
+                if (written > 0) new Notice(`Storyteller Suite: Moved ${written} group and gallery record(s) into notes.`);
+            }
+            this.ready = true;
+        });
+    }
+
+    /** Write records changed in settings out to their notes; called after settings are saved */
+    schedulePush(): void {
+        if (!this.ready) return;
+        void this.enqueue(() => this.push());
+    }
+
+    /** Read notes back into settings, e.g. after the active story or folder settings change */
+    schedulePull(): void {
+        if (this.pullTimer !== null) window.clearTimeout(this.pullTimer);
+        this.pullTimer = window.setTimeout(() => {
+            this.pullTimer = null;
+            void this.enqueue(() => this.pull(false));
+        }, PULL_DEBOUNCE_MS);
+    }
+
+    /** Cancel pending work; called when the plugin unloads */
+    destroy(): void {
+        if (this.pullTimer !== null) window.clearTimeout(this.pullTimer);
+        this.pullTimer = null;
+        this.ready = false;
+        this.synced.clear();
+    }
+
+    private enqueue(task: () => Promise<unknown>): Promise<unknown> {
+        const run = this.queue.then(task).catch(error => {
+            console.error('Storyteller Suite: Group/gallery note sync failed', error);
+        });
+        this.queue = run;
+        return run;
+    }
+
+    /** Group folder per story id, plus the shared gallery folder; unresolvable folders are skipped */
+    private folders(): { groups: Map<string, string>; gallery?: string } {
+        const groups = new Map<string, string>();
+        const used = new Set<string>();
+        for (const story of this.plugin.settings.stories || []) {
+            const folder = this.resolveFolder('group', story);
+            // One-story mode maps every story to the same folder; the first story owns it
+            if (!folder || used.has(folder)) continue;
+            used.add(folder);
+            groups.set(story.id, folder);
+        }
+        return { groups, gallery: this.resolveFolder('gallery') };
+    }
+
+    private resolveFolder(type: SyncedKind, story?: Story): string | undefined {
+        const result = this.plugin.getFolderResolver(story).tryGetEntityFolder(type);
+        return result.path ? normalizePath(result.path) : undefined;
+    }
+
+    private isSyncedPath(path: string): boolean {
+        if (!path.endsWith('.md')) return false;
+        const { groups, gallery } = this.folders();
+        const parent = path.substring(0, path.lastIndexOf('/'));
+        return parent === gallery || Array.from(groups.values()).includes(parent);
+    }
+
+    /** Markdown files directly inside a folder */
+    private notesIn(folder: string): TFile[] {
+        return this.plugin.app.vault.getMarkdownFiles()
+            .filter(file => file.path.substring(0, file.path.lastIndexOf('/')) === folder);
+    }
+
+    private async readNote(file: TFile): Promise<NoteContent | null> {
+        const content = await this.plugin.app.vault.read(file);
+        const frontmatter = parseFrontmatterFromContent(content);
+        if (!frontmatter) return null;
+        return { frontmatter, sections: parseSectionsFromMarkdown(content) };
+    }
+
+    /**
+     * Copy notes edited outside settings into settings, and drop records whose note is gone.
+     * @param dropUnsynced Also drop records that were never synced and have no note
+     */
+    private async pull(dropUnsynced: boolean): Promise<void> {
+        const settings = this.plugin.settings;
+        const { groups: groupFolders, gallery } = this.folders();
+        const seen = new Set<string>();
+        let changed = false;
+
+        const groups = [...(settings.groups || [])];
+        for (const [storyId, folder] of groupFolders) {
+            for (const file of this.notesIn(folder)) {
+                const note = await this.readNote(file);
+                const group = note ? noteToGroup(note, storyId, file.path) : null;
+                if (!group) continue;
+                if (this.apply(`group:${group.id}`, group, groupHash(group), file.path, groups, seen)) changed = true;
+            }
+        }
+        const keptGroups = groups.filter(group => {
+            const key = `group:${group.id}`;
+            // Groups of stories whose folder cannot be resolved are left alone
+            if (seen.has(key) || !groupFolders.has(group.storyId)) return true;
+            if (!this.synced.has(key) && !dropUnsynced) return true;
+            this.synced.delete(key);
+            return false;
+        });
+        if (keptGroups.length !== groups.length) changed = true;
+
+        const images = [...(settings.galleryData?.images || [])];
+        let keptImages = images;
+        if (gallery) {
+            for (const file of this.notesIn(gallery)) {
+                const note = await this.readNote(file);
+                const image = note ? noteToGalleryImage(note, file.path) : null;
+                if (!image) continue;
+                if (this.apply(`gallery:${image.id}`, image, galleryHash(image), file.path, images, seen)) changed = true;
+            }
+            keptImages = images.filter(image => {
+                const key = `gallery:${image.id}`;
+                if (seen.has(key) || (!this.synced.has(key) && !dropUnsynced)) return true;
+                this.synced.delete(key);
+                return false;
+            });
+            if (keptImages.length !== images.length) changed = true;
+        }
+
+        if (!changed) return;
+        settings.groups = keptGroups;
+        settings.galleryData = { ...(settings.galleryData || {}), images: keptImages };
+        await this.plugin.saveData(settings);
+        this.plugin.emitGroupsChanged();
+    }
+
+    /**
+     * Merge one parsed note into a record list when the note changed since the last sync.
+     * Returns true when the list was modified.
+     */
+    private apply<T extends { id: string }>(
+        key: string, record: T, hash: string, path: string, records: T[], seen: Set<string>
+    ): boolean {
+        // Duplicate ids: the first note wins
+        if (seen.has(key)) return false;
+        seen.add(key);
+        const previous = this.synced.get(key);
+        this.synced.set(key, { path, hash });
+        const index = records.findIndex(r => r.id === record.id);
+        // Unchanged note: keep the settings copy, which may hold edits not yet written out
+        if (previous && previous.hash === hash && index !== -1) return false;
+        if (index === -1) records.push(record);
+        else records[index] = record;
+        return true;
+    }
+
+    /** Write changed records to notes and trash notes of deleted records; returns notes written */
+    private async push(): Promise<number> {
+        const settings = this.plugin.settings;
+        const { groups: groupFolders, gallery } = this.folders();
+        const current = new Set<string>();
+        let written = 0;
+
+        for (const group of settings.groups || []) {
+            const folder = groupFolders.get(group.storyId);
+            if (!folder) continue;
+            const key = `group:${group.id}`;
+            current.add(key);
+            const hash = groupHash(group);
+            const previous = this.synced.get(key);
+            if (previous && previous.hash === hash && this.fileAt(previous.path)) continue;
+            group.filePath = await this.writeNote('group', folder, group.name, previous?.path ?? group.filePath, group.id, groupToNote(group));
+            this.synced.set(key, { path: group.filePath, hash });
+            written++;
+        }
+
+        if (gallery) {
+            for (const image of settings.galleryData?.images || []) {
+                const key = `gallery:${image.id}`;
+                current.add(key);
+                const hash = galleryHash(image);
+                const previous = this.synced.get(key);
+                if (previous && previous.hash === hash && this.fileAt(previous.path)) continue;
+                const baseName = image.title || image.filePath.split('/').pop()?.replace(/\.[^.]+$/, '') || image.id;
+                image.notePath = await this.writeNote('gallery', gallery, baseName, previous?.path ?? image.notePath, image.id, galleryImageToNote(image));
+                this.synced.set(key, { path: image.notePath, hash });
+                written++;
+            }
+        }
+
+        for (const [key, record] of Array.from(this.synced.entries())) {
+            if (current.has(key)) continue;
+            // Only records removed from settings; groups of unresolvable stories are not in `current`
+            const [kind, id] = [key.substring(0, key.indexOf(':')), key.substring(key.indexOf(':') + 1)];
+            const stillExists = kind === 'group'
+                ? (settings.groups || []).some(g => g.id === id)
+                : (settings.galleryData?.images || []).some(i => i.id === id);
+            if (stillExists) continue;
+            const file = this.fileAt(record.path);
+            if (file) await this.plugin.app.vault.trash(file, true);
+            this.synced.delete(key);
+        }
+        return written;
+    }
+
+    private fileAt(path: string): TFile | null {
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file : null;
+    }
+
+    private async noteHasId(file: TFile, id: string): Promise<boolean> {
+        const frontmatter = parseFrontmatterFromContent(await this.plugin.app.vault.read(file));
+        return String(frontmatter?.id ?? '') === id;
+    }
+
+    /**
+     * Write a record's note named after the record, renaming its previous note when the name
+     * changed. Sections and structured frontmatter added by hand are kept.
+     */
+    private async writeNote(
+        kind: SyncedKind, folder: string, baseName: string, previousPath: string | undefined, id: string, note: NoteContent
+    ): Promise<string> {
+        const vault = this.plugin.app.vault;
+        await this.plugin.ensureFolder(folder);
+
+        let target = normalizePath(`${folder}/${toSafeFileName(baseName)}.md`);
+        const occupant = this.fileAt(target);
+        if (occupant && occupant.path !== previousPath && !(await this.noteHasId(occupant, id))) {
+            target = normalizePath(`${folder}/${toSafeFileName(baseName)} ${id}.md`);
+        }
+
+        let file = previousPath ? this.fileAt(previousPath) : null;
+        if (file && file.path !== target) {
+            if (this.fileAt(target)) target = file.path;
+            else {
+                await this.plugin.app.fileManager.renameFile(file, target);
+                file = this.fileAt(target);
+            }
+        } else if (!file) {
+            file = this.fileAt(target);
+        }
+
+        let existingContent = '';
+        let preserved: Record<string, unknown> | undefined;
+        let existingSections: Record<string, string> = {};
+        if (file) {
+            existingContent = await vault.read(file);
+            existingSections = parseSectionsFromMarkdown(existingContent);
+            const original = parseFrontmatterFromContent(existingContent);
+            if (original) {
+                // Every whitelisted and scalar key is owned by the record; keep only hand-added structured data
+                const whitelist = getWhitelistKeys(kind);
+                preserved = {};
+                for (const [key, value] of Object.entries(original)) {
+                    if (!whitelist.has(key) && key !== 'customFields' && !isScalar(value)) preserved[key] = value;
+                }
+            }
+        }
+
+        const frontmatter = buildFrontmatter(kind, note.frontmatter, undefined, {
+            customFieldsMode: this.plugin.settings.customFieldsMode ?? 'flatten',
+            originalFrontmatter: preserved
+        });
+        const label = kind === 'group' ? `Group: ${baseName}` : `Gallery: ${baseName}`;
+        const frontmatterString = stringifyYamlWithLogging(frontmatter, preserved, label);
+        const sections = { ...existingSections, ...getTemplateSections(kind, note.sections) };
+
+        let content = `---\n${frontmatterString}---\n\n`;
+        content += Object.entries(sections)
+            .map(([key, text]) => `## ${key}\n${text || ''}`)
+            .join('\n\n');
+        if (!content.endsWith('\n')) content += '\n';
+
+        if (file) {
+            if (content !== existingContent) await vault.modify(file, content);
+            return file.path;
+        }
+        await vault.create(target, content);
+        return target;
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * MentionIndex - Background index of entity mentions in scene and chapter prose
+ * Scene content and chapter summaries are scanned for every character, location, item, event
+ * and group name or alias. The index is rebuilt shortly after entity changes; a text is only
+ * re-scanned when it or the set of known names changed.
+ */
+
+import type StorytellerSuitePlugin from '../main';
+import { buildMentionMatcher, buildMentionTargets, findMentions } from '../utils/MentionScanner';
+import type { Mention, MentionEntityType, MentionMatcher, MentionTarget } from '../utils/MentionScanner';
+import { sameRef } from '../utils/ItemCustody';
+import type { EntityIndexChange } from './EntityIndex';
+
+/** Milliseconds to wait after a change before re-indexing */
+const REINDEX_DEBOUNCE_MS = 1000;
+
+/** Entity types whose changes affect the index */
+const WATCHED_TYPES = new Set<EntityIndexChange['type']>(['character', 'location', 'item', 'event', 'scene', 'chapter']);
+
+/** One scanned scene or chapter */
+export interface MentionSource {
+    type: 'scene' | 'chapter';
+    /** Note path, or the name when the entity has no file */
+    path: string;
+    name: string;
+    wordCount: number;
+    mentions: Mention[];
+}
+
+/** How often an entity is mentioned in one scene or chapter */
+export interface MentionAppearance {
+    source: MentionSource;
+    count: number;
+}
+
+interface IndexedText {
+    source: MentionSource;
+    text: string;
+    /** Names version the text was scanned with */
+    version: number;
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+export class MentionIndex {
+    private plugin: StorytellerSuitePlugin;
+    private texts = new Map<string, IndexedText>();
+    private matcher: MentionMatcher = { regex: null, forms: new Map() };
+    private targets: MentionTarget[] = [];
+    private targetsKey = '';
+    private version = 0;
+    private building: Promise<void> | null = null;
+    private dirty = true;
+    private timer: number | null = null;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(plugin: StorytellerSuitePlugin) {
+        this.plugin = plugin;
+    }
+
+    /** Re-index after entity changes, and once the workspace is ready */
+    register(): void {
+        this.unsubscribe = this.plugin.entityIndex.onChange(changes => {
+            if (changes.some(change => WATCHED_TYPES.has(change.type))) this.schedule();
+        });
+        this.plugin.app.workspace.onLayoutReady(() => this.schedule());
+    }
+
+    /** Mark the index stale and rebuild it in the background shortly */
+    schedule(): void {
+        this.dirty = true;
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            void this.ensureCurrent();
+        }, REINDEX_DEBOUNCE_MS);
+    }
+
+    /** Names and aliases currently matched */
+    async getTargets(): Promise<MentionTarget[]> {
+        await this.ensureCurrent();
+        return this.targets;
+    }
+
+    /** Matcher for scanning unsaved text, e.g. a scene being edited */
+    async getMatcher(): Promise<MentionMatcher> {
+        await this.ensureCurrent();
+        return this.matcher;
+    }
+
+    /** Every scanned scene and chapter */
+    async getSources(): Promise<MentionSource[]> {
+        await this.ensureCurrent();
+        return Array.from(this.texts.values()).map(entry => entry.source);
+    }
+
+    /** Scenes and chapters that mention an entity, most mentions first */
+    async getAppearances(type: MentionEntityType, entity: { id?: string; name: string }): Promise<MentionAppearance[]> {
+        const appearances: MentionAppearance[] = [];
+        (await this.getSources()).forEach(source => {
+            const count = source.mentions.filter(m =>
+                m.type === type && (m.entityId === entity.id || sameRef(m.entityName, entity.name))).length;
+            if (count > 0) appearances.push({ source, count });
+        });
+        return appearances.sort((a, b) => b.count - a.count || a.source.name.localeCompare(b.source.name));
+    }
+
+    /** Rebuild when stale; concurrent callers share one rebuild */
+    private async ensureCurrent(): Promise<void> {
+        while (this.dirty || this.building) {
+            if (!this.building) {
+                this.dirty = false;
+                this.building = this.rebuild().finally(() => { this.building = null; });
+            }
+            await this.building;
+        }
+    }
+
+    private async rebuild(): Promise<void> {
+        try {
+            const targets = buildMentionTargets({
+                characters: await this.plugin.listCharacters(),
+                locations: await this.plugin.listLocations(),
+                items: await this.plugin.listPlotItems(),
+                events: await this.plugin.listEvents(),
+                groups: this.plugin.getGroups()
+            });
+            const key = JSON.stringify(targets);
+            if (key !== this.targetsKey) {
+                this.targetsKey = key;
+                this.targets = targets;
+                this.matcher = buildMentionMatcher(targets);
+                this.version++;
+            }
+
+            const seen = new Set<string>();
+            const index = (type: MentionSource['type'], path: string, name: string, text: string) => {
+                seen.add(path);
+                const existing = this.texts.get(path);
+                if (existing && existing.text === text && existing.version === this.version && existing.source.name === name) return;
+                this.texts.set(path, {
+                    text,
+                    version: this.version,
+                    source: { type, path, name, wordCount: countWords(text), mentions: findMentions(text, this.matcher) }
+                });
+            };
+            (await this.plugin.listScenes()).forEach(scene => index('scene', scene.filePath || scene.name, scene.name, scene.content || ''));
+            (await this.plugin.listChapters()).forEach(chapter => index('chapter', chapter.filePath || chapter.name, chapter.name, chapter.summary || ''));
+
+            for (const path of Array.from(this.texts.keys())) {
+                if (!seen.has(path)) this.texts.delete(path);
+            }
+        } catch (error) {
+            console.error('Storyteller Suite: mention indexing failed', error);
+        }
+    }
+
+    /** Stop listening; called when the plugin unloads */
+    destroy(): void {
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = null;
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.texts.clear();
+    }
+}
@@ -0,0 +1,609 @@
+/**
+ * RenamePropagationService - Keeps name-based cross references intact when an entity is renamed
+ * Watches vault renames and entity name edits, collects every referencing entity and
+ * rewrites the references in one pass (with a preview and an undo summary)
+ */
+
+import { TFile } from 'obsidian';
+import type StorytellerSuitePlugin from '../main';
+import type { Group, GalleryImage, TimelineTrack, CausalityLink, TimelineFork, TimelineEra, TypedRelationship } from '../types';
+
+/** Entity types whose names are referenced by other entities */
+export type RenameTargetType =
+    | 'character' | 'location' | 'event' | 'item' | 'chapter' | 'scene' | 'reference'
+    | 'culture' | 'economy' | 'magicSystem' | 'calendar' | 'map' | 'group';
+
+/** File-backed entity types that can hold references */
+type FileOwnerType = Exclude<RenameTargetType, 'group'>;
+
+/** Settings-backed records that can hold references */
+type SettingsOwnerType = 'group' | 'galleryImage' | 'track' | 'causalityLink' | 'fork' | 'era';
+
+/**
+ * Fields that hold name references, keyed by owner type and then by the type they point to.
+ * Paths may be dotted for nested objects. `connections` can point at any type and is
+ * checked entry by entry (see applyRenameToRecord).
+ */
+const REFERENCE_FIELDS: Record<FileOwnerType | SettingsOwnerType, Partial<Record<RenameTargetType, string[]>>> = {
+    character: { character: ['relationships'], location: ['locations'], event: ['events'], group: ['affiliation'] },
+    location: { location: ['parentLocation'] },
+    event: { character: ['characters'], location: ['location'], event: ['dependencies', 'narrativeMarkers.targetEvent'] },
+    item: { character: ['currentOwner', 'pastOwners'], location: ['currentLocation'], event: ['associatedEvents'] },
+    chapter: { character: ['linkedCharacters'], location: ['linkedLocations'], event: ['linkedEvents'], item: ['linkedItems'] },
+    scene: {
+        character: ['linkedCharacters', 'povCharacter'], location: ['linkedLocations'], event: ['linkedEvents'],
+        item: ['linkedItems'], chapter: ['chapterName']
+    },
+    reference: {},
+    culture: {
+        character: ['linkedCharacters'], location: ['linkedLocations'], event: ['linkedEvents'],
+        culture: ['relatedCultures', 'parentCulture']
+    },
+    economy: { location: ['linkedLocations'], group: ['linkedFactions'], culture: ['linkedCultures'], event: ['linkedEvents'] },
+    magicSystem: {
+        character: ['linkedCharacters'], location: ['linkedLocations'], culture: ['linkedCultures'],
+        event: ['linkedEvents'], item: ['linkedItems']
+    },
+    calendar: { event: ['linkedEvents'], culture: ['linkedCultures'] },
+    map: { character: ['linkedCharacters'], location: ['linkedLocations'], event: ['linkedEvents'], item: ['linkedItems'] },
+    group: {
+        location: ['territories'], event: ['linkedEvents'], culture: ['linkedCulture'],
+        group: ['parentGroup', 'subgroups', 'groupRelationships']
+    },
+    galleryImage: { character: ['linkedCharacters'], location: ['linkedLocations'], event: ['linkedEvents'] },
+    track: { character: ['filterCriteria.characters'], location: ['filterCriteria.locations'], group: ['filterCriteria.groups'] },
+    causalityLink: { event: ['causeEvent', 'effectEvent'] },
+    fork: {
+        event: ['divergenceEvent', 'forkEvents', 'alteredEvents'], character: ['alteredCharacters'],
+        location: ['alteredLocations'], item: ['alteredItems']
+    },
+    era: { event: ['events'] }
+};
+
+/** Keys inside object array elements that hold a name (TypedRelationship, GroupRelationship, AlteredEntity) */
+const NAME_KEYS = ['target', 'groupName', 'entityId'];
+
+const FILE_OWNER_TYPES: FileOwnerType[] = [
+    'character', 'location', 'event', 'item', 'chapter', 'scene', 'reference',
+    'culture', 'economy', 'magicSystem', 'calendar', 'map'
+];
+
+/** Milliseconds to wait after a vault rename for the matching name edit before treating it as a file explorer rename */
+const RENAME_SETTLE_MS = 1500;
+
+/** One referencing record and the fields that will change */
+export interface RenameChange {
+    ownerKind: 'file' | 'settings';
+    ownerType: FileOwnerType | SettingsOwnerType;
+    /** File path for file-backed owners, record id for settings-backed owners */
+    ownerKey: string;
+    ownerName: string;
+    fields: string[];
+}
+
+export interface RenamePlan {
+    targetType: RenameTargetType;
+    targetId?: string;
+    oldName: string;
+    newName: string;
+    /** File path of a renamed entity whose own `name` still holds the old name */
+    ownNamePath?: string;
+    /** An entity of another type is also called oldName */
+    sharedName?: boolean;
+    changes: RenameChange[];
+}
+
+export interface RenameResult {
+    plan: RenamePlan;
+    updated: RenameChange[];
+    failures: Array<{ change: RenameChange; error: string }>;
+}
+
+interface AppliedChange {
+    change: RenameChange;
+    /** Field values before the rewrite, keyed by field path */
+    before: Record<string, unknown>;
+}
+
+/** Strip wikilink brackets and alias so "[[Name|alias]]" compares as "Name" */
+export function referenceName(value: string): string {
+    const trimmed = value.trim();
+    const link = trimmed.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/);
+    return (link ? link[1] : trimmed).trim();
+}
+
+/**
+ * Rename a single string reference, keeping wikilink syntax and aliases.
+ * Returns null when the value does not refer to oldName.
+ */
+export function renameReference(value: string, oldName: string, newName: string): string | null {
+    if (referenceName(value) !== oldName) return null;
+    const trimmed = value.trim();
+    if (trimmed.startsWith('[[')) {
+        return trimmed.replace(/^\[\[\s*[^\]|#]+?\s*(?=[#|\]])/, `[[${newName}`);
+    }
+    return newName;
+}
+
+/**
+ * Rewrite references to oldName inside a field value (string, string array or array of
+ * objects with a name key). Returns the new value, or undefined when nothing changed.
+ */
+export function rewriteFieldValue(value: unknown, oldName: string, newName: string): unknown | undefined {
+    if (typeof value === 'string') {
+        const renamed = renameReference(value, oldName, newName);
+        return renamed === null ? undefined : renamed;
+    }
+    if (!Array.isArray(value)) return undefined;
+
+    let changed = false;
+    const next = value.map(entry => {
+        if (typeof entry === 'string') {
+            const renamed = renameReference(entry, oldName, newName);
+            if (renamed === null) return entry;
+            changed = true;
+            return renamed;
+        }
+        if (entry && typeof entry === 'object') {
+            for (const key of NAME_KEYS) {
+                const current = (entry as Record<string, unknown>)[key];
+                if (typeof current !== 'string') continue;
+                const renamed = renameReference(current, oldName, newName);
+                if (renamed !== null) {
+                    changed = true;
+                    return { ...(entry as Record<string, unknown>), [key]: renamed };
+                }
+            }
+        }
+        return entry;
+    });
+    return changed ? next : undefined;
+}
+
+function getPath(obj: Record<string, unknown>, path: string): unknown {
+    return path.split('.').reduce<unknown>((acc, key) => (acc && typeof acc === 'object') ? (acc as Record<string, unknown>)[key] : undefined, obj);
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let target = obj;
+    for (const key of keys.slice(0, -1)) {
+        if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+        target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Rename the connections that point at the renamed entity. A connection with a targetType
+ * is renamed only for that type; one without is renamed unless another type shares the name,
+ * since it could point at either.
+ */
+function renameConnections(value: unknown, targetType: RenameTargetType, oldName: string, newName: string, sharedName: boolean): unknown[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    let changed = false;
+    const next = value.map(entry => {
+        const typed = entry && typeof entry === 'object' ? entry as TypedRelationship : null;
+        if (typed?.targetType ? typed.targetType !== targetType : sharedName) return entry;
+        const current = typeof entry === 'string' ? entry : typed?.target;
+        const renamed = typeof current === 'string' ? renameReference(current, oldName, newName) : null;
+        if (renamed === null) return entry;
+        changed = true;
+        return typed ? { ...typed, target: renamed } : renamed;
+    });
+    return changed ? next : undefined;
+}
+
+/**
+ * Apply a rename to one record in place.
+ * Returns the previous values of every changed field path.
+ * @param sharedName - Another entity type also uses oldName; untyped connections are left alone
+ */
+export function applyRenameToRecord(
+    ownerType: FileOwnerType | SettingsOwnerType,
+    record: Record<string, unknown>,
+    targetType: RenameTargetType,
+    oldName: string,
+    newName: string,
+    targetId?: string,
+    sharedName = false
+): Record<string, unknown> {
+    const before: Record<string, unknown> = {};
+    const fields = REFERENCE_FIELDS[ownerType][targetType] || [];
+
+    if (ownerType !== 'track' && ownerType !== 'causalityLink' && ownerType !== 'fork' && ownerType !== 'era' && ownerType !== 'galleryImage') {
+        const connections = renameConnections(record.connections, targetType, oldName, newName, sharedName);
+        if (connections) {
+            before['connections'] = clone(record.connections);
+            record.connections = connections;
+        }
+    }
+
+    for (const path of fields) {
+        const current = getPath(record, path);
+        const next = rewriteFieldValue(current, oldName, newName);
+        if (next === undefined) continue;
+        before[path] = clone(current);
+        setPath(record, path, next);
+    }
+
+    // Character/location tracks point at a single entity
+    if (ownerType === 'track') {
+        const track = record as unknown as TimelineTrack;
+        if (track.type === targetType && track.entityId && referenceName(track.entityId) === oldName) {
+            before['entityId'] = track.entityId;
+            track.entityId = newName;
+        }
+    }
+
+    // Group members store an id plus a display name
+    if (ownerType === 'group' && (targetType === 'character' || targetType === 'location' || targetType === 'event' || targetType === 'item')) {
+        const group = record as unknown as Group;
+        const members = group.members || [];
+        const matches = (m: Group['members'][number]) => m.type === targetType &&
+            ((targetId && m.id === targetId) || m.id === oldName || m.name === oldName);
+        if (members.some(matches)) {
+            before['members'] = clone(members);
+            group.members = members.map(m => {
+                if (!matches(m)) return m;
+                const updated = { ...m };
+                if (m.id === oldName) updated.id = newName;
+                if (m.name !== undefined || m.id === oldName) updated.name = newName;
+                return updated;
+            });
+        }
+    }
+
+    return before;
+}
+
+export class RenamePropagationService {
+    private plugin: StorytellerSuitePlugin;
+    /** Last known entity name per file path, used to detect name edits */
+    private knownNames = new Map<string, string>();
+    /** Timers for vault renames waiting for a matching name edit */
+    private pendingRenames = new Map<string, number>();
+    private busy = false;
+
+    constructor(plugin: StorytellerSuitePlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Register vault and metadata listeners. Call once from onload.
+     */
+    register(): void {
+        this.plugin.registerEvent(
+            this.plugin.app.vault.on('rename', (file, oldPath) => {
+                if (file instanceof TFile && file.extension === 'md') this.onVaultRename(file, oldPath);
+            })
+        );
+        this.plugin.registerEvent(
+            this.plugin.app.metadataCache.on('changed', (file) => {
+                if (file instanceof TFile && file.extension === 'md') this.onMetadataChanged(file);
+            })
+        );
+        this.plugin.register(() => {
+            this.pendingRenames.forEach(timer => window.clearTimeout(timer));
+            this.pendingRenames.clear();
+        });
+    }
+
+    /**
+     * Snapshot current entity names so later edits can be compared against them.
+     */
+    rebuildNameIndex(): void {
+        this.knownNames.clear();
+        for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+            if (this.getEntityTypeForPath(file.path)) {
+                this.knownNames.set(file.path, this.readName(file));
+            }
+        }
+    }
+
+    /**
+     * Entry point for name edits on settings-backed entities (groups) and for callers
+     * that already know both names. Opens the preview when references exist.
+     */
+    async handleNameChange(targetType: RenameTargetType, oldName: string, newName: string, targetId?: string, ownNamePath?: string): Promise<void> {
+        if (this.plugin.settings.enableRenamePropagation === false) return;
+        if (this.busy || !oldName || !newName || oldName === newName) return;
+        try {
+            const plan = await this.buildPlan(targetType, oldName, newName, targetId, ownNamePath);
+            if (plan.changes.length === 0 && !plan.ownNamePath) return;
+            const { RenamePreviewModal } = await import('../modals/RenamePreviewModal');
+            new RenamePreviewModal(this.plugin.app, this, plan).open();
+        } catch (error) {
+            console.error('Storyteller Suite: Failed to collect rename references', error);
+        }
+    }
+
+    /**
+     * Collect every record that references oldName.
+     */
+    async buildPlan(targetType: RenameTargetType, oldName: string, newName: string, targetId?: string, ownNamePath?: string): Promise<RenamePlan> {
+        const changes: RenameChange[] = [];
+        const sharedName = await this.isNameShared(targetType, oldName);
+
+        for (const ownerType of FILE_OWNER_TYPES) {
+            for (const entity of await this.listEntities(ownerType)) {
+                if (!entity.filePath) continue;
+                const copy = clone(entity) as Record<string, unknown>;
+                const before = applyRenameToRecord(ownerType, copy, targetType, oldName, newName, targetId, sharedName);
+                const fields = Object.keys(before);
+                if (fields.length > 0) {
+                    changes.push({ ownerKind: 'file', ownerType, ownerKey: entity.filePath as string, ownerName: String(entity.name ?? ''), fields });
+                }
+            }
+        }
+
+        for (const { ownerType, records } of this.settingsCollections()) {
+            for (const record of records) {
+                const copy = clone(record) as unknown as Record<string, unknown>;
+                const before = applyRenameToRecord(ownerType, copy, targetType, oldName, newName, targetId, sharedName);
+                const fields = Object.keys(before);
+                if (fields.length > 0) {
+                    changes.push({ ownerKind: 'settings', ownerType, ownerKey: record.id, ownerName: this.describeRecord(record), fields });
+                }
+            }
+        }
+
+        return { targetType, targetId, oldName, newName, ownNamePath, sharedName, changes };
+    }
+
+    /**
+     * Rewrite all references in the plan. Records are re-read so edits made while the
+     * preview was open are kept. Returns what changed, for the undo summary.
+     */
+    async apply(plan: RenamePlan): Promise<RenameResult & { undo: () => Promise<void> }> {
+        this.busy = true;
+        const applied: AppliedChange[] = [];
+        const failures: RenameResult['failures'] = [];
+        try {
+            if (plan.ownNamePath) {
+                const own = await this.updateOwnName(plan.ownNamePath, plan.oldName, plan.newName);
+                if (own) applied.push(own);
+            }
+
+            for (const change of plan.changes) {
+                try {
+                    const before = change.ownerKind === 'file'
+                        ? await this.rewriteFileOwner(change, plan)
+                        : this.rewriteSettingsOwner(change, plan);
+                    if (before && Object.keys(before).length > 0) applied.push({ change, before });
+                } catch (error) {
+                    failures.push({ change, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            if (plan.changes.some(c => c.ownerKind === 'settings')) {
+                await this.plugin.saveSettings();
+                this.plugin.emitGroupsChanged();
+            }
+            this.plugin.app.workspace.trigger('storyteller:entities-changed');
+        } finally {
+            this.busy = false;
+        }
+
+        return {
+            plan,
+            updated: applied.map(a => a.change),
+            failures,
+            undo: () => this.undo(applied)
+        };
+    }
+
+    /**
+     * Restore the previous value of every field the rename touched.
+     */
+    private async undo(applied: AppliedChange[]): Promise<void> {
+        this.busy = true;
+        try {
+            let settingsChanged = false;
+            for (const { change, before } of applied) {
+                if (change.ownerKind === 'file') {
+                    const entity = await this.loadFileOwner(change.ownerType as FileOwnerType, change.ownerKey);
+                    if (!entity) continue;
+                    Object.entries(before).forEach(([path, value]) => setPath(entity, path, clone(value)));
+                    this.knownNames.set(change.ownerKey, String(entity.name ?? ''));
+                    await this.saveFileOwner(change.ownerType as FileOwnerType, entity);
+                } else {
+                    const record = this.findSettingsRecord(change.ownerType as SettingsOwnerType, change.ownerKey);
+                    if (!record) continue;
+                    Object.entries(before).forEach(([path, value]) => setPath(record, path, clone(value)));
+                    settingsChanged = true;
+                }
+            }
+            if (settingsChanged) {
+                await this.plugin.saveSettings();
+                this.plugin.emitGroupsChanged();
+            }
+            this.plugin.app.workspace.trigger('storyteller:entities-changed');
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    private onVaultRename(file: TFile, oldPath: string): void {
+        const oldName = this.knownNames.get(oldPath) ?? this.readName(file, oldPath);
+        this.knownNames.delete(oldPath);
+        const type = this.getEntityTypeForPath(file.path);
+        if (!type) return;
+        this.knownNames.set(file.path, oldName);
+        if (this.busy || this.safeFileName(oldName) === file.basename) return;
+
+        // Saving an entity renames its file first and rewrites its frontmatter right after;
+        // wait for that name edit before assuming the file was renamed in the file explorer.
+        const existing = this.pendingRenames.get(file.path);
+        if (existing) window.clearTimeout(existing);
+        const timer = window.setTimeout(() => {
+            this.pendingRenames.delete(file.path);
+            if (this.knownNames.get(file.path) !== oldName) return;
+            const id = this.readId(file);
+            void this.handleNameChange(type, oldName, file.basename, id, file.path);
+        }, RENAME_SETTLE_MS);
+        this.pendingRenames.set(file.path, timer);
+    }
+
+    private onMetadataChanged(file: TFile): void {
+        const type = this.getEntityTypeForPath(file.path);
+        if (!type) return;
+        const newName = this.readName(file);
+        const oldName = this.knownNames.get(file.path);
+        this.knownNames.set(file.path, newName);
+        if (oldName === undefined || oldName === newName || this.busy) return;
+
+        const pending = this.pendingRenames.get(file.path);
+        if (pending) {
+            window.clearTimeout(pending);
+            this.pendingRenames.delete(file.path);
+        }
+        void this.handleNameChange(type, oldName, newName, this.readId(file));
+    }
+
+    private getEntityTypeForPath(path: string): FileOwnerType | null {
+        for (const type of FILE_OWNER_TYPES) {
+            try {
+                const folder = this.plugin.getEntityFolder(type);
+                if (folder && path.startsWith(folder + '/')) return type;
+            } catch {
+                // No active story or unresolved folder template
+            }
+        }
+        return null;
+    }
+
+    private readName(file: TFile, path?: string): string {
+        const name = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.name;
+        if (typeof name === 'string' && name.trim()) return name;
+        const base = (path ?? file.path).split('/').pop() || '';
+        return base.replace(/\.md$/, '');
+    }
+
+    private readId(file: TFile): string | undefined {
+        const id = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.id;
+        return id !== undefined && id !== null ? String(id) : undefined;
+    }
+
+    /** Same sanitizing the save methods apply to file names */
+    private safeFileName(name: string): string {
+        return name.replace(/[\\/:"*?<>|]+/g, '');
+    }
+
+    private async updateOwnName(path: string, oldName: string, newName: string): Promise<AppliedChange | null> {
+        const type = this.getEntityTypeForPath(path);
+        if (!type) return null;
+        const entity = await this.loadFileOwner(type, path);
+        if (!entity || entity.name !== oldName) return null;
+        entity.name = newName;
+        this.knownNames.set(path, newName);
+        await this.saveFileOwner(type, entity);
+        return {
+            change: { ownerKind: 'file', ownerType: type, ownerKey: path, ownerName: newName, fields: ['name'] },
+            before: { name: oldName }
+        };
+    }
+
+    private async rewriteFileOwner(change: RenameChange, plan: RenamePlan): Promise<Record<string, unknown> | null> {
+        const type = change.ownerType as FileOwnerType;
+        const entity = await this.loadFileOwner(type, change.ownerKey);
+        if (!entity) return null;
+        const before = applyRenameToRecord(type, entity, plan.targetType, plan.oldName, plan.newName, plan.targetId, plan.sharedName);
+        if (Object.keys(before).length === 0) return null;
+        this.knownNames.set(change.ownerKey, String(entity.name ?? ''));
+        await this.saveFileOwner(type, entity);
+        return before;
+    }
+
+    private rewriteSettingsOwner(change: RenameChange, plan: RenamePlan): Record<string, unknown> | null {
+        const record = this.findSettingsRecord(change.ownerType as SettingsOwnerType, change.ownerKey);
+        if (!record) return null;
+        return applyRenameToRecord(change.ownerType, record, plan.targetType, plan.oldName, plan.newName, plan.targetId, plan.sharedName);
+    }
+
+    private async loadFileOwner(type: FileOwnerType, path: string): Promise<Record<string, unknown> | null> {
+        const entities = await this.listEntities(type);
+        return entities.find(e => e.filePath === path) ?? null;
+    }
+
+    /** Whether an entity of a type other than the renamed one is called name */
+    private async isNameShared(targetType: RenameTargetType, name: string): Promise<boolean> {
+        for (const type of FILE_OWNER_TYPES) {
+            if (type === targetType) continue;
+            if ((await this.listEntities(type)).some(entity => entity.name === name)) return true;
+        }
+        const groups = this.settingsCollections().find(c => c.ownerType === 'group')?.records as Group[] | undefined;
+        return targetType !== 'group' && !!groups?.some(group => group.name === name);
+    }
+
+    private async listEntities(type: FileOwnerType): Promise<Array<Record<string, unknown>>> {
+        const p = this.plugin;
+        const lists: Record<FileOwnerType, () => Promise<unknown[]>> = {
+            character: () => p.listCharacters(),
+            location: () => p.listLocations(),
+            event: () => p.listEvents(),
+            item: () => p.listPlotItems(),
+            chapter: () => p.listChapters(),
+            scene: () => p.listScenes(),
+            reference: () => p.listReferences(),
+            culture: () => p.listCultures(),
+            economy: () => p.listEconomies(),
+            magicSystem: () => p.listMagicSystems(),
+            calendar: () => p.listCalendars(),
+            map: () => p.listMaps()
+        };
+        return (await lists[type]()) as Array<Record<string, unknown>>;
+    }
+
+    private async saveFileOwner(type: FileOwnerType, entity: Record<string, unknown>): Promise<void> {
+        const p = this.plugin;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const e = entity as any;
+        switch (type) {
+            case 'character': return p.saveCharacter(e);
+            case 'location': return p.saveLocation(e);
+            case 'event': return p.saveEvent(e);
+            case 'item': return p.savePlotItem(e);
+            case 'chapter': return p.saveChapter(e);
+            case 'scene': return p.saveScene(e);
+            case 'reference': return p.saveReference(e);
+            case 'culture': return p.saveCulture(e);
+            case 'economy': return p.saveEconomy(e);
+            case 'magicSystem': return p.saveMagicSystem(e);
+            case 'calendar': return p.saveCalendar(e);
+            case 'map': return p.saveMap(e);
+        }
+    }
+
+    private settingsCollections(): Array<{ ownerType: SettingsOwnerType; records: Array<{ id: string }> }> {
+        const s = this.plugin.settings;
+        const storyId = this.plugin.getActiveStory()?.id;
+        return [
+            { ownerType: 'group', records: (s.groups || []).filter((g: Group) => !storyId || g.storyId === storyId) },
+            { ownerType: 'galleryImage', records: s.galleryData?.images || [] },
+            { ownerType: 'track', records: this.plugin.getTimelineTracks() },
+            { ownerType: 'causalityLink', records: this.plugin.getCausalityLinks() },
+            { ownerType: 'fork', records: this.plugin.getTimelineForks() },
+            { ownerType: 'era', records: this.plugin.getTimelineEras() }
+        ];
+    }
+
+    private findSettingsRecord(type: SettingsOwnerType, id: string): Record<string, unknown> | null {
+        const collection = this.settingsCollections().find(c => c.ownerType === type);
+        const record = collection?.records.find(r => r.id === id);
+        return (record as unknown as Record<string, unknown>) ?? null;
+    }
+
+    private describeRecord(record: { id: string }): string {
+        const r = record as Partial<Group & GalleryImage & TimelineTrack & CausalityLink & TimelineFork & TimelineEra>;
+        if (r.name) return r.name;
+        if (r.title) return r.title;
+        if (r.causeEvent && r.effectEvent) return `${r.causeEvent} → ${r.effectEvent}`;
+        if (r.filePath) return r.filePath.split('/').pop() || r.filePath;
+        return record.id;
+    }
+}
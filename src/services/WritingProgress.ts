@@ -0,0 +1,175 @@
+/**
+ * WritingProgress - Records daily writing from scene edits and shows goal progress in the status bar
+ * Each scene file's word count is remembered; when a scene is saved the change in words is
+ * added to today's DailyWritingStats. Creating, renaming or deleting a scene does not count
+ * as writing.
+ */
+
+import { normalizePath, TAbstractFile, TFile } from 'obsidian';
+import type StorytellerSuitePlugin from '../main';
+import { WordCountTracker } from '../compile/WordCountTracker';
+import { getStreaks, planProjectGoal } from '../utils/WritingGoals';
+import type { GoalPlan } from '../utils/WritingGoals';
+import { t } from '../i18n/strings';
+
+/** Milliseconds to batch edits before writing them to the daily stats */
+const RECORD_DEBOUNCE_MS = 5000;
+
+export class WritingProgress {
+    private plugin: StorytellerSuitePlugin;
+    private tracker: WordCountTracker;
+    /** Last known word count per scene file */
+    private counts = new Map<string, number>();
+    /** Scene folder the counts were seeded from */
+    private seededFolder: string | null = null;
+    private pendingWords = 0;
+    private timer: number | null = null;
+    private statusBarEl: HTMLElement | null = null;
+
+    constructor(plugin: StorytellerSuitePlugin) {
+        this.plugin = plugin;
+        this.tracker = new WordCountTracker(plugin);
+    }
+
+    /** Watch scene files once the vault is ready and add the status bar widget */
+    register(): void {
+        const { vault } = this.plugin.app;
+        this.statusBarEl = this.plugin.addStatusBarItem();
+        this.statusBarEl.addClass('storyteller-word-count-status', 'mod-clickable');
+        this.statusBarEl.addEventListener('click', () => {
+            void this.plugin.activateAnalyticsView();
+        });
+
+        this.plugin.app.workspace.onLayoutReady(() => {
+            void this.seed().then(() => this.refreshStatusBar());
+            this.plugin.registerEvent(vault.on('modify', file => void this.onModify(file)));
+            this.plugin.registerEvent(vault.on('create', file => void this.remember(file)));
+            this.plugin.registerEvent(vault.on('delete', file => this.counts.delete(file.path)));
+            this.plugin.registerEvent(vault.on('rename', (file, oldPath) => {
+                const count = this.counts.get(oldPath);
+                this.counts.delete(oldPath);
+                if (count !== undefined) this.counts.set(file.path, count);
+            }));
+        });
+    }
+
+    /** Active story's scene folder, or null when none resolves */
+    private getSceneFolder(): string | null {
+        try {
+            return normalizePath(this.plugin.getEntityFolder('scene'));
+        } catch {
+            return null;
+        }
+    }
+
+    private isScenePath(path: string): boolean {
+        const folder = this.getSceneFolder();
+        return !!folder && path.startsWith(folder + '/') && path.endsWith('.md');
+    }
+
+    /** Read the word counts of the active story's scenes */
+    private async seed(): Promise<void> {
+        const folder = this.getSceneFolder();
+        this.seededFolder = folder;
+        if (!folder) return;
+        const files = this.plugin.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(folder + '/'));
+        for (const file of files) {
+            await this.remember(file);
+        }
+    }
+
+    /** Store a scene's current count without recording it as writing */
+    private async remember(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile) || !this.isScenePath(file.path) || this.counts.has(file.path)) return;
+        this.counts.set(file.path, await this.tracker.getFileWordCount(file));
+    }
+
+    private async onModify(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile) || !this.isScenePath(file.path)) return;
+        const previous = this.counts.get(file.path);
+        const count = await this.tracker.getFileWordCount(file);
+        this.counts.set(file.path, count);
+        if (previous === undefined || count === previous) return;
+
+        this.pendingWords += count - previous;
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            void this.flush();
+        }, RECORD_DEBOUNCE_MS);
+    }
+
+    /** Write batched edits to today's stats */
+    async flush(): Promise<void> {
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = null;
+        const words = this.pendingWords;
+        this.pendingWords = 0;
+        if (words !== 0) {
+            await this.tracker.recordDailyStats(words);
+        }
+        this.refreshStatusBar();
+    }
+
+    /** Words in the active story's scenes, from the remembered counts */
+    async getStoryWordCount(): Promise<number> {
+        const folder = this.getSceneFolder();
+        if (folder !== this.seededFolder) await this.seed();
+        if (!folder) return 0;
+        let total = 0;
+        this.counts.forEach((count, path) => {
+            if (path.startsWith(folder + '/')) total += count;
+        });
+        return total;
+    }
+
+    /** Plans for the active story's goals, soonest deadline first */
+    async getGoalPlans(): Promise<GoalPlan[]> {
+        const story = this.plugin.getActiveStory();
+        if (!story) return [];
+        const goals = this.tracker.getProjectGoals(story.id);
+        if (goals.length === 0) return [];
+        const words = await this.getStoryWordCount();
+        const stats = this.tracker.getAllDailyStats();
+        const today = this.tracker.getTodayKey();
+        return goals
+            .map(goal => planProjectGoal(goal, words, stats, today))
+            .sort((a, b) => a.goal.deadline.localeCompare(b.goal.deadline));
+    }
+
+    /** Show today's words, the streak and the nearest open goal */
+    refreshStatusBar(): void {
+        const el = this.statusBarEl;
+        if (!el) return;
+        if (!this.plugin.settings.showWordCountInStatusBar) {
+            el.style.display = 'none';
+            return;
+        }
+        el.style.display = '';
+
+        const today = this.tracker.getTodayStats()?.netWords ?? 0;
+        const dailyGoal = this.plugin.settings.dailyWordCountGoal || 0;
+        const streak = getStreaks(this.tracker.getAllDailyStats(), this.tracker.getTodayKey()).current;
+        const parts = [dailyGoal > 0 ? `✍️ ${today}/${dailyGoal}` : `✍️ ${today}`];
+        if (streak > 0) parts.push(`🔥 ${streak}`);
+        el.setText(parts.join(' · '));
+        el.toggleClass('goal-reached', dailyGoal > 0 && today >= dailyGoal);
+        el.setAttribute('aria-label', t('writingProgressTooltip'));
+
+        void this.getGoalPlans().then(plans => {
+            const plan = plans.find(p => !p.complete);
+            if (!plan || !this.plugin.settings.showWordCountInStatusBar) return;
+            el.setText(`${parts.join(' · ')} · 🎯 ${Math.round(plan.percent)}%`);
+            el.setAttribute('aria-label', plan.projectedDate
+                ? t('goalStatusTooltip', plan.goal.name, String(plan.wordsPerDay), plan.projectedDate)
+                : t('goalStatusTooltipNoPace', plan.goal.name, String(plan.wordsPerDay)));
+        });
+    }
+
+    /** Record pending edits and stop; called when the plugin unloads */
+    destroy(): void {
+        void this.flush();
+        this.counts.clear();
+        this.statusBarEl = null;
+    }
+}
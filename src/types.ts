@@ -24,12 +24,55 @@ export type RelationshipType =
 export interface TypedRelationship {
     /** Target entity name or ID */
     target: string;
-    /** Type of relationship for color-coding */
+    /** Entity type of the target, so a rename only touches connections to that type */
+    targetType?: 'character' | 'location' | 'event' | 'item' | 'group' | 'culture' | 'economy' | 'magicSystem';
+    /** Type of relationship for color-coding; with a history, the type before its first dated change */
     type: RelationshipType;
     /** Optional descriptive label */
     label?: string;
+    /**
+     * 'one-way' for feelings the target doesn't share, 'mutual' to mirror any type;
+     * unset mirrors only family, ally, rival and romantic relationships
+     */
+    direction?: 'mutual' | 'one-way';
+    /** Strength of the relationship from 1 (faint) to 10 (consuming) */
+    intensity?: number;
+    /** Dated changes of type over the story */
+    history?: RelationshipChange[];
 }
 
+/**
+ * A change of a relationship's type at a story moment
+ * Dated by `date`, else its event's date, else the earliest dated event linked to its scene.
+ */
+export interface RelationshipChange {
+    type: RelationshipType;
+    /** Replaces the relationship's label from this change on */
+    label?: string;
+    /** Replaces the relationship's intensity from this change on */
+    intensity?: number;
+    /** Event name that caused the change */
+    event?: string;
+    /** Scene name where the change happens */
+    scene?: string;
+    /** Explicit date, overriding the event's or scene's */
+    date?: string;
+    notes?: string;
+}
+
+/**
+ * Entity types that can appear as nodes in the network graph
+ */
+export type GraphEntityType =
+    | 'character'
+    | 'location'
+    | 'event'
+    | 'item'
+    | 'culture'
+    | 'economy'
+    | 'magicSystem'
+    | 'group';
+
 /**
  * Filters for network graph visualization
  */
@@ -41,7 +84,7 @@ export interface GraphFilters {
     /** Filter events before this date */
     timelineEnd?: string;
     /** Filter by entity types to show */
-    entityTypes?: ('character' | 'location' | 'event' | 'item')[];
+    entityTypes?: GraphEntityType[];
 }
 
 /**
@@ -53,9 +96,9 @@ export interface GraphNode {
     /** Display label */
     label: string;
     /** Entity type for styling */
-    type: 'character' | 'location' | 'event' | 'item';
+    type: GraphEntityType;
     /** Full entity data */
-    data: Character | Location | Event | PlotItem;
+    data: Character | Location | Event | PlotItem | Culture | Economy | MagicSystem | Group;
     /** Optional image URL for node background */
     imageUrl?: string;
 }
@@ -72,6 +115,10 @@ export interface GraphEdge {
     relationshipType: RelationshipType;
     /** Optional label */
     label?: string;
+    /** Direction set on the relationship, if any */
+    direction?: 'mutual' | 'one-way';
+    /** Relationship intensity from 1 to 10 */
+    intensity?: number;
 }
 
 /**
@@ -88,6 +135,9 @@ export interface PlotItem {
     /** Display name of the item (e.g., "The Dragon's Tooth Dagger") */
     name: string;
 
+    /** Other names the item goes by in prose */
+    aliases?: string[];
+
     /** Path to a representative image of the item within the vault */
     profileImagePath?: string;
 
@@ -112,6 +162,9 @@ export interface PlotItem {
     /** Links to Events where this item played a significant role */
     associatedEvents?: string[];
 
+    /** Dated chain of who held the item and where it was, one entry per transfer */
+    custodyHistory?: ItemCustodyEntry[];
+
     /** User-defined custom fields for additional item data */
     customFields?: Record<string, string>;
     
@@ -122,6 +175,25 @@ export interface PlotItem {
     connections?: TypedRelationship[];
 }
 
+/**
+ * One period in an item's custody chain
+ * Either `owner` or `location` (or both) says where the item was; `event` is what caused
+ * the transfer and dates it when `from` is empty.
+ */
+export interface ItemCustodyEntry {
+    /** Character holding the item */
+    owner?: string;
+    /** Location the item was kept at */
+    location?: string;
+    /** Start of the period (story date) */
+    from?: string;
+    /** End of the period; open-ended periods last until the next transfer */
+    to?: string;
+    /** Event that caused the transfer */
+    event?: string;
+    notes?: string;
+}
+
 /**
  * Reference entity representing miscellaneous references for a story
  * Examples: language notes, prophecy lists, random inspiration, etc.
@@ -225,6 +297,8 @@ export interface Scene {
     synopsis?: string;
     /** Point of view character for this scene */
     povCharacter?: string;
+    /** Time of day for screenplay sluglines (e.g. DAY, NIGHT, DAWN) */
+    timeOfDay?: string;
 }
 
 
@@ -241,6 +315,9 @@ export interface Character {
     
     /** Display name of the character (required) */
     name: string;
+
+    /** Other names the character goes by in prose (nicknames, titles) */
+    aliases?: string[];
     
     /** Path to the character's profile image within the vault */
     profileImagePath?: string;
@@ -282,6 +359,12 @@ export interface Character {
     /** Current status of the character (e.g., "Alive", "Deceased", "Missing") */
     status?: string;
     
+    /** Story date the character was born (checked against events and stated ages) */
+    birthDate?: string;
+    
+    /** Story date the character died */
+    deathDate?: string;
+    
     /** Character's allegiance, group, or faction (e.g., "Guild Name", "Kingdom") */
     affiliation?: string;
     
@@ -349,6 +432,9 @@ export interface Location {
     
     /** Display name of the location (required) */
     name: string;
+
+    /** Other names the location goes by in prose */
+    aliases?: string[];
     
     /** Main description of the location (stored in markdown body) */
     description?: string;
@@ -532,11 +618,42 @@ export interface GroupRelationship {
     /** Target group name or ID */
     groupName: string;
 
-    /** Nature of the relationship */
+    /** Nature of the relationship; the stance before the first dated change, if any */
     relationshipType: 'allied' | 'friendly' | 'neutral' | 'rival' | 'hostile' | 'at-war';
 
     /** Additional context */
     notes?: string;
+
+    /** Dated changes of stance, e.g. war declared at an event */
+    changes?: GroupStanceChange[];
+}
+
+/**
+ * A change in the stance between two groups
+ * Dated by `date`, or by `event` when the date is empty.
+ */
+export interface GroupStanceChange {
+    relationshipType: GroupRelationship['relationshipType'];
+    /** Event that caused the change */
+    event?: string;
+    /** Story date of the change */
+    date?: string;
+    notes?: string;
+}
+
+/**
+ * A group's power ratings from a point in story time on
+ * Metrics left empty keep their previous value.
+ */
+export interface GroupPowerSnapshot {
+    /** Story date of the snapshot */
+    date?: string;
+    /** Event the ratings changed at; dates the snapshot when `date` is empty */
+    event?: string;
+    militaryPower?: number;
+    economicPower?: number;
+    politicalInfluence?: number;
+    notes?: string;
 }
 
 export interface Group {
@@ -590,6 +707,9 @@ export interface Group {
     /** Political influence rating (0-100) */
     politicalInfluence?: number;
 
+    /** Power ratings changing over story time; the ratings above apply before the first */
+    powerHistory?: GroupPowerSnapshot[];
+
     /** Group/faction colors */
     colors?: string[];
 
@@ -622,6 +742,9 @@ export interface Group {
 
     /** Typed connections to other entities */
     connections?: TypedRelationship[];
+
+    /** Path of the note that stores this group (set by the note sync) */
+    filePath?: string;
 }
 
 /**
@@ -656,6 +779,9 @@ export interface GalleryImage {
     
     /** User-defined tags for categorizing and searching images */
     tags?: string[];
+
+    /** Path of the note that stores this metadata (set by the note sync) */
+    notePath?: string;
 }
 
 /**
@@ -680,6 +806,8 @@ export interface Story {
     created: string;
     /** Optional description of the story */
     description?: string;
+    /** Id of the calendar used to parse and display this story's dates */
+    calendarId?: string;
 }
 
 /**
@@ -1227,6 +1355,29 @@ export interface ConsistencyRule {
 
     /** Importance level */
     priority?: 'critical' | 'important' | 'optional';
+
+    /** Checkable form of the rule, used to find violations in events and scenes */
+    condition?: MagicRuleCondition;
+}
+
+/**
+ * Structured condition of a magic consistency rule
+ */
+export interface MagicRuleCondition {
+    /** What the rule checks */
+    kind: 'requires-material' | 'rest-between-uses' | 'forbidden-location';
+
+    /** Ability the rule applies to; empty applies to every use of the system */
+    ability?: string;
+
+    /** Material each use must involve (requires-material) */
+    material?: string;
+
+    /** Days a caster must rest between uses (rest-between-uses) */
+    days?: number;
+
+    /** Location where the magic can't be used (forbidden-location) */
+    location?: string;
 }
 
 /**
@@ -1317,6 +1468,145 @@ export interface MagicSystem {
 }
 
 
+/**
+ * Month definition for a custom calendar
+ */
+export interface CalendarMonth {
+    /** Display name of the month */
+    name: string;
+
+    /** Number of days in a common (non-leap) year */
+    days: number;
+
+    /** Optional short form used when parsing dates (e.g. "Frost") */
+    abbreviation?: string;
+}
+
+/**
+ * Leap rule for a custom calendar.
+ * Every year where (year - offset) is divisible by `interval` gets `days`
+ * added to `month`. Negative `days` cancel an earlier rule, so the Gregorian
+ * 4/100/400 pattern is three rules.
+ */
+export interface CalendarLeapRule {
+    /** Optional label shown in the calendar editor */
+    name?: string;
+
+    /** Rule applies every `interval` years */
+    interval: number;
+
+    /** Year offset for the cycle (defaults to 0) */
+    offset?: number;
+
+    /** Month name receiving the extra days (defaults to the last month) */
+    month?: string;
+
+    /** Days added (or removed when negative) in matching years (defaults to 1) */
+    days?: number;
+}
+
+/**
+ * Named year count of a custom calendar (e.g. "After the Sundering")
+ */
+export interface CalendarEpoch {
+    /** Full name of the epoch */
+    name: string;
+
+    /** Suffix written after the year, e.g. "AS" in "1024 AS" */
+    abbreviation?: string;
+
+    /** Absolute calendar year in which this epoch starts */
+    startYear: number;
+
+    /** Count years backwards from startYear, like BCE (year 1 is the year before startYear) */
+    backwards?: boolean;
+}
+
+/**
+ * Moon of a custom calendar used for phase display
+ */
+export interface CalendarMoon {
+    /** Name of the moon */
+    name: string;
+
+    /** Length of a full lunar cycle in days */
+    cycleDays: number;
+
+    /** Day number of a new moon (defaults to 0, the first day of year 1) */
+    offsetDays?: number;
+
+    /** Optional display color */
+    color?: string;
+}
+
+/**
+ * Calendar entity describing a custom (fantasy) calendar.
+ * The active story's calendar is used to parse and render event dates,
+ * era boundaries and the timeline axis.
+ */
+export interface Calendar {
+    /** Optional unique identifier */
+    id?: string;
+
+    /** File system path to the calendar's markdown file */
+    filePath?: string;
+
+    /** Display name of the calendar (required) */
+    name: string;
+
+    /** Path to a representative image within the vault */
+    profileImagePath?: string;
+
+    /** Overview of the calendar (stored in markdown body) */
+    description?: string;
+
+    /** Origins and reforms of the calendar (stored in markdown body) */
+    history?: string;
+
+    /** Type of calendar (solar, lunar, lunisolar, custom) */
+    calendarType?: string;
+
+    /** Current status */
+    status?: string;
+
+    /** Months in year order */
+    months?: CalendarMonth[];
+
+    /** Weekday names in order */
+    weekdays?: string[];
+
+    /** Index into weekdays for the first day of year 1 (defaults to 0) */
+    weekdayOffset?: number;
+
+    /** Hours in a day (defaults to 24) */
+    hoursPerDay?: number;
+
+    /** Leap rules applied to month lengths */
+    leapRules?: CalendarLeapRule[];
+
+    /** Named year counts */
+    epochs?: CalendarEpoch[];
+
+    /** Moons and their cycles */
+    moons?: CalendarMoon[];
+
+    /** Links to events significant to this calendar */
+    linkedEvents?: string[];
+
+    /** Links to cultures that use this calendar */
+    linkedCultures?: string[];
+
+    /** User-defined custom fields */
+    customFields?: Record<string, string>;
+
+    /** Array of group ids this calendar belongs to */
+    groups?: string[];
+
+    /** Typed connections to other entities */
+    connections?: TypedRelationship[];
+}
+
+
 /**
  * Altered entity in a timeline fork
  */
@@ -1329,6 +1619,9 @@ export interface AlteredEntity {
 
     /** What changed about this entity */
     changes: string;
+
+    /** Field values that replace the canonical ones inside the fork, e.g. `{ status: 'Deceased' }` */
+    overrides?: Record<string, unknown>;
 }
 
 /**
@@ -1366,6 +1659,12 @@ export interface TimelineFork {
     /** Locations altered in this fork */
     alteredLocations?: AlteredEntity[];
 
+    /** Canonical events that play out differently in this fork */
+    alteredEvents?: AlteredEntity[];
+
+    /** Items altered in this fork */
+    alteredItems?: AlteredEntity[];
+
     /** Color for visualization */
     color?: string;
 
@@ -1374,6 +1673,9 @@ export interface TimelineFork {
 
     /** Additional notes */
     notes?: string;
+
+    /** When the fork was merged into canon */
+    mergedAt?: string;
 }
 
 /**
@@ -1427,7 +1729,7 @@ export interface TimelineConflict {
     id: string;
 
     /** Type of conflict */
-    type: 'location' | 'death' | 'age' | 'causality' | 'custom';
+    type: 'location' | 'death' | 'age' | 'causality' | 'custody' | 'magic' | 'custom';
 
     /** Severity level */
     severity: 'minor' | 'moderate' | 'critical';
@@ -1557,6 +1859,24 @@ export interface ChapterPacing {
 
     /** Pacing rating */
     pacing?: 'slow' | 'moderate' | 'fast' | 'intense';
+
+    /** Pace score (0-100) the rating is derived from */
+    paceScore?: number;
+
+    /** Number of scenes in the chapter */
+    sceneCount?: number;
+
+    /** Average words per sentence */
+    avgSentenceLength?: number;
+
+    /** Average words per paragraph */
+    avgParagraphLength?: number;
+
+    /** Percentage of words inside dialogue */
+    dialogueRatio?: number;
+
+    /** Linked milestone events in the chapter */
+    milestoneCount?: number;
 }
 
 /**
@@ -1625,6 +1945,15 @@ export interface PacingAnalysis {
 
     /** Overall pacing score */
     overallScore?: number;
+
+    /** Label for comparing saved analyses (usually the draft name) */
+    label?: string;
+
+    /** Draft the analysis was taken from */
+    draftId?: string;
+
+    /** Total words analyzed */
+    totalWords?: number;
 }
 
 /**
@@ -1691,8 +2020,40 @@ export interface DialogueAnalysis {
     /** Dialogue per character */
     byCharacter?: Record<string, number>;
 
-    /** Dialogue density */
+    /** Dialogue density (percentage of words inside quotes) */
     density?: number;
+
+    /** Dialogue lines with no identifiable speaker */
+    unattributed?: number;
+
+    /** Per-scene breakdown */
+    byScene?: DialogueBreakdown[];
+
+    /** Per-chapter breakdown */
+    byChapter?: DialogueBreakdown[];
+}
+
+/**
+ * Dialogue counts for a single scene or chapter
+ */
+export interface DialogueBreakdown {
+    /** Scene or chapter name */
+    name: string;
+
+    /** Chapter the scene belongs to (scene breakdowns only) */
+    chapterName?: string;
+
+    /** Dialogue lines in this scene or chapter */
+    totalLines: number;
+
+    /** Lines with no identifiable speaker */
+    unattributed: number;
+
+    /** Dialogue lines per character */
+    byCharacter: Record<string, number>;
+
+    /** Percentage of words inside quotes */
+    density: number;
 }
 
 /**
@@ -1767,6 +2128,9 @@ export interface StoryAnalytics {
 
     /** Foreshadowing tracking */
     foreshadowing?: ForeshadowingPair[];
+
+    /** Pacing analysis */
+    pacing?: PacingAnalysis;
 }
 
 /**
@@ -1927,7 +2291,7 @@ export interface TimelineUIState {
     /** Whether Gantt chart view is enabled */
     ganttMode: boolean;
     /** Grouping mode for events */
-    groupMode: 'none' | 'location' | 'group' | 'character' | 'track';
+    groupMode: 'none' | 'location' | 'group' | 'character' | 'track' | 'custody';
     /** Active filters */
     filters: TimelineUIFilters;
     /** Whether event stacking is enabled */
@@ -2003,6 +2367,53 @@ export interface StoryDraft {
     modified: string;
 }
 
+/**
+ * Draft Snapshot - frozen copy of every scene's text in a draft
+ * The text is archived in a versioned folder so later edits to the live scenes leave it untouched
+ */
+export interface DraftSnapshot {
+    /** Unique identifier */
+    id: string;
+
+    /** ID of the draft that was frozen */
+    draftId: string;
+
+    /** ID of the story the draft belongs to */
+    storyId: string;
+
+    /** Version number within the draft (1, 2, 3...) */
+    version: number;
+
+    /** Display name (e.g., "Before beta readers") */
+    name: string;
+
+    /** Vault folder holding the archived scene files */
+    folder: string;
+
+    /** Scene order and archived files at the time of the snapshot */
+    scenes: SnapshotSceneRef[];
+
+    /** ISO string of creation date */
+    created: string;
+}
+
+/**
+ * Scene within a snapshot, pointing at its archived copy
+ */
+export interface SnapshotSceneRef extends IndentedSceneRef {
+    /** Scene name when the snapshot was taken */
+    name: string;
+
+    /** Chapter name when the snapshot was taken */
+    chapterName?: string;
+
+    /** Vault path of the archived scene file */
+    path: string;
+
+    /** Word count of the archived text */
+    wordCount: number;
+}
+
 /**
  * Reference to a scene within a draft's ordered list
  * Supports nesting/indentation for hierarchical organization
@@ -2075,6 +2486,9 @@ export type CompileStepType =
     | 'normalize-scene-separators'
     | 'export-markdown'
     | 'export-html'
+    | 'export-docx'
+    | 'export-epub'
+    | 'export-fountain'
     | 'custom-regex'
     | 'user-script';
 
@@ -2107,6 +2521,18 @@ export interface SceneCompileInput {
     
     /** Scene number (e.g., "1", "1.1", "2.3.1") */
     sceneNumber?: string;
+
+    /** First linked location, for screenplay sluglines */
+    location?: string;
+
+    /** Whether the location is indoors; undefined when the location isn't known */
+    interior?: boolean;
+
+    /** Scene time of day, for screenplay sluglines */
+    timeOfDay?: string;
+
+    /** Linked characters, used to attribute dialogue */
+    characters?: string[];
 }
 
 /**
@@ -2115,6 +2541,36 @@ export interface SceneCompileInput {
 export interface ManuscriptCompileInput {
     /** Combined text contents */
     contents: string;
+
+    /** Chapter boundaries recorded by concatenate-by-chapter, in manuscript order */
+    chapters?: ManuscriptChapter[];
+
+    /** Title page details recorded by add-title-page and apply-template */
+    metadata?: ManuscriptMetadata;
+}
+
+/**
+ * A chapter boundary inside the compiled manuscript
+ */
+export interface ManuscriptChapter {
+    /** Chapter title without markdown heading marks */
+    title: string;
+
+    /** First line of the chapter header as written into the manuscript */
+    heading: string;
+}
+
+/**
+ * Title page metadata carried alongside the manuscript for structured exports
+ */
+export interface ManuscriptMetadata {
+    title?: string;
+    author?: string;
+    date?: string;
+    wordCount?: number;
+
+    /** Text prepended by add-title-page and apply-template; DOCX/EPUB render their own title page instead */
+    frontMatter?: string;
 }
 
 /**
@@ -2163,6 +2619,26 @@ export interface CompileResult {
         characterCount: number;
         compileDuration: number;
     };
+
+    /** Steps that failed to load or run and were skipped */
+    stepErrors?: CompileStepError[];
+}
+
+/**
+ * Error reported for a single compile step
+ */
+export interface CompileStepError {
+    /** Id of the step instance in the workflow */
+    stepId: string;
+
+    /** Display name of the step (or script path when it failed to load) */
+    stepName: string;
+
+    /** 'load' when a user script could not be loaded or validated, 'run' when it threw */
+    phase: 'load' | 'run';
+
+    /** Error message */
+    message: string;
 }
 
 /**
@@ -2231,6 +2707,32 @@ export interface WordCountGoal {
     notifyOnComplete: boolean;
 }
 
+/**
+ * Project writing goal - a target story length by a deadline
+ */
+export interface ProjectGoal {
+    /** Unique identifier */
+    id: string;
+
+    /** ID of the story the goal belongs to */
+    storyId: string;
+
+    /** Display name (e.g., "NaNoWriMo", "First draft") */
+    name: string;
+
+    /** Target total word count for the story */
+    target: number;
+
+    /** Deadline in ISO format (YYYY-MM-DD) */
+    deadline: string;
+
+    /** Date the goal was set in ISO format (YYYY-MM-DD) */
+    startDate: string;
+
+    /** Story word count when the goal was set */
+    startWords: number;
+}
+
 /**
  * Daily writing statistics
  */
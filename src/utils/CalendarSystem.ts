@@ -0,0 +1,426 @@
+import type { Calendar, CalendarEpoch, CalendarMonth } from '../types';
+
+/** Milliseconds in one calendar day on the timeline axis */
+export const CALENDAR_DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalendarPrecision = 'year' | 'month' | 'day' | 'time';
+
+/**
+ * A date expressed in a custom calendar.
+ * `year` is the absolute year (year 1 is the first year the calendar counts);
+ * epochs only change how the year is written.
+ */
+export interface CalendarDate {
+    year: number;
+    /** Zero-based month index */
+    month: number;
+    /** One-based day of month */
+    day: number;
+    hour?: number;
+    minute?: number;
+}
+
+export interface ParsedCalendarDate {
+    date: CalendarDate;
+    precision: CalendarPrecision;
+}
+
+export interface MoonPhase {
+    moon: string;
+    /** Position in the cycle, 0 = new moon, 0.5 = full moon */
+    fraction: number;
+    phase: string;
+}
+
+const PHASE_NAMES = [
+    'New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous',
+    'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent'
+];
+
+function floorDiv(a: number, b: number): number {
+    return Math.floor(a / b);
+}
+
+function mod(a: number, b: number): number {
+    return ((a % b) + b) % b;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Date arithmetic for a custom Calendar entity.
+ *
+ * Dates map to a linear day number where day 0 is the first day of year 1.
+ * On the timeline a day number is placed at `dayNumber * CALENDAR_DAY_MS`
+ * milliseconds, so sorting and vis-timeline positioning keep working on
+ * plain numbers.
+ */
+export class CalendarSystem {
+    readonly calendar: Calendar;
+    private readonly months: CalendarMonth[];
+    private readonly weekdays: string[];
+    private readonly hoursPerDay: number;
+    private readonly baseYearLength: number;
+    private readonly leapRules: Array<{ interval: number; offset: number; month: number; days: number }>;
+
+    constructor(calendar: Calendar) {
+        this.calendar = calendar;
+        this.months = (calendar.months || []).filter(m => m && m.name && Number(m.days) > 0)
+            .map(m => ({ ...m, days: Math.floor(Number(m.days)) }));
+        this.weekdays = (calendar.weekdays || []).filter(w => typeof w === 'string' && w.trim() !== '');
+        this.hoursPerDay = Number(calendar.hoursPerDay) > 0 ? Number(calendar.hoursPerDay) : 24;
+        this.baseYearLength = this.months.reduce((sum, m) => sum + m.days, 0);
+        this.leapRules = (calendar.leapRules || [])
+            .filter(r => r && Number(r.interval) > 0)
+            .map(r => ({
+                interval: Math.floor(Number(r.interval)),
+                offset: Math.floor(Number(r.offset) || 0),
+                month: this.resolveLeapMonth(r.month),
+                days: r.days === undefined || r.days === null ? 1 : Math.floor(Number(r.days) || 0)
+            }));
+    }
+
+    /** A calendar needs at least one month with a positive length to be usable */
+    static isUsable(calendar?: Calendar | null): boolean {
+        return !!calendar && CalendarSystem.validate(calendar).length === 0;
+    }
+
+    /** Return a list of problems that prevent the calendar from being used */
+    static validate(calendar: Calendar): string[] {
+        const errors: string[] = [];
+        const months = calendar.months || [];
+        if (months.length === 0) {
+            errors.push('Calendar needs at least one month');
+        }
+        months.forEach((m, i) => {
+            if (!m || !m.name) errors.push(`Month ${i + 1} needs a name`);
+            if (!m || !(Number(m.days) > 0)) errors.push(`Month "${m?.name || i + 1}" needs a positive number of days`);
+        });
+        (calendar.leapRules || []).forEach((r, i) => {
+            if (!(Number(r.interval) > 0)) errors.push(`Leap rule ${i + 1} needs a positive interval`);
+            if (r.month && !months.some(m => m.name?.toLowerCase() === r.month!.toLowerCase())) {
+                errors.push(`Leap rule ${i + 1} refers to unknown month "${r.month}"`);
+            }
+        });
+        (calendar.moons || []).forEach((m, i) => {
+            if (!(Number(m.cycleDays) > 0)) errors.push(`Moon "${m.name || i + 1}" needs a positive cycle length`);
+        });
+        return errors;
+    }
+
+    get monthCount(): number {
+        return this.months.length;
+    }
+
+    getMonthName(index: number): string {
+        return this.months[index]?.name ?? String(index + 1);
+    }
+
+    /** Days in the given month of the given absolute year, leap days included */
+    monthLength(year: number, month: number): number {
+        let days = this.months[month]?.days ?? 0;
+        for (const rule of this.leapRules) {
+            if (rule.month === month && mod(year - rule.offset, rule.interval) === 0) days += rule.days;
+        }
+        return Math.max(0, days);
+    }
+
+    yearLength(year: number): number {
+        let days = 0;
+        for (let m = 0; m < this.months.length; m++) days += this.monthLength(year, m);
+        return days;
+    }
+
+    /** Number of days between the start of year 1 and the start of `year` (negative before year 1) */
+    daysBeforeYear(year: number): number {
+        let days = (year - 1) * this.baseYearLength;
+        for (const rule of this.leapRules) {
+            const matches = floorDiv(year - 1 - rule.offset, rule.interval) - floorDiv(-rule.offset, rule.interval);
+            days += matches * rule.days;
+        }
+        return days;
+    }
+
+    toDayNumber(date: CalendarDate): number {
+        let days = this.daysBeforeYear(date.year);
+        for (let m = 0; m < date.month; m++) days += this.monthLength(date.year, m);
+        return days + (date.day - 1);
+    }
+
+    fromDayNumber(dayNumber: number): CalendarDate {
+        const n = Math.floor(dayNumber);
+        const average = this.leapRules.reduce((sum, r) => sum + r.days / r.interval, this.baseYearLength);
+        let year = Math.floor(n / (average > 0 ? average : 1)) + 1;
+        while (this.daysBeforeYear(year) > n) year--;
+        while (this.daysBeforeYear(year + 1) <= n) year++;
+
+        let remaining = n - this.daysBeforeYear(year);
+        let month = 0;
+        while (month < this.months.length - 1 && remaining >= this.monthLength(year, month)) {
+            remaining -= this.monthLength(year, month);
+            month++;
+        }
+        return { year, month, day: remaining + 1 };
+    }
+
+    /** Position of a date on the timeline axis */
+    toMillis(date: CalendarDate): number {
+        const minutes = (date.hour ?? 0) * 60 + (date.minute ?? 0);
+        const fraction = minutes / (this.hoursPerDay * 60);
+        return (this.toDayNumber(date) + fraction) * CALENDAR_DAY_MS;
+    }
+
+    fromMillis(ms: number): CalendarDate {
+        const dayNumber = Math.floor(ms / CALENDAR_DAY_MS);
+        const date = this.fromDayNumber(dayNumber);
+        const minutes = Math.round(((ms / CALENDAR_DAY_MS) - dayNumber) * this.hoursPerDay * 60);
+        date.hour = Math.floor(minutes / 60);
+        date.minute = minutes % 60;
+        return date;
+    }
+
+    /** Weekday name for a date, or undefined when the calendar has no weekdays */
+    getWeekday(date: CalendarDate): string | undefined {
+        if (this.weekdays.length === 0) return undefined;
+        const offset = Math.floor(Number(this.calendar.weekdayOffset) || 0);
+        return this.weekdays[mod(this.toDayNumber(date) + offset, this.weekdays.length)];
+    }
+
+    getMoonPhases(date: CalendarDate): MoonPhase[] {
+        const dayNumber = this.toDayNumber(date);
+        return (this.calendar.moons || [])
+            .filter(m => Number(m.cycleDays) > 0)
+            .map(m => {
+                const cycle = Number(m.cycleDays);
+                const fraction = mod(dayNumber - (Number(m.offsetDays) || 0), cycle) / cycle;
+                const phase = PHASE_NAMES[Math.round(fraction * 8) % 8];
+                return { moon: m.name, fraction, phase };
+            });
+    }
+
+    /** Epoch used to write the given absolute year, if any */
+    getEpochForYear(year: number): CalendarEpoch | undefined {
+        const epochs = this.calendar.epochs || [];
+        const forward = epochs
+            .filter(e => !e.backwards && e.startYear <= year)
+            .sort((a, b) => b.startYear - a.startYear);
+        if (forward.length > 0) return forward[0];
+        const backward = epochs
+            .filter(e => e.backwards && e.startYear > year)
+            .sort((a, b) => a.startYear - b.startYear);
+        return backward[0];
+    }
+
+    toEpochYear(year: number, epoch: CalendarEpoch): number {
+        return epoch.backwards ? epoch.startYear - year : year - epoch.startYear + 1;
+    }
+
+    fromEpochYear(epochYear: number, epoch: CalendarEpoch): number {
+        return epoch.backwards ? epoch.startYear - epochYear : epoch.startYear + epochYear - 1;
+    }
+
+    formatYear(year: number): string {
+        const epoch = this.getEpochForYear(year);
+        if (!epoch) return String(year);
+        return `${this.toEpochYear(year, epoch)} ${epoch.abbreviation || epoch.name}`;
+    }
+
+    format(date: CalendarDate, precision: CalendarPrecision = 'day'): string {
+        const year = this.formatYear(date.year);
+        if (precision === 'year') return year;
+        const monthName = this.getMonthName(date.month);
+        if (precision === 'month') return `${monthName} ${year}`;
+
+        const weekday = this.getWeekday(date);
+        let text = `${date.day} ${monthName} ${year}`;
+        if (weekday) text = `${weekday}, ${text}`;
+        if (precision === 'time') {
+            const hh = String(date.hour ?? 0).padStart(2, '0');
+            const mm = String(date.minute ?? 0).padStart(2, '0');
+            text += ` ${hh}:${mm}`;
+        }
+        return text;
+    }
+
+    /**
+     * Label for a vis-timeline axis tick.
+     * Tick positions follow vis-timeline's Gregorian steps, so labels show
+     * the calendar date that falls on each tick at the requested scale.
+     */
+    formatAxisLabel(ms: number, scale: string, kind: 'minor' | 'major'): string {
+        const date = this.fromMillis(ms);
+        switch (scale) {
+            case 'millisecond':
+            case 'second':
+            case 'minute':
+            case 'hour':
+                return kind === 'minor'
+                    ? `${String(date.hour ?? 0).padStart(2, '0')}:${String(date.minute ?? 0).padStart(2, '0')}`
+                    : this.format(date, 'day');
+            case 'weekday':
+            case 'day':
+            case 'week':
+                return kind === 'minor' ? String(date.day) : this.format(date, 'month');
+            case 'month':
+                return kind === 'minor' ? this.getMonthName(date.month) : this.formatYear(date.year);
+            default:
+                return kind === 'minor' ? this.formatYear(date.year) : '';
+        }
+    }
+
+    /**
+     * Parse a date written in this calendar.
+     * Accepts "12 Frostmoon 1024 AS", "Frostmoon 12, 1024", "Frostmoon 1024",
+     * "1024 AS", "1024-3-12" (month number) and an optional "HH:mm" time.
+     * Returns null when the text is not a date in this calendar.
+     */
+    parse(input: string): ParsedCalendarDate | null {
+        if (this.months.length === 0) return null;
+        let text = ` ${input.trim()} `;
+        let hour: number | undefined;
+        let minute: number | undefined;
+
+        const timeMatch = text.match(/[\sT](\d{1,2}):(\d{2})(?=\s)/);
+        if (timeMatch) {
+            hour = parseInt(timeMatch[1], 10);
+            minute = parseInt(timeMatch[2], 10);
+            if (hour >= this.hoursPerDay || minute >= 60) return null;
+            text = text.replace(timeMatch[0], ' ');
+        }
+
+        let epoch: CalendarEpoch | undefined;
+        for (const e of this.sortedByLength(this.calendar.epochs || [], e => [e.name, e.abbreviation])) {
+            const re = this.wordPattern([e.name, e.abbreviation]);
+            if (re && re.test(text)) {
+                epoch = e;
+                text = text.replace(re, '$1 ');
+                break;
+            }
+        }
+
+        // Weekday names are informational only
+        for (const w of this.weekdays) {
+            const re = this.wordPattern([w]);
+            if (re) text = text.replace(re, '$1 ');
+        }
+
+        let month: number | undefined;
+        for (const m of this.sortedByLength(this.months, m => [m.name, m.abbreviation])) {
+            const re = this.wordPattern([m.name, m.abbreviation]);
+            if (re && re.test(text)) {
+                month = this.months.indexOf(m);
+                text = text.replace(re, '$1 ');
+                break;
+            }
+        }
+
+        text = text.replace(/(\d)(st|nd|rd|th)\b/gi, '$1').replace(/\bof\b/gi, ' ').replace(/[,.]/g, ' ').trim();
+
+        let year: number;
+        let day: number | undefined;
+        let precision: CalendarPrecision;
+
+        if (month === undefined) {
+            const numeric = text.match(/^(-?\d+)(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+            if (!numeric) return null;
+            year = parseInt(numeric[1], 10);
+            if (numeric[2]) {
+                month = parseInt(numeric[2], 10) - 1;
+                if (month < 0 || month >= this.months.length) return null;
+            }
+            if (numeric[3]) day = parseInt(numeric[3], 10);
+        } else {
+            const numbers = text.split(/\s+/).filter(Boolean);
+            if (numbers.some(n => !/^-?\d+$/.test(n))) return null;
+            if (numbers.length === 1) {
+                year = parseInt(numbers[0], 10);
+            } else if (numbers.length === 2) {
+                day = parseInt(numbers[0], 10);
+                year = parseInt(numbers[1], 10);
+            } else {
+                return null;
+            }
+        }
+
+        if (epoch) {
+            if (year <= 0) return null;
+            year = this.fromEpochYear(year, epoch);
+        }
+
+        if (month === undefined) {
+            precision = 'year';
+            month = 0;
+            day = 1;
+        } else if (day === undefined) {
+            precision = 'month';
+            day = 1;
+        } else {
+            precision = hour !== undefined ? 'time' : 'day';
+            if (day < 1 || day > this.monthLength(year, month)) return null;
+        }
+
+        const date: CalendarDate = { year, month, day };
+        if (hour !== undefined) {
+            date.hour = hour;
+            date.minute = minute;
+        }
+        return { date, precision };
+    }
+
+    /** Last day of the year or month a date falls in; day and time precision return the date's own day */
+    endOfPeriod(date: CalendarDate, precision: CalendarPrecision): CalendarDate {
+        if (precision === 'year') {
+            const month = Math.max(0, this.months.length - 1);
+            return { year: date.year, month, day: this.monthLength(date.year, month) };
+        }
+        if (precision === 'month') return { year: date.year, month: date.month, day: this.monthLength(date.year, date.month) };
+        return { year: date.year, month: date.month, day: date.day };
+    }
+
+    /** Difference between two dates in calendar years, months and days */
+    diff(from: CalendarDate, to: CalendarDate): { years: number; months: number; days: number } {
+        let years = to.year - from.year;
+        let months = to.month - from.month;
+        let days = to.day - from.day;
+        if (days < 0) {
+            months--;
+            const prevMonth = to.month === 0 ? this.months.length - 1 : to.month - 1;
+            const prevYear = to.month === 0 ? to.year - 1 : to.year;
+            days += this.monthLength(prevYear, prevMonth);
+        }
+        if (months < 0) {
+            years--;
+            months += this.months.length;
+        }
+        return { years, months, days };
+    }
+
+    private resolveLeapMonth(name?: string): number {
+        if (name) {
+            const idx = this.months.findIndex(m => m.name.toLowerCase() === name.toLowerCase());
+            if (idx >= 0) return idx;
+        }
+        return Math.max(0, this.months.length - 1);
+    }
+
+    /** Sort so that longer names match first ("Frostmoon" before "Frost") */
+    private sortedByLength<T>(items: T[], names: (item: T) => Array<string | undefined>): T[] {
+        const longest = (item: T) => Math.max(0, ...names(item).map(n => (n || '').length));
+        return [...items].sort((a, b) => longest(b) - longest(a));
+    }
+
+    /**
+     * Whole-word pattern for any of the names. The leading separator is captured in group 1
+     * rather than matched with a lookbehind, which older iOS WebViews cannot compile;
+     * replace with '$1 ' to keep it.
+     */
+    private wordPattern(names: Array<string | undefined>): RegExp | null {
+        const parts = names.filter((n): n is string => !!n && n.trim() !== '')
+            .sort((a, b) => b.length - a.length)
+            .map(n => escapeRegExp(n.trim()));
+        if (parts.length === 0) return null;
+        return new RegExp(`(^|[\\s,])(?:${parts.join('|')})(?=$|[\\s,.])`, 'i');
+    }
+}
@@ -1,11 +1,17 @@
 import { DateTime } from 'luxon';
-import type { Event, TimelineConflict, Character, ConflictEntity } from '../types';
-import { parseEventDate } from './DateParsing';
+import type { Event, TimelineConflict, Character, ConflictEntity, MagicSystem, PlotItem, Scene } from '../types';
+import { parseEventDate, ParsedEventDate } from './DateParsing';
+import { CALENDAR_DAY_MS } from './CalendarSystem';
+import type { CalendarDate, CalendarSystem } from './CalendarSystem';
+import { buildNameIndex } from './DialogueAnalyzer';
+import { buildCustodyChain, describeCustody, findEvent, holderAt, plainRef, sameRef } from './ItemCustody';
+import { checkMagicRules, describeCondition, findMagicUses } from './MagicRules';
+import type { MagicUse } from './MagicRules';
 
 /**
  * Conflict types
  */
-export type ConflictType = 'location' | 'character' | 'temporal' | 'dependency';
+export type ConflictType = 'location' | 'character' | 'temporal' | 'dependency' | 'age' | 'custody' | 'magic';
 
 export interface DetectedConflict {
     id: string;
@@ -14,6 +20,12 @@ export interface DetectedConflict {
     message: string;
     events: Event[];
     character?: string;
+    /** Plot item the conflict concerns (custody) */
+    item?: string;
+    /** Magic system whose rule is broken (magic) */
+    magicSystem?: string;
+    /** Scene the conflict was found in (stated ages) */
+    scene?: { name: string; filePath?: string };
     details: {
         timeOverlap?: {
             start: DateTime;
@@ -24,6 +36,109 @@ export interface DetectedConflict {
     };
 }
 
+/**
+ * Story data used by checks that go beyond events
+ */
+export interface ConflictContext {
+    /** Characters, for birth and death dates */
+    characters?: Character[];
+    /** Scenes, for ages stated in the prose */
+    scenes?: Scene[];
+    /** Plot items, for custody chains */
+    items?: PlotItem[];
+    /** Magic systems, for their consistency rules */
+    magicSystems?: MagicSystem[];
+}
+
+/** An age given for a character in prose, e.g. "Mara, 34," or "the twelve-year-old Tomas" */
+export interface AgeStatement {
+    character: string;
+    age: number;
+    text: string;
+}
+
+/** Custom field names read as birth and death dates when the dedicated fields are empty */
+const BIRTH_FIELDS = ['birth date', 'birthdate', 'born', 'date of birth', 'dob'];
+const DEATH_FIELDS = ['death date', 'deathdate', 'died', 'date of death'];
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+    eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+    seventy: 70, eighty: 80, ninety: 90
+};
+
+const TENS = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const UNITS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+/** Word forms in lower and sentence case */
+function casings(words: string[]): string {
+    return words.flatMap(w => [w, w.charAt(0).toUpperCase() + w.slice(1)]).join('|');
+}
+
+/** Ages as digits or words ("34", "thirty-four", "Twelve") */
+const AGE_PATTERN = `(\\d{1,3}|(?:${casings(TENS)})(?:[- ](?:${UNITS.join('|')}))?|${casings(
+    Object.keys(NUMBER_WORDS).filter(w => !TENS.includes(w)).sort((a, b) => b.length - a.length)
+)})`;
+
+function parseAge(token: string): number | undefined {
+    if (/^\d+$/.test(token)) return parseInt(token, 10);
+    const total = token.toLowerCase().split(/[- ]/).reduce((sum, word) => sum + (NUMBER_WORDS[word] ?? NaN), 0);
+    return isNaN(total) ? undefined : total;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Strip wiki-link brackets and aliases from an entity reference */
+function plainName(ref: string): string {
+    return ref.replace(/^\[\[|\]\]$/g, '').split('|')[0].trim();
+}
+
+/** Span of a parsed date; custom-calendar dates also keep their calendar dates for age arithmetic */
+interface DateRange {
+    start: DateTime;
+    end: DateTime;
+    calendar?: CalendarSystem;
+    startDate?: CalendarDate;
+    endDate?: CalendarDate;
+}
+
+/** Start of a parsed date and the end of its precision (a year-precision date spans the whole year) */
+function dateRange(parsed: ParsedEventDate): DateRange | null {
+    if (!parsed.start) return null;
+    const unit = parsed.precision === 'year' || parsed.precision === 'month' || parsed.precision === 'day'
+        ? parsed.precision
+        : undefined;
+
+    // Custom calendars have their own month and year lengths, so Luxon's Gregorian periods don't apply
+    if (parsed.calendar && parsed.calendarDate) {
+        const calendar = parsed.calendar;
+        const startDate = parsed.calendarDate;
+        if (parsed.end) {
+            return { start: parsed.start, end: parsed.end, calendar, startDate, endDate: calendar.fromMillis(parsed.end.toMillis()) };
+        }
+        if (!unit) return { start: parsed.start, end: parsed.start, calendar, startDate, endDate: startDate };
+        const endDate = calendar.endOfPeriod(startDate, unit);
+        const end = DateTime.fromMillis(calendar.toMillis(endDate) + CALENDAR_DAY_MS - 1, { zone: 'utc' });
+        return { start: parsed.start, end, calendar, startDate, endDate };
+    }
+
+    if (parsed.end) return { start: parsed.start, end: parsed.end };
+    return { start: parsed.start, end: unit ? parsed.start.endOf(unit) : parsed.start };
+}
+
+/** Whole years from one edge of a range to an edge of another, in the ranges' own calendar when they share one */
+function yearsBetween(from: DateRange, fromEdge: 'start' | 'end', to: DateRange, toEdge: 'start' | 'end'): number {
+    const fromDate = fromEdge === 'start' ? from.startDate : from.endDate;
+    const toDate = toEdge === 'start' ? to.startDate : to.endDate;
+    if (from.calendar && from.calendar === to.calendar && fromDate && toDate) {
+        return from.calendar.diff(fromDate, toDate).years;
+    }
+    return Math.floor(to[toEdge].diff(from[fromEdge], 'years').years);
+}
+
 /**
  * Utility class for detecting timeline conflicts
  * Flags when characters are in multiple places simultaneously or when events have logical conflicts
@@ -32,7 +147,7 @@ export class ConflictDetector {
     /**
      * Detect all conflicts in a set of events
      */
-    static detectAllConflicts(events: Event[]): DetectedConflict[] {
+    static detectAllConflicts(events: Event[], context: ConflictContext = {}): DetectedConflict[] {
         const conflicts: DetectedConflict[] = [];
 
         // Detect character location conflicts
@@ -47,6 +162,24 @@ export class ConflictDetector {
         // Detect temporal conflicts (overlapping milestone events)
         conflicts.push(...this.detectTemporalConflicts(events));
 
+        // Detect age conflicts (events outside a lifespan, stated ages that disagree with the timeline)
+        if (context.characters) {
+            conflicts.push(...this.detectLifespanConflicts(events, context.characters));
+            if (context.scenes) {
+                conflicts.push(...this.detectAgeStatementConflicts(context.scenes, context.characters, events));
+            }
+        }
+
+        // Detect custody conflicts (an item in two hands at once, or used by someone not holding it)
+        if (context.items) {
+            conflicts.push(...this.detectCustodyConflicts(context.items, events));
+        }
+
+        // Detect magic rule violations (missing materials, too little rest, forbidden places)
+        if (context.magicSystems) {
+            conflicts.push(...this.detectMagicRuleConflicts(context.magicSystems, events, context.scenes || []));
+        }
+
         return conflicts;
     }
 
@@ -287,6 +420,293 @@ export class ConflictDetector {
         return conflicts;
     }
 
+    /**
+     * Birth and death dates of a character, from the dedicated fields or matching custom fields
+     */
+    static getLifespan(character: Character): { birth?: string; death?: string } {
+        const custom = Object.entries(character.customFields || {});
+        const fromCustom = (names: string[]) =>
+            custom.find(([key, value]) => names.includes(key.trim().toLowerCase()) && value?.trim())?.[1].trim();
+        return {
+            birth: character.birthDate?.trim() || fromCustom(BIRTH_FIELDS),
+            death: character.deathDate?.trim() || fromCustom(DEATH_FIELDS)
+        };
+    }
+
+    /**
+     * Detect characters taking part in events before their birth or after their death
+     */
+    static detectLifespanConflicts(events: Event[], characters: Character[]): DetectedConflict[] {
+        const conflicts: DetectedConflict[] = [];
+
+        // Parsed lifespans, reachable by character name or id
+        const lifespans = new Map<string, {
+            name: string;
+            birth?: { text: string; range: { start: DateTime; end: DateTime }; approximate?: boolean };
+            death?: { text: string; range: { start: DateTime; end: DateTime }; approximate?: boolean };
+        }>();
+        for (const character of characters) {
+            const { birth, death } = this.getLifespan(character);
+            const parse = (text?: string) => {
+                if (!text) return undefined;
+                const parsed = parseEventDate(text);
+                const range = dateRange(parsed);
+                return range ? { text, range, approximate: parsed.approximate } : undefined;
+            };
+            const entry = { name: character.name, birth: parse(birth), death: parse(death) };
+            if (!entry.birth && !entry.death) continue;
+            lifespans.set(character.name, entry);
+            if (character.id) lifespans.set(character.id, entry);
+        }
+        if (lifespans.size === 0) return conflicts;
+
+        for (const event of events) {
+            if (!event.dateTime || !event.characters) continue;
+            const parsed = parseEventDate(event.dateTime);
+            const when = dateRange(parsed);
+            if (!when) continue;
+            const eventId = event.id || event.name.replace(/[^a-zA-Z0-9]/g, '');
+
+            for (const ref of event.characters) {
+                const life = lifespans.get(plainName(ref));
+                if (!life) continue;
+
+                if (life.birth && when.end < life.birth.range.start) {
+                    conflicts.push({
+                        id: `conflict-age-unborn-${life.name}-${eventId}`,
+                        type: 'age',
+                        severity: parsed.approximate || life.birth.approximate ? 'warning' : 'error',
+                        message: `${life.name} takes part in an event before they were born`,
+                        events: [event],
+                        character: life.name,
+                        details: {
+                            description: `${life.name} was born ${life.birth.text}, but "${event.name}" happens ${event.dateTime}`
+                        }
+                    });
+                } else if (life.death && when.start > life.death.range.end) {
+                    conflicts.push({
+                        id: `conflict-age-dead-${life.name}-${eventId}`,
+                        type: 'age',
+                        severity: parsed.approximate || life.death.approximate ? 'warning' : 'error',
+                        message: `${life.name} takes part in an event after their death`,
+                        events: [event],
+                        character: life.name,
+                        details: {
+                            description: `${life.name} died ${life.death.text}, but "${event.name}" happens ${event.dateTime}`
+                        }
+                    });
+                }
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Find ages stated for characters in prose
+     * Recognises "Mara, 34,", "Mara (34)", "Mara was 34 years old", "Mara, aged 34",
+     * "Mara turned 34." and "the 34-year-old Mara", with ages as digits or words.
+     */
+    static findAgeStatements(text: string, characterNames: string[]): AgeStatement[] {
+        const index = buildNameIndex(characterNames);
+        if (index.size === 0 || !text) return [];
+
+        const names = `\\b(${Array.from(index.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\w])`;
+        const age = AGE_PATTERN;
+        const yearsOld = `\\s+years?\\s+old`;
+        // Name group first, age group second, except the "34-year-old Mara" form
+        const patterns: Array<{ regex: RegExp; nameGroup: number; ageGroup: number }> = [
+            { regex: new RegExp(`${names},\\s+(?:aged\\s+)?${age}(?:${yearsOld})?(?=[,.;])`, 'g'), nameGroup: 1, ageGroup: 2 },
+            { regex: new RegExp(`${names}\\s+\\(${age}\\)`, 'g'), nameGroup: 1, ageGroup: 2 },
+            { regex: new RegExp(`${names}\\s+(?:was|is|had\\s+been)\\s+(?:now\\s+|just\\s+|only\\s+|already\\s+)?${age}${yearsOld}`, 'g'), nameGroup: 1, ageGroup: 2 },
+            { regex: new RegExp(`${names}\\s+(?:was|is)\\s+aged\\s+${age}(?![\\w-])`, 'g'), nameGroup: 1, ageGroup: 2 },
+            { regex: new RegExp(`${names}\\s+(?:had\\s+)?(?:turned|turns)\\s+${age}(?=[.,;!?]|${yearsOld})`, 'g'), nameGroup: 1, ageGroup: 2 },
+            { regex: new RegExp(`\\b${age}[- ]years?[- ]old\\s+${names}`, 'g'), nameGroup: 2, ageGroup: 1 }
+        ];
+
+        const statements: AgeStatement[] = [];
+        const seen = new Set<string>();
+        for (const { regex, nameGroup, ageGroup } of patterns) {
+            let match: RegExpExecArray | null;
+            while ((match = regex.exec(text)) !== null) {
+                const character = index.get(match[nameGroup]);
+                const value = parseAge(match[ageGroup]);
+                const key = `${match.index}:${character}`;
+                if (!character || value === undefined || seen.has(key)) continue;
+                seen.add(key);
+                statements.push({ character, age: value, text: match[0] });
+            }
+        }
+        return statements;
+    }
+
+    /**
+     * Detect ages stated in scene text that disagree with a character's birth date
+     * A scene is dated by its earliest linked event; scenes without dated events are skipped.
+     */
+    static detectAgeStatementConflicts(scenes: Scene[], characters: Character[], events: Event[]): DetectedConflict[] {
+        const conflicts: DetectedConflict[] = [];
+
+        const births = new Map<string, { text: string; range: DateRange }>();
+        for (const character of characters) {
+            const birth = this.getLifespan(character).birth;
+            const range = birth ? dateRange(parseEventDate(birth)) : null;
+            if (birth && range) births.set(character.name, { text: birth, range });
+        }
+        if (births.size === 0) return conflicts;
+
+        const eventMap = new Map(events.map(e => [e.name, e]));
+        const names = Array.from(births.keys());
+
+        for (const scene of scenes) {
+            if (!scene.content || !scene.linkedEvents?.length) continue;
+
+            // Date the scene by its earliest dated linked event
+            let dating: { event: Event; range: DateRange } | undefined;
+            for (const ref of scene.linkedEvents) {
+                const event = eventMap.get(plainName(ref));
+                const range = event?.dateTime ? dateRange(parseEventDate(event.dateTime)) : null;
+                if (event && range && (!dating || range.start < dating.range.start)) {
+                    dating = { event, range };
+                }
+            }
+            if (!dating) continue;
+
+            const sceneId = scene.id || scene.name.replace(/[^a-zA-Z0-9]/g, '');
+            for (const statement of this.findAgeStatements(scene.content, names)) {
+                const birth = births.get(statement.character)!;
+                // Youngest and oldest the character can be, given both dates' precision
+                const youngest = yearsBetween(birth.range, 'end', dating.range, 'start');
+                const oldest = yearsBetween(birth.range, 'start', dating.range, 'end');
+                if (statement.age >= youngest && statement.age <= oldest) continue;
+
+                const expected = youngest === oldest ? `${oldest}` : `${Math.max(0, youngest)}–${oldest}`;
+                conflicts.push({
+                    id: `conflict-age-stated-${statement.character}-${sceneId}-${statement.age}`,
+                    type: 'age',
+                    severity: 'warning',
+                    message: `${statement.character}'s stated age doesn't match the timeline`,
+                    events: [dating.event],
+                    character: statement.character,
+                    scene: { name: scene.name, filePath: scene.filePath },
+                    details: {
+                        description: `"${statement.text}" in scene "${scene.name}" gives age ${statement.age}, but born ${birth.text} makes ${statement.character} ${oldest < 0 ? 'unborn' : expected} at "${dating.event.name}" (${dating.event.dateTime})`
+                    }
+                });
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Detect items held by two characters at once, and items used in events by characters who
+     * don't hold them at the time. Transfer events are not checked for use: the item changes
+     * hands there.
+     */
+    static detectCustodyConflicts(items: PlotItem[], events: Event[]): DetectedConflict[] {
+        const conflicts: DetectedConflict[] = [];
+
+        for (const item of items) {
+            const chain = buildCustodyChain(item, events);
+            if (chain.length === 0) continue;
+            const transferEvents = (item.custodyHistory || []).map(entry => findEvent(events, entry.event)).filter((e): e is Event => !!e);
+
+            for (let i = 0; i < chain.length; i++) {
+                for (let j = i + 1; j < chain.length; j++) {
+                    const a = chain[i];
+                    const b = chain[j];
+                    if (!a.entry.owner || !b.entry.owner || sameRef(a.entry.owner, b.entry.owner)) continue;
+                    if (!(a.start < b.end && b.start < a.end)) continue;
+
+                    const involved = [findEvent(events, a.entry.event), findEvent(events, b.entry.event)].filter((e): e is Event => !!e);
+                    conflicts.push({
+                        id: `conflict-custody-overlap-${item.name}-${a.index}-${b.index}`,
+                        type: 'custody',
+                        severity: 'error',
+                        message: `${item.name} is held by two characters at once`,
+                        events: involved,
+                        item: item.name,
+                        details: {
+                            description: `${describeCustody(a.entry)} (${a.entry.from || a.entry.event || '?'} – ${a.entry.to || '…'}) overlaps ${describeCustody(b.entry)} (${b.entry.from || b.entry.event || '?'} – ${b.entry.to || '…'})`
+                        }
+                    });
+                }
+            }
+
+            for (const ref of item.associatedEvents || []) {
+                const event = findEvent(events, ref);
+                if (!event?.dateTime || !event.characters?.length || transferEvents.includes(event)) continue;
+                const when = dateRange(parseEventDate(event.dateTime));
+                if (!when) continue;
+                const holder = holderAt(chain, when.start.toMillis());
+                const owner = holder?.entry.owner;
+                if (!holder || !owner || event.characters.some(c => sameRef(c, owner))) continue;
+
+                const eventId = event.id || event.name.replace(/[^a-zA-Z0-9]/g, '');
+                conflicts.push({
+                    id: `conflict-custody-use-${item.name}-${eventId}`,
+                    type: 'custody',
+                    severity: 'warning',
+                    message: `${item.name} is used in "${event.name}" but ${plainRef(owner)} holds it`,
+                    events: [event],
+                    item: item.name,
+                    details: {
+                        description: `"${event.name}" (${event.dateTime}) involves ${event.characters.map(plainRef).join(', ')}, but ${item.name} is with ${describeCustody(holder.entry)} at the time`
+                    }
+                });
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Detect events and scenes that break a magic system's structured consistency rules
+     * A rule's priority sets the severity: critical rules are errors, optional ones info.
+     */
+    static detectMagicRuleConflicts(magicSystems: MagicSystem[], events: Event[], scenes: Scene[]): DetectedConflict[] {
+        const conflicts: DetectedConflict[] = [];
+        const useId = (use: MagicUse) => (use.event?.id || use.name).replace(/[^a-zA-Z0-9]/g, '');
+        const dated = (use: MagicUse) => use.event?.dateTime ? `"${use.name}" (${use.event.dateTime})` : `"${use.name}"`;
+
+        for (const system of magicSystems) {
+            const uses = findMagicUses(system, events, scenes);
+            for (const { rule, use, caster, previous } of checkMagicRules(system, uses)) {
+                const condition = rule.condition;
+                if (!condition) continue;
+
+                let description = `${describeCondition(condition, system.name)}, but `;
+                switch (condition.kind) {
+                    case 'requires-material':
+                        description += `${dated(use)} doesn't involve ${plainRef(condition.material)}`;
+                        break;
+                    case 'forbidden-location':
+                        description += `${dated(use)} takes place there`;
+                        break;
+                    case 'rest-between-uses':
+                        description += `${caster} uses it in ${previous ? dated(previous) : 'an earlier event'} and again in ${dated(use)}`;
+                        break;
+                }
+
+                const scene = use.event ? undefined : use.scenes[0];
+                conflicts.push({
+                    id: `conflict-magic-${system.name}-${rule.name}-${useId(use)}${caster ? `-${caster}` : ''}`,
+                    type: 'magic',
+                    severity: rule.priority === 'critical' ? 'error' : rule.priority === 'optional' ? 'info' : 'warning',
+                    message: `"${rule.name}" (${system.name}) is broken in ${use.event ? `"${use.name}"` : `scene "${use.name}"`}`,
+                    events: [previous?.event, use.event].filter((e): e is Event => !!e),
+                    character: caster,
+                    magicSystem: system.name,
+                    scene: scene ? { name: scene.name, filePath: scene.filePath } : undefined,
+                    details: { description }
+                });
+            }
+        }
+
+        return conflicts;
+    }
+
     /**
      * Check if two events overlap in time
      */
@@ -445,11 +865,19 @@ export class ConflictDetector {
                 });
             }
 
+            if (c.item) {
+                entities.push({
+                    entityId: c.item,
+                    entityType: 'item',
+                    entityName: c.item
+                });
+            }
+
             // Convert severity from 'error' | 'warning' | 'info' to 'critical' | 'moderate' | 'minor'
             const severity = c.severity === 'error' ? 'critical' : c.severity === 'warning' ? 'moderate' : 'minor';
 
             // Map ConflictType to TimelineConflict type
-            let conflictType: 'location' | 'death' | 'age' | 'causality' | 'custom';
+            let conflictType: TimelineConflict['type'];
             switch (c.type) {
                 case 'location':
                     conflictType = 'location';
@@ -459,7 +887,16 @@ export class ConflictDetector {
                     conflictType = 'causality';
                     break;
                 case 'character':
-                    conflictType = 'age'; // Character conflicts often relate to age/timeline issues
+                    conflictType = 'death'; // Characters appearing after their death
+                    break;
+                case 'age':
+                    conflictType = 'age';
+                    break;
+                case 'custody':
+                    conflictType = 'custody';
+                    break;
+                case 'magic':
+                    conflictType = 'magic';
                     break;
                 default:
                     conflictType = 'custom';
@@ -510,6 +947,10 @@ export class ConflictDetector {
             case 'dependency':
             case 'causality':
                 return '🔗';
+            case 'custody':
+                return '🗝️';
+            case 'magic':
+                return '✨';
             default:
                 return '⚠️';
         }
@@ -535,6 +976,7 @@ export class ConflictDetector {
                 report += `${i + 1}. **${c.message}**\n`;
                 report += `   - Type: ${c.type}\n`;
                 report += `   - Events: ${c.events.map(e => e.name).join(', ')}\n`;
+                if (c.scene) report += `   - Scene: ${c.scene.name}\n`;
                 report += `   - ${c.details.description}\n\n`;
             });
         }
@@ -545,6 +987,7 @@ export class ConflictDetector {
                 report += `${i + 1}. **${c.message}**\n`;
                 report += `   - Type: ${c.type}\n`;
                 report += `   - Events: ${c.events.map(e => e.name).join(', ')}\n`;
+                if (c.scene) report += `   - Scene: ${c.scene.name}\n`;
                 report += `   - ${c.details.description}\n\n`;
             });
         }
@@ -1,6 +1,7 @@
 import { DateTime } from 'luxon';
 import * as chrono from 'chrono-node';
-import type { Event } from '../types';
+import type { Calendar, Event } from '../types';
+import { CalendarSystem, CalendarDate } from './CalendarSystem';
 
 export type ParsedPrecision = 'year' | 'month' | 'day' | 'time';
 
@@ -10,6 +11,8 @@ export interface ParseOptions {
   locale?: string; // for Luxon formatting in UI
   /** Reference date for relative parsing (e.g., "next Friday"). Defaults to system today. */
   referenceDate?: Date;
+  /** Calendar to parse with. Defaults to the active story calendar; pass null to force Gregorian. */
+  calendar?: Calendar | null;
 }
 
 export interface ParsedEventDate {
@@ -20,9 +23,32 @@ export interface ParsedEventDate {
   error?: string;
   isBCE?: boolean; // Flag to indicate BCE date
   originalYear?: number; // Original BCE year for display purposes
+  calendarDate?: CalendarDate; // Set when parsed through a custom calendar
+  calendar?: CalendarSystem; // Calendar that produced calendarDate
 }
 
 const APPROX_RE = /(circa|around|about|approx|~|approx\.)/i;
+const APPROX_STRIP_RE = /\b(?:circa|around|about|approx\.?)\s*|~\s*/gi;
+
+let activeCalendar: CalendarSystem | null = null;
+
+/** Set the calendar used by parseEventDate when no calendar option is given (the active story's calendar). */
+export function setActiveCalendar(calendar?: Calendar | null): void {
+  activeCalendar = calendar && CalendarSystem.isUsable(calendar) ? new CalendarSystem(calendar) : null;
+}
+
+export function getActiveCalendar(): CalendarSystem | null {
+  return activeCalendar;
+}
+
+function resolveCalendar(opts: ParseOptions): CalendarSystem | null {
+  if (opts.calendar === null) return null;
+  if (opts.calendar) {
+    if (activeCalendar && activeCalendar.calendar === opts.calendar) return activeCalendar;
+    return CalendarSystem.isUsable(opts.calendar) ? new CalendarSystem(opts.calendar) : null;
+  }
+  return activeCalendar;
+}
 const BCE_RE = /\b(\d+)\s*(BC|bce|BCE|B\.C\.|B\.C|B\.C\.E\.|b\.c\.|b\.c\.e\.|bc|b\.c\.e)\b/i;
 const CE_RE = /\b(\d+)\s*(CE|ce|A\.D\.|AD|ad|a\.d\.)\b/i;
 
@@ -43,11 +69,32 @@ function inferPrecisionFromLuxon(dt: DateTime): ParsedPrecision {
   return 'year';
 }
 
-/** Try CE/BCE patterns first, then Luxon ISO, SQL, Chrono (casual), then ad-hoc formats. */export function parseEventDate(input?: string, opts: ParseOptions = {}): ParsedEventDate {
+/**
+ * Try the active custom calendar first, then CE/BCE patterns, Luxon ISO, SQL, Chrono (casual), then ad-hoc formats.
+ * Calendar dates are placed on the axis by day number (see CalendarSystem.toMillis). While a custom calendar is
+ * in use, text it cannot read is an error rather than a Gregorian date, whose epoch milliseconds would be read
+ * as a day number.
+ */
+export function parseEventDate(input?: string, opts: ParseOptions = {}): ParsedEventDate {
   if (!input || !input.trim()) return { error: 'empty' };
   const text = input.trim();
   const approximate = APPROX_RE.test(text);
 
+  const calendar = resolveCalendar(opts);
+  if (calendar) {
+    const parsed = calendar.parse(text.replace(APPROX_STRIP_RE, ''));
+    if (parsed) {
+      return {
+        start: DateTime.fromMillis(calendar.toMillis(parsed.date), { zone: 'utc' }),
+        precision: parsed.precision,
+        approximate,
+        calendarDate: parsed.date,
+        calendar,
+      };
+    }
+    return { error: 'not-in-calendar' };
+  }
+
   // 0) CE date detection
   const ceMatch = text.match(CE_RE);
 
@@ -304,6 +351,14 @@ export function toDisplay(dt?: DateTime, locale?: string, isBCE?: boolean, origi
   return v.toLocaleString(DateTime.DATETIME_MED_WITH_WEEKDAY);
 }
 
+/** Display a parsed date, using its custom calendar when it has one. */
+export function formatParsedDate(parsed: ParsedEventDate, locale?: string): string {
+  if (parsed.calendar && parsed.calendarDate) {
+    return parsed.calendar.format(parsed.calendarDate, parsed.precision);
+  }
+  return toDisplay(parsed.start, locale, parsed.isBCE, parsed.originalYear);
+}
+
 export function toMillis(dt?: DateTime): number | undefined {
   return dt?.toMillis();
 }
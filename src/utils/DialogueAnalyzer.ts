@@ -0,0 +1,313 @@
+/**
+ * DialogueAnalyzer - Finds quoted dialogue in scene prose and attributes it to characters
+ *
+ * Each paragraph containing quoted speech counts as one line of dialogue. Speakers are
+ * resolved in order of confidence:
+ * 1. Speech tags next to the quote ("...," Mara said / said Mara / Mara asked, "...")
+ * 2. Pronoun tags ("...," she said) resolved to the most recently mentioned character
+ * 3. Action beats: exactly one known character named in the paragraph's narration
+ * 4. Turn-taking: an untagged reply in a two-person exchange goes to the earlier speaker
+ */
+
+import type { DialogueAnalysis, DialogueBreakdown } from '../types';
+
+/** Scene text and placement for analysis */
+export interface DialogueSceneInput {
+    name: string;
+    chapterName?: string;
+    content: string;
+}
+
+/** One attributed (or unattributed) line of dialogue */
+export interface DialogueLine {
+    sceneName: string;
+    chapterName?: string;
+    text: string;
+    speaker?: string;
+    method?: 'tag' | 'pronoun' | 'beat' | 'turn';
+}
+
+const SPEECH_VERBS = [
+    'said', 'says', 'say', 'asked', 'asks', 'ask', 'replied', 'replies', 'answered', 'answers',
+    'whispered', 'whispers', 'shouted', 'shouts', 'yelled', 'yells', 'muttered', 'mutters',
+    'murmured', 'murmurs', 'called', 'calls', 'cried', 'cries', 'exclaimed', 'exclaims',
+    'added', 'adds', 'continued', 'continues', 'snapped', 'snaps', 'hissed', 'hisses',
+    'growled', 'growls', 'laughed', 'laughs', 'sighed', 'sighs', 'insisted', 'insists',
+    'demanded', 'demands', 'explained', 'explains', 'warned', 'warns', 'told', 'tells',
+    'began', 'begins', 'breathed', 'screamed', 'screams', 'grumbled', 'grumbles',
+    'admitted', 'admits', 'agreed', 'agrees', 'offered', 'offers', 'protested', 'protests',
+    'repeated', 'repeats', 'responded', 'responds', 'stammered', 'stammers', 'suggested', 'suggests',
+    'interrupted', 'interrupts', 'declared', 'declares', 'announced', 'announces', 'wondered', 'wonders'
+];
+
+const PRONOUNS = ['he', 'she', 'they', 'He', 'She', 'They'];
+
+/** Straight, curly and guillemet double quotes */
+const QUOTE_PATTERN = /"([^"\n]+)"|“([^”\n]+)”|«([^»\n]+)»/g;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/** Quoted passages in one paragraph, with their positions */
+export function findQuotes(paragraph: string): Array<{ start: number; end: number; text: string }> {
+    const quotes: Array<{ start: number; end: number; text: string }> = [];
+    QUOTE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = QUOTE_PATTERN.exec(paragraph)) !== null) {
+        quotes.push({ start: match.index, end: match.index + match[0].length, text: match[1] ?? match[2] ?? match[3] });
+    }
+    return quotes;
+}
+
+const SPEECH_TAG = new RegExp(`\\b(?:${SPEECH_VERBS.join('|')})\\b`, 'i');
+
+/** Whether narration next to a quote is only a short speech tag (", Mara said.") */
+export function isSpeechTag(narration: string): boolean {
+    const words = narration.split(/\s+/).filter(w => /\w/.test(w));
+    return words.length > 0 && words.length <= 5 && SPEECH_TAG.test(narration);
+}
+
+/** Percentage of words that are dialogue, rounded to one decimal */
+function densityOf(dialogueWords: number, totalWords: number): number {
+    return totalWords > 0 ? Math.round((dialogueWords / totalWords) * 1000) / 10 : 0;
+}
+
+/**
+ * Map every name form we recognise to the canonical character name.
+ * First names are included when they are unambiguous across the cast.
+ */
+export function buildNameIndex(characterNames: string[]): Map<string, string> {
+    const index = new Map<string, string>();
+    const firstNameCounts = new Map<string, number>();
+    for (const name of characterNames) {
+        const first = name.trim().split(/\s+/)[0];
+        if (first && first !== name.trim()) firstNameCounts.set(first, (firstNameCounts.get(first) || 0) + 1);
+    }
+    for (const raw of characterNames) {
+        const name = raw.trim();
+        if (!name) continue;
+        index.set(name, name);
+        const first = name.split(/\s+/)[0];
+        if (first !== name && first.length >= 3 && firstNameCounts.get(first) === 1 && !index.has(first)) {
+            index.set(first, name);
+        }
+    }
+    return index;
+}
+
+/**
+ * Attribute dialogue lines for a set of scenes
+ */
+export class DialogueAnalyzer {
+    private names: Map<string, string>;
+    private nameMention: RegExp | null;
+    private tagAfter: RegExp | null;
+    private tagBefore: RegExp | null;
+    private pronounAfter: RegExp;
+
+    constructor(characterNames: string[]) {
+        this.names = buildNameIndex(characterNames);
+        const verbs = SPEECH_VERBS.join('|');
+        const pronouns = PRONOUNS.join('|');
+        this.pronounAfter = new RegExp(`^[\\s,.!?\\u2014\\u2013-]*(?:${pronouns})\\s+(?:\\w+ly\\s+)?(?:${verbs})\\b`);
+
+        const forms = Array.from(this.names.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+        if (forms.length === 0) {
+            this.nameMention = this.tagAfter = this.tagBefore = null;
+            return;
+        }
+        const names = forms.join('|');
+        // No lookbehind: older iOS WebViews don't support it
+        this.nameMention = new RegExp(`(?:^|[^\\w'])(${names})(?![\\w])`, 'g');
+        // Text right after a closing quote: ', Mara said' / ', said Mara' / ' Mara quietly asked'
+        this.tagAfter = new RegExp(
+            `^[\\s,.!?\\u2014\\u2013-]*(?:(${names})\\s+(?:\\w+ly\\s+)?(?:${verbs})\\b|(?:${verbs})\\s+(${names})(?![\\w]))`
+        );
+        // Text right before an opening quote: 'Mara said, ' / 'Mara:'
+        this.tagBefore = new RegExp(
+            `(?:(${names})\\s+(?:\\w+ly\\s+)?(?:${verbs})|(?:${verbs})\\s+(${names})|(${names}))\\s*[,:]?\\s*$`
+        );
+    }
+
+    /** Canonical character name for a matched name form */
+    private canonical(form: string | undefined): string | undefined {
+        return form ? this.names.get(form) : undefined;
+    }
+
+    /** Character names mentioned in narration, in order of appearance */
+    private mentions(text: string): string[] {
+        if (!this.nameMention) return [];
+        const found: string[] = [];
+        this.nameMention.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = this.nameMention.exec(text)) !== null) {
+            const name = this.canonical(match[1]);
+            if (name) found.push(name);
+        }
+        return found;
+    }
+
+    /**
+     * Find and attribute dialogue in one scene
+     */
+    analyzeScene(scene: DialogueSceneInput): DialogueLine[] {
+        const lines: DialogueLine[] = [];
+        let lastMentioned: string | undefined;
+        // Speakers of the current run of consecutive dialogue paragraphs
+        let exchange: Array<string | undefined> = [];
+
+        for (const paragraph of scene.content.split(/\n\s*\n/)) {
+            const quotes = findQuotes(paragraph);
+
+            if (quotes.length === 0) {
+                const mentioned = this.mentions(paragraph);
+                if (mentioned.length > 0) lastMentioned = mentioned[mentioned.length - 1];
+                if (paragraph.trim()) exchange = [];
+                continue;
+            }
+
+            // Narration between, before and after the quotes
+            const segments: string[] = [];
+            let cursor = 0;
+            for (const q of quotes) {
+                segments.push(paragraph.slice(cursor, q.start));
+                cursor = q.end;
+            }
+            segments.push(paragraph.slice(cursor));
+
+            let speaker: string | undefined;
+            let method: DialogueLine['method'];
+
+            // 1-2. Speech tags adjacent to any quote
+            for (let i = 0; i < quotes.length && !speaker; i++) {
+                const after = segments[i + 1];
+                const before = segments[i];
+                const afterTag = this.tagAfter?.exec(after);
+                if (afterTag) {
+                    speaker = this.canonical(afterTag[1] ?? afterTag[2]);
+                    method = 'tag';
+                    break;
+                }
+                const beforeTag = this.tagBefore?.exec(before);
+                if (beforeTag) {
+                    speaker = this.canonical(beforeTag[1] ?? beforeTag[2] ?? beforeTag[3]);
+                    method = 'tag';
+                    break;
+                }
+                if (this.pronounAfter.test(after) && lastMentioned) {
+                    speaker = lastMentioned;
+                    method = 'pronoun';
+                }
+            }
+
+            // 3. Action beat naming exactly one character
+            const narration = segments.join(' ');
+            const mentioned = this.mentions(narration);
+            if (!speaker) {
+                const distinct = Array.from(new Set(mentioned));
+                if (distinct.length === 1) {
+                    speaker = distinct[0];
+                    method = 'beat';
+                }
+            }
+
+            // 4. Alternating two-person exchange
+            if (!speaker && exchange.length >= 2) {
+                const [earlier, previous] = exchange.slice(-2);
+                if (earlier && previous && earlier !== previous) {
+                    speaker = earlier;
+                    method = 'turn';
+                }
+            }
+
+            if (mentioned.length > 0) lastMentioned = mentioned[mentioned.length - 1];
+            if (speaker) lastMentioned = speaker;
+            exchange.push(speaker);
+
+            lines.push({
+                sceneName: scene.name,
+                chapterName: scene.chapterName,
+                text: quotes.map(q => q.text).join(' … '),
+                speaker,
+                method
+            });
+        }
+        return lines;
+    }
+
+    /**
+     * Analyze all scenes and summarise by character, scene and chapter
+     */
+    analyze(scenes: DialogueSceneInput[]): DialogueAnalysis {
+        const byCharacter: Record<string, number> = {};
+        const byScene: DialogueBreakdown[] = [];
+        const chapterTotals = new Map<string, DialogueBreakdown>();
+        const chapterWords = new Map<string, { dialogue: number; total: number }>();
+        let totalLines = 0;
+        let unattributed = 0;
+        let dialogueWords = 0;
+        let totalWords = 0;
+
+        for (const scene of scenes) {
+            const lines = this.analyzeScene(scene);
+            const sceneWords = countWords(scene.content);
+            const sceneDialogueWords = lines.reduce((sum, l) => sum + countWords(l.text), 0);
+            const sceneBreakdown: DialogueBreakdown = {
+                name: scene.name,
+                chapterName: scene.chapterName,
+                totalLines: lines.length,
+                unattributed: 0,
+                byCharacter: {},
+                density: densityOf(sceneDialogueWords, sceneWords)
+            };
+            for (const line of lines) {
+                if (line.speaker) {
+                    sceneBreakdown.byCharacter[line.speaker] = (sceneBreakdown.byCharacter[line.speaker] || 0) + 1;
+                    byCharacter[line.speaker] = (byCharacter[line.speaker] || 0) + 1;
+                } else {
+                    sceneBreakdown.unattributed++;
+                }
+            }
+            byScene.push(sceneBreakdown);
+
+            const chapterKey = scene.chapterName || '';
+            const chapter = chapterTotals.get(chapterKey) ?? {
+                name: scene.chapterName || 'Unassigned',
+                totalLines: 0,
+                unattributed: 0,
+                byCharacter: {},
+                density: 0
+            };
+            const words = chapterWords.get(chapterKey) ?? { dialogue: 0, total: 0 };
+            chapter.totalLines += sceneBreakdown.totalLines;
+            chapter.unattributed += sceneBreakdown.unattributed;
+            for (const [name, count] of Object.entries(sceneBreakdown.byCharacter)) {
+                chapter.byCharacter[name] = (chapter.byCharacter[name] || 0) + count;
+            }
+            words.dialogue += sceneDialogueWords;
+            words.total += sceneWords;
+            chapter.density = densityOf(words.dialogue, words.total);
+            chapterTotals.set(chapterKey, chapter);
+            chapterWords.set(chapterKey, words);
+
+            totalLines += sceneBreakdown.totalLines;
+            unattributed += sceneBreakdown.unattributed;
+            dialogueWords += sceneDialogueWords;
+            totalWords += sceneWords;
+        }
+
+        return {
+            totalLines,
+            byCharacter,
+            density: densityOf(dialogueWords, totalWords),
+            unattributed,
+            byScene,
+            byChapter: Array.from(chapterTotals.values())
+        };
+    }
+}
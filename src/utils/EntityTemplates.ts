@@ -72,6 +72,16 @@ export const ENTITY_TEMPLATES: Record<EntityType, Record<string, string>> = {
   calendar: {
     Description: '',
     History: '',
+  },
+  group: {
+    Description: '',
+    History: '',
+    Structure: '',
+    Goals: '',
+    Resources: '',
+  },
+  gallery: {
+    Description: '',
   }
 };
 
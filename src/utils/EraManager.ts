@@ -15,17 +15,17 @@ export class EraManager {
     }
 
     /**
-     * Get all eras from settings
+     * Get the active story's eras from settings
      */
     async getEras(): Promise<TimelineEra[]> {
-        return this.plugin.settings.timelineEras || [];
+        return this.plugin.getTimelineEras();
     }
 
     /**
-     * Save eras to settings
+     * Save the active story's eras to settings
      */
     async saveEras(eras: TimelineEra[]): Promise<void> {
-        this.plugin.settings.timelineEras = eras;
+        this.plugin.setStoryRecords('timelineEras', eras);
         await this.plugin.saveSettings();
     }
 
@@ -466,7 +466,10 @@ export class EraManager {
             return 'Unknown duration';
         }
 
-        const diff = endParsed.start.diff(startParsed.start, ['years', 'months', 'days']);
+        // Custom calendars have their own month and year lengths
+        const diff = startParsed.calendar && startParsed.calendarDate && endParsed.calendarDate
+            ? startParsed.calendar.diff(startParsed.calendarDate, endParsed.calendarDate)
+            : endParsed.start.diff(startParsed.start, ['years', 'months', 'days']);
 
         if (diff.years > 0) {
             const months = Math.round(diff.months);
@@ -0,0 +1,147 @@
+/**
+ * FactionDiplomacy - Stances between factions and their power over story time
+ *
+ * A relationship's `relationshipType` is the stance before its first dated change; each
+ * change applies from its date (or its event's date) on. Power snapshots work the same way
+ * for `militaryPower`, `economicPower` and `politicalInfluence`. Times are epoch
+ * milliseconds from parseEventDate; undated changes are ignored.
+ */
+
+import type { Event, Group, GroupPowerSnapshot, GroupRelationship, GroupStanceChange } from '../types';
+import { parseEventDate, toMillis } from './DateParsing';
+import { findEvent, plainRef, sameRef } from './ItemCustody';
+
+export type Stance = GroupRelationship['relationshipType'];
+
+/** Stances from warmest to coldest */
+export const STANCES: Stance[] = ['allied', 'friendly', 'neutral', 'rival', 'hostile', 'at-war'];
+
+export const STANCE_LABELS: Record<Stance, string> = {
+    allied: 'Allied',
+    friendly: 'Friendly',
+    neutral: 'Neutral',
+    rival: 'Rival',
+    hostile: 'Hostile',
+    'at-war': 'At War'
+};
+
+export const POWER_METRICS = ['militaryPower', 'economicPower', 'politicalInfluence'] as const;
+export type PowerMetric = typeof POWER_METRICS[number];
+export type PowerRatings = Partial<Record<PowerMetric, number>>;
+
+export const POWER_LABELS: Record<PowerMetric, string> = {
+    militaryPower: 'Military Power',
+    economicPower: 'Economic Power',
+    politicalInfluence: 'Political Influence'
+};
+
+/** Stance between two factions at a moment */
+export interface StanceAt {
+    stance: Stance;
+    /** Relationship the stance comes from; it may be stored on either faction */
+    relationship: GroupRelationship;
+    /** Faction storing the relationship */
+    owner: Group;
+    /** Change that set the stance; undefined for the starting stance */
+    change?: GroupStanceChange;
+}
+
+/** A dated moment at which diplomacy or power changed, for scrubbing */
+export interface DiplomacyMoment {
+    time: number;
+    label: string;
+}
+
+const FACTION_TYPES = new Set(['faction', 'organization', 'guild', 'political', 'military', 'religious']);
+
+/** Whether a group takes part in diplomacy: a faction-like type, relationships or power ratings */
+export function isFaction(group: Group): boolean {
+    if (group.groupType && FACTION_TYPES.has(group.groupType)) return true;
+    if (group.groupRelationships?.length || group.powerHistory?.length) return true;
+    return POWER_METRICS.some(metric => group[metric] !== undefined);
+}
+
+/** Start of a change's date, falling back to its event's date */
+export function changeTime(change: { date?: string; event?: string }, events: Event[], referenceDate?: Date): number | undefined {
+    for (const value of [change.date, findEvent(events, change.event)?.dateTime]) {
+        if (!value || !value.trim()) continue;
+        const parsed = parseEventDate(value, { referenceDate });
+        const ms = parsed.error ? undefined : toMillis(parsed.start);
+        if (ms !== undefined) return ms;
+    }
+    return undefined;
+}
+
+/** Relationship one faction records towards another */
+export function findRelationship(from: Group, to: Group): GroupRelationship | undefined {
+    return (from.groupRelationships || []).find(rel => rel.groupName === to.id || sameRef(rel.groupName, to.name));
+}
+
+/** Dated changes of a relationship in chronological order */
+export function datedChanges(
+    relationship: GroupRelationship,
+    events: Event[],
+    referenceDate?: Date
+): Array<{ time: number; change: GroupStanceChange }> {
+    return (relationship.changes || [])
+        .map(change => ({ time: changeTime(change, events, referenceDate), change }))
+        .filter((entry): entry is { time: number; change: GroupStanceChange } => entry.time !== undefined)
+        .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Stance between two factions at a moment (the latest when no time is given)
+ * The first faction's record wins when both record the relationship.
+ */
+export function stanceBetween(a: Group, b: Group, events: Event[], time = Infinity, referenceDate?: Date): StanceAt | undefined {
+    let owner = a;
+    let relationship = findRelationship(a, b);
+    if (!relationship) {
+        owner = b;
+        relationship = findRelationship(b, a);
+    }
+    if (!relationship) return undefined;
+
+    const result: StanceAt = { stance: relationship.relationshipType || 'neutral', relationship, owner };
+    for (const { time: at, change } of datedChanges(relationship, events, referenceDate)) {
+        if (at > time) break;
+        result.stance = change.relationshipType;
+        result.change = change;
+    }
+    return result;
+}
+
+/** A faction's power ratings at a moment (the latest when no time is given) */
+export function powerAt(group: Group, events: Event[], time = Infinity, referenceDate?: Date): PowerRatings {
+    const ratings: PowerRatings = {};
+    POWER_METRICS.forEach(metric => { if (group[metric] !== undefined) ratings[metric] = group[metric]; });
+
+    const snapshots = (group.powerHistory || [])
+        .map(snapshot => ({ time: changeTime(snapshot, events, referenceDate), snapshot }))
+        .filter((entry): entry is { time: number; snapshot: GroupPowerSnapshot } => entry.time !== undefined && entry.time <= time)
+        .sort((a, b) => a.time - b.time);
+    for (const { snapshot } of snapshots) {
+        POWER_METRICS.forEach(metric => {
+            const value = snapshot[metric];
+            if (typeof value === 'number' && !isNaN(value)) ratings[metric] = value;
+        });
+    }
+    return ratings;
+}
+
+/** Every dated stance change and power snapshot among the factions, in order, one per time */
+export function diplomacyMoments(factions: Group[], events: Event[], referenceDate?: Date): DiplomacyMoment[] {
+    const byTime = new Map<number, string>();
+    const add = (entry: { date?: string; event?: string }) => {
+        const time = changeTime(entry, events, referenceDate);
+        if (time === undefined || byTime.has(time)) return;
+        byTime.set(time, plainRef(entry.event) || entry.date || '');
+    };
+    for (const faction of factions) {
+        (faction.groupRelationships || []).forEach(rel => (rel.changes || []).forEach(add));
+        (faction.powerHistory || []).forEach(add);
+    }
+    return Array.from(byTime.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([time, label]) => ({ time, label }));
+}
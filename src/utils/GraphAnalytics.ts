@@ -0,0 +1,264 @@
+/**
+ * GraphAnalytics - Centrality, communities and shortest paths over the network graph
+ *
+ * Works on the GraphNode/GraphEdge data built for the network view. Edges are treated as
+ * undirected and each connected pair counts once, so mirrored relationships don't weigh
+ * double. Centrality scores are normalized to 0..1.
+ */
+
+import type { GraphEdge, GraphNode } from '../types';
+
+export type CentralityMetric = 'degree' | 'betweenness' | 'eigenvector';
+
+export const CENTRALITY_LABELS: Record<CentralityMetric, string> = {
+    degree: 'Degree',
+    betweenness: 'Betweenness',
+    eigenvector: 'Eigenvector'
+};
+
+/** Scores and community of one node */
+export interface NodeMetrics {
+    degree: number;
+    betweenness: number;
+    eigenvector: number;
+    /** Index into GraphAnalysis.communities */
+    community: number;
+}
+
+export interface GraphAnalysis {
+    metrics: Map<string, NodeMetrics>;
+    /** Node ids per community, largest first */
+    communities: string[][];
+}
+
+/** Undirected neighbor sets, ignoring self-loops and edges to unknown nodes */
+export function buildAdjacency(nodes: GraphNode[], edges: GraphEdge[]): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>();
+    nodes.forEach(node => adjacency.set(node.id, new Set()));
+    edges.forEach(edge => {
+        if (edge.source === edge.target) return;
+        const from = adjacency.get(edge.source);
+        const to = adjacency.get(edge.target);
+        if (!from || !to) return;
+        from.add(edge.target);
+        to.add(edge.source);
+    });
+    return adjacency;
+}
+
+/** Node ids and, per node, the indices of its neighbors */
+function indexAdjacency(adjacency: Map<string, Set<string>>, sorted = false): { ids: string[]; neighbors: number[][] } {
+    const ids = Array.from(adjacency.keys());
+    if (sorted) ids.sort();
+    const index = new Map(ids.map((id, i) => [id, i]));
+    const neighbors = ids.map(id => Array.from(adjacency.get(id) || []).map(n => index.get(n) ?? -1).filter(i => i >= 0));
+    return { ids, neighbors };
+}
+
+/** Scores per node id from scores per index */
+function byId(ids: string[], scores: number[]): Map<string, number> {
+    return new Map(ids.map((id, i) => [id, scores[i]]));
+}
+
+/** Share of the other nodes each node connects to */
+export function degreeCentrality(adjacency: Map<string, Set<string>>): Map<string, number> {
+    const scale = Math.max(1, adjacency.size - 1);
+    const scores = new Map<string, number>();
+    adjacency.forEach((neighbors, id) => scores.set(id, neighbors.size / scale));
+    return scores;
+}
+
+/** Share of shortest paths between other nodes that pass through each node (Brandes) */
+export function betweennessCentrality(adjacency: Map<string, Set<string>>): Map<string, number> {
+    const { ids, neighbors } = indexAdjacency(adjacency);
+    const n = ids.length;
+    const scores = new Array<number>(n).fill(0);
+
+    for (let source = 0; source < n; source++) {
+        const stack: number[] = [];
+        const predecessors: number[][] = ids.map(() => []);
+        const paths = new Array<number>(n).fill(0);
+        const distance = new Array<number>(n).fill(-1);
+        paths[source] = 1;
+        distance[source] = 0;
+
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
+            stack.push(current);
+            for (const next of neighbors[current]) {
+                if (distance[next] < 0) {
+                    distance[next] = distance[current] + 1;
+                    queue.push(next);
+                }
+                if (distance[next] === distance[current] + 1) {
+                    paths[next] += paths[current];
+                    predecessors[next].push(current);
+                }
+            }
+        }
+
+        const dependency = new Array<number>(n).fill(0);
+        for (let i = stack.length - 1; i >= 0; i--) {
+            const current = stack[i];
+            for (const previous of predecessors[current]) {
+                dependency[previous] += (paths[previous] / paths[current]) * (1 + dependency[current]);
+            }
+            if (current !== source) scores[current] += dependency[current];
+        }
+    }
+
+    // Each undirected path was counted from both ends
+    const pairs = ((n - 1) * (n - 2)) / 2;
+    return byId(ids, scores.map(score => pairs > 0 ? score / 2 / pairs : 0));
+}
+
+/** Influence from being connected to other well-connected nodes (power iteration) */
+export function eigenvectorCentrality(adjacency: Map<string, Set<string>>, iterations = 100): Map<string, number> {
+    const { ids, neighbors } = indexAdjacency(adjacency);
+    let scores = ids.map(() => 1);
+
+    for (let i = 0; i < iterations; i++) {
+        // Adding each node's own score keeps the iteration from oscillating on bipartite graphs
+        const next = scores.map((score, node) => neighbors[node].reduce((sum, neighbor) => sum + scores[neighbor], score));
+        const max = Math.max(0, ...next);
+        if (max === 0) break;
+        const normalized = next.map(value => value / max);
+        const delta = normalized.reduce((sum, value, node) => sum + Math.abs(value - scores[node]), 0);
+        scores = normalized;
+        if (delta < 1e-9) break;
+    }
+
+    // Isolated nodes carry no influence
+    return byId(ids, scores.map((score, node) => neighbors[node].length === 0 ? 0 : score));
+}
+
+/**
+ * Group nodes into communities by modularity (the local-moving phase of Louvain)
+ * Each node joins the neighboring community that raises modularity most, until no move helps.
+ * Nodes are visited in a fixed order and ties go to the first community found, so results are stable.
+ */
+export function detectCommunities(adjacency: Map<string, Set<string>>, maxRounds = 50): string[][] {
+    const { ids, neighbors } = indexAdjacency(adjacency, true);
+    const community = ids.map((_, i) => i);
+    const totals = neighbors.map(list => list.length);
+    const twiceEdges = totals.reduce((sum, degree) => sum + degree, 0);
+
+    for (let round = 0; round < maxRounds && twiceEdges > 0; round++) {
+        let moved = false;
+        for (let node = 0; node < ids.length; node++) {
+            const degree = neighbors[node].length;
+            if (degree === 0) continue;
+            const current = community[node];
+            totals[current] -= degree;
+
+            // Links from this node into each neighboring community
+            const links = new Map<number, number>();
+            neighbors[node].forEach(neighbor => {
+                const c = community[neighbor];
+                links.set(c, (links.get(c) || 0) + 1);
+            });
+
+            const gain = (c: number) => (links.get(c) || 0) - (totals[c] * degree) / twiceEdges;
+            let best = current;
+            let bestGain = gain(current);
+            links.forEach((_, c) => {
+                if (gain(c) > bestGain + 1e-12) {
+                    best = c;
+                    bestGain = gain(c);
+                }
+            });
+
+            totals[best] += degree;
+            if (best !== current) {
+                community[node] = best;
+                moved = true;
+            }
+        }
+        if (!moved) break;
+    }
+
+    const groups = new Map<number, string[]>();
+    ids.forEach((id, node) => {
+        const members = groups.get(community[node]);
+        if (members) members.push(id);
+        else groups.set(community[node], [id]);
+    });
+    return Array.from(groups.values()).sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+}
+
+/** Centrality scores and communities for every node */
+export function analyzeGraph(nodes: GraphNode[], edges: GraphEdge[]): GraphAnalysis {
+    const adjacency = buildAdjacency(nodes, edges);
+    const degree = degreeCentrality(adjacency);
+    const betweenness = betweennessCentrality(adjacency);
+    const eigenvector = eigenvectorCentrality(adjacency);
+    const communities = detectCommunities(adjacency);
+
+    const metrics = new Map<string, NodeMetrics>();
+    communities.forEach((members, community) => members.forEach(id => metrics.set(id, {
+        degree: degree.get(id) || 0,
+        betweenness: betweenness.get(id) || 0,
+        eigenvector: eigenvector.get(id) || 0,
+        community
+    })));
+    return { metrics, communities };
+}
+
+/** Node ids along a shortest chain between two nodes, or null when they aren't connected */
+export function shortestPath(nodes: GraphNode[], edges: GraphEdge[], from: string, to: string): string[] | null {
+    const adjacency = buildAdjacency(nodes, edges);
+    if (!adjacency.has(from) || !adjacency.has(to)) return null;
+
+    const previous = new Map<string, string | null>([[from, null]]);
+    const queue = [from];
+    for (let head = 0; head < queue.length && !previous.has(to); head++) {
+        const current = queue[head];
+        for (const next of adjacency.get(current) || []) {
+            if (previous.has(next)) continue;
+            previous.set(next, current);
+            queue.push(next);
+        }
+    }
+    if (!previous.has(to)) return null;
+
+    const path: string[] = [];
+    for (let at: string | null = to; at !== null; at = previous.get(at) ?? null) path.unshift(at);
+    return path;
+}
+
+/** Markdown note with the ranked centralities, communities and an optional connection path */
+export function formatAnalysisReport(nodes: GraphNode[], analysis: GraphAnalysis, path?: string[] | null): string {
+    const labels = new Map(nodes.map(node => [node.id, node.label]));
+    const link = (id: string) => `[[${labels.get(id) || id}]]`;
+    const score = (value: number) => value.toFixed(3);
+
+    let report = `# Network Analysis\n\n`;
+    report += `Generated: ${new Date().toLocaleString()}\n\n`;
+    report += `- **Nodes**: ${nodes.length}\n`;
+    report += `- **Communities**: ${analysis.communities.length}\n\n`;
+
+    report += `## Centrality\n\n`;
+    report += `| Entity | Type | Degree | Betweenness | Eigenvector | Community |\n`;
+    report += `| --- | --- | --- | --- | --- | --- |\n`;
+    const ranked = [...nodes].sort((a, b) =>
+        (analysis.metrics.get(b.id)?.degree || 0) - (analysis.metrics.get(a.id)?.degree || 0) ||
+        a.label.localeCompare(b.label));
+    ranked.forEach(node => {
+        const m = analysis.metrics.get(node.id);
+        if (!m) return;
+        report += `| ${link(node.id)} | ${node.type} | ${score(m.degree)} | ${score(m.betweenness)} | ${score(m.eigenvector)} | ${m.community + 1} |\n`;
+    });
+
+    report += `\n## Communities\n\n`;
+    analysis.communities.forEach((members, i) => {
+        report += `### Community ${i + 1} (${members.length})\n\n`;
+        report += members.map(id => `- ${link(id)}`).join('\n') + '\n\n';
+    });
+
+    if (path && path.length > 0) {
+        report += `## Connection\n\n`;
+        report += path.map(link).join(' → ') + '\n';
+    }
+    return report;
+}
@@ -1,6 +1,61 @@
 // Utilities for processing network graph data and relationships
 
-import { Character, Location, Event, PlotItem, TypedRelationship, RelationshipType, GraphNode, GraphEdge } from '../types';
+import {
+    Character, Location, Event, PlotItem, Scene, Culture, Economy, MagicSystem, Group,
+    TypedRelationship, RelationshipType, GraphNode, GraphEdge, GraphEntityType, GroupRelationship
+} from '../types';
+import { relationshipAt } from './RelationshipHistory';
+import { datedChanges } from './FactionDiplomacy';
+
+// Every entity type the network graph can show, in filter order
+export const GRAPH_ENTITY_TYPES: GraphEntityType[] = [
+    'character', 'location', 'event', 'item', 'culture', 'economy', 'magicSystem', 'group'
+];
+
+// i18n key of each entity type's plural label
+export const GRAPH_ENTITY_LABEL_KEYS = {
+    character: 'characters',
+    location: 'locations',
+    event: 'events',
+    item: 'items',
+    culture: 'cultures',
+    economy: 'economies',
+    magicSystem: 'magicSystems',
+    group: 'groups'
+} as const;
+
+// World-building entities that can join the graph alongside characters, locations, events and items
+export interface WorldEntities {
+    cultures?: Culture[];
+    economies?: Economy[];
+    magicSystems?: MagicSystem[];
+    groups?: Group[];
+}
+
+// Graph relationship type for a faction stance
+const STANCE_RELATIONSHIP: Record<GroupRelationship['relationshipType'], RelationshipType> = {
+    allied: 'ally',
+    friendly: 'ally',
+    neutral: 'neutral',
+    rival: 'rival',
+    hostile: 'enemy',
+    'at-war': 'enemy'
+};
+
+// Options for resolving relationship histories while extracting edges
+export interface RelationshipTimeOptions {
+    // Story time (epoch ms) to show relationships at; the latest state when omitted
+    time?: number;
+    // Events and scenes that date history changes (defaults to the graph's events)
+    events?: Event[];
+    scenes?: Scene[];
+    referenceDate?: Date;
+}
+
+// Options for extracting edges: relationship time plus world-building entities to include
+export interface ExtractRelationshipOptions extends RelationshipTimeOptions {
+    world?: WorldEntities;
+}
 
 // Extract all relationships from a collection of entities
 // Handles both old string[] format and new TypedRelationship[] format
@@ -8,9 +63,29 @@ export function extractAllRelationships(
     characters: Character[],
     locations: Location[],
     events: Event[],
-    items: PlotItem[]
+    items: PlotItem[],
+    options: ExtractRelationshipOptions = {}
 ): GraphEdge[] {
     const edges: GraphEdge[] = [];
+    const world = options.world || {};
+    const datingEvents = options.events || events;
+    const cultures = world.cultures || [];
+    const economies = world.economies || [];
+    const magicSystems = world.magicSystems || [];
+    const groups = world.groups || [];
+
+    // Edge for a typed relationship as it stands at the requested time
+    const typedEdge = (source: string, target: string, rel: TypedRelationship): GraphEdge => {
+        const state = relationshipAt(rel, datingEvents, options.scenes, options.time, options.referenceDate);
+        return {
+            source,
+            target,
+            relationshipType: state.type,
+            label: state.label,
+            direction: rel.direction,
+            intensity: state.intensity
+        };
+    };
     const entityMap = new Map<string, GraphNode>();
 
     // Build entity lookup map
@@ -38,13 +113,37 @@ export function extractAllRelationships(
         type: 'item',
         data: i
     }));
+    const addWorldNode = (entity: Culture | Economy | MagicSystem | Group, type: GraphEntityType) =>
+        entityMap.set(entity.id || entity.name, { id: entity.id || entity.name, label: entity.name, type, data: entity });
+    cultures.forEach(c => addWorldNode(c, 'culture'));
+    economies.forEach(e => addWorldNode(e, 'economy'));
+    magicSystems.forEach(m => addWorldNode(m, 'magicSystem'));
+    groups.forEach(g => addWorldNode(g, 'group'));
+
+    // Implicit edge from a field reference; `eitherWay` skips pairs already linked in reverse
+    const linkTo = (sourceId: string, refs: string | string[] | undefined, label: string, eitherWay = false) => {
+        (Array.isArray(refs) ? refs : refs ? [refs] : []).forEach(ref => {
+            const targetId = resolveEntityId(ref, entityMap);
+            if (!targetId || targetId === sourceId) return;
+            const linked = edges.some(e =>
+                (e.source === sourceId && e.target === targetId) ||
+                (eitherWay && e.source === targetId && e.target === sourceId));
+            if (!linked) {
+                edges.push({ source: sourceId, target: targetId, relationshipType: 'neutral', label });
+            }
+        });
+    };
 
     // Extract edges from each entity type
     const allEntities = [
         ...characters.map(c => ({ entity: c, type: 'character' as const })),
         ...locations.map(l => ({ entity: l, type: 'location' as const })),
         ...events.map(e => ({ entity: e, type: 'event' as const })),
-        ...items.map(i => ({ entity: i, type: 'item' as const }))
+        ...items.map(i => ({ entity: i, type: 'item' as const })),
+        ...cultures.map(c => ({ entity: c, type: 'culture' as const })),
+        ...economies.map(e => ({ entity: e, type: 'economy' as const })),
+        ...magicSystems.map(m => ({ entity: m, type: 'magicSystem' as const })),
+        ...groups.map(g => ({ entity: g, type: 'group' as const }))
     ];
 
     allEntities.forEach(({ entity, type }) => {
@@ -55,12 +154,7 @@ export function extractAllRelationships(
             entity.connections.forEach(conn => {
                 const targetId = resolveEntityId(conn.target, entityMap);
                 if (targetId) {
-                    edges.push({
-                        source: sourceId,
-                        target: targetId,
-                        relationshipType: conn.type,
-                        label: conn.label
-                    });
+                    edges.push(typedEdge(sourceId, targetId, conn));
                 }
             });
         }
@@ -84,12 +178,7 @@ export function extractAllRelationships(
                     // TypedRelationship
                     const targetId = resolveEntityId(rel.target, entityMap);
                     if (targetId) {
-                        edges.push({
-                            source: sourceId,
-                            target: targetId,
-                            relationshipType: rel.type,
-                            label: rel.label
-                        });
+                        edges.push(typedEdge(sourceId, targetId, rel));
                     }
                 }
             });
@@ -207,19 +296,87 @@ export function extractAllRelationships(
                 });
             }
         }
+
+        // Any entity -> groups it belongs to (by group id)
+        if (type !== 'group' && 'groups' in entity) {
+            linkTo(sourceId, entity.groups, 'member of', true);
+        }
+
+        // Cultures -> locations, characters, events, related and parent cultures
+        if (type === 'culture') {
+            const culture = entity as Culture;
+            linkTo(sourceId, culture.linkedLocations, 'prevalent in');
+            linkTo(sourceId, culture.linkedCharacters, 'member', true);
+            linkTo(sourceId, culture.linkedEvents, 'significant');
+            linkTo(sourceId, culture.relatedCultures, 'related', true);
+            linkTo(sourceId, culture.parentCulture, 'derived from');
+        }
+
+        // Economies -> locations, factions, cultures, events; trade routes link their endpoints
+        if (type === 'economy') {
+            const economy = entity as Economy;
+            linkTo(sourceId, economy.linkedLocations, 'used in');
+            linkTo(sourceId, economy.linkedFactions, 'controlled by');
+            linkTo(sourceId, economy.linkedCultures, 'participant');
+            linkTo(sourceId, economy.linkedEvents, 'affected by');
+            economy.tradeRoutes?.forEach(route => {
+                const originId = route.origin ? resolveEntityId(route.origin, entityMap) : null;
+                if (originId) linkTo(originId, route.destination, route.name ? `trade: ${route.name}` : 'trade route');
+            });
+        }
+
+        // Magic systems -> practitioners, locations, cultures, events, items
+        if (type === 'magicSystem') {
+            const magic = entity as MagicSystem;
+            linkTo(sourceId, magic.linkedCharacters, 'practitioner');
+            linkTo(sourceId, magic.linkedLocations, 'practiced in');
+            linkTo(sourceId, magic.linkedCultures, 'used by');
+            linkTo(sourceId, magic.linkedEvents, 'featured in');
+            linkTo(sourceId, magic.linkedItems, 'artifact');
+        }
+
+        // Groups -> members, territories, culture, events, parent and sub-groups, other factions
+        if (type === 'group') {
+            const group = entity as Group;
+            group.members?.forEach(member => linkTo(sourceId, member.id || member.name, member.rank || 'member', true));
+            linkTo(sourceId, group.territories, 'controls');
+            linkTo(sourceId, group.linkedCulture, 'culture');
+            linkTo(sourceId, group.linkedEvents, 'involved');
+            linkTo(sourceId, group.parentGroup, 'part of', true);
+            linkTo(sourceId, group.subgroups, 'subgroup', true);
+
+            // Faction stances, as they stand at the requested time
+            group.groupRelationships?.forEach(rel => {
+                const targetId = resolveEntityId(rel.groupName, entityMap);
+                if (!targetId || targetId === sourceId) return;
+                let stance = rel.relationshipType || 'neutral';
+                for (const { time, change } of datedChanges(rel, datingEvents, options.referenceDate)) {
+                    if (time > (options.time ?? Infinity)) break;
+                    stance = change.relationshipType;
+                }
+                edges.push({
+                    source: sourceId,
+                    target: targetId,
+                    relationshipType: STANCE_RELATIONSHIP[stance],
+                    label: stance,
+                    direction: 'mutual'
+                });
+            });
+        }
     });
 
     return edges;
 }
 
 // Build bidirectional edges where appropriate
-// Some relationships should be shown in both directions
+// Some relationships should be shown in both directions; an explicit direction wins over the type
 export function buildBidirectionalEdges(edges: GraphEdge[]): GraphEdge[] {
     const bidirectionalTypes: RelationshipType[] = ['family', 'ally', 'rival', 'romantic'];
     const newEdges: GraphEdge[] = [...edges];
 
     edges.forEach(edge => {
-        if (bidirectionalTypes.includes(edge.relationshipType)) {
+        if (edge.direction === 'one-way') return;
+        if (edge.direction === 'mutual' || bidirectionalTypes.includes(edge.relationshipType)) {
             // Check if reverse edge already exists
             const reverseExists = edges.some(e => 
                 e.source === edge.target && e.target === edge.source
@@ -229,7 +386,9 @@ export function buildBidirectionalEdges(edges: GraphEdge[]): GraphEdge[] {
                     source: edge.target,
                     target: edge.source,
                     relationshipType: edge.relationshipType,
-                    label: edge.label
+                    label: edge.label,
+                    direction: edge.direction,
+                    intensity: edge.intensity
                 });
             }
         }
@@ -257,10 +416,10 @@ function resolveEntityId(nameOrId: string, entityMap: Map<string, GraphNode>): s
 }
 
 // Resolve entity by id or name
-export function resolveEntityById(
+export function resolveEntityById<T extends { id?: string; name: string }>(
     id: string,
-    entities: (Character | Location | Event | PlotItem)[]
-): Character | Location | Event | PlotItem | null {
+    entities: T[]
+): T | null {
     // Try exact id match
     let found = entities.find(e => e.id === id || e.name === id);
     if (found) return found;
@@ -288,12 +447,16 @@ export function getRelationshipColor(type: RelationshipType): string {
 }
 
 // Get shape for entity type
-export function getEntityShape(type: 'character' | 'location' | 'event' | 'item'): string {
+export function getEntityShape(type: GraphEntityType): string {
     const shapes: Record<string, string> = {
         'character': 'ellipse',
         'location': 'round-rectangle',
         'event': 'diamond',
-        'item': 'round-hexagon'
+        'item': 'round-hexagon',
+        'culture': 'round-octagon',
+        'economy': 'round-tag',
+        'magicSystem': 'star',
+        'group': 'round-pentagon'
     };
     return shapes[type] || 'ellipse';
 }
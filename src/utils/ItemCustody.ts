@@ -0,0 +1,89 @@
+/**
+ * ItemCustody - Who held an item, and where it was, over story time
+ *
+ * Custody entries are dated by `from`/`to`; an entry without `from` is dated by its
+ * transfer event. Times are epoch milliseconds from parseEventDate, as in MapTimeline,
+ * so custom calendars are respected.
+ */
+
+import type { Event, ItemCustodyEntry, PlotItem } from '../types';
+import { parseEventDate, toMillis } from './DateParsing';
+
+/** One dated period of an item's custody */
+export interface CustodyPeriod {
+    entry: ItemCustodyEntry;
+    /** Position of the entry in the item's custodyHistory */
+    index: number;
+    /** Start of the period; -Infinity when only an end is known */
+    start: number;
+    /** End of the period; the next period's start (or Infinity) when open-ended */
+    end: number;
+    /** The end was given explicitly rather than implied by the next transfer */
+    ended: boolean;
+}
+
+/** Strip wiki-link brackets and aliases from an entity reference */
+export function plainRef(ref?: string): string {
+    return (ref || '').replace(/^\[\[|\]\]$/g, '').split('|')[0].trim();
+}
+
+/** Whether two entity references name the same entity */
+export function sameRef(a?: string, b?: string): boolean {
+    const left = plainRef(a).toLowerCase();
+    return left !== '' && left === plainRef(b).toLowerCase();
+}
+
+/** Parse a story date to its start and end in milliseconds */
+function parseRange(value?: string, referenceDate?: Date): { start?: number; end?: number } {
+    if (!value || !value.trim()) return {};
+    const parsed = parseEventDate(value, { referenceDate });
+    if (parsed.error || !parsed.start) return {};
+    const start = toMillis(parsed.start);
+    return { start, end: toMillis(parsed.end) ?? start };
+}
+
+/** Find an event by name or id */
+export function findEvent(events: Event[], ref?: string): Event | undefined {
+    if (!ref) return undefined;
+    return events.find(e => (e.id && e.id === ref) || sameRef(e.name, ref));
+}
+
+/**
+ * Dated custody periods of an item in chronological order
+ * Entries that can't be dated (no `from`, `to` or datable event) are left out.
+ */
+export function buildCustodyChain(item: PlotItem, events: Event[] = [], referenceDate?: Date): CustodyPeriod[] {
+    const periods: CustodyPeriod[] = [];
+    (item.custodyHistory || []).forEach((entry, index) => {
+        let from = parseRange(entry.from, referenceDate).start;
+        if (from === undefined) from = parseRange(findEvent(events, entry.event)?.dateTime, referenceDate).start;
+        const to = parseRange(entry.to, referenceDate).end;
+        if (from === undefined && to === undefined) return;
+        periods.push({ entry, index, start: from ?? -Infinity, end: to ?? NaN, ended: to !== undefined });
+    });
+
+    periods.sort((a, b) => a.start - b.start || a.index - b.index);
+    // Open-ended periods last until the next transfer
+    periods.forEach((period, i) => {
+        if (isNaN(period.end)) period.end = i + 1 < periods.length ? periods[i + 1].start : Infinity;
+    });
+    return periods;
+}
+
+/** The custody period covering a moment, if any */
+export function holderAt(chain: CustodyPeriod[], time: number): CustodyPeriod | undefined {
+    let found: CustodyPeriod | undefined;
+    for (const period of chain) {
+        if (period.start > time) break;
+        if (time < period.end || (time === period.start && period.start === period.end)) found = period;
+    }
+    return found;
+}
+
+/** Short label for a custody entry: "owner @ location" */
+export function describeCustody(entry: ItemCustodyEntry): string {
+    const owner = plainRef(entry.owner);
+    const location = plainRef(entry.location);
+    if (owner && location) return `${owner} @ ${location}`;
+    return owner || location;
+}
@@ -0,0 +1,209 @@
+/**
+ * MagicRules - Where magic is used in the story, and which consistency rules those uses break
+ *
+ * An event uses a magic system when the system links it or its text names one of the
+ * system's abilities. Scenes depicting such an event add their prose, characters and items
+ * to that use; other scenes are uses of their own when they name the system or an ability.
+ * Times are epoch milliseconds from parseEventDate; scenes are dated by their earliest event.
+ */
+
+import type { ConsistencyRule, Event, MagicRuleCondition, MagicSystem, Scene } from '../types';
+import { eventTime, sceneTime } from './RelationshipHistory';
+import { plainRef, sameRef } from './ItemCustody';
+
+export type MagicRuleKind = MagicRuleCondition['kind'];
+
+export const MAGIC_RULE_KINDS: MagicRuleKind[] = ['requires-material', 'rest-between-uses', 'forbidden-location'];
+
+export const MAGIC_RULE_LABELS: Record<MagicRuleKind, string> = {
+    'requires-material': 'Requires material',
+    'rest-between-uses': 'Rest between uses',
+    'forbidden-location': 'Forbidden location'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** One use of a magic system in the story */
+export interface MagicUse {
+    system: MagicSystem;
+    /** Event the magic is used in; undefined for a use found only in a scene */
+    event?: Event;
+    /** Scenes the use is written in */
+    scenes: Scene[];
+    name: string;
+    time?: number;
+    /** Abilities named in the use; empty when only the system is linked */
+    abilities: string[];
+    /** Characters casting: the system's practitioners when any take part, else everyone present */
+    casters: string[];
+    locations: string[];
+    /** Linked items and text searched for materials */
+    items: string[];
+    text: string;
+}
+
+/** A use that breaks a consistency rule */
+export interface MagicRuleViolation {
+    rule: ConsistencyRule;
+    use: MagicUse;
+    /** Caster the violation concerns (rest-between-uses) */
+    caster?: string;
+    /** Earlier use that is too recent (rest-between-uses) */
+    previous?: MagicUse;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whether text names something, as a whole word and ignoring case */
+export function mentions(text: string, name?: string): boolean {
+    const plain = plainRef(name);
+    if (!plain || !text) return false;
+    return new RegExp(`(^|[^\\w])${escapeRegExp(plain)}(?![\\w])`, 'i').test(text);
+}
+
+/** Rule condition in words, e.g. "Fireball requires Phoenix Ash" */
+export function describeCondition(condition: MagicRuleCondition, systemName = 'Magic'): string {
+    const subject = condition.ability ? plainRef(condition.ability) : systemName;
+    switch (condition.kind) {
+        case 'requires-material':
+            return `${subject} requires ${plainRef(condition.material) || '?'}`;
+        case 'rest-between-uses':
+            return `${subject} needs ${condition.days ?? 0} day(s) of rest between uses`;
+        case 'forbidden-location':
+            return `${subject} can't be used at ${plainRef(condition.location) || '?'}`;
+    }
+}
+
+function addUnique(list: string[], values: string[]): void {
+    values.forEach(value => {
+        if (!list.some(existing => sameRef(existing, value))) list.push(value);
+    });
+}
+
+/** Abilities of a system named in some text */
+function namedAbilities(system: MagicSystem, text: string): string[] {
+    return (system.abilities || []).filter(ability => mentions(text, ability.name)).map(ability => ability.name);
+}
+
+/** Narrow characters present to the system's practitioners when any of them are there */
+function castersOf(system: MagicSystem, present: string[]): string[] {
+    const practitioners = present.filter(c => (system.linkedCharacters || []).some(p => sameRef(p, c)));
+    return (practitioners.length > 0 ? practitioners : present).map(plainRef);
+}
+
+/** Every use of a magic system across events and scenes, in story order with undated uses last */
+export function findMagicUses(system: MagicSystem, events: Event[], scenes: Scene[] = [], referenceDate?: Date): MagicUse[] {
+    const uses: MagicUse[] = [];
+
+    events.forEach(event => {
+        const text = [event.name, event.description, event.outcome, ...(event.tags || [])].filter(Boolean).join('\n');
+        const abilities = namedAbilities(system, text);
+        const linked = (system.linkedEvents || []).some(ref => ref === event.id || sameRef(ref, event.name));
+        if (!linked && abilities.length === 0) return;
+        uses.push({
+            system,
+            event,
+            scenes: [],
+            name: event.name,
+            time: eventTime(event, referenceDate),
+            abilities,
+            casters: [...(event.characters || [])],
+            locations: event.location ? [event.location] : [],
+            items: [],
+            text
+        });
+    });
+
+    scenes.forEach(scene => {
+        const text = [scene.name, scene.content].filter(Boolean).join('\n');
+        const depicted = uses.filter(use => {
+            const event = use.event;
+            return !!event && (scene.linkedEvents || []).some(ref => ref === event.id || sameRef(ref, event.name));
+        });
+        const abilities = namedAbilities(system, text);
+
+        if (depicted.length > 0) {
+            depicted.forEach(use => {
+                use.scenes.push(scene);
+                use.text += `\n${text}`;
+                addUnique(use.abilities, abilities);
+                addUnique(use.casters, scene.linkedCharacters || []);
+                addUnique(use.locations, scene.linkedLocations || []);
+                addUnique(use.items, scene.linkedItems || []);
+            });
+            return;
+        }
+        if (!mentions(text, system.name) && abilities.length === 0) return;
+        uses.push({
+            system,
+            scenes: [scene],
+            name: scene.name,
+            time: sceneTime(scene, events, referenceDate),
+            abilities,
+            casters: [...(scene.linkedCharacters || [])],
+            locations: [...(scene.linkedLocations || [])],
+            items: [...(scene.linkedItems || [])],
+            text
+        });
+    });
+
+    uses.forEach(use => { use.casters = castersOf(system, use.casters); });
+    return uses.sort((a, b) => (a.time ?? Infinity) - (b.time ?? Infinity) || 0);
+}
+
+/** Whether a rule's condition covers a use */
+function applies(condition: MagicRuleCondition, use: MagicUse): boolean {
+    return !condition.ability || use.abilities.some(ability => sameRef(ability, condition.ability));
+}
+
+/** Check a system's structured rules against its uses; rules without a condition are skipped */
+export function checkMagicRules(system: MagicSystem, uses: MagicUse[]): MagicRuleViolation[] {
+    const violations: MagicRuleViolation[] = [];
+
+    (system.consistencyRules || []).forEach(rule => {
+        const condition = rule.condition;
+        if (!condition) return;
+        const covered = uses.filter(use => applies(condition, use));
+
+        switch (condition.kind) {
+            case 'requires-material': {
+                const material = condition.material;
+                if (!plainRef(material)) return;
+                covered.forEach(use => {
+                    const involved = mentions(use.text, material) || use.items.some(item => sameRef(item, material));
+                    if (!involved) violations.push({ rule, use });
+                });
+                break;
+            }
+            case 'forbidden-location': {
+                const location = condition.location;
+                covered.forEach(use => {
+                    if (use.locations.some(l => sameRef(l, location))) violations.push({ rule, use });
+                });
+                break;
+            }
+            case 'rest-between-uses': {
+                const days = condition.days ?? 0;
+                if (days <= 0) return;
+                const last = new Map<string, MagicUse>();
+                covered.forEach(use => {
+                    const time = use.time;
+                    if (time === undefined) return;
+                    use.casters.forEach(caster => {
+                        const key = caster.toLowerCase();
+                        const previous = last.get(key);
+                        if (previous?.time !== undefined && time - previous.time < days * DAY_MS) {
+                            violations.push({ rule, use, caster, previous });
+                        }
+                        last.set(key, use);
+                    });
+                });
+                break;
+            }
+        }
+    });
+
+    return violations;
+}
@@ -0,0 +1,45 @@
+/**
+ * MentionAppearancesHelper - "Appears in" backlinks for entity modals
+ * Lists the scenes and chapters whose prose mentions an entity, from the background mention index
+ */
+
+import { Setting } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import type { MentionEntityType } from './MentionScanner';
+import { t } from '../i18n/strings';
+
+/**
+ * Add an "Appears in" section listing where an entity is mentioned; clicking a row opens the note
+ */
+export function addMentionAppearances(
+    containerEl: HTMLElement,
+    plugin: StorytellerSuitePlugin,
+    type: MentionEntityType,
+    entity: { id?: string; name: string }
+): void {
+    const setting = new Setting(containerEl)
+        .setName(t('appearsIn'))
+        .setDesc(t('appearsInDesc'));
+    const listEl = setting.controlEl.createDiv('storyteller-modal-linked-entities');
+
+    if (!entity.name) {
+        listEl.createEl('span', { text: t('none'), cls: 'storyteller-modal-list-empty' });
+        return;
+    }
+
+    void plugin.mentionIndex.getAppearances(type, entity).then(appearances => {
+        listEl.empty();
+        if (appearances.length === 0) {
+            listEl.createEl('span', { text: t('none'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+        appearances.forEach(({ source, count }) => {
+            const itemEl = listEl.createDiv('storyteller-modal-list-item storyteller-appears-in-item');
+            const label = source.type === 'chapter' ? t('appearsInChapter', source.name) : source.name;
+            itemEl.createSpan({ text: t('appearsInCount', label, String(count)) });
+            itemEl.addEventListener('click', () => {
+                void plugin.app.workspace.openLinkText(source.path, '', true);
+            });
+        });
+    });
+}
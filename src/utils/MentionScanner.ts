@@ -0,0 +1,144 @@
+/**
+ * MentionScanner - Finds entity names and aliases in prose
+ *
+ * Matching ignores case, takes whole words only and includes a trailing possessive
+ * ("Mara's", "Voss’", "MARA"). At each position the longest known form wins, so "Mara Voss"
+ * is one mention rather than two. Characters are also found by first name when it is
+ * unambiguous across the cast. A form shared by two entities is skipped, except that a full
+ * name or alias always beats another entity's first name.
+ */
+
+import type { Character, Event, Group, Location, PlotItem } from '../types';
+import { buildNameIndex } from './DialogueAnalyzer';
+import { plainRef, sameRef } from './ItemCustody';
+
+export type MentionEntityType = 'character' | 'location' | 'item' | 'event' | 'group';
+
+/** An entity that can be mentioned */
+export interface MentionTarget {
+    type: MentionEntityType;
+    /** Value stored in scene link arrays: the name, or the id for groups */
+    id: string;
+    name: string;
+    aliases?: string[];
+}
+
+/** One mention of an entity in a text */
+export interface Mention {
+    type: MentionEntityType;
+    entityId: string;
+    entityName: string;
+    /** Character offset of the mention in the text */
+    offset: number;
+    length: number;
+    /** Text as written, including any possessive */
+    text: string;
+}
+
+export interface MentionEntities {
+    characters?: Character[];
+    locations?: Location[];
+    items?: PlotItem[];
+    events?: Event[];
+    groups?: Group[];
+}
+
+/** Shortest form matched; shorter names and aliases are too likely to be ordinary words */
+const MIN_FORM_LENGTH = 2;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Mentionable entities with their aliases */
+export function buildMentionTargets(entities: MentionEntities): MentionTarget[] {
+    const named = <T extends { name: string; aliases?: string[] }>(type: MentionEntityType, list: T[] = []) =>
+        list.filter(e => e.name).map(e => ({ type, id: e.name, name: e.name, aliases: e.aliases }));
+    return [
+        ...named('character', entities.characters),
+        ...named('location', entities.locations),
+        ...named('item', entities.items),
+        ...named('event', entities.events),
+        ...(entities.groups || []).filter(g => g.name).map(g => ({ type: 'group' as const, id: g.id, name: g.name }))
+    ];
+}
+
+/** Compiled matcher for a set of targets */
+export interface MentionMatcher {
+    regex: RegExp | null;
+    /** Lower-cased form to the entity it names */
+    forms: Map<string, MentionTarget>;
+}
+
+export function buildMentionMatcher(targets: MentionTarget[]): MentionMatcher {
+    const forms = new Map<string, { target: MentionTarget | null; strength: number }>();
+    const add = (form: string, target: MentionTarget, strength: number) => {
+        const key = plainRef(form).toLowerCase();
+        if (key.length < MIN_FORM_LENGTH) return;
+        const existing = forms.get(key);
+        if (!existing || strength > existing.strength) {
+            forms.set(key, { target, strength });
+        } else if (strength === existing.strength && existing.target && existing.target !== target) {
+            // Two entities share this form; neither can claim it
+            forms.set(key, { target: null, strength });
+        }
+    };
+
+    targets.forEach(target => {
+        add(target.name, target, 2);
+        (target.aliases || []).forEach(alias => add(alias, target, 2));
+    });
+    const characters = targets.filter(target => target.type === 'character');
+    buildNameIndex(characters.map(c => c.name)).forEach((name, form) => {
+        const target = characters.find(c => c.name.trim() === name);
+        if (target && form !== name) add(form, target, 1);
+    });
+
+    const resolved = new Map<string, MentionTarget>();
+    forms.forEach((entry, form) => {
+        if (entry.target) resolved.set(form, entry.target);
+    });
+    if (resolved.size === 0) return { regex: null, forms: resolved };
+
+    const alternation = Array.from(resolved.keys())
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join('|');
+    return {
+        regex: new RegExp(`(^|[^\\w])(${alternation})((?:['’]s?)?)(?![\\w])`, 'gi'),
+        forms: resolved
+    };
+}
+
+/** Every mention of the matcher's entities in a text, in order */
+export function findMentions(text: string, matcher: MentionMatcher): Mention[] {
+    const { regex, forms } = matcher;
+    if (!regex || !text) return [];
+
+    const mentions: Mention[] = [];
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+        const target = forms.get(match[2].toLowerCase());
+        const offset = match.index + match[1].length;
+        const written = match[2] + match[3];
+        if (target) {
+            mentions.push({ type: target.type, entityId: target.id, entityName: target.name, offset, length: written.length, text: written });
+        }
+        // The boundary character is consumed, so resume right after the name itself
+        regex.lastIndex = offset + written.length;
+    }
+    return mentions;
+}
+
+/** Mentioned entities that a link list doesn't include yet, once each in order of first mention */
+export function unlinkedMentions(mentions: Mention[], linked: Partial<Record<MentionEntityType, string[]>>): Mention[] {
+    const seen = new Set<string>();
+    return mentions.filter(mention => {
+        const key = `${mention.type}:${mention.entityId}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        const links = linked[mention.type] || [];
+        return !links.some(link => link === mention.entityId || sameRef(link, mention.entityName));
+    });
+}
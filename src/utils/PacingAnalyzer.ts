@@ -0,0 +1,283 @@
+/**
+ * PacingAnalyzer - Derives chapter pacing, event density, a tension curve and
+ * recommendations from scene prose and linked events
+ *
+ * Pace is scored per chapter from four signals, each normalised to 0-1:
+ * short sentences, short paragraphs, dialogue ratio and linked events per 1000 words.
+ */
+
+import type {
+    ChapterPacing,
+    EventDensity,
+    PacingAnalysis,
+    PacingRecommendation,
+    TensionPoint
+} from '../types';
+import { DialogueAnalyzer } from './DialogueAnalyzer';
+
+/** A chapter's scenes in reading order */
+export interface PacingChapterInput {
+    name: string;
+    scenes: Array<{ content: string; linkedEvents?: string[] }>;
+}
+
+/** Event fields used for density and milestones */
+export interface PacingEventInput {
+    name: string;
+    isMilestone?: boolean;
+}
+
+/** Change in a chapter's pacing between two analyses */
+export interface ChapterPacingChange {
+    chapterName: string;
+    before?: ChapterPacing;
+    after?: ChapterPacing;
+    wordDelta: number;
+    scoreDelta: number;
+}
+
+const WORDS_PER_MINUTE = 250;
+
+/** Weights of the pace signals; they sum to 1 */
+const PACE_WEIGHTS = { sentence: 0.3, paragraph: 0.15, dialogue: 0.25, events: 0.3 };
+
+function clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+function median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Strip markdown syntax that would distort sentence and paragraph counts */
+function proseOf(content: string): string {
+    return content
+        .replace(/^---\n[\s\S]*?\n---\n?/, '')
+        .replace(/^#{1,6}\s.*$/gm, '')
+        .replace(/!?\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2');
+}
+
+/** Map a 0-100 pace score to a pacing class */
+export function classifyPace(score: number): NonNullable<ChapterPacing['pacing']> {
+    if (score < 30) return 'slow';
+    if (score < 55) return 'moderate';
+    if (score < 75) return 'fast';
+    return 'intense';
+}
+
+/**
+ * Measure one chapter's prose and events
+ */
+export function analyzeChapterPacing(
+    chapter: PacingChapterInput,
+    eventsByName: Map<string, PacingEventInput>
+): ChapterPacing {
+    const prose = chapter.scenes.map(scene => proseOf(scene.content || '')).join('\n\n');
+    const wordCount = countWords(prose);
+    const paragraphs = prose.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+    const sentences = prose.split(/[.!?…]+["'”’»)]*(?:\s|$)/).filter(s => countWords(s) > 0);
+
+    const linked = new Set<string>();
+    chapter.scenes.forEach(scene => (scene.linkedEvents || []).forEach(name => linked.add(name)));
+    const eventCount = linked.size;
+    const milestoneCount = Array.from(linked).filter(name => eventsByName.get(name)?.isMilestone).length;
+
+    const avgSentenceLength = sentences.length > 0 ? wordCount / sentences.length : 0;
+    const avgParagraphLength = paragraphs.length > 0 ? wordCount / paragraphs.length : 0;
+    const dialogueRatio = new DialogueAnalyzer([]).analyze([{ name: chapter.name, content: prose }]).density ?? 0;
+    const eventsPerThousand = wordCount > 0 ? (eventCount / wordCount) * 1000 : 0;
+
+    let paceScore = 0;
+    if (wordCount > 0) {
+        paceScore = 100 * (
+            PACE_WEIGHTS.sentence * clamp01((22 - avgSentenceLength) / 12) +
+            PACE_WEIGHTS.paragraph * clamp01((120 - avgParagraphLength) / 90) +
+            PACE_WEIGHTS.dialogue * clamp01(dialogueRatio / 50) +
+            PACE_WEIGHTS.events * clamp01(eventsPerThousand / 3)
+        );
+    }
+
+    return {
+        chapterName: chapter.name,
+        wordCount,
+        eventCount,
+        readingTime: Math.ceil(wordCount / WORDS_PER_MINUTE),
+        pacing: classifyPace(paceScore),
+        paceScore: Math.round(paceScore),
+        sceneCount: chapter.scenes.length,
+        avgSentenceLength: round1(avgSentenceLength),
+        avgParagraphLength: round1(avgParagraphLength),
+        dialogueRatio,
+        milestoneCount
+    };
+}
+
+/**
+ * Bucket linked events per chapter, rated against the story's average
+ */
+export function calculateEventDensity(chapters: ChapterPacing[]): EventDensity[] {
+    const total = chapters.reduce((sum, c) => sum + c.eventCount, 0);
+    const average = chapters.length > 0 ? total / chapters.length : 0;
+    return chapters.map(chapter => {
+        let density: EventDensity['density'] = 'balanced';
+        if (average === 0 || chapter.eventCount < average * 0.5) density = 'sparse';
+        else if (chapter.eventCount > average * 1.5) density = 'crowded';
+        return { period: chapter.chapterName, eventCount: chapter.eventCount, density };
+    });
+}
+
+/**
+ * Tension per chapter on a 0-10 scale: pace plus a bump for each milestone
+ */
+export function calculateTensionCurve(chapters: ChapterPacing[]): TensionPoint[] {
+    return chapters.map(chapter => {
+        const milestones = chapter.milestoneCount || 0;
+        const tensionLevel = Math.min(10, round1((chapter.paceScore || 0) / 10 + milestones * 1.5));
+        let tensionType = 'build';
+        if (milestones > 0) tensionType = 'milestone';
+        else if ((chapter.avgSentenceLength || 0) > 0 && (chapter.avgSentenceLength || 0) < 12) tensionType = 'action';
+        else if ((chapter.dialogueRatio || 0) >= 40) tensionType = 'dialogue';
+        else if (tensionLevel < 3) tensionType = 'quiet';
+        return { location: chapter.chapterName, tensionLevel, tensionType };
+    });
+}
+
+/**
+ * Concrete suggestions based on chapter lengths, runs of slow chapters and the shape of the tension curve
+ */
+export function buildRecommendations(chapters: ChapterPacing[], tension: TensionPoint[]): PacingRecommendation[] {
+    const recommendations: PacingRecommendation[] = [];
+    const written = chapters.filter(c => c.wordCount > 0);
+    if (written.length === 0) return recommendations;
+
+    const medianWords = median(written.map(c => c.wordCount));
+    for (const chapter of written) {
+        if (written.length >= 3 && chapter.wordCount > medianWords * 2) {
+            recommendations.push({
+                area: chapter.chapterName,
+                type: 'warning',
+                message: `At ${chapter.wordCount.toLocaleString()} words this chapter is more than twice the median (${Math.round(medianWords).toLocaleString()}). Consider splitting it.`
+            });
+        } else if (written.length >= 3 && chapter.wordCount < medianWords * 0.4) {
+            recommendations.push({
+                area: chapter.chapterName,
+                type: 'suggestion',
+                message: `At ${chapter.wordCount.toLocaleString()} words this chapter is much shorter than the median (${Math.round(medianWords).toLocaleString()}). Consider merging or expanding it.`
+            });
+        }
+        if ((chapter.avgSentenceLength || 0) > 28) {
+            recommendations.push({
+                area: chapter.chapterName,
+                type: 'suggestion',
+                message: `Sentences average ${chapter.avgSentenceLength} words. Breaking some up will quicken the pace.`
+            });
+        }
+        if (chapter.eventCount === 0 && chapter.pacing === 'slow') {
+            recommendations.push({
+                area: chapter.chapterName,
+                type: 'suggestion',
+                message: 'Slow chapter with no linked events. Make sure something changes for the characters here.'
+            });
+        }
+    }
+
+    // Runs of three or more slow chapters
+    let runStart = -1;
+    for (let i = 0; i <= chapters.length; i++) {
+        const slow = i < chapters.length && chapters[i].pacing === 'slow' && chapters[i].wordCount > 0;
+        if (slow && runStart < 0) runStart = i;
+        if (!slow && runStart >= 0) {
+            if (i - runStart >= 3) {
+                recommendations.push({
+                    area: `${chapters[runStart].chapterName} – ${chapters[i - 1].chapterName}`,
+                    type: 'warning',
+                    message: `${i - runStart} slow chapters in a row. Readers may lose momentum; add a turning point or tighten the prose.`
+                });
+            }
+            runStart = -1;
+        }
+    }
+
+    if (tension.length >= 4) {
+        const peak = tension.reduce((best, point, i) => point.tensionLevel > tension[best].tensionLevel ? i : best, 0);
+        if (peak < Math.floor(tension.length * 2 / 3)) {
+            recommendations.push({
+                area: 'Structure',
+                type: 'suggestion',
+                message: `Tension peaks in ${tension[peak].location}, before the final third. Consider building toward a later climax.`
+            });
+        }
+        const opening = tension.slice(0, Math.max(1, Math.floor(tension.length / 4)));
+        if (opening.every(point => point.tensionLevel < 3)) {
+            recommendations.push({
+                area: 'Opening',
+                type: 'suggestion',
+                message: 'The opening chapters have low tension. Consider an earlier hook or inciting incident.'
+            });
+        }
+    }
+
+    if (!recommendations.some(r => r.type === 'warning')) {
+        recommendations.push({ area: 'Overall', type: 'success', message: 'No major pacing problems detected.' });
+    }
+    return recommendations;
+}
+
+/**
+ * Run the full pacing analysis for chapters in reading order
+ */
+export function analyzePacing(chapters: PacingChapterInput[], events: PacingEventInput[]): PacingAnalysis {
+    const eventsByName = new Map(events.map(event => [event.name, event]));
+    const chapterPacing = chapters.map(chapter => analyzeChapterPacing(chapter, eventsByName));
+    const tensionPoints = calculateTensionCurve(chapterPacing);
+    const recommendations = buildRecommendations(chapterPacing, tensionPoints);
+
+    const warnings = recommendations.filter(r => r.type === 'warning').length;
+    const suggestions = recommendations.filter(r => r.type === 'suggestion').length;
+
+    return {
+        analyzedDate: new Date().toISOString(),
+        chapterPacing,
+        eventDensity: calculateEventDensity(chapterPacing),
+        tensionPoints,
+        recommendations,
+        overallScore: chapterPacing.length > 0 ? Math.max(0, 100 - warnings * 10 - suggestions * 4) : undefined,
+        totalWords: chapterPacing.reduce((sum, c) => sum + c.wordCount, 0)
+    };
+}
+
+/**
+ * Pair chapters of two analyses by name to show what changed between drafts
+ */
+export function comparePacing(before: PacingAnalysis, after: PacingAnalysis): ChapterPacingChange[] {
+    const previous = new Map((before.chapterPacing || []).map(c => [c.chapterName, c]));
+    const changes: ChapterPacingChange[] = (after.chapterPacing || []).map(chapter => {
+        const old = previous.get(chapter.chapterName);
+        previous.delete(chapter.chapterName);
+        return {
+            chapterName: chapter.chapterName,
+            before: old,
+            after: chapter,
+            wordDelta: chapter.wordCount - (old?.wordCount || 0),
+            scoreDelta: (chapter.paceScore || 0) - (old?.paceScore || 0)
+        };
+    });
+    previous.forEach(old => changes.push({
+        chapterName: old.chapterName,
+        before: old,
+        wordDelta: 0 - old.wordCount,
+        scoreDelta: 0 - (old.paceScore || 0)
+    }));
+    return changes;
+}
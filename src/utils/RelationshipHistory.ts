@@ -0,0 +1,114 @@
+/**
+ * RelationshipHistory - How typed relationships change over story time
+ *
+ * A relationship's `type`, `label` and `intensity` hold before its first dated change; each
+ * change in `history` applies from its date on. A change is dated by its `date`, else its
+ * event's date, else the earliest dated event linked to its scene. Times are epoch
+ * milliseconds from parseEventDate; undated changes are ignored.
+ */
+
+import type { Event, RelationshipChange, RelationshipType, Scene, TypedRelationship } from '../types';
+import { changeTime } from './FactionDiplomacy';
+import { findEvent, plainRef, sameRef } from './ItemCustody';
+
+/** A relationship as it stands at a moment */
+export interface RelationshipState {
+    type: RelationshipType;
+    label?: string;
+    intensity?: number;
+    /** Change that set the type; undefined for the starting type */
+    change?: RelationshipChange;
+}
+
+/** A dated moment at which the graph changes, for scrubbing */
+export interface RelationshipMoment {
+    time: number;
+    label: string;
+}
+
+/** Start of an event's date */
+export function eventTime(event: Event, referenceDate?: Date): number | undefined {
+    return changeTime({ date: event.dateTime }, [], referenceDate);
+}
+
+/** Start of a scene, taken from its earliest dated linked event */
+export function sceneTime(scene: Scene, events: Event[], referenceDate?: Date): number | undefined {
+    let earliest: number | undefined;
+    for (const ref of scene.linkedEvents || []) {
+        const event = findEvent(events, ref);
+        const time = event ? eventTime(event, referenceDate) : undefined;
+        if (time !== undefined && (earliest === undefined || time < earliest)) earliest = time;
+    }
+    return earliest;
+}
+
+/** Start of a relationship change */
+export function relationshipChangeTime(
+    change: RelationshipChange,
+    events: Event[],
+    scenes: Scene[] = [],
+    referenceDate?: Date
+): number | undefined {
+    const time = changeTime(change, events, referenceDate);
+    if (time !== undefined || !change.scene) return time;
+    const scene = scenes.find(s => s.id === change.scene || sameRef(s.name, change.scene));
+    return scene ? sceneTime(scene, events, referenceDate) : undefined;
+}
+
+/** Dated changes of a relationship in chronological order */
+export function datedRelationshipChanges(
+    relationship: TypedRelationship,
+    events: Event[],
+    scenes: Scene[] = [],
+    referenceDate?: Date
+): Array<{ time: number; change: RelationshipChange }> {
+    return (relationship.history || [])
+        .map(change => ({ time: relationshipChangeTime(change, events, scenes, referenceDate), change }))
+        .filter((entry): entry is { time: number; change: RelationshipChange } => entry.time !== undefined)
+        .sort((a, b) => a.time - b.time);
+}
+
+/** A relationship's type, label and intensity at a moment (the latest when no time is given) */
+export function relationshipAt(
+    relationship: TypedRelationship,
+    events: Event[],
+    scenes: Scene[] = [],
+    time = Infinity,
+    referenceDate?: Date
+): RelationshipState {
+    const state: RelationshipState = {
+        type: relationship.type,
+        label: relationship.label,
+        intensity: relationship.intensity
+    };
+    for (const { time: at, change } of datedRelationshipChanges(relationship, events, scenes, referenceDate)) {
+        if (at > time) break;
+        state.type = change.type;
+        if (change.label !== undefined) state.label = change.label;
+        if (change.intensity !== undefined) state.intensity = change.intensity;
+        state.change = change;
+    }
+    return state;
+}
+
+/** Every dated event and relationship change, in order, one per time */
+export function relationshipMoments(
+    relationships: TypedRelationship[],
+    events: Event[],
+    scenes: Scene[] = [],
+    referenceDate?: Date
+): RelationshipMoment[] {
+    const byTime = new Map<number, string>();
+    for (const event of events) {
+        const time = eventTime(event, referenceDate);
+        if (time !== undefined && !byTime.has(time)) byTime.set(time, event.name);
+    }
+    for (const relationship of relationships) {
+        for (const { time, change } of datedRelationshipChanges(relationship, events, scenes, referenceDate)) {
+            if (!byTime.has(time)) byTime.set(time, plainRef(change.event) || plainRef(change.scene) || change.date || '');
+        }
+    }
+    return Array.from(byTime.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([time, label]) => ({ time, label }));
+}
@@ -0,0 +1,116 @@
+/**
+ * SceneKanban - Groups scenes into status columns and filters them for the kanban board
+ *
+ * Columns follow the configured status order. Statuses are matched case-insensitively;
+ * a scene without a status lands in the first column, and a status missing from the
+ * configuration gets its own column at the end so no scene is hidden.
+ */
+
+import type { Scene } from '../types';
+import { plainRef } from './ItemCustody';
+
+/** Statuses offered when none are configured */
+export const DEFAULT_SCENE_STATUSES = ['Draft', 'Outline', 'WIP', 'Revised', 'Final'];
+
+/** Chapter filter value for scenes without a chapter */
+export const UNASSIGNED_CHAPTER = '__unassigned__';
+
+/** Active filters; an empty value matches every scene */
+export interface KanbanFilter {
+    /** Chapter id, or UNASSIGNED_CHAPTER */
+    chapterId?: string;
+    /** POV character name */
+    pov?: string;
+    tag?: string;
+}
+
+/** One column of the board */
+export interface KanbanColumn {
+    status: string;
+    scenes: Scene[];
+    /** Status is not in the configured list */
+    extra: boolean;
+}
+
+/** Values present in the scenes, for the filter dropdowns */
+export interface KanbanFilterOptions {
+    chapters: Array<{ id: string; name: string }>;
+    povs: string[];
+    tags: string[];
+}
+
+/** Whether two statuses name the same column; statuses compare trimmed and case-insensitively */
+export function sameStatus(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Configured statuses without blanks or case-insensitive duplicates */
+export function normalizeStatuses(statuses?: string[]): string[] {
+    const seen = new Set<string>();
+    const result = (statuses || [])
+        .map(status => status.trim())
+        .filter(status => {
+            const key = status.toLowerCase();
+            if (!status || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    return result.length > 0 ? result : [...DEFAULT_SCENE_STATUSES];
+}
+
+/** Whether a scene passes the filters */
+export function matchesKanbanFilter(scene: Scene, filter: KanbanFilter): boolean {
+    if (filter.chapterId) {
+        if (filter.chapterId === UNASSIGNED_CHAPTER ? !!scene.chapterId : scene.chapterId !== filter.chapterId) return false;
+    }
+    if (filter.pov && plainRef(scene.povCharacter).toLowerCase() !== filter.pov.toLowerCase()) return false;
+    if (filter.tag && !(scene.tags || []).some(tag => tag.toLowerCase() === filter.tag?.toLowerCase())) return false;
+    return true;
+}
+
+/** Split scenes into status columns, each sorted by chapter order, priority and name */
+export function buildKanbanColumns(scenes: Scene[], statuses: string[], chapterOrder: string[] = []): KanbanColumn[] {
+    const configured = normalizeStatuses(statuses);
+    const columns: KanbanColumn[] = configured.map(status => ({ status, scenes: [], extra: false }));
+
+    scenes.forEach(scene => {
+        const status = (scene.status || '').trim();
+        let column = status ? columns.find(c => sameStatus(c.status, status)) : columns[0];
+        if (!column) {
+            column = { status, scenes: [], extra: true };
+            columns.push(column);
+        }
+        column.scenes.push(scene);
+    });
+
+    const chapterRank = (scene: Scene) => {
+        const index = scene.chapterId ? chapterOrder.indexOf(scene.chapterId) : -1;
+        return index >= 0 ? index : chapterOrder.length;
+    };
+    columns.forEach(column => column.scenes.sort((a, b) =>
+        chapterRank(a) - chapterRank(b)
+        || (a.priority ?? Number.MAX_SAFE_INTEGER) - (b.priority ?? Number.MAX_SAFE_INTEGER)
+        || a.name.localeCompare(b.name)));
+    return columns;
+}
+
+/** Chapters, POV characters and tags used by the scenes */
+export function getKanbanFilterOptions(scenes: Scene[]): KanbanFilterOptions {
+    const chapters = new Map<string, string>();
+    const povs = new Map<string, string>();
+    const tags = new Map<string, string>();
+    scenes.forEach(scene => {
+        if (scene.chapterId) chapters.set(scene.chapterId, scene.chapterName || scene.chapterId);
+        const pov = plainRef(scene.povCharacter);
+        if (pov && !povs.has(pov.toLowerCase())) povs.set(pov.toLowerCase(), pov);
+        (scene.tags || []).forEach(tag => {
+            if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+        });
+    });
+    const sorted = (values: Iterable<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+    return {
+        chapters: Array.from(chapters, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+        povs: sorted(povs.values()),
+        tags: sorted(tags.values())
+    };
+}
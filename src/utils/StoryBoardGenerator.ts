@@ -2,6 +2,7 @@
 // Provides visual arrangement of scenes organized by chapters
 
 import { Scene, Chapter } from '../types';
+import { normalizeStatuses } from './SceneKanban';
 
 /**
  * Canvas node representing an element on the canvas
@@ -52,6 +53,8 @@ export interface StoryBoardOptions {
     colorBy?: 'status' | 'chapter' | 'none';
     showChapterHeaders?: boolean;
     showEdges?: boolean;
+    /** Status columns for the status layout; defaults to DEFAULT_SCENE_STATUSES */
+    statuses?: string[];
 }
 
 /**
@@ -296,18 +299,18 @@ export class StoryBoardGenerator {
 
     /**
      * Generate status-based kanban layout
-     * Organizes scenes into columns by status (Draft, WIP, Revised, Final)
+     * Organizes scenes into columns by the configured statuses
      */
     private generateStatusLayout(scenes: Scene[], options: StoryBoardOptions): CanvasData {
         const nodes: CanvasNode[] = [];
         const edges: CanvasEdge[] = [];
 
-        const statusColumns = ['Draft', 'Outline', 'WIP', 'Revised', 'Final'];
+        const statusColumns = normalizeStatuses(options.statuses);
         const scenesByStatus = new Map<string, Scene[]>();
 
         // Group scenes by status
         scenes.forEach(scene => {
-            const status = scene.status || 'Draft';
+            const status = scene.status || statusColumns[0];
             if (!scenesByStatus.has(status)) {
                 scenesByStatus.set(status, []);
             }
@@ -0,0 +1,84 @@
+/**
+ * StoryScopedRecords - Settings collections kept separately for each story
+ *
+ * Each collection is stored in data.json as an object keyed by story id. Older versions
+ * kept them as flat arrays shared by all stories; those are moved into one story's bucket
+ * when settings load.
+ */
+
+import type {
+    CausalityLink, LocationSensoryProfile, PacingAnalysis, TimelineConflict, TimelineEra, TimelineFork, TimelineTrack
+} from '../types';
+
+/**
+ * Timeline, sensory and pacing records stored separately for each story
+ * Maps each settings key to the record type it holds
+ */
+export interface StoryScopedRecords {
+    timelineForks: TimelineFork;
+    causalityLinks: CausalityLink;
+    timelineConflicts: TimelineConflict;
+    timelineEras: TimelineEra;
+    timelineTracks: TimelineTrack;
+    sensoryProfiles: LocationSensoryProfile;
+    /** Saved pacing analyses for comparing drafts, oldest first */
+    pacingHistory: PacingAnalysis;
+}
+
+export type StoryScopedKey = keyof StoryScopedRecords;
+
+export const STORY_SCOPED_KEYS: StoryScopedKey[] = [
+    'timelineForks', 'causalityLinks', 'timelineConflicts', 'timelineEras', 'timelineTracks', 'sensoryProfiles',
+    'pacingHistory'
+];
+
+/** Per-story collections, each keyed by story id */
+export type StoryScopedSettings = { [K in StoryScopedKey]?: Record<string, StoryScopedRecords[K][]> };
+
+/** A story's records of a collection */
+export function getScopedRecords<K extends StoryScopedKey>(settings: StoryScopedSettings, key: K, storyId: string): StoryScopedRecords[K][] {
+    return settings[key]?.[storyId] || [];
+}
+
+/** Replace a story's records of a collection; other stories are untouched */
+export function setScopedRecords<K extends StoryScopedKey>(
+    settings: StoryScopedSettings,
+    key: K,
+    storyId: string,
+    records: StoryScopedRecords[K][]
+): void {
+    const byStory: Record<string, StoryScopedRecords[K][]> = settings[key] || {};
+    byStory[storyId] = records;
+    settings[key] = byStory as StoryScopedSettings[K];
+}
+
+/** Settings fields the migration needs besides the collections */
+interface StoryOwnerSettings extends StoryScopedSettings {
+    activeStoryId: string;
+    stories: Array<{ id: string }>;
+}
+
+/**
+ * Move collections saved as flat arrays into the active story's bucket (or the first story's
+ * when none is active)
+ * @returns Whether any collection was migrated
+ */
+export function migrateStoryScopedRecords(settings: StoryOwnerSettings): boolean {
+    const targetId = settings.activeStoryId || (settings.stories.length > 0 ? settings.stories[0].id : '');
+    let migrated = false;
+    for (const key of STORY_SCOPED_KEYS) {
+        const stored: unknown = settings[key];
+        if (Array.isArray(stored)) {
+            settings[key] = stored.length > 0 ? { [targetId]: stored } : {};
+            migrated = true;
+        }
+    }
+    return migrated;
+}
+
+/** Drop every collection's bucket for a story */
+export function clearStoryScopedRecords(settings: StoryScopedSettings, storyId: string): void {
+    for (const key of STORY_SCOPED_KEYS) {
+        delete settings[key]?.[storyId];
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * TextDiff - Line and word differences between two versions of a text
+ *
+ * Uses a longest-common-subsequence table after trimming the shared head and tail,
+ * which keeps scene-sized texts cheap. Removed and added runs that sit next to each
+ * other are paired into "changed" rows for side-by-side display.
+ */
+
+/** Whether a piece is in both versions, only the old one, or only the new one */
+export type DiffOp = 'same' | 'removed' | 'added';
+
+/** One line or word of a diff */
+export interface DiffPart {
+    op: DiffOp;
+    text: string;
+}
+
+/** One row of a side-by-side diff; a missing side is blank */
+export interface DiffRow {
+    kind: 'same' | 'removed' | 'added' | 'changed';
+    left?: string;
+    right?: string;
+    /** 1-based line numbers in each version */
+    leftLine?: number;
+    rightLine?: number;
+}
+
+/** Counts of rows by kind, excluding unchanged rows */
+export interface DiffSummary {
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+/** Largest LCS table diffed exactly; bigger middles are shown as replaced wholesale */
+const MAX_TABLE_CELLS = 4000000;
+
+/** Diff two token sequences */
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+    const parts: DiffPart[] = a.slice(0, head).map(text => ({ op: 'same' as DiffOp, text }));
+    const midA = a.slice(head, a.length - tail);
+    const midB = b.slice(head, b.length - tail);
+    const n = midA.length;
+    const m = midB.length;
+
+    if (n * m > MAX_TABLE_CELLS) {
+        midA.forEach(text => parts.push({ op: 'removed', text }));
+        midB.forEach(text => parts.push({ op: 'added', text }));
+    } else if (n > 0 || m > 0) {
+        // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+        const lengths: Uint32Array[] = [];
+        for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lengths[i][j] = midA[i] === midB[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) {
+                parts.push({ op: 'same', text: midA[i] });
+                i++;
+                j++;
+            } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+                parts.push({ op: 'removed', text: midA[i] });
+                i++;
+            } else {
+                parts.push({ op: 'added', text: midB[j] });
+                j++;
+            }
+        }
+    }
+
+    a.slice(a.length - tail).forEach(text => parts.push({ op: 'same', text }));
+    return parts;
+}
+
+/** Split text into lines, ignoring the difference between CRLF and LF */
+function splitLines(text: string): string[] {
+    return text === '' ? [] : text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+/** Line-by-line diff of two texts */
+export function diffLines(before: string, after: string): DiffPart[] {
+    return diffTokens(splitLines(before), splitLines(after));
+}
+
+/** Word-level diff of two lines; whitespace runs are kept as their own parts */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const tokens = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+    const merged: DiffPart[] = [];
+    diffTokens(tokens(before), tokens(after)).forEach(part => {
+        const last = merged[merged.length - 1];
+        if (last && last.op === part.op) last.text += part.text;
+        else merged.push({ ...part });
+    });
+    return merged;
+}
+
+/** Arrange a line diff into side-by-side rows, pairing adjacent removals and additions */
+export function sideBySide(before: string, after: string): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let leftLine = 0;
+    let rightLine = 0;
+    let removed: string[] = [];
+    let added: string[] = [];
+
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const left = removed[k];
+            const right = added[k];
+            const row: DiffRow = {
+                kind: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added'
+            };
+            if (left !== undefined) {
+                row.left = left;
+                row.leftLine = ++leftLine;
+            }
+            if (right !== undefined) {
+                row.right = right;
+                row.rightLine = ++rightLine;
+            }
+            rows.push(row);
+        }
+        removed = [];
+        added = [];
+    };
+
+    diffLines(before, after).forEach(part => {
+        if (part.op === 'removed') {
+            removed.push(part.text);
+        } else if (part.op === 'added') {
+            added.push(part.text);
+        } else {
+            flush();
+            rows.push({ kind: 'same', left: part.text, right: part.text, leftLine: ++leftLine, rightLine: ++rightLine });
+        }
+    });
+    flush();
+    return rows;
+}
+
+/** Count the changed rows of a side-by-side diff */
+export function summarizeDiff(rows: DiffRow[]): DiffSummary {
+    const summary: DiffSummary = { added: 0, removed: 0, changed: 0 };
+    rows.forEach(row => {
+        if (row.kind !== 'same') summary[row.kind]++;
+    });
+    return summary;
+}
@@ -111,7 +111,8 @@ export class TimelineControlsBuilder {
             { value: 'location', label: t('byLocation') },
             { value: 'group', label: t('byGroup') },
             { value: 'character', label: t('byCharacter') },
-            { value: 'track', label: 'By Track' }
+            { value: 'track', label: 'By Track' },
+            { value: 'custody', label: t('byItemCustody') }
         ].forEach(opt => {
             const option = select.createEl('option', { value: opt.value, text: opt.label });
             if (opt.value === this.state.groupMode) {
@@ -120,7 +121,7 @@ export class TimelineControlsBuilder {
         });
 
         select.addEventListener('change', () => {
-            this.state.groupMode = select.value as 'none' | 'location' | 'group' | 'character' | 'track';
+            this.state.groupMode = select.value as 'none' | 'location' | 'group' | 'character' | 'track' | 'custody';
             this.callbacks.getRenderer()?.setGroupMode(this.state.groupMode);
             this.callbacks.onStateChange();
         });
@@ -397,13 +398,13 @@ export class TimelineControlsBuilder {
         setIcon(btn, 'layers-2');
 
         btn.addEventListener('click', () => {
-            const tracks = this.plugin.settings.timelineTracks || [];
+            const tracks = this.plugin.getTimelineTracks();
             new TrackManagerModal(
                 this.plugin.app,
                 this.plugin,
                 tracks,
                 async (updatedTracks) => {
-                    this.plugin.settings.timelineTracks = updatedTracks;
+                    this.plugin.setStoryRecords('timelineTracks', updatedTracks);
                     await this.plugin.saveSettings();
                     this.callbacks.onRendererUpdate();
                 }
@@ -450,7 +451,7 @@ export class TimelineControlsBuilder {
         btn.addEventListener('click', async () => {
             const eventsPromise = this.callbacks.getEvents();
             const events = Array.isArray(eventsPromise) ? eventsPromise : await eventsPromise;
-            const conflicts = ConflictDetector.detectAllConflicts(events);
+            const conflicts = ConflictDetector.detectAllConflicts(events, await this.plugin.getConflictContext());
 
             new ConflictViewModal(this.plugin.app, this.plugin, conflicts).open();
 
@@ -0,0 +1,228 @@
+/**
+ * TimelineForks - World state of an alternate timeline
+ *
+ * A fork changes canon in two ways: events listed in `forkEvents` exist only in the fork, and
+ * altered entities carry `overrides` (field values that replace the canonical ones inside the
+ * fork). Canon itself is never modified until the fork is merged.
+ */
+
+import type { AlteredEntity, Character, Event, Location, PlotItem, TimelineFork } from '../types';
+import { parseEventDate, toMillis } from './DateParsing';
+
+export type ForkEntityType = AlteredEntity['entityType'];
+
+/** Minimal shape shared by every entity a fork can alter */
+interface NamedEntity {
+    id?: string;
+    name: string;
+}
+
+/** Canonical entities a merge is planned against */
+export interface ForkCanon {
+    characters: Character[];
+    locations: Location[];
+    events: Event[];
+    items: PlotItem[];
+}
+
+/** An event as it appears on a fork's branch */
+export interface ForkBranchEvent {
+    event: Event;
+    /** Position of the canonical event in the input list */
+    index: number;
+    /** Exists only in this fork */
+    forkOnly: boolean;
+    /** Canonical event with fork overrides applied */
+    altered: boolean;
+}
+
+export interface ForkBranch {
+    /** Start of the divergence point in milliseconds, when it can be dated */
+    divergence?: number;
+    /** Events of the fork's world from the divergence point on */
+    events: ForkBranchEvent[];
+}
+
+/** One field that a merge will change on a canonical entity */
+export interface ForkMergeChange {
+    entityType: ForkEntityType;
+    entityName: string;
+    field: string;
+    from: unknown;
+    to: unknown;
+}
+
+export interface ForkMergePlan {
+    changes: ForkMergeChange[];
+    /** Fork-only events that become canon */
+    events: string[];
+    /** Altered entities that no longer exist in canon */
+    missing: string[];
+}
+
+/** Fork fields holding alterations, per entity type */
+const ALTERATION_FIELDS: Record<ForkEntityType, 'alteredCharacters' | 'alteredLocations' | 'alteredEvents' | 'alteredItems'> = {
+    character: 'alteredCharacters',
+    location: 'alteredLocations',
+    event: 'alteredEvents',
+    item: 'alteredItems'
+};
+
+/** Fields an override may not touch: identity and storage */
+const PROTECTED_FIELDS = new Set(['id', 'filePath', 'sections']);
+
+function normalizeRef(value: string): string {
+    return value.replace(/^\[\[|\]\]$/g, '').split('|')[0].trim().toLowerCase();
+}
+
+function matches(entity: NamedEntity, ref: string): boolean {
+    if (entity.id && entity.id === ref) return true;
+    return normalizeRef(entity.name || '') === normalizeRef(ref);
+}
+
+/** Whether an event is listed among a fork's own events */
+export function isForkEvent(event: NamedEntity, fork: TimelineFork): boolean {
+    return (fork.forkEvents || []).some(ref => matches(event, ref));
+}
+
+/** Alterations of one entity type, creating the list when asked to */
+export function getAlterations(fork: TimelineFork, type: ForkEntityType, create = false): AlteredEntity[] {
+    const field = ALTERATION_FIELDS[type];
+    if (!fork[field] && create) fork[field] = [];
+    return fork[field] || [];
+}
+
+/** The alteration that applies to an entity in a fork, if any */
+export function findAlteration(fork: TimelineFork, type: ForkEntityType, entity: NamedEntity): AlteredEntity | undefined {
+    return getAlterations(fork, type).find(a => matches(entity, a.entityId));
+}
+
+/** Copy of an entity with the alteration's overrides applied */
+export function applyOverrides<T extends object>(entity: T, alteration?: AlteredEntity): T {
+    if (!alteration?.overrides) return entity;
+    const copy = { ...entity } as Record<string, unknown>;
+    for (const [field, value] of Object.entries(alteration.overrides)) {
+        if (!PROTECTED_FIELDS.has(field)) copy[field] = value;
+    }
+    return copy as T;
+}
+
+/** An entity as it exists inside a fork */
+export function forkEntity<T extends NamedEntity>(fork: TimelineFork, type: ForkEntityType, entity: T): T {
+    return applyOverrides(entity, findAlteration(fork, type, entity));
+}
+
+/**
+ * Parse override lines (`field: value`). Values for fields that are lists on the canonical
+ * entity are split on commas; `true`/`false` and numbers keep their type when the canonical
+ * value has it.
+ */
+export function parseOverrideLines(text: string, canonical?: object): Record<string, unknown> {
+    const current = (canonical || {}) as Record<string, unknown>;
+    const overrides: Record<string, unknown> = {};
+    for (const line of text.split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        const field = line.substring(0, colon).trim();
+        const raw = line.substring(colon + 1).trim();
+        if (!field || PROTECTED_FIELDS.has(field)) continue;
+        const existing = current[field];
+        if (Array.isArray(existing)) {
+            overrides[field] = raw ? raw.split(',').map(v => v.trim()).filter(Boolean) : [];
+        } else if (typeof existing === 'boolean' && (raw === 'true' || raw === 'false')) {
+            overrides[field] = raw === 'true';
+        } else if (typeof existing === 'number' && raw !== '' && !isNaN(Number(raw))) {
+            overrides[field] = Number(raw);
+        } else {
+            overrides[field] = raw;
+        }
+    }
+    return overrides;
+}
+
+/** Inverse of parseOverrideLines, for editing */
+export function formatOverrideLines(overrides?: Record<string, unknown>): string {
+    return Object.entries(overrides || {})
+        .map(([field, value]) => `${field}: ${Array.isArray(value) ? value.join(', ') : String(value ?? '')}`)
+        .join('\n');
+}
+
+function eventStart(event: Event | undefined, referenceDate?: Date): number | undefined {
+    if (!event?.dateTime) return undefined;
+    const parsed = parseEventDate(event.dateTime, { referenceDate });
+    return parsed.error ? undefined : toMillis(parsed.start);
+}
+
+/** Start of a fork's divergence: its divergence date, else the divergence event's date */
+export function getDivergenceTime(fork: TimelineFork, events: Event[], referenceDate?: Date): number | undefined {
+    if (fork.divergenceDate) {
+        const parsed = parseEventDate(fork.divergenceDate, { referenceDate });
+        const ms = parsed.error ? undefined : toMillis(parsed.start);
+        if (ms !== undefined) return ms;
+    }
+    const divergenceEvent = fork.divergenceEvent ? events.find(e => matches(e, fork.divergenceEvent)) : undefined;
+    return eventStart(divergenceEvent, referenceDate);
+}
+
+/**
+ * Events of a fork's world from the divergence point on: the fork's own events plus canonical
+ * events (those in no fork) with the fork's event overrides applied. Without a datable
+ * divergence point the whole canon is included.
+ */
+export function buildForkBranch(
+    events: Event[],
+    fork: TimelineFork,
+    forks: TimelineFork[],
+    referenceDate?: Date
+): ForkBranch {
+    const divergence = getDivergenceTime(fork, events, referenceDate);
+    const branch: ForkBranchEvent[] = [];
+
+    events.forEach((event, index) => {
+        if (isForkEvent(event, fork)) {
+            branch.push({ event, index, forkOnly: true, altered: false });
+            return;
+        }
+        if (forks.some(f => isForkEvent(event, f))) return;
+        const alteration = findAlteration(fork, 'event', event);
+        const shown = applyOverrides(event, alteration);
+        const start = eventStart(shown, referenceDate);
+        if (divergence !== undefined && (start === undefined || start < divergence)) return;
+        branch.push({ event: shown, index, forkOnly: false, altered: !!alteration?.overrides });
+    });
+    return { divergence, events: branch };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Everything merging a fork into canon would change: overridden fields that differ from
+ * canon and fork-only events that join the canonical timeline.
+ */
+export function planForkMerge(fork: TimelineFork, canon: ForkCanon): ForkMergePlan {
+    const lists: Record<ForkEntityType, NamedEntity[]> = {
+        character: canon.characters,
+        location: canon.locations,
+        event: canon.events,
+        item: canon.items
+    };
+    const plan: ForkMergePlan = { changes: [], events: [...(fork.forkEvents || [])], missing: [] };
+
+    for (const type of Object.keys(ALTERATION_FIELDS) as ForkEntityType[]) {
+        for (const alteration of getAlterations(fork, type)) {
+            if (!alteration.overrides || Object.keys(alteration.overrides).length === 0) continue;
+            const entity = lists[type].find(e => matches(e, alteration.entityId)) as Record<string, unknown> & NamedEntity | undefined;
+            if (!entity) {
+                plan.missing.push(alteration.entityId);
+                continue;
+            }
+            for (const [field, to] of Object.entries(alteration.overrides)) {
+                if (PROTECTED_FIELDS.has(field) || sameValue(entity[field], to)) continue;
+                plan.changes.push({ entityType: type, entityName: entity.name, field, from: entity[field], to });
+            }
+        }
+    }
+    return plan;
+}
@@ -3,10 +3,12 @@
 
 import { App, Notice } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
-import { Event, Location } from '../types';
-import { parseEventDate, toMillis, toDisplay } from './DateParsing';
+import { Event, Location, PlotItem } from '../types';
+import { parseEventDate, toMillis, formatParsedDate, getActiveCalendar } from './DateParsing';
 import { EventModal } from '../modals/EventModal';
 import { ConflictDetector, DetectedConflict } from './ConflictDetector';
+import { buildForkBranch, isForkEvent } from './TimelineForks';
+import { buildCustodyChain, describeCustody, findEvent, sameRef } from './ItemCustody';
 
 // @ts-ignore: vis-timeline is bundled dependency
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -20,7 +22,7 @@ import Arrow from '../vendor/timeline-arrows.js';
 
 export interface TimelineRendererOptions {
     ganttMode?: boolean;
-    groupMode?: 'none' | 'location' | 'group' | 'character' | 'track';
+    groupMode?: 'none' | 'location' | 'group' | 'character' | 'track' | 'custody';
     showDependencies?: boolean;
     stackEnabled?: boolean;
     density?: number;
@@ -59,6 +61,7 @@ export class TimelineRenderer {
     private filters: TimelineFilters = {};
     private events: Event[] = [];
     private locations: Location[] = [];
+    private items: PlotItem[] = [];
 
     // Era and narrative order configuration
     private showEras: boolean = false;
@@ -96,6 +99,7 @@ export class TimelineRenderer {
     async initialize(): Promise<void> {
         this.events = await this.plugin.listEvents();
         this.locations = await this.plugin.listLocations();
+        this.items = await this.plugin.listPlotItems();
         await this.render();
     }
 
@@ -104,6 +108,7 @@ export class TimelineRenderer {
      */
     async refresh(): Promise<void> {
         this.events = await this.plugin.listEvents();
+        this.items = await this.plugin.listPlotItems();
         await this.render();
     }
 
@@ -126,7 +131,7 @@ export class TimelineRenderer {
     /**
      * Update grouping mode
      */
-    setGroupMode(mode: 'none' | 'location' | 'group' | 'character' | 'track'): void {
+    setGroupMode(mode: 'none' | 'location' | 'group' | 'character' | 'track' | 'custody'): void {
         this.options.groupMode = mode;
         this.render();
     }
@@ -309,6 +314,7 @@ export class TimelineRenderer {
             const build = this.buildDatasets(referenceDate);
             const items = build.items;
             const groups = build.groups;
+            const divergence = build.divergence;
 
             // Timeline options
             // In Gantt mode, use larger margins for better bar visibility
@@ -355,6 +361,19 @@ export class TimelineRenderer {
                 }
             };
 
+            // Render axis labels through the active story calendar
+            const calendar = getActiveCalendar();
+            if (calendar) {
+                timelineOptions.format = {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    minorLabels: (date: any, scale: string) => calendar.formatAxisLabel(date.valueOf(), scale, 'minor'),
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    majorLabels: (date: any, scale: string) => calendar.formatAxisLabel(date.valueOf(), scale, 'major')
+                };
+                // The Gregorian "today" marker has no meaning on a custom calendar axis
+                timelineOptions.showCurrentTime = false;
+            }
+
             // Ensure container doesn't clip tooltips
             this.container.style.overflow = 'visible';
 
@@ -422,7 +441,7 @@ export class TimelineRenderer {
             }
 
             // Set custom current time bar
-            if (this.timeline && referenceDate) {
+            if (this.timeline && referenceDate && !calendar) {
                 try {
                     if (typeof this.timeline.setCurrentTime === 'function') {
                         this.timeline.setCurrentTime(referenceDate);
@@ -432,12 +451,26 @@ export class TimelineRenderer {
                 }
             }
 
+            // Mark where the selected fork branches off canon
+            if (divergence) {
+                try {
+                    this.timeline.addCustomTime(new Date(divergence.time), 'fork-divergence');
+                    this.timeline.setCustomTimeTitle(divergence.label, 'fork-divergence');
+                } catch (markerError) {
+                    console.warn('Storyteller Suite: Could not mark fork divergence:', markerError);
+                }
+            }
+
             // Handle double-click to edit
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             this.timeline.on('doubleClick', (props: any) => {
                 if (props.item != null) {
-                    const idx = props.item as number;
-                    const event = this.events[idx];
+                    // Branch items are keyed `fork-<index>`; era backgrounds are not events
+                    const idx = typeof props.item === 'string' && props.item.startsWith('fork-')
+                        ? Number(props.item.slice('fork-'.length))
+                        : props.item;
+                    const event = typeof idx === 'number' ? this.events[idx] : undefined;
+                    if (!event) return;
                     new EventModal(this.app, this.plugin, event, async (updatedData: Event) => {
                         await this.plugin.saveEvent(updatedData);
                         new Notice(`Event "${updatedData.name}" updated`);
@@ -496,6 +529,7 @@ export class TimelineRenderer {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         groups?: any;
         legend: Array<{ key: string; label: string; color: string }>;
+        divergence?: { time: number; label: string };
     } {
         const items = new DataSet();
         const legend: Array<{ key: string; label: string; color: string }> = [];
@@ -503,7 +537,7 @@ export class TimelineRenderer {
         let groupsDS: any | undefined;
 
         // Detect conflicts for all events
-        const allConflicts = ConflictDetector.detectAllConflicts(this.events);
+        const allConflicts = ConflictDetector.detectAllConflicts(this.events, { items: this.items });
         
         // Notify listener
         if (this.options.onConflictsDetected) {
@@ -535,7 +569,29 @@ export class TimelineRenderer {
         const keyToColor = new Map<string, string>();
         const keyToLabel = new Map<string, string>();
 
-        if (this.options.groupMode !== 'none') {
+        // Items with a datable custody chain, for the custody track
+        const custodyItems = this.options.groupMode === 'custody'
+            ? this.items
+                .map(item => ({ item, key: `item:${item.id || item.name}`, chain: buildCustodyChain(item, this.events, referenceDate) }))
+                .filter(entry => entry.chain.length > 0)
+            : [];
+
+        // A selected fork is shown as its own lane below canon, starting at the divergence point
+        const fork = this.filters.forkId ? this.plugin.getTimelineFork(this.filters.forkId) : undefined;
+        const branch = fork
+            ? buildForkBranch(this.events, fork, this.plugin.getTimelineForks(), referenceDate)
+            : undefined;
+
+        if (fork) {
+            groupsDS = new DataSet();
+            groupsDS.add({ id: '__canon__', content: 'Main Timeline', order: 0 });
+            groupsDS.add({
+                id: '__fork__',
+                content: `🔀 ${fork.name}`,
+                order: 1,
+                style: fork.color ? `border-left: 4px solid ${fork.color};` : undefined
+            });
+        } else if (this.options.groupMode !== 'none') {
             groupsDS = new DataSet();
             
             if (this.options.groupMode === 'group') {
@@ -584,7 +640,7 @@ export class TimelineRenderer {
                 groupsDS.add({ id: '__unassigned__', content: 'No character' });
                 legend.push({ key: '__unassigned__', label: 'No character', color: noneColor });
             } else if (this.options.groupMode === 'track') {
-                const tracks = this.plugin.settings.timelineTracks || [];
+                const tracks = this.plugin.getTimelineTracks();
                 const visibleTracks = tracks.filter(t => t.visible !== false);
 
                 visibleTracks.forEach((track, i) => {
@@ -601,6 +657,20 @@ export class TimelineRenderer {
                 keyToLabel.set('__no_track__', 'Unassigned');
                 groupsDS.add({ id: '__no_track__', content: 'Unassigned' });
                 legend.push({ key: '__no_track__', label: 'Unassigned', color: defaultColor });
+            } else if (this.options.groupMode === 'custody') {
+                // One lane per item with a custody chain
+                custodyItems.forEach(({ item, key }, i) => {
+                    const color = this.palette[i % this.palette.length];
+                    keyToColor.set(key, color);
+                    keyToLabel.set(key, item.name);
+                    groupsDS.add({ id: key, content: `🗝️ ${item.name}` });
+                    legend.push({ key, label: item.name, color });
+                });
+                const noneColor = '#64748B';
+                keyToColor.set('__no_item__', noneColor);
+                keyToLabel.set('__no_item__', 'No item');
+                groupsDS.add({ id: '__no_item__', content: 'No item' });
+                legend.push({ key: '__no_item__', label: 'No item', color: noneColor });
             }
         }
 
@@ -621,7 +691,9 @@ export class TimelineRenderer {
             // Determine grouping
             let groupId: string | undefined;
             let color: string | undefined;
-            if (this.options.groupMode === 'group') {
+            if (fork) {
+                groupId = '__canon__';
+            } else if (this.options.groupMode === 'group') {
                 groupId = (evt.groups && evt.groups.length > 0) ? evt.groups[0] : '__ungrouped__';
                 color = keyToColor.get(groupId);
             } else if (this.options.groupMode === 'location') {
@@ -631,7 +703,7 @@ export class TimelineRenderer {
                 groupId = (evt.characters && evt.characters.length > 0) ? evt.characters[0] : '__unassigned__';
                 color = keyToColor.get(groupId);
             } else if (this.options.groupMode === 'track') {
-                const tracks = this.plugin.settings.timelineTracks || [];
+                const tracks = this.plugin.getTimelineTracks();
                 const visibleTracks = tracks.filter(t => t.visible !== false);
 
                 // Find the first matching track for this event
@@ -697,6 +769,14 @@ export class TimelineRenderer {
 
                 groupId = matchingTrack ? matchingTrack.id : '__no_track__';
                 color = keyToColor.get(groupId);
+            } else if (this.options.groupMode === 'custody') {
+                // Lane of the first item the event transfers or involves
+                const match = custodyItems.find(({ item }) =>
+                    (item.associatedEvents || []).some(ref => sameRef(ref, evt.name)) ||
+                    (item.custodyHistory || []).some(entry => findEvent([evt], entry.event))
+                );
+                groupId = match ? match.key : '__no_item__';
+                color = keyToColor.get(groupId);
             }
 
             const approx = !!parsed.approximate;
@@ -791,9 +871,69 @@ export class TimelineRenderer {
             });
         });
 
+        // Fork lane: the fork's own events plus canon as the fork changed it
+        if (fork && branch) {
+            branch.events.forEach(({ event, index, forkOnly, altered }) => {
+                if (!this.passesFilters(event)) return;
+                const parsed = parseEventDate(event.dateTime, { referenceDate });
+                const startMs = toMillis(parsed.start);
+                const endMs = toMillis(parsed.end);
+                if (startMs == null) return;
+
+                const classes = ['storyteller-fork-item'];
+                if (forkOnly) classes.push('is-fork-only');
+                if (altered) classes.push('is-fork-altered');
+                const style = fork.color
+                    ? `background-color:${this.hexWithAlpha(fork.color, forkOnly ? 0.35 : 0.15)};border-color:${fork.color};`
+                    : '';
+                const name = event.name?.trim() || '(Untitled Event)';
+                items.add({
+                    id: `fork-${index}`,
+                    content: forkOnly ? `🔀 ${name}` : altered ? `✎ ${name}` : name,
+                    start: new Date(startMs),
+                    end: endMs != null ? new Date(endMs) : undefined,
+                    title: this.makeTooltip(event, parsed),
+                    type: endMs != null || this.options.ganttMode ? 'range' : 'box',
+                    className: classes.join(' '),
+                    group: '__fork__',
+                    style
+                });
+            });
+        }
+
+        // Custody track: who held each item, and where, between transfers
+        if (!fork && custodyItems.length > 0) {
+            const range = this.getDateRange();
+            const dayMs = 24 * 60 * 60 * 1000;
+            custodyItems.forEach(({ item, key, chain }, itemIdx) => {
+                const color = keyToColor.get(key);
+                chain.forEach(period => {
+                    // Open ends run to the edge of the story's events
+                    const start = isFinite(period.start) ? period.start : Math.min(range?.start.getTime() ?? period.end, period.end);
+                    let end = isFinite(period.end) ? period.end : Math.max(range?.end.getTime() ?? start, start);
+                    if (end <= start) end = start + dayMs;
+                    const label = describeCustody(period.entry) || '?';
+                    const transfer = period.entry.event ? `\nTransfer: ${period.entry.event}` : '';
+                    const notes = period.entry.notes ? `\n${period.entry.notes}` : '';
+                    items.add({
+                        id: `custody-${itemIdx}-${period.index}`,
+                        content: label,
+                        start: new Date(start),
+                        end: new Date(end),
+                        title: `${item.name}: ${label}\n${period.entry.from || period.entry.event || '…'} – ${period.entry.to || '…'}${transfer}${notes}`,
+                        type: 'range',
+                        className: 'storyteller-custody-period',
+                        group: key,
+                        editable: false,
+                        style: color ? `background-color:${this.hexWithAlpha(color, 0.1)};border-color:${color};` : ''
+                    });
+                });
+            });
+        }
+
         // Add era background items when showEras is enabled
         if (this.showEras) {
-            const eras = this.plugin.settings.timelineEras || [];
+            const eras = this.plugin.getTimelineEras();
             const visibleEras = eras.filter(era => era.visible !== false);
 
             visibleEras.forEach((era, index) => {
@@ -822,7 +962,10 @@ export class TimelineRenderer {
             });
         }
 
-        return { items, groups: groupsDS, legend };
+        const divergence = fork && branch?.divergence !== undefined
+            ? { time: branch.divergence, label: `Divergence: ${fork.divergenceEvent || fork.name}` }
+            : undefined;
+        return { items, groups: groupsDS, legend, divergence };
     }
 
     /**
@@ -891,9 +1034,18 @@ export class TimelineRenderer {
     }
 
     /**
-     * Check if event should be included based on filters
+     * Check if event belongs on the canonical timeline and passes the filters.
+     * Events that exist only in a fork are shown on that fork's lane instead.
      */
     private shouldIncludeEvent(evt: Event): boolean {
+        if (!this.passesFilters(evt)) return false;
+        return !this.plugin.getTimelineForks().some(fork => isForkEvent(evt, fork));
+    }
+
+    /**
+     * Check an event against the character, location, group and milestone filters
+     */
+    private passesFilters(evt: Event): boolean {
         // Milestones filter
         if (this.filters.milestonesOnly && !evt.isMilestone) {
             return false;
@@ -916,24 +1068,6 @@ export class TimelineRenderer {
             if (!hasMatchingGroup) return false;
         }
 
-        // Fork filter
-        const eventIdentifier = evt.id || evt.name;
-        if (this.filters.forkId) {
-            // Viewing a specific fork - only show events in that fork
-            const fork = this.plugin.getTimelineFork(this.filters.forkId);
-            if (fork) {
-                const isInFork = fork.forkEvents?.includes(eventIdentifier);
-                if (!isInFork) return false;
-            }
-        } else {
-            // Main timeline - exclude events that belong to any fork
-            const allForks = this.plugin.getTimelineForks();
-            const isInAnyFork = allForks.some(fork => 
-                fork.forkEvents?.includes(eventIdentifier)
-            );
-            if (isInAnyFork) return false;
-        }
-
         return true;
     }
 
@@ -961,7 +1095,7 @@ export class TimelineRenderer {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private makeTooltip(evt: Event, parsed: any, conflicts: DetectedConflict[] = []): string {
         const parts: string[] = [evt.name || '(Untitled Event)'];
-        const dt = parsed?.start ? toDisplay(parsed.start, undefined, parsed.isBCE, parsed.originalYear) : (evt.dateTime || '');
+        const dt = parsed?.start ? formatParsedDate(parsed) : (evt.dateTime || '');
         if (dt) parts.push(dt);
         if (evt.location) parts.push(`@ ${this.resolveLocationName(evt.location)}`);
         if (evt.description) parts.push(evt.description.length > 120 ? evt.description.slice(0, 120) + '…' : evt.description);
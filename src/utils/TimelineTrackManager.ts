@@ -13,17 +13,17 @@ export class TimelineTrackManager {
     }
 
     /**
-     * Get all tracks from settings
+     * Get the active story's tracks from settings
      */
     async getTracks(): Promise<TimelineTrack[]> {
-        return this.plugin.settings.timelineTracks || [];
+        return this.plugin.getTimelineTracks();
     }
 
     /**
-     * Save tracks to settings
+     * Save the active story's tracks to settings
      */
     async saveTracks(tracks: TimelineTrack[]): Promise<void> {
-        this.plugin.settings.timelineTracks = tracks;
+        this.plugin.setStoryRecords('timelineTracks', tracks);
         await this.plugin.saveSettings();
     }
 
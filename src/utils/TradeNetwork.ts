@@ -0,0 +1,274 @@
+/**
+ * TradeNetwork - Trade routes resolved to locations, and how scarce goods are along them
+ *
+ * Route endpoints are free text matched to locations by id or name. A route's cost is its
+ * length on a map both endpoints are bound to, relative to the average route on that map,
+ * scaled by its status; routes that can't be measured cost 1. Each resource starts at its
+ * `availability` where it is produced and gets one step scarcer per unit of route cost.
+ */
+
+import type { Economy, Location, Resource, TradeRoute } from '../types';
+import { plainRef, sameRef } from './ItemCustody';
+
+export type Availability = Resource['availability'];
+export type RouteStatus = 'active' | 'disrupted' | 'closed';
+
+/** Availability from most to least common */
+export const AVAILABILITY_LEVELS: Availability[] = ['abundant', 'common', 'uncommon', 'rare', 'legendary'];
+
+/** Cost multiplier per status; closed routes carry nothing */
+export const ROUTE_STATUS_COST: Record<RouteStatus, number> = {
+    active: 1,
+    disrupted: 2,
+    closed: Infinity
+};
+
+/** Price growth per unit of route cost */
+export const PRICE_STEP = 1.5;
+
+const CLOSED_STATUSES = /closed|blockad|abandon|destroy|severed|embargo|inactive/i;
+const DISRUPTED_STATUSES = /disrupt|danger|contest|threat|season|raid|unstable|declin|limited/i;
+
+/** A trade route with its endpoints resolved */
+export interface ResolvedTradeRoute {
+    economy: Economy;
+    route: TradeRoute;
+    origin?: Location;
+    destination?: Location;
+    status: RouteStatus;
+    /** Map the distance was measured on */
+    mapId?: string;
+    /** Straight-line distance in map coordinates */
+    distance?: number;
+    /** Cost of moving goods along the route; Infinity when closed or an endpoint is unknown */
+    cost: number;
+}
+
+/** Estimated availability of one resource at one location */
+export interface ScarcityEstimate {
+    economy: string;
+    resource: string;
+    locationId: string;
+    locationName: string;
+    /** 0 (abundant) to 4 (legendary) and beyond; Infinity when no open route reaches here */
+    level: number;
+    availability: Availability | 'unavailable';
+    /** Price relative to where the resource is produced */
+    priceMultiplier: number;
+    /** Location id of the cheapest supply */
+    sourceId?: string;
+}
+
+/** Id used for a location in estimates and on maps */
+export function locationKey(location: Location): string {
+    return location.id || location.name;
+}
+
+/** Find a location by id or name */
+export function findLocation(locations: Location[], ref?: string): Location | undefined {
+    if (!plainRef(ref)) return undefined;
+    return locations.find(l => (l.id && l.id === plainRef(ref)) || sameRef(l.name, ref));
+}
+
+/** Classify a free-text route status; an empty status counts as active */
+export function routeStatus(status?: string): RouteStatus {
+    if (!status) return 'active';
+    if (CLOSED_STATUSES.test(status)) return 'closed';
+    if (DISRUPTED_STATUSES.test(status)) return 'disrupted';
+    return 'active';
+}
+
+/** Distance between two locations on the first map both are bound to */
+export function routeDistance(a: Location, b: Location): { mapId: string; distance: number } | undefined {
+    for (const from of a.mapBindings || []) {
+        const to = b.mapBindings?.find(binding => binding.mapId === from.mapId);
+        if (!to) continue;
+        const [ay, ax] = from.coordinates;
+        const [by, bx] = to.coordinates;
+        return { mapId: from.mapId, distance: Math.hypot(ay - by, ax - bx) };
+    }
+    return undefined;
+}
+
+/** Whether a route lists a resource among its goods */
+function carries(route: TradeRoute, resource: string): boolean {
+    return (route.goods || []).some(good => sameRef(good, resource));
+}
+
+/** Resolve every economy's trade routes and price them by distance and status */
+export function resolveTradeRoutes(economies: Economy[], locations: Location[]): ResolvedTradeRoute[] {
+    const resolved: ResolvedTradeRoute[] = [];
+    economies.forEach(economy => (economy.tradeRoutes || []).forEach(route => {
+        const origin = findLocation(locations, route.origin);
+        const destination = findLocation(locations, route.destination);
+        const measured = origin && destination ? routeDistance(origin, destination) : undefined;
+        resolved.push({
+            economy,
+            route,
+            origin,
+            destination,
+            status: routeStatus(route.status),
+            mapId: measured?.mapId,
+            distance: measured?.distance,
+            cost: Infinity
+        });
+    }));
+
+    // Map coordinates have no common unit, so distances are relative to each map's average route
+    const totals = new Map<string, { sum: number; count: number }>();
+    resolved.forEach(({ mapId, distance }) => {
+        if (mapId === undefined || distance === undefined) return;
+        const total = totals.get(mapId) || { sum: 0, count: 0 };
+        totals.set(mapId, { sum: total.sum + distance, count: total.count + 1 });
+    });
+
+    resolved.forEach(r => {
+        if (!r.origin || !r.destination) return;
+        const total = r.mapId !== undefined ? totals.get(r.mapId) : undefined;
+        const mean = total ? total.sum / total.count : 0;
+        const length = r.distance !== undefined && mean > 0 ? r.distance / mean : 1;
+        r.cost = ROUTE_STATUS_COST[r.status] * length;
+    });
+    return resolved;
+}
+
+/**
+ * Cheapest supply cost of a resource from its producers to every location in the network
+ * Routes listing goods move those goods from origin to destination; routes without goods
+ * carry anything both ways.
+ */
+function supplyCosts(
+    resource: string,
+    sources: string[],
+    routes: ResolvedTradeRoute[]
+): Map<string, { cost: number; sourceId: string }> {
+    const edges = new Map<string, { to: string; cost: number }[]>();
+    const addEdge = (from: string, to: string, cost: number) => {
+        const list = edges.get(from);
+        if (list) list.push({ to, cost });
+        else edges.set(from, [{ to, cost }]);
+    };
+    routes.forEach(r => {
+        if (!r.origin || !r.destination || !isFinite(r.cost)) return;
+        const from = locationKey(r.origin);
+        const to = locationKey(r.destination);
+        if (!r.route.goods || r.route.goods.length === 0) {
+            addEdge(from, to, r.cost);
+            addEdge(to, from, r.cost);
+        } else if (carries(r.route, resource)) {
+            addEdge(from, to, r.cost);
+        }
+    });
+
+    // Dijkstra from all producers at once; networks are small, so a linear scan picks the next node
+    const best = new Map<string, { cost: number; sourceId: string }>();
+    sources.forEach(id => best.set(id, { cost: 0, sourceId: id }));
+    const done = new Set<string>();
+    for (;;) {
+        let current: string | undefined;
+        best.forEach((value, id) => {
+            if (done.has(id)) return;
+            if (current === undefined || value.cost < (best.get(current)?.cost ?? Infinity)) current = id;
+        });
+        if (current === undefined) break;
+        done.add(current);
+        const reached = best.get(current);
+        if (!reached) break;
+        (edges.get(current) || []).forEach(edge => {
+            const cost = reached.cost + edge.cost;
+            if (cost < (best.get(edge.to)?.cost ?? Infinity)) best.set(edge.to, { cost, sourceId: reached.sourceId });
+        });
+    }
+    return best;
+}
+
+/**
+ * Estimate how scarce each economy's resources are at each location of its network
+ * A resource is produced at the origins of routes that list it, or at the economy's linked
+ * locations when no route does.
+ */
+export function estimateScarcity(
+    economies: Economy[],
+    locations: Location[],
+    routes: ResolvedTradeRoute[] = resolveTradeRoutes(economies, locations)
+): ScarcityEstimate[] {
+    const estimates: ScarcityEstimate[] = [];
+
+    economies.forEach(economy => {
+        const own = routes.filter(r => r.economy === economy);
+        const network = new Map<string, Location>();
+        const add = (location?: Location) => {
+            if (location) network.set(locationKey(location), location);
+        };
+        const linked = (economy.linkedLocations || []).map(ref => findLocation(locations, ref));
+        linked.forEach(add);
+        own.forEach(r => { add(r.origin); add(r.destination); });
+
+        (economy.resources || []).forEach(resource => {
+            const base = Math.max(0, AVAILABILITY_LEVELS.indexOf(resource.availability));
+            const producers = own.filter(r => r.origin && carries(r.route, resource.name)).map(r => r.origin);
+            const sources = (producers.length > 0 ? producers : linked)
+                .filter((l): l is Location => !!l)
+                .map(locationKey);
+            const costs = supplyCosts(resource.name, sources, own);
+
+            network.forEach((location, id) => {
+                const supply = costs.get(id);
+                const level = supply ? base + supply.cost : Infinity;
+                estimates.push({
+                    economy: economy.name,
+                    resource: resource.name,
+                    locationId: id,
+                    locationName: location.name,
+                    level,
+                    availability: isFinite(level)
+                        ? AVAILABILITY_LEVELS[Math.min(AVAILABILITY_LEVELS.length - 1, Math.round(level))]
+                        : 'unavailable',
+                    priceMultiplier: supply ? Math.pow(PRICE_STEP, supply.cost) : Infinity,
+                    sourceId: supply?.sourceId
+                });
+            });
+        });
+    });
+    return estimates;
+}
+
+/** Markdown note with every route and the scarcity of each resource along it */
+export function formatTradeReport(routes: ResolvedTradeRoute[], estimates: ScarcityEstimate[], locations: Location[]): string {
+    const names = new Map(locations.map(l => [locationKey(l), l.name]));
+    const link = (name?: string) => name ? `[[${name}]]` : '—';
+    const endpoint = (location: Location | undefined, ref: string) => location ? link(location.name) : `${ref || '—'} (unresolved)`;
+    const price = (value: number) => isFinite(value) ? `×${value.toFixed(2)}` : '—';
+
+    let report = `# Trade Report\n\n`;
+    report += `Generated: ${new Date().toLocaleString()}\n\n`;
+
+    report += `## Routes\n\n`;
+    report += `| Route | Economy | From | To | Goods | Status | Cost |\n`;
+    report += `| --- | --- | --- | --- | --- | --- | --- |\n`;
+    routes.forEach(r => {
+        const cost = isFinite(r.cost) ? r.cost.toFixed(2) : '—';
+        report += `| ${r.route.name} | ${link(r.economy.name)} | ${endpoint(r.origin, r.route.origin)} | ` +
+            `${endpoint(r.destination, r.route.destination)} | ${(r.route.goods || []).join(', ') || 'any'} | ${r.status} | ${cost} |\n`;
+    });
+
+    const byResource = new Map<string, ScarcityEstimate[]>();
+    estimates.forEach(estimate => {
+        const key = `${estimate.economy}\u0000${estimate.resource}`;
+        const list = byResource.get(key);
+        if (list) list.push(estimate);
+        else byResource.set(key, [estimate]);
+    });
+
+    report += `\n## Scarcity\n`;
+    byResource.forEach(list => {
+        report += `\n### ${list[0].resource} (${list[0].economy})\n\n`;
+        report += `| Location | Availability | Price | Supplied from |\n`;
+        report += `| --- | --- | --- | --- |\n`;
+        [...list].sort((a, b) => a.level - b.level || a.locationName.localeCompare(b.locationName)).forEach(e => {
+            const source = e.sourceId ? link(names.get(e.sourceId) || e.sourceId) : '—';
+            report += `| ${link(e.locationName)} | ${e.availability} | ${price(e.priceMultiplier)} | ${source} |\n`;
+        });
+    });
+    return report;
+}
@@ -0,0 +1,183 @@
+/**
+ * WritingGoals - Streaks, rolling velocity, deadline plans and a calendar heatmap
+ * from daily writing statistics
+ *
+ * Dates are ISO day keys (YYYY-MM-DD), as in WordCountTracker. Day arithmetic is done
+ * in UTC so daylight-saving changes never skip or repeat a day.
+ */
+
+import type { DailyWritingStats, ProjectGoal } from '../types';
+
+/** Days of history used for the rolling velocity */
+export const DEFAULT_VELOCITY_WINDOW = 14;
+
+/** Current and best run of consecutive writing days */
+export interface WritingStreaks {
+    current: number;
+    longest: number;
+}
+
+/** Where a project goal stands and what it takes to finish on time */
+export interface GoalPlan {
+    goal: ProjectGoal;
+    currentWords: number;
+    /** Words still to write; 0 once the target is reached */
+    remaining: number;
+    /** 0-100 progress from the start count to the target */
+    percent: number;
+    /** Days left including today; 0 or less once the deadline has passed */
+    daysLeft: number;
+    /** Words per day needed to finish by the deadline */
+    wordsPerDay: number;
+    /** Average net words per day over the velocity window */
+    velocity: number;
+    /** Day the target is reached at the current velocity; undefined when not moving forward */
+    projectedDate?: string;
+    onTrack: boolean;
+    complete: boolean;
+}
+
+/** One day of the heatmap */
+export interface HeatmapCell {
+    date: string;
+    netWords: number;
+    /** Intensity bucket: 0 for no net words, 1-4 relative to the busiest day */
+    level: number;
+    /** Day lies after today and is only padding */
+    future: boolean;
+}
+
+function toUtc(key: string): number {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+}
+
+/** Day key a number of days after (or before) another */
+export function addDays(key: string, days: number): string {
+    return new Date(toUtc(key) + days * 86400000).toISOString().split('T')[0];
+}
+
+/** Whole days from one day key to another */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((toUtc(to) - toUtc(from)) / 86400000);
+}
+
+function byDate(stats: DailyWritingStats[]): Map<string, DailyWritingStats> {
+    return new Map(stats.map(stat => [stat.date, stat]));
+}
+
+/** A day counts toward a streak when any words were written */
+function wroteOn(stat?: DailyWritingStats): boolean {
+    return !!stat && stat.wordsWritten > 0;
+}
+
+/**
+ * Consecutive writing days. Today not having been written yet does not break
+ * the current streak; it counts back from yesterday instead.
+ */
+export function getStreaks(stats: DailyWritingStats[], today: string): WritingStreaks {
+    const days = byDate(stats);
+
+    let current = 0;
+    let day = wroteOn(days.get(today)) ? today : addDays(today, -1);
+    while (wroteOn(days.get(day))) {
+        current++;
+        day = addDays(day, -1);
+    }
+
+    let longest = 0;
+    let run = 0;
+    let previous = '';
+    stats.filter(wroteOn).map(stat => stat.date).sort().forEach(date => {
+        run = previous && daysBetween(previous, date) === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = date;
+    });
+
+    return { current, longest: Math.max(longest, current) };
+}
+
+/**
+ * Average net words per day over the last `windowDays` days up to today.
+ * Days without writing count as zero, but days before the first recorded day are left out.
+ */
+export function getRollingVelocity(stats: DailyWritingStats[], today: string, windowDays = DEFAULT_VELOCITY_WINDOW): number {
+    const dates = stats.map(stat => stat.date).filter(date => date <= today).sort();
+    if (dates.length === 0) return 0;
+
+    const windowStart = addDays(today, -(windowDays - 1));
+    const start = dates[0] > windowStart ? dates[0] : windowStart;
+    const total = stats
+        .filter(stat => stat.date >= start && stat.date <= today)
+        .reduce((sum, stat) => sum + stat.netWords, 0);
+    return total / (daysBetween(start, today) + 1);
+}
+
+/** Work out the pace needed for a project goal and when it will be met at the current pace */
+export function planProjectGoal(
+    goal: ProjectGoal,
+    currentWords: number,
+    stats: DailyWritingStats[],
+    today: string,
+    windowDays = DEFAULT_VELOCITY_WINDOW
+): GoalPlan {
+    const remaining = Math.max(0, goal.target - currentWords);
+    const span = goal.target - goal.startWords;
+    const percent = remaining === 0 ? 100 : span > 0 ? Math.max(0, Math.min(100, ((currentWords - goal.startWords) / span) * 100)) : 0;
+    const daysLeft = daysBetween(today, goal.deadline) + 1;
+    const velocity = getRollingVelocity(stats, today, windowDays);
+    const complete = remaining === 0;
+
+    let projectedDate: string | undefined;
+    if (complete) {
+        projectedDate = today;
+    } else if (velocity > 0) {
+        projectedDate = addDays(today, Math.ceil(remaining / velocity) - 1);
+    }
+
+    return {
+        goal,
+        currentWords,
+        remaining,
+        percent,
+        daysLeft,
+        wordsPerDay: complete ? 0 : Math.ceil(remaining / Math.max(1, daysLeft)),
+        velocity,
+        projectedDate,
+        onTrack: complete || (!!projectedDate && projectedDate <= goal.deadline),
+        complete
+    };
+}
+
+/**
+ * Calendar heatmap of net words, one column per week (Sunday first) ending with
+ * the week that contains today
+ */
+export function buildHeatmap(stats: DailyWritingStats[], today: string, weeks = 26): HeatmapCell[][] {
+    const days = byDate(stats);
+    const lastSunday = addDays(today, -new Date(toUtc(today)).getUTCDay());
+    const first = addDays(lastSunday, -(weeks - 1) * 7);
+
+    let busiest = 0;
+    for (let i = 0; i < weeks * 7; i++) {
+        const date = addDays(first, i);
+        if (date <= today) busiest = Math.max(busiest, days.get(date)?.netWords ?? 0);
+    }
+
+    const columns: HeatmapCell[][] = [];
+    for (let week = 0; week < weeks; week++) {
+        const column: HeatmapCell[] = [];
+        for (let weekday = 0; weekday < 7; weekday++) {
+            const date = addDays(first, week * 7 + weekday);
+            const netWords = days.get(date)?.netWords ?? 0;
+            column.push({
+                date,
+                netWords,
+                level: netWords > 0 && busiest > 0 ? Math.max(1, Math.ceil((netWords / busiest) * 4)) : 0,
+                future: date > today
+            });
+        }
+        columns.push(column);
+    }
+    return columns;
+}
@@ -13,11 +13,25 @@ import {
     POVStats,
     VelocityData,
     ForeshadowingPair,
-    DialogueAnalysis
+    DialogueAnalysis,
+    DialogueBreakdown,
+    PacingAnalysis,
+    ProjectGoal,
+    Character,
+    Scene,
+    Chapter,
+    Event
 } from '../types';
+import { DialogueAnalyzer } from '../utils/DialogueAnalyzer';
+import { analyzePacing, comparePacing, PacingChapterInput } from '../utils/PacingAnalyzer';
+import { buildHeatmap, getRollingVelocity, getStreaks, GoalPlan, DEFAULT_VELOCITY_WINDOW } from '../utils/WritingGoals';
+import { WordCountTracker } from '../compile/WordCountTracker';
 
 export const VIEW_TYPE_ANALYTICS = 'storyteller-analytics-view';
 
+/** Saved pacing analyses kept for draft comparison */
+const MAX_PACING_SNAPSHOTS = 20;
+
 /**
  * AnalyticsDashboardView provides comprehensive writing analytics
  * Features:
@@ -28,10 +42,12 @@ export const VIEW_TYPE_ANALYTICS = 'storyteller-analytics-view';
  * - Pacing analysis
  * - Foreshadowing tracker
  * - Writing velocity metrics
+ * - Project goals, streaks and a writing calendar
  */
 export class AnalyticsDashboardView extends ItemView {
     plugin: StorytellerSuitePlugin;
     private analytics: StoryAnalytics | null = null;
+    private goalPlans: GoalPlan[] = [];
     private refreshing = false;
     private contentContainer: HTMLElement | null = null;
 
@@ -102,9 +118,11 @@ export class AnalyticsDashboardView extends ItemView {
         try {
             // Calculate analytics
             this.analytics = await this.calculateAnalytics();
+            this.goalPlans = await this.plugin.writingProgress.getGoalPlans();
 
             // Save to settings
             this.plugin.settings.analyticsData = this.analytics;
+            this.plugin.settings.pacingAnalysis = this.analytics.pacing;
             await this.plugin.saveSettings();
         } catch (error) {
             console.error('Error refreshing analytics:', error);
@@ -120,20 +138,32 @@ export class AnalyticsDashboardView extends ItemView {
         const scenes = await this.plugin.listScenes();
         const chapters = await this.plugin.listChapters();
 
-        // Calculate character screen time
+        // Calculate character screen time: scenes and chapters that link or mention the
+        // character, weighted by their word count when there is prose to measure
+        const sources = await this.plugin.mentionIndex.getSources();
+        const totalWords = sources.reduce((sum, source) => sum + source.wordCount, 0);
         const characterScreenTime: CharacterScreenTime[] = characters.map(char => {
-            const appearances = events.filter(e =>
-                e.characters?.includes(char.name)
-            ).length + scenes.filter(s =>
-                s.linkedCharacters?.includes(char.name)
-            ).length;
+            const featured = new Set<string>(scenes
+                .filter(s => s.linkedCharacters?.includes(char.name))
+                .map(s => s.filePath || s.name));
+            sources.forEach(source => {
+                if (source.mentions.some(m => m.type === 'character' && m.entityId === char.name)) featured.add(source.path);
+            });
+            const eventAppearances = events.filter(e => e.characters?.includes(char.name)).length;
+            const appearances = eventAppearances + featured.size;
+            const wordCount = sources
+                .filter(source => featured.has(source.path))
+                .reduce((sum, source) => sum + source.wordCount, 0);
 
             return {
                 characterName: char.name,
                 appearances,
-                percentage: events.length > 0 ? (appearances / events.length) * 100 : 0
+                wordCount,
+                percentage: totalWords > 0
+                    ? (wordCount / totalWords) * 100
+                    : events.length > 0 ? (appearances / events.length) * 100 : 0
             };
-        }).sort((a, b) => b.appearances - a.appearances);
+        }).sort((a, b) => (b.wordCount ?? 0) - (a.wordCount ?? 0) || b.appearances - a.appearances);
 
         // Calculate event distribution
         const eventDistribution: EventDistribution[] = this.calculateEventDistribution(events);
@@ -149,11 +179,7 @@ export class AnalyticsDashboardView extends ItemView {
         const foreshadowing = this.plugin.settings.analyticsData?.foreshadowing || [];
 
         // Calculate dialogue analysis
-        const dialogueAnalysis: DialogueAnalysis = {
-            totalLines: 0,
-            byCharacter: {},
-            density: 0
-        };
+        const dialogueAnalysis: DialogueAnalysis = this.calculateDialogueAnalysis(characters, scenes, chapters);
 
         return {
             lastUpdated: new Date().toISOString(),
@@ -163,10 +189,61 @@ export class AnalyticsDashboardView extends ItemView {
             povStats,
             velocity,
             foreshadowing,
-            dialogueAnalysis
+            dialogueAnalysis,
+            pacing: this.calculatePacing(events, scenes, chapters)
         };
     }
 
+    calculatePacing(events: Event[], scenes: Scene[], chapters: Chapter[]): PacingAnalysis {
+        const ordered = [...chapters].sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity) || a.name.localeCompare(b.name));
+        const byPriority = (a: Scene, b: Scene) => (a.priority ?? 0) - (b.priority ?? 0);
+        const input: PacingChapterInput[] = ordered.map(chapter => ({
+            name: chapter.name,
+            scenes: scenes
+                .filter(scene => scene.chapterId && scene.chapterId === chapter.id)
+                .sort(byPriority)
+                .map(scene => ({ content: scene.content || '', linkedEvents: scene.linkedEvents }))
+        }));
+
+        const chapterIds = new Set(chapters.map(chapter => chapter.id).filter(Boolean));
+        const unassigned = scenes.filter(scene => !scene.chapterId || !chapterIds.has(scene.chapterId));
+        if (unassigned.some(scene => scene.content)) {
+            input.push({
+                name: 'Unassigned scenes',
+                scenes: unassigned.sort(byPriority).map(scene => ({ content: scene.content || '', linkedEvents: scene.linkedEvents }))
+            });
+        }
+
+        const analysis = analyzePacing(input, events);
+        const activeStory = this.plugin.getActiveStory();
+        const draft = activeStory
+            ? (this.plugin.settings.storyDrafts || []).find(d => d.id === this.plugin.settings.activeDraftId && d.storyId === activeStory.id)
+            : undefined;
+        analysis.draftId = draft?.id;
+        analysis.label = draft?.name;
+        return analysis;
+    }
+
+    calculateDialogueAnalysis(characters: Character[], scenes: Scene[], chapters: Chapter[]): DialogueAnalysis {
+        const chapterById = new Map<string, Chapter>();
+        chapters.forEach(chapter => { if (chapter.id) chapterById.set(chapter.id, chapter); });
+        const ordered = scenes
+            .filter(scene => scene.content)
+            .map(scene => ({ scene, chapter: scene.chapterId ? chapterById.get(scene.chapterId) : undefined }))
+            .sort((a, b) => {
+                const chapterOrder = (a.chapter?.number ?? Infinity) - (b.chapter?.number ?? Infinity);
+                if (chapterOrder !== 0 && !isNaN(chapterOrder)) return chapterOrder;
+                return (a.scene.priority ?? 0) - (b.scene.priority ?? 0);
+            });
+
+        const analyzer = new DialogueAnalyzer(characters.map(c => c.name).filter(Boolean));
+        return analyzer.analyze(ordered.map(({ scene, chapter }) => ({
+            name: scene.name,
+            chapterName: chapter?.name ?? scene.chapterName,
+            content: scene.content || ''
+        })));
+    }
+
     calculateEventDistribution(events: any[]): EventDistribution[] {
         // Group events by year/period
         const distribution: Record<string, number> = {};
@@ -246,6 +323,10 @@ export class AnalyticsDashboardView extends ItemView {
         // Overview section
         this.renderOverview(content);
 
+        // Writing goals and calendar
+        this.renderWritingGoals(content);
+        this.renderWritingCalendar(content);
+
         // Character screen time
         this.renderCharacterScreenTime(content);
 
@@ -255,6 +336,12 @@ export class AnalyticsDashboardView extends ItemView {
         // POV statistics
         this.renderPOVStats(content);
 
+        // Dialogue attribution
+        this.renderDialogueAnalysis(content);
+
+        // Pacing
+        this.renderPacing(content);
+
         // Writing velocity
         this.renderWritingVelocity(content);
 
@@ -298,6 +385,7 @@ export class AnalyticsDashboardView extends ItemView {
         const headerRow = thead.createEl('tr');
         headerRow.createEl('th', { text: 'Character' });
         headerRow.createEl('th', { text: 'Appearances' });
+        headerRow.createEl('th', { text: 'Words' });
         headerRow.createEl('th', { text: 'Percentage' });
         headerRow.createEl('th', { text: 'Bar' });
 
@@ -306,6 +394,7 @@ export class AnalyticsDashboardView extends ItemView {
             const row = tbody.createEl('tr');
             row.createEl('td', { text: char.characterName });
             row.createEl('td', { text: char.appearances.toString() });
+            row.createEl('td', { text: (char.wordCount ?? 0).toLocaleString() });
             row.createEl('td', { text: `${char.percentage?.toFixed(1)}%` });
 
             const barCell = row.createEl('td');
@@ -354,6 +443,202 @@ export class AnalyticsDashboardView extends ItemView {
         });
     }
 
+    renderDialogueAnalysis(container: HTMLElement): void {
+        const section = container.createDiv('storyteller-analytics-section');
+        section.createEl('h3', { text: 'Dialogue Analysis' });
+
+        const dialogue = this.analytics?.dialogueAnalysis;
+        if (!dialogue?.totalLines) {
+            section.createEl('p', { text: 'No dialogue found in scene content' });
+            return;
+        }
+
+        const summary = section.createEl('p');
+        summary.setText(`${dialogue.totalLines} lines of dialogue, ${dialogue.density?.toFixed(1)}% of words` +
+            (dialogue.unattributed ? ` (${dialogue.unattributed} unattributed)` : ''));
+
+        const speakers = Object.entries(dialogue.byCharacter || {}).sort((a, b) => b[1] - a[1]);
+        if (speakers.length > 0) {
+            const table = section.createEl('table', { cls: 'storyteller-analytics-table' });
+            const headerRow = table.createEl('thead').createEl('tr');
+            headerRow.createEl('th', { text: 'Character' });
+            headerRow.createEl('th', { text: 'Lines' });
+            headerRow.createEl('th', { text: 'Percentage' });
+            headerRow.createEl('th', { text: 'Bar' });
+
+            const tbody = table.createEl('tbody');
+            const totalLines = dialogue.totalLines;
+            speakers.forEach(([name, lines]) => {
+                const percentage = (lines / totalLines) * 100;
+                const row = tbody.createEl('tr');
+                row.createEl('td', { text: name });
+                row.createEl('td', { text: lines.toString() });
+                row.createEl('td', { text: `${percentage.toFixed(1)}%` });
+                const fill = row.createEl('td').createDiv('storyteller-progress-bar').createDiv('storyteller-progress-fill');
+                fill.style.width = `${percentage}%`;
+            });
+        }
+
+        this.renderDialogueBreakdown(section, 'By Chapter', 'Chapter', dialogue.byChapter);
+        this.renderDialogueBreakdown(section, 'By Scene', 'Scene', dialogue.byScene);
+    }
+
+    renderDialogueBreakdown(container: HTMLElement, title: string, label: string, rows?: DialogueBreakdown[]): void {
+        const withDialogue = (rows || []).filter(row => row.totalLines > 0);
+        if (withDialogue.length === 0) return;
+
+        container.createEl('h4', { text: title });
+        const table = container.createEl('table', { cls: 'storyteller-analytics-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: label });
+        headerRow.createEl('th', { text: 'Lines' });
+        headerRow.createEl('th', { text: 'Density' });
+        headerRow.createEl('th', { text: 'Speakers' });
+
+        const tbody = table.createEl('tbody');
+        withDialogue.forEach(row => {
+            const tr = tbody.createEl('tr');
+            tr.createEl('td', { text: row.name });
+            tr.createEl('td', { text: row.totalLines.toString() });
+            tr.createEl('td', { text: `${row.density.toFixed(1)}%` });
+            tr.createEl('td', { text: this.formatSpeakers(row) });
+        });
+    }
+
+    formatSpeakers(row: DialogueBreakdown): string {
+        const parts = Object.entries(row.byCharacter)
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, lines]) => `${name} (${lines})`);
+        if (row.unattributed > 0) parts.push(`unattributed (${row.unattributed})`);
+        return parts.join(', ');
+    }
+
+    renderPacing(container: HTMLElement): void {
+        const section = container.createDiv('storyteller-analytics-section');
+        section.createEl('h3', { text: 'Pacing' });
+
+        const pacing = this.analytics?.pacing;
+        if (!pacing?.chapterPacing || pacing.chapterPacing.length === 0) {
+            section.createEl('p', { text: 'No chapters to analyze' });
+            return;
+        }
+
+        const toolbar = section.createDiv('storyteller-section-toolbar');
+        const saveBtn = toolbar.createEl('button', { text: 'Save Pacing Snapshot' });
+        saveBtn.addEventListener('click', async () => {
+            await this.savePacingSnapshot(pacing);
+            this.renderAnalytics();
+        });
+
+        const grid = section.createDiv('storyteller-analytics-grid');
+        this.createStatCard(grid, 'Pacing Score', pacing.overallScore?.toString() ?? '-', '🎯');
+        this.createStatCard(grid, 'Reading Time', `${pacing.chapterPacing.reduce((sum, c) => sum + (c.readingTime || 0), 0)} min`, '⏱️');
+
+        const table = section.createEl('table', { cls: 'storyteller-analytics-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        ['Chapter', 'Words', 'Sentence', 'Paragraph', 'Dialogue', 'Events', 'Pace', 'Tension'].forEach(label => {
+            headerRow.createEl('th', { text: label });
+        });
+        const tbody = table.createEl('tbody');
+        pacing.chapterPacing.forEach((chapter, index) => {
+            const tension = pacing.tensionPoints?.[index];
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: chapter.chapterName });
+            row.createEl('td', { text: chapter.wordCount.toLocaleString() });
+            row.createEl('td', { text: `${chapter.avgSentenceLength ?? 0}` });
+            row.createEl('td', { text: `${chapter.avgParagraphLength ?? 0}` });
+            row.createEl('td', { text: `${(chapter.dialogueRatio ?? 0).toFixed(1)}%` });
+            row.createEl('td', { text: `${chapter.eventCount}${chapter.milestoneCount ? ` (${chapter.milestoneCount}★)` : ''}` });
+            row.createEl('td', { text: `${chapter.pacing} (${chapter.paceScore ?? 0})`, cls: `storyteller-pacing-${chapter.pacing}` });
+            const fill = row.createEl('td').createDiv('storyteller-progress-bar').createDiv('storyteller-progress-fill');
+            fill.style.width = `${(tension?.tensionLevel ?? 0) * 10}%`;
+            fill.setAttribute('title', `${tension?.tensionLevel ?? 0}/10 ${tension?.tensionType ?? ''}`);
+        });
+
+        if (pacing.eventDensity && pacing.eventDensity.some(d => d.eventCount > 0)) {
+            section.createEl('h4', { text: 'Event Density' });
+            const chart = section.createDiv('storyteller-bar-chart');
+            const maxCount = Math.max(...pacing.eventDensity.map(d => d.eventCount));
+            pacing.eventDensity.forEach(bucket => {
+                const item = chart.createDiv('storyteller-bar-item');
+                const fill = item.createDiv('storyteller-bar').createDiv(`storyteller-bar-fill storyteller-density-${bucket.density}`);
+                fill.style.height = `${(bucket.eventCount / maxCount) * 100}%`;
+                fill.setAttribute('title', `${bucket.eventCount} events (${bucket.density})`);
+                item.createDiv('storyteller-bar-label').setText(bucket.period);
+            });
+        }
+
+        if (pacing.recommendations && pacing.recommendations.length > 0) {
+            section.createEl('h4', { text: 'Recommendations' });
+            const list = section.createEl('ul', { cls: 'storyteller-pacing-recommendations' });
+            pacing.recommendations.forEach(rec => {
+                const icon = rec.type === 'warning' ? '⚠️' : rec.type === 'success' ? '✓' : '💡';
+                const item = list.createEl('li', { cls: `storyteller-pacing-${rec.type}` });
+                item.createSpan({ text: `${icon} ` });
+                item.createEl('strong', { text: `${rec.area}: ` });
+                item.createSpan({ text: rec.message });
+            });
+        }
+
+        this.renderPacingComparison(section, pacing);
+    }
+
+    renderPacingComparison(container: HTMLElement, current: PacingAnalysis): void {
+        const history = this.plugin.getStoryRecords('pacingHistory');
+        if (history.length === 0) return;
+
+        container.createEl('h4', { text: 'Compare with Snapshot' });
+        const comparison = container.createDiv();
+        const render = (index: number) => {
+            comparison.empty();
+            const snapshot = history[index];
+            const scoreDelta = (current.overallScore ?? 0) - (snapshot.overallScore ?? 0);
+            const wordDelta = (current.totalWords ?? 0) - (snapshot.totalWords ?? 0);
+            comparison.createEl('p', {
+                text: `Score ${snapshot.overallScore ?? '-'} → ${current.overallScore ?? '-'} (${this.formatDelta(scoreDelta)}), ` +
+                    `words ${this.formatDelta(wordDelta)}`
+            });
+
+            const table = comparison.createEl('table', { cls: 'storyteller-analytics-table' });
+            const headerRow = table.createEl('thead').createEl('tr');
+            ['Chapter', 'Then', 'Now', 'Words', 'Pace'].forEach(label => headerRow.createEl('th', { text: label }));
+            const tbody = table.createEl('tbody');
+            comparePacing(snapshot, current).forEach(change => {
+                const row = tbody.createEl('tr');
+                row.createEl('td', { text: change.chapterName });
+                row.createEl('td', { text: change.before?.pacing ?? '—' });
+                row.createEl('td', { text: change.after?.pacing ?? 'removed' });
+                row.createEl('td', { text: this.formatDelta(change.wordDelta) });
+                row.createEl('td', { text: this.formatDelta(change.scoreDelta) });
+            });
+        };
+
+        new Setting(container)
+            .setName('Snapshot')
+            .addDropdown(dropdown => {
+                history.forEach((snapshot, index) => {
+                    const date = new Date(snapshot.analyzedDate).toLocaleString();
+                    dropdown.addOption(index.toString(), snapshot.label ? `${snapshot.label} (${date})` : date);
+                });
+                dropdown.setValue((history.length - 1).toString());
+                dropdown.onChange(value => render(parseInt(value, 10)));
+            });
+        container.appendChild(comparison);
+        render(history.length - 1);
+    }
+
+    formatDelta(value: number): string {
+        return value > 0 ? `+${value.toLocaleString()}` : value.toLocaleString();
+    }
+
+    async savePacingSnapshot(pacing: PacingAnalysis): Promise<void> {
+        const history = [...this.plugin.getStoryRecords('pacingHistory'), { ...pacing, id: `pacing-${Date.now()}` }];
+        // Keep the most recent snapshots only
+        this.plugin.setStoryRecords('pacingHistory', history.slice(-MAX_PACING_SNAPSHOTS));
+        await this.plugin.saveSettings();
+        new Notice('Pacing snapshot saved');
+    }
+
     renderWritingVelocity(container: HTMLElement): void {
         const section = container.createDiv('storyteller-analytics-section');
         section.createEl('h3', { text: 'Writing Velocity' });
@@ -376,6 +661,113 @@ export class AnalyticsDashboardView extends ItemView {
         });
     }
 
+    renderWritingGoals(container: HTMLElement): void {
+        const section = container.createDiv('storyteller-analytics-section');
+        section.createEl('h3', { text: 'Writing Goals' });
+
+        const tracker = new WordCountTracker(this.plugin);
+        const stats = tracker.getAllDailyStats();
+        const today = tracker.getTodayKey();
+        const streaks = getStreaks(stats, today);
+        const dailyGoal = this.plugin.settings.dailyWordCountGoal || 0;
+        const todayWords = tracker.getTodayStats()?.netWords ?? 0;
+
+        const grid = section.createDiv('storyteller-analytics-grid');
+        this.createStatCard(grid, 'Today', dailyGoal > 0 ? `${todayWords.toLocaleString()} / ${dailyGoal.toLocaleString()}` : todayWords.toLocaleString(), '✍️');
+        this.createStatCard(grid, 'Current Streak', `${streaks.current} days`, '🔥');
+        this.createStatCard(grid, 'Longest Streak', `${streaks.longest} days`, '🏆');
+        this.createStatCard(grid, `${DEFAULT_VELOCITY_WINDOW}-Day Velocity`, `${Math.round(getRollingVelocity(stats, today)).toLocaleString()} / day`, '📈');
+
+        const toolbar = section.createDiv('storyteller-section-toolbar');
+        const addBtn = toolbar.createEl('button', { text: '+ Add Goal', cls: 'mod-cta' });
+        addBtn.addEventListener('click', () => this.editProjectGoal(null));
+
+        if (this.goalPlans.length === 0) {
+            section.createEl('p', { text: 'No project goals yet. Add one with a target length and deadline.' });
+            return;
+        }
+
+        const list = section.createDiv('storyteller-goal-list');
+        this.goalPlans.forEach(plan => {
+            const item = list.createDiv('storyteller-goal-item');
+            const header = item.createDiv('storyteller-goal-header');
+            header.createSpan({ text: plan.goal.name, cls: 'storyteller-goal-name' });
+            header.createSpan({ text: `${plan.currentWords.toLocaleString()} / ${plan.goal.target.toLocaleString()} words` });
+
+            const bar = item.createDiv('storyteller-progress-bar');
+            const fill = bar.createDiv('storyteller-progress-fill');
+            fill.style.width = `${plan.percent}%`;
+
+            item.createDiv({ cls: 'storyteller-goal-status', text: this.describeGoalPlan(plan) });
+            item.toggleClass('is-behind', !plan.onTrack);
+
+            const actions = item.createDiv('storyteller-goal-actions');
+            actions.createEl('button', { text: 'Edit' }).addEventListener('click', () => this.editProjectGoal(plan.goal));
+            actions.createEl('button', { text: 'Delete' }).addEventListener('click', async () => {
+                if (!confirm(`Delete goal "${plan.goal.name}"?`)) return;
+                await tracker.deleteProjectGoal(plan.goal.id);
+                await this.refreshGoals();
+            });
+        });
+    }
+
+    describeGoalPlan(plan: GoalPlan): string {
+        if (plan.complete) return '✓ Goal reached';
+        const parts = plan.daysLeft > 0
+            ? [`${plan.wordsPerDay.toLocaleString()} words/day needed for ${plan.daysLeft} days (deadline ${plan.goal.deadline})`]
+            : [`Deadline ${plan.goal.deadline} has passed; ${plan.remaining.toLocaleString()} words to go`];
+        parts.push(plan.projectedDate
+            ? `projected finish ${plan.projectedDate}${plan.onTrack ? ' (on track)' : ' (behind)'}`
+            : 'no recent progress to project a finish date');
+        return parts.join(' · ');
+    }
+
+    editProjectGoal(goal: ProjectGoal | null): void {
+        const story = this.plugin.getActiveStory();
+        if (!story) {
+            new Notice('No active story selected');
+            return;
+        }
+        void this.plugin.writingProgress.getStoryWordCount().then(words => {
+            new ProjectGoalModal(this.app, goal, story.id, words, async (saved) => {
+                await new WordCountTracker(this.plugin).saveProjectGoal(saved);
+                await this.refreshGoals();
+                new Notice('Goal saved');
+            }).open();
+        });
+    }
+
+    async refreshGoals(): Promise<void> {
+        this.goalPlans = await this.plugin.writingProgress.getGoalPlans();
+        this.plugin.writingProgress.refreshStatusBar();
+        this.renderAnalytics();
+    }
+
+    renderWritingCalendar(container: HTMLElement): void {
+        const section = container.createDiv('storyteller-analytics-section');
+        section.createEl('h3', { text: 'Writing Calendar' });
+
+        const tracker = new WordCountTracker(this.plugin);
+        const stats = tracker.getAllDailyStats();
+        if (stats.length === 0) {
+            section.createEl('p', { text: 'No writing recorded yet. Words written in scene notes are counted automatically.' });
+            return;
+        }
+
+        const heatmap = section.createDiv('storyteller-heatmap');
+        buildHeatmap(stats, tracker.getTodayKey()).forEach(week => {
+            const column = heatmap.createDiv('storyteller-heatmap-week');
+            week.forEach(cell => {
+                const cellEl = column.createDiv(`storyteller-heatmap-cell storyteller-heatmap-level-${cell.level}`);
+                if (cell.future) {
+                    cellEl.addClass('is-future');
+                } else {
+                    cellEl.setAttribute('title', `${cell.date}: ${cell.netWords.toLocaleString()} words`);
+                }
+            });
+        });
+    }
+
     renderForeshadowing(container: HTMLElement): void {
         const section = container.createDiv('storyteller-analytics-section');
         section.createEl('h3', { text: 'Foreshadowing Tracker' });
@@ -470,10 +862,10 @@ export class AnalyticsDashboardView extends ItemView {
 
         if (this.analytics.characterScreenTime && this.analytics.characterScreenTime.length > 0) {
             report += `## Character Screen Time\n\n`;
-            report += `| Character | Appearances | Percentage |\n`;
-            report += `|-----------|-------------|------------|\n`;
+            report += `| Character | Appearances | Words | Percentage |\n`;
+            report += `|-----------|-------------|-------|------------|\n`;
             this.analytics.characterScreenTime.forEach(char => {
-                report += `| ${char.characterName} | ${char.appearances} | ${char.percentage?.toFixed(1)}% |\n`;
+                report += `| ${char.characterName} | ${char.appearances} | ${char.wordCount ?? 0} | ${char.percentage?.toFixed(1)}% |\n`;
             });
             report += `\n`;
         }
@@ -486,6 +878,59 @@ export class AnalyticsDashboardView extends ItemView {
             report += `\n`;
         }
 
+        if (this.goalPlans.length > 0) {
+            report += `## Writing Goals\n\n`;
+            report += `| Goal | Words | Target | Deadline | Needed/day | Projected finish |\n`;
+            report += `|------|-------|--------|----------|------------|------------------|\n`;
+            this.goalPlans.forEach(plan => {
+                report += `| ${plan.goal.name} | ${plan.currentWords} | ${plan.goal.target} | ${plan.goal.deadline} | ${plan.wordsPerDay} | ${plan.projectedDate ?? '-'} |\n`;
+            });
+            report += `\n`;
+        }
+
+        const dialogue = this.analytics.dialogueAnalysis;
+        if (dialogue?.totalLines) {
+            report += `## Dialogue\n\n`;
+            report += `- **Lines**: ${dialogue.totalLines}\n`;
+            report += `- **Density**: ${dialogue.density?.toFixed(1)}% of words\n`;
+            report += `- **Unattributed**: ${dialogue.unattributed || 0}\n\n`;
+            report += `| Character | Lines |\n`;
+            report += `|-----------|-------|\n`;
+            Object.entries(dialogue.byCharacter || {})
+                .sort((a, b) => b[1] - a[1])
+                .forEach(([name, lines]) => {
+                    report += `| ${name} | ${lines} |\n`;
+                });
+            report += `\n`;
+
+            const chapters = (dialogue.byChapter || []).filter(row => row.totalLines > 0);
+            if (chapters.length > 0) {
+                report += `| Chapter | Lines | Density | Speakers |\n`;
+                report += `|---------|-------|---------|----------|\n`;
+                chapters.forEach(row => {
+                    report += `| ${row.name} | ${row.totalLines} | ${row.density.toFixed(1)}% | ${this.formatSpeakers(row)} |\n`;
+                });
+                report += `\n`;
+            }
+        }
+
+        const pacing = this.analytics.pacing;
+        if (pacing?.chapterPacing && pacing.chapterPacing.length > 0) {
+            report += `## Pacing\n\n`;
+            report += `Overall score: ${pacing.overallScore ?? '-'}\n\n`;
+            report += `| Chapter | Words | Dialogue | Events | Pace | Tension |\n`;
+            report += `|---------|-------|----------|--------|------|---------|\n`;
+            pacing.chapterPacing.forEach((chapter, index) => {
+                const tension = pacing.tensionPoints?.[index]?.tensionLevel ?? 0;
+                report += `| ${chapter.chapterName} | ${chapter.wordCount} | ${(chapter.dialogueRatio ?? 0).toFixed(1)}% | ${chapter.eventCount} | ${chapter.pacing} | ${tension} |\n`;
+            });
+            report += `\n`;
+            (pacing.recommendations || []).forEach(rec => {
+                report += `- **${rec.area}** (${rec.type}): ${rec.message}\n`;
+            });
+            report += `\n`;
+        }
+
         return report;
     }
 
@@ -494,6 +939,77 @@ export class AnalyticsDashboardView extends ItemView {
     }
 }
 
+// Modal for adding or editing a project goal
+class ProjectGoalModal extends Modal {
+    onSubmit: (goal: ProjectGoal) => void;
+    goal: ProjectGoal;
+
+    constructor(app: App, goal: ProjectGoal | null, storyId: string, currentWords: number, onSubmit: (goal: ProjectGoal) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+        const today = new Date().toISOString().split('T')[0];
+        this.goal = goal ? { ...goal } : {
+            id: `goal-${Date.now()}`,
+            storyId,
+            name: '',
+            target: 50000,
+            deadline: '',
+            startDate: today,
+            startWords: currentWords
+        };
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Project Goal' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setPlaceholder('First draft')
+                .setValue(this.goal.name)
+                .onChange(value => this.goal.name = value));
+
+        new Setting(contentEl)
+            .setName('Target words')
+            .setDesc('Total length of the story when the goal is met')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.setValue(String(this.goal.target))
+                    .onChange(value => this.goal.target = parseInt(value, 10) || 0);
+            });
+
+        new Setting(contentEl)
+            .setName('Deadline')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.goal.deadline)
+                    .onChange(value => this.goal.deadline = value);
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    if (!this.goal.name || this.goal.target <= 0 || !/^\d{4}-\d{2}-\d{2}$/.test(this.goal.deadline)) {
+                        new Notice('Name, a positive target and a deadline are required');
+                        return;
+                    }
+                    this.onSubmit(this.goal);
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
+
 // Simple modal for adding foreshadowing
 class ForeshadowingModal extends Modal {
     plugin: StorytellerSuitePlugin;
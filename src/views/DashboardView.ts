@@ -17,6 +17,7 @@ import { Character, Location, Event, Group, PlotItem, GalleryImage, StoryMap } f
 import { NewStoryModal } from '../modals/NewStoryModal';
 import { GroupModal } from '../modals/GroupModal';
 import { PlatformUtils } from '../utils/PlatformUtils';
+import { GRAPH_ENTITY_LABEL_KEYS, GRAPH_ENTITY_TYPES } from '../utils/GraphUtils';
 import {
     Template,
     TemplateFilter,
@@ -239,73 +240,37 @@ export class DashboardView extends ItemView {
 
 
     /**
-     * Register vault event listeners to automatically refresh active tab when files change
+     * Register listeners to automatically refresh the active tab when entities or gallery files change
      */
     private registerVaultEventListeners() {
-        // Listen for file creation events
-        this.registerEvent(this.app.vault.on('create', (file) => {
-            if (this.isRelevantFile(file.path)) {
-                this.debouncedRefreshActiveTab();
-            }
-        }));
+        // Entity notes are tracked by the plugin's entity index
+        this.register(this.plugin.entityIndex.onChange(() => this.debouncedRefreshActiveTab()));
 
-        // Listen for file modification events  
-        this.registerEvent(this.app.vault.on('modify', (file) => {
-            if (this.isRelevantFile(file.path)) {
+        // Gallery uploads are plain files, so watch the upload folder directly
+        this.registerEvent(this.app.vault.on('create', (file) => {
+            if (this.isGalleryFile(file.path)) {
                 this.debouncedRefreshActiveTab();
             }
         }));
-
-        // Listen for file deletion events
         this.registerEvent(this.app.vault.on('delete', (file) => {
-            if (this.isRelevantFile(file.path)) {
+            if (this.isGalleryFile(file.path)) {
                 this.debouncedRefreshActiveTab();
             }
         }));
-
-        // Listen for file rename events
         this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
-            if (this.isRelevantFile(file.path) || this.isRelevantFile(oldPath)) {
+            if (this.isGalleryFile(file.path) || this.isGalleryFile(oldPath)) {
                 this.debouncedRefreshActiveTab();
             }
         }));
-
-        // Listen for metadata changes (fires after Obsidian has processed the file)
-        this.registerEvent(
-            this.app.metadataCache.on('changed', (file) => {
-                if (this.isRelevantFile(file.path)) {
-                    this.debouncedRefreshActiveTab();
-                }
-            })
-        );
     }
 
     /**
-     * Check if a file path is relevant to the storyteller plugin (characters, locations, events)
+     * Check if a file path is inside the gallery upload folder
      * @param filePath The file path to check
      */
-    private isRelevantFile(filePath: string): boolean {
-        try {
-            const charFolder = this.plugin.getEntityFolder('character');
-            const locFolder = this.plugin.getEntityFolder('location');
-            const evtFolder = this.plugin.getEntityFolder('event');
-            const itemFolder = this.plugin.getEntityFolder('item'); // ADDED THIS LINE
-            const refFolder = this.plugin.getEntityFolder('reference');
-            const chapterFolder = this.plugin.getEntityFolder('chapter');
-            const sceneFolder = this.plugin.getEntityFolder('scene');
-            
-            const isRelevant = filePath.startsWith(charFolder + '/') ||
-                filePath.startsWith(locFolder + '/') ||
-                filePath.startsWith(evtFolder + '/') ||
-                filePath.startsWith(itemFolder + '/') || // ADDED THIS LINE
-                filePath.startsWith(refFolder + '/') ||
-                filePath.startsWith(chapterFolder + '/') ||
-                filePath.startsWith(sceneFolder + '/') ||
-                filePath.startsWith(this.plugin.settings.galleryUploadFolder + '/');
-            return isRelevant;
-        } catch {
-            return false;
-        }
+    private isGalleryFile(filePath: string): boolean {
+        const folder = this.plugin.settings.galleryUploadFolder;
+        return !!folder && filePath.startsWith(folder + '/');
     }
 
     /**
@@ -1220,7 +1185,7 @@ export class DashboardView extends ItemView {
             groups: [],
             timelineStart: undefined,
             timelineEnd: undefined,
-            entityTypes: ['character', 'location', 'event', 'item']
+            entityTypes: [...GRAPH_ENTITY_TYPES]
         };
 
         // Group filter
@@ -1251,7 +1216,7 @@ export class DashboardView extends ItemView {
         entityTypeContainer.style.gap = '1rem';
         entityTypeContainer.style.flexWrap = 'wrap';
 
-        const entityTypes = ['character', 'location', 'event', 'item'] as const;
+        const entityTypes = GRAPH_ENTITY_TYPES;
         entityTypes.forEach(type => {
             const checkboxContainer = entityTypeContainer.createDiv();
             checkboxContainer.style.display = 'flex';
@@ -1274,7 +1239,7 @@ export class DashboardView extends ItemView {
                 }
             };
 
-            const label = checkboxContainer.createEl('label', { text: t((type + 's') as any) });
+            const label = checkboxContainer.createEl('label', { text: t(GRAPH_ENTITY_LABEL_KEYS[type]) });
             label.htmlFor = `entity-type-${type}`;
             label.style.cursor = 'pointer';
         });
@@ -1316,7 +1281,7 @@ export class DashboardView extends ItemView {
                         groups: [],
                         timelineStart: undefined,
                         timelineEnd: undefined,
-                        entityTypes: ['character', 'location', 'event', 'item']
+                        entityTypes: [...GRAPH_ENTITY_TYPES]
                     };
                     startInput.value = '';
                     endInput.value = '';
@@ -2554,6 +2519,17 @@ export class DashboardView extends ItemView {
                     await this.renderCompileContent(container);
                 }
             };
+
+            // Snapshot button - freezes the current text of every scene in the draft
+            const snapshotBtn = draftSelectorEl.createEl('button', { text: '📸' });
+            snapshotBtn.title = t('snapshotDraft');
+            snapshotBtn.onclick = async () => {
+                if (activeDraft) {
+                    const snapshot = await sceneManager.createSnapshot(activeDraft);
+                    new Notice(t('snapshotCreated', snapshot.name, String(snapshot.scenes.length)));
+                    await this.renderCompileContent(container);
+                }
+            };
         }
 
         // Statistics section
@@ -2706,10 +2682,56 @@ export class DashboardView extends ItemView {
                         await sceneManager.unindentScene(activeDraft, sceneId);
                         await this.renderCompileContent(container);
                     };
+
+                    const revisionsBtn = actionsEl.createEl('button', { text: '🕘' });
+                    revisionsBtn.title = t('sceneRevisions');
+                    revisionsBtn.onclick = async () => {
+                        const { SnapshotDiffModal } = await import('../modals/SnapshotDiffModal');
+                        new SnapshotDiffModal(this.app, this.plugin, activeStory.id, { sceneId }).open();
+                    };
                 }
             }
         }
 
+        // Snapshots section
+        const snapshots = activeDraft ? sceneManager.getSnapshots(activeDraft.id) : [];
+        if (activeDraft && snapshots.length > 0) {
+            const snapshotsEl = container.createDiv('storyteller-draft-snapshots');
+            snapshotsEl.createEl('h4', { text: t('snapshots') });
+            const snapshotListEl = snapshotsEl.createDiv('storyteller-ordered-scene-list');
+
+            for (const snapshot of snapshots) {
+                const snapshotEl = snapshotListEl.createDiv('storyteller-ordered-scene-item');
+                const infoEl = snapshotEl.createDiv('storyteller-ordered-scene-info');
+                infoEl.createSpan({ text: snapshot.name, cls: 'storyteller-scene-name' });
+                const words = snapshot.scenes.reduce((sum, ref) => sum + ref.wordCount, 0);
+                infoEl.createSpan({
+                    text: ` ${new Date(snapshot.created).toLocaleString()} · ${wordTracker.formatWordCount(words)} ${t('words').toLowerCase()}`,
+                    cls: 'storyteller-scene-wordcount'
+                });
+
+                const actionsEl = snapshotEl.createDiv('storyteller-ordered-scene-actions');
+                const compareBtn = actionsEl.createEl('button', { text: '⇄' });
+                compareBtn.title = t('compareSnapshots');
+                compareBtn.onclick = async () => {
+                    const { SnapshotDiffModal } = await import('../modals/SnapshotDiffModal');
+                    new SnapshotDiffModal(this.app, this.plugin, activeStory.id, {
+                        sceneId: snapshot.scenes[0]?.sceneId,
+                        leftSnapshotId: snapshot.id
+                    }).open();
+                };
+
+                const deleteBtn = actionsEl.createEl('button', { text: '🗑' });
+                deleteBtn.title = t('deleteSnapshot');
+                deleteBtn.onclick = async () => {
+                    if (confirm(t('confirmDeleteSnapshot', snapshot.name))) {
+                        await sceneManager.deleteSnapshot(snapshot.id);
+                        await this.renderCompileContent(container);
+                    }
+                };
+            }
+        }
+
         // Compile actions section
         const compileActionsEl = container.createDiv('storyteller-compile-actions');
         compileActionsEl.createEl('h4', { text: t('compile') });
@@ -2719,7 +2741,7 @@ export class DashboardView extends ItemView {
         workflowSelectorEl.createSpan({ text: `${t('exportFormat')}: ` });
         
         const engine = new CompileEngine(this.app, this.plugin);
-        const presetWorkflows = engine.getPresetWorkflows();
+        const presetWorkflows = engine.getAllWorkflows();
         
         const workflowSelect = workflowSelectorEl.createEl('select', { cls: 'storyteller-workflow-select' });
         presetWorkflows.forEach(workflow => {
@@ -2732,6 +2754,15 @@ export class DashboardView extends ItemView {
             }
         });
         
+        // Source selector - the live scenes or a frozen snapshot
+        const sourceSelectorEl = compileActionsEl.createDiv('storyteller-workflow-selector');
+        sourceSelectorEl.createSpan({ text: `${t('compileSource')}: ` });
+        const sourceSelect = sourceSelectorEl.createEl('select', { cls: 'storyteller-workflow-select' });
+        sourceSelect.createEl('option', { value: '', text: t('liveText') });
+        snapshots.forEach(snapshot => {
+            sourceSelect.createEl('option', { value: snapshot.id, text: snapshot.name });
+        });
+        
         // Compile button
         const compileBtn = compileActionsEl.createEl('button', { text: `📖 ${t('compileManuscript')}`, cls: 'mod-cta' });
         compileBtn.onclick = async () => {
@@ -2743,13 +2774,19 @@ export class DashboardView extends ItemView {
             const selectedWorkflowId = workflowSelect.value;
             const workflow = engine.getWorkflowById(selectedWorkflowId) || engine.createDefaultWorkflow();
             
+            const snapshot = snapshots.find(snap => snap.id === sourceSelect.value);
+            
             new Notice(`${t('compiling')} (${workflow.name})`);
             
             try {
-                const result = await engine.compile(activeDraft, workflow);
+                const result = await engine.compile(activeDraft, workflow, undefined, snapshot);
                 if (result.success) {
                     const wordCount = result.stats?.wordCount ?? 0;
                     new Notice(`${t('compileComplete')} ${wordCount} ${t('words').toLowerCase()}`);
+                    if (result.stepErrors?.length) {
+                        const details = result.stepErrors.map(e => `${e.stepName}: ${e.message}`).join('; ');
+                        new Notice(t('compileStepErrors', result.stepErrors.length, details), 10000);
+                    }
                 } else {
                     new Notice(`${t('compileFailed')}: ${result.error || 'Unknown error'}`);
                 }
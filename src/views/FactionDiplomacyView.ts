@@ -0,0 +1,282 @@
+// Faction Diplomacy View - Stances between every pair of factions and their power over time
+// A scrubber steps through the dated stance changes and power snapshots; the matrix and the
+// power chart show the world as it stood at the selected moment.
+
+import { ItemView, WorkspaceLeaf, Notice } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import { t } from '../i18n/strings';
+import { Event, Group, GroupRelationship } from '../types';
+import { GroupStanceModal } from '../modals/GroupStanceModal';
+import {
+    DiplomacyMoment,
+    POWER_LABELS,
+    POWER_METRICS,
+    PowerMetric,
+    STANCE_LABELS,
+    isFaction,
+    powerAt,
+    stanceBetween,
+    diplomacyMoments,
+    datedChanges
+} from '../utils/FactionDiplomacy';
+
+export const VIEW_TYPE_FACTION_DIPLOMACY = 'storyteller-faction-diplomacy-view';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+/**
+ * FactionDiplomacyView shows:
+ * - A matrix of stances between every pair of factions
+ * - A chart of one power metric per faction across the dated moments
+ * - The log of stance changes up to the selected moment
+ */
+export class FactionDiplomacyView extends ItemView {
+    plugin: StorytellerSuitePlugin;
+    private factions: Group[] = [];
+    private events: Event[] = [];
+    private moments: DiplomacyMoment[] = [];
+    /** Selected step: 0 is before the first moment, moments.length the latest */
+    private step = 0;
+    private metric: PowerMetric = 'militaryPower';
+    private bodyEl: HTMLElement | null = null;
+
+    // Color palette for factions without their own color
+    private palette = [
+        '#7C3AED', '#2563EB', '#059669', '#CA8A04', '#DC2626',
+        '#EA580C', '#0EA5E9', '#22C55E', '#D946EF', '#F59E0B'
+    ];
+
+    constructor(leaf: WorkspaceLeaf, plugin: StorytellerSuitePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_FACTION_DIPLOMACY;
+    }
+
+    getDisplayText(): string {
+        return t('factionDiplomacy');
+    }
+
+    getIcon(): string {
+        return 'swords';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('storyteller-diplomacy-view');
+
+        const header = container.createDiv('storyteller-diplomacy-header');
+        header.createEl('h2', { text: t('factionDiplomacy') });
+        const refreshBtn = header.createEl('button', { text: t('refresh') });
+        refreshBtn.addEventListener('click', () => { void this.refresh(); });
+
+        this.bodyEl = container.createDiv('storyteller-diplomacy-body');
+        await this.refresh();
+    }
+
+    /**
+     * Reload factions and events, keeping the scrubber on the latest moment when it was there
+     */
+    async refresh(): Promise<void> {
+        const wasLatest = this.step >= this.moments.length;
+        this.factions = this.plugin.getGroups().filter(isFaction);
+        this.events = await this.plugin.listEvents();
+        const referenceDate = this.plugin.getReferenceTodayDate();
+        this.moments = diplomacyMoments(this.factions, this.events, referenceDate);
+        this.step = wasLatest ? this.moments.length : Math.min(this.step, this.moments.length);
+        this.render();
+    }
+
+    /** Story time of a scrubber step */
+    private timeAt(step: number): number {
+        if (this.moments.length === 0 || step >= this.moments.length) return Infinity;
+        if (step <= 0) return this.moments[0].time - 1;
+        return this.moments[step - 1].time;
+    }
+
+    private render(): void {
+        if (!this.bodyEl) return;
+        this.bodyEl.empty();
+
+        if (this.factions.length < 2) {
+            this.bodyEl.createEl('p', { text: t('diplomacyNeedsFactions'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+
+        this.renderScrubber(this.bodyEl);
+        const time = this.timeAt(this.step);
+        this.renderMatrix(this.bodyEl.createDiv('storyteller-diplomacy-section'), time);
+        this.renderPowerChart(this.bodyEl.createDiv('storyteller-diplomacy-section'));
+        this.renderChangeLog(this.bodyEl.createDiv('storyteller-diplomacy-section'), time);
+    }
+
+    private renderScrubber(container: HTMLElement): void {
+        const scrubber = container.createDiv('storyteller-diplomacy-scrubber');
+        const label = scrubber.createSpan({ cls: 'storyteller-diplomacy-moment' });
+        const updateLabel = () => {
+            if (this.moments.length === 0) label.setText(t('diplomacyNoDatedChanges'));
+            else if (this.step === 0) label.setText(t('diplomacyBeforeChanges'));
+            else label.setText(t('diplomacyAsOf', this.moments[this.step - 1].label));
+        };
+
+        const slider = scrubber.createEl('input', {
+            type: 'range',
+            attr: { min: '0', max: String(this.moments.length), step: '1', 'aria-label': t('diplomacyMomentLabel') }
+        });
+        slider.value = String(this.step);
+        slider.disabled = this.moments.length === 0;
+        slider.addEventListener('input', () => {
+            this.step = Number(slider.value);
+            updateLabel();
+        });
+        slider.addEventListener('change', () => this.render());
+        updateLabel();
+    }
+
+    private renderMatrix(container: HTMLElement, time: number): void {
+        container.createEl('h3', { text: t('diplomacyMatrix') });
+        const referenceDate = this.plugin.getReferenceTodayDate();
+        const table = container.createEl('table', { cls: 'storyteller-diplomacy-matrix' });
+        const headRow = table.createEl('thead').createEl('tr');
+        headRow.createEl('th');
+        this.factions.forEach(faction => headRow.createEl('th', { text: faction.name }));
+
+        const body = table.createEl('tbody');
+        this.factions.forEach(rowFaction => {
+            const row = body.createEl('tr');
+            row.createEl('th', { text: rowFaction.name });
+            this.factions.forEach(colFaction => {
+                const cell = row.createEl('td');
+                if (rowFaction.id === colFaction.id) {
+                    cell.addClass('is-self');
+                    cell.setText('—');
+                    return;
+                }
+                const state = stanceBetween(rowFaction, colFaction, this.events, time, referenceDate);
+                cell.addClass(`storyteller-stance-${state?.stance ?? 'none'}`);
+                cell.setText(state ? STANCE_LABELS[state.stance] : '·');
+                const cause = state?.change?.event || state?.change?.date;
+                cell.setAttr('title', state
+                    ? `${rowFaction.name} ↔ ${colFaction.name}: ${STANCE_LABELS[state.stance]}${cause ? ` (${cause})` : ''}`
+                    : t('diplomacyNoRelationship', rowFaction.name, colFaction.name));
+                cell.addEventListener('click', () => this.editStance(rowFaction, colFaction));
+            });
+        });
+    }
+
+    private renderPowerChart(container: HTMLElement): void {
+        const header = container.createDiv('storyteller-diplomacy-chart-header');
+        header.createEl('h3', { text: t('diplomacyPower') });
+        const select = header.createEl('select', { cls: 'dropdown' });
+        POWER_METRICS.forEach(metric => {
+            const option = select.createEl('option', { value: metric, text: POWER_LABELS[metric] });
+            if (metric === this.metric) option.selected = true;
+        });
+        select.addEventListener('change', () => {
+            this.metric = select.value as PowerMetric;
+            this.render();
+        });
+
+        const referenceDate = this.plugin.getReferenceTodayDate();
+        const steps = this.moments.length;
+        const x = (step: number) => steps === 0 ? CHART_WIDTH / 2 : (step / steps) * CHART_WIDTH;
+        const y = (value: number) => CHART_HEIGHT - (Math.max(0, Math.min(100, value)) / 100) * CHART_HEIGHT;
+
+        const svg = document.createElementNS(SVG_NS, 'svg');
+        svg.setAttribute('viewBox', `-10 -10 ${CHART_WIDTH + 20} ${CHART_HEIGHT + 20}`);
+        svg.setAttribute('class', 'storyteller-diplomacy-chart');
+        container.appendChild(svg);
+
+        const legend = container.createDiv('storyteller-diplomacy-legend');
+        this.factions.forEach((faction, i) => {
+            const color = faction.color || this.palette[i % this.palette.length];
+            const points: string[] = [];
+            for (let step = 0; step <= steps; step++) {
+                const value = powerAt(faction, this.events, this.timeAt(step), referenceDate)[this.metric];
+                if (value !== undefined) points.push(`${x(step)},${y(value)}`);
+            }
+            if (points.length === 0) return;
+
+            const line = document.createElementNS(SVG_NS, 'polyline');
+            line.setAttribute('points', points.length === 1 ? `${points[0]} ${points[0]}` : points.join(' '));
+            line.setAttribute('stroke', color);
+            line.setAttribute('class', 'storyteller-diplomacy-line');
+            svg.appendChild(line);
+
+            const entry = legend.createSpan('storyteller-diplomacy-legend-item');
+            entry.createSpan({ cls: 'storyteller-diplomacy-swatch' }).style.backgroundColor = color;
+            const current = powerAt(faction, this.events, this.timeAt(this.step), referenceDate)[this.metric];
+            entry.appendText(`${faction.name}${current !== undefined ? ` (${current})` : ''}`);
+        });
+
+        // Cursor at the selected moment
+        const cursor = document.createElementNS(SVG_NS, 'line');
+        cursor.setAttribute('x1', String(x(this.step)));
+        cursor.setAttribute('x2', String(x(this.step)));
+        cursor.setAttribute('y1', '0');
+        cursor.setAttribute('y2', String(CHART_HEIGHT));
+        cursor.setAttribute('class', 'storyteller-diplomacy-cursor');
+        svg.appendChild(cursor);
+    }
+
+    private renderChangeLog(container: HTMLElement, time: number): void {
+        container.createEl('h3', { text: t('stanceChanges') });
+        const referenceDate = this.plugin.getReferenceTodayDate();
+        const entries: Array<{ time: number; text: string; stance: string }> = [];
+        for (const owner of this.factions) {
+            for (const rel of owner.groupRelationships || []) {
+                for (const { time: at, change } of datedChanges(rel, this.events, referenceDate)) {
+                    if (at > time) continue;
+                    entries.push({
+                        time: at,
+                        stance: change.relationshipType,
+                        text: `${owner.name} ↔ ${rel.groupName}: ${STANCE_LABELS[change.relationshipType]}` +
+                            (change.event || change.date ? ` · ${change.event || change.date}` : '')
+                    });
+                }
+            }
+        }
+        if (entries.length === 0) {
+            container.createEl('p', { text: t('noStanceChanges'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+        const list = container.createEl('ul', { cls: 'storyteller-diplomacy-log' });
+        entries.sort((a, b) => a.time - b.time).forEach(entry => {
+            list.createEl('li', { text: entry.text, cls: `storyteller-stance-${entry.stance}` });
+        });
+    }
+
+    /**
+     * Edit the relationship between two factions, on whichever side records it
+     */
+    private editStance(a: Group, b: Group): void {
+        const state = stanceBetween(a, b, this.events);
+        const owner = state?.owner ?? a;
+        const other = owner.id === a.id ? b : a;
+        const relationship: GroupRelationship = state?.relationship ?? { groupName: other.name, relationshipType: 'neutral' };
+
+        new GroupStanceModal(this.app, this.plugin, `${owner.name} ↔ ${other.name}`, relationship, async (updated) => {
+            const stored = this.plugin.getGroups().find(g => g.id === owner.id);
+            if (!stored) {
+                new Notice(t('groupNotFound'));
+                return;
+            }
+            const relationships = stored.groupRelationships || (stored.groupRelationships = []);
+            const index = state ? relationships.indexOf(state.relationship) : -1;
+            if (index >= 0) relationships[index] = updated;
+            else relationships.push(updated);
+            await this.plugin.saveSettings();
+            // Refreshes this view along with the dashboard
+            this.plugin.emitGroupsChanged();
+        }).open();
+    }
+
+    async onClose(): Promise<void> {
+        this.bodyEl = null;
+    }
+}
@@ -160,6 +160,23 @@ export class MapView extends ItemView {
         // Spacer
         this.toolbarEl.createDiv('storyteller-toolbar-spacer');
 
+        // Time slider toggle: filter and animate markers by story date
+        const timeBtn = this.toolbarEl.createEl('button', {
+            cls: 'clickable-icon storyteller-toolbar-btn',
+            attr: {
+                'aria-label': 'Time slider',
+                'title': 'Time slider'
+            }
+        });
+        setIcon(timeBtn, 'clock');
+        timeBtn.toggleClass('is-active', !!this.leafletRenderer?.isTimeSliderEnabled());
+        timeBtn.onclick = async () => {
+            if (!this.leafletRenderer) return;
+            const enable = !this.leafletRenderer.isTimeSliderEnabled();
+            const changed = await this.leafletRenderer.setTimeSliderEnabled(enable);
+            if (changed) timeBtn.toggleClass('is-active', enable);
+        };
+
         // Refresh button
         const refreshBtn = this.toolbarEl.createEl('button', {
             cls: 'clickable-icon storyteller-toolbar-btn',
@@ -3,22 +3,33 @@
 
 import cytoscape, { Core, NodeSingular, EdgeSingular } from 'cytoscape';
 import StorytellerSuitePlugin from '../main';
-import { GraphFilters, GraphNode, GraphEdge, Character, Location, Event, PlotItem } from '../types';
+import { GraphFilters, GraphNode, GraphEdge, GraphEntityType, Character, Location, Event, PlotItem, TypedRelationship } from '../types';
 import { 
     extractAllRelationships, 
     buildBidirectionalEdges, 
     getRelationshipColor, 
-    getEntityShape 
+    getEntityShape,
+    GRAPH_ENTITY_TYPES,
+    WorldEntities
 } from '../utils/GraphUtils';
+import { RelationshipMoment, eventTime, relationshipMoments } from '../utils/RelationshipHistory';
+import { CentralityMetric, GraphAnalysis, analyzeGraph, formatAnalysisReport, shortestPath } from '../utils/GraphAnalytics';
+import { t } from '../i18n/strings';
 import { TFile } from 'obsidian';
 
+// Community colors, distinct from the entity type palette
+const COMMUNITY_COLORS = [
+    '#7C3AED', '#2563EB', '#059669', '#CA8A04', '#DC2626',
+    '#EA580C', '#0EA5E9', '#22C55E', '#D946EF', '#F59E0B'
+];
+
 export class NetworkGraphRenderer {
     private containerEl: HTMLElement;
     private plugin: StorytellerSuitePlugin;
     private cy: Core | null = null;
     private canvasEl: HTMLElement | null = null;
     private currentFilters: GraphFilters = {
-        entityTypes: ['character', 'location', 'event', 'item']
+        entityTypes: [...GRAPH_ENTITY_TYPES]
     };
     private infoPanelEl: HTMLElement | null = null; // Fixed info panel instead of tooltip
     private pinnedNodes: Set<string> = new Set();
@@ -31,6 +42,15 @@ export class NetworkGraphRenderer {
     private legendToggleButtonEl: HTMLElement | null = null; // Floating button to show legend
     private infoPanelExpanded = false; // Toggle for expanded/collapsed info panel
     private isModal: boolean; // Whether this renderer is in a modal context
+    private timeSliderEl: HTMLElement | null = null; // Story time slider above the canvas
+    private moments: RelationshipMoment[] = []; // Dated events and relationship changes to scrub through
+    private timeStep = 0; // Selected moment: 0 is before the first, moments.length the latest
+    private showLatest = true; // Whether the slider follows the latest moment as data changes
+    private graphData: { nodes: GraphNode[], edges: GraphEdge[] } | null = null; // Data currently drawn
+    private analysis: GraphAnalysis | null = null; // Cached analytics for graphData
+    private sizeMetric: CentralityMetric | null = null; // Centrality used for node size; null sizes by degree count
+    private colorCommunities = false; // Whether nodes are colored by detected community
+    private connectionPath: string[] | null = null; // Highlighted shortest path between two nodes
 
     constructor(containerEl: HTMLElement, plugin: StorytellerSuitePlugin, isModal = false) {
         this.containerEl = containerEl;
@@ -107,15 +127,47 @@ export class NetworkGraphRenderer {
         const locations = await this.plugin.listLocations();
         const events = await this.plugin.listEvents();
         const items = await this.plugin.listPlotItems();
+        const world: Required<WorldEntities> = {
+            cultures: await this.plugin.listCultures(),
+            economies: await this.plugin.listEconomies(),
+            magicSystems: await this.plugin.listMagicSystems(),
+            groups: this.plugin.getGroups()
+        };
+        const scenes = await this.plugin.listScenes();
+        const referenceDate = this.plugin.getReferenceTodayDate();
+
+        // Collect the moments the time slider steps through
+        const typedRelationships: TypedRelationship[] = [];
+        [
+            ...characters, ...locations, ...events, ...items,
+            ...world.cultures, ...world.economies, ...world.magicSystems, ...world.groups
+        ].forEach(entity => {
+            typedRelationships.push(...(entity.connections || []));
+        });
+        characters.forEach(c => (c.relationships || []).forEach(rel => {
+            if (typeof rel !== 'string') typedRelationships.push(rel);
+        }));
+        this.moments = relationshipMoments(typedRelationships, events, scenes, referenceDate);
+        this.timeStep = this.showLatest ? this.moments.length : Math.min(this.timeStep, this.moments.length);
+        const time = this.getSelectedTime();
 
         // Apply filters
         const filteredData = this.applyFiltersToEntities(
             characters,
             locations,
             events,
-            items
+            items,
+            world
         );
 
+        // Hide events that haven't happened yet at the selected time
+        if (time !== Infinity) {
+            filteredData.events = filteredData.events.filter(e => {
+                const at = eventTime(e, referenceDate);
+                return at === undefined || at <= time;
+            });
+        }
+
         // Build nodes
         const nodes: GraphNode[] = [
             ...filteredData.characters.map(c => ({
@@ -148,12 +200,28 @@ export class NetworkGraphRenderer {
             }))
         ];
 
+        // World-building nodes
+        const worldTypes: Array<[GraphEntityType, Array<{ id?: string; name: string; profileImagePath?: string }>]> = [
+            ['culture', filteredData.world.cultures],
+            ['economy', filteredData.world.economies],
+            ['magicSystem', filteredData.world.magicSystems],
+            ['group', filteredData.world.groups]
+        ];
+        worldTypes.forEach(([type, entities]) => entities.forEach(entity => nodes.push({
+            id: entity.id || entity.name,
+            label: entity.name,
+            type,
+            data: entity as GraphNode['data'],
+            imageUrl: entity.profileImagePath ? this.getImageSrc(entity.profileImagePath) : undefined
+        })));
+
         // Extract all relationships and build edges
         let edges = extractAllRelationships(
             filteredData.characters,
             filteredData.locations,
             filteredData.events,
-            filteredData.items
+            filteredData.items,
+            { world: filteredData.world, time, events, scenes, referenceDate }
         );
 
         // Build bidirectional edges for certain relationship types
@@ -167,12 +235,17 @@ export class NetworkGraphRenderer {
         characters: Character[],
         locations: Location[],
         events: Event[],
-        items: PlotItem[]
-    ): { characters: Character[], locations: Location[], events: Event[], items: PlotItem[] } {
+        items: PlotItem[],
+        world: Required<WorldEntities>
+    ): { characters: Character[], locations: Location[], events: Event[], items: PlotItem[], world: Required<WorldEntities> } {
         let filteredChars = characters;
         let filteredLocs = locations;
         let filteredEvts = events;
         let filteredItems = items;
+        let filteredCultures = world.cultures;
+        let filteredEconomies = world.economies;
+        let filteredMagic = world.magicSystems;
+        let filteredGroups = world.groups;
 
         // Filter by entity types
         // If entityTypes is defined (even if empty array), apply filtering
@@ -189,6 +262,18 @@ export class NetworkGraphRenderer {
             if (!this.currentFilters.entityTypes.includes('item')) {
                 filteredItems = [];
             }
+            if (!this.currentFilters.entityTypes.includes('culture')) {
+                filteredCultures = [];
+            }
+            if (!this.currentFilters.entityTypes.includes('economy')) {
+                filteredEconomies = [];
+            }
+            if (!this.currentFilters.entityTypes.includes('magicSystem')) {
+                filteredMagic = [];
+            }
+            if (!this.currentFilters.entityTypes.includes('group')) {
+                filteredGroups = [];
+            }
         }
 
         // Filter by groups
@@ -205,6 +290,17 @@ export class NetworkGraphRenderer {
             filteredItems = filteredItems.filter(i => 
                 i.groups && i.groups.some(g => this.currentFilters.groups?.includes(g))
             );
+            filteredCultures = filteredCultures.filter(c => 
+                c.groups && c.groups.some(g => this.currentFilters.groups?.includes(g))
+            );
+            filteredEconomies = filteredEconomies.filter(e => 
+                e.groups && e.groups.some(g => this.currentFilters.groups?.includes(g))
+            );
+            filteredMagic = filteredMagic.filter(m => 
+                m.groups && m.groups.some(g => this.currentFilters.groups?.includes(g))
+            );
+            // The selected groups themselves stay visible
+            filteredGroups = filteredGroups.filter(g => this.currentFilters.groups?.includes(g.id));
         }
 
         // Filter by timeline (events only)
@@ -228,7 +324,13 @@ export class NetworkGraphRenderer {
             characters: filteredChars,
             locations: filteredLocs,
             events: filteredEvts,
-            items: filteredItems
+            items: filteredItems,
+            world: {
+                cultures: filteredCultures,
+                economies: filteredEconomies,
+                magicSystems: filteredMagic,
+                groups: filteredGroups
+            }
         };
     }
 
@@ -238,6 +340,9 @@ export class NetworkGraphRenderer {
         const loadingEl = this.containerEl.createDiv('storyteller-network-loading');
         loadingEl.textContent = 'Loading graph...';
 
+        // Story time slider sits above the canvas
+        this.timeSliderEl = this.containerEl.createDiv('storyteller-network-time-slider');
+
         // Create canvas container
         this.canvasEl = this.containerEl.createDiv('storyteller-network-canvas');
         this.canvasEl.style.width = '100%';
@@ -253,9 +358,11 @@ export class NetworkGraphRenderer {
 
         // Build graph data
         const { nodes, edges } = await this.buildGraphData();
+        this.setGraphData(nodes, edges);
 
         // Remove loading state
         loadingEl.remove();
+        this.renderTimeSlider();
 
         // Check for empty state
         if (nodes.length === 0) {
@@ -289,7 +396,9 @@ export class NetworkGraphRenderer {
                     source: edge.source,
                     target: edge.target,
                     relationshipType: edge.relationshipType,
-                    label: edge.label
+                    label: edge.label,
+                    direction: edge.direction,
+                    intensity: edge.intensity
                 }
             }))
         ];
@@ -303,6 +412,7 @@ export class NetworkGraphRenderer {
             minZoom: 0.2,
             maxZoom: 4
         });
+        this.applyAnalytics();
 
         // Apply initial zoom adjustment after layout completes
         this.cy.one('layoutstop', () => {
@@ -428,11 +538,16 @@ export class NetworkGraphRenderer {
                     'border-width': 2,
                     'border-color': borderColor,
                     // Enhanced dynamic sizing based on degree (connections)
+                    // Centrality sizing, when chosen, replaces the connection count
                     'width': (node: any) => {
+                        const size = node.data('analysisSize');
+                        if (size !== undefined) return size;
                         const degree = node.data('degree') || 0;
                         return Math.max(40, Math.min(120, 40 + degree * 8)); // More pronounced: 40-120px
                     },
                     'height': (node: any) => {
+                        const size = node.data('analysisSize');
+                        if (size !== undefined) return size;
                         const degree = node.data('degree') || 0;
                         return Math.max(40, Math.min(120, 40 + degree * 8));
                     },
@@ -486,6 +601,38 @@ export class NetworkGraphRenderer {
                     'background-color': '#88CCEE' // Tol muted palette - cyan
                 }
             },
+            // Culture nodes (octagons) - Color-blind friendly green
+            {
+                selector: 'node[type="culture"]',
+                style: {
+                    'shape': 'octagon',
+                    'background-color': '#117733' // Tol muted palette - green
+                }
+            },
+            // Economy nodes (tags) - Color-blind friendly olive
+            {
+                selector: 'node[type="economy"]',
+                style: {
+                    'shape': 'tag',
+                    'background-color': '#999933' // Tol muted palette - olive
+                }
+            },
+            // Magic system nodes (stars) - Color-blind friendly purple
+            {
+                selector: 'node[type="magicSystem"]',
+                style: {
+                    'shape': 'star',
+                    'background-color': '#AA4499' // Tol muted palette - purple
+                }
+            },
+            // Group nodes (pentagons) - Color-blind friendly indigo
+            {
+                selector: 'node[type="group"]',
+                style: {
+                    'shape': 'pentagon',
+                    'background-color': '#332288' // Tol muted palette - indigo
+                }
+            },
             // Visual hierarchy: Hub nodes (degree > 10) - Major characters/locations
             {
                 selector: 'node[[degree > 10]]',
@@ -535,6 +682,14 @@ export class NetworkGraphRenderer {
                     'font-size': '12px'
                 }
             },
+            // Community coloring overrides the entity type color
+            {
+                selector: 'node[communityColor]',
+                style: {
+                    'background-color': 'data(communityColor)',
+                    'border-color': 'data(communityColor)'
+                }
+            },
             // Edge styles - Labels hidden by default, shown on hover
             {
                 selector: 'edge',
@@ -563,6 +718,22 @@ export class NetworkGraphRenderer {
                     'transition-timing-function': 'ease-out'
                 }
             },
+            // Stronger relationships draw thicker lines
+            {
+                selector: 'edge[intensity]',
+                style: {
+                    'width': 'mapData(intensity, 1, 10, 1, 6)'
+                }
+            },
+            // One-way feelings: dashed, pointing at the one they're felt for
+            {
+                selector: 'edge[direction="one-way"]',
+                style: {
+                    'line-style': 'dashed',
+                    'target-arrow-shape': 'triangle-backcurve',
+                    'arrow-scale': 1.6
+                }
+            },
             // Relationship type colors
             {
                 selector: 'edge[relationshipType="ally"]',
@@ -662,6 +833,31 @@ export class NetworkGraphRenderer {
                     'text-background-opacity': 0.95
                 }
             },
+            // Shortest connection path
+            {
+                selector: '.off-path',
+                style: {
+                    'opacity': 0.2
+                }
+            },
+            {
+                selector: 'node.path-node',
+                style: {
+                    'border-width': 5,
+                    'border-color': accentHoverColor,
+                    'z-index': 999
+                }
+            },
+            {
+                selector: 'edge.path-edge',
+                style: {
+                    'width': 5,
+                    'line-color': accentColor,
+                    'target-arrow-color': accentColor,
+                    'label': 'data(label)',
+                    'z-index': 999
+                }
+            },
             // Pinned nodes
             {
                 selector: 'node.pinned',
@@ -882,7 +1078,11 @@ export class NetworkGraphRenderer {
             'character': '👤',
             'location': '📍',
             'event': '⚡',
-            'item': '🎁'
+            'item': '🎁',
+            'culture': '🏛️',
+            'economy': '💰',
+            'magicSystem': '✨',
+            'group': '🛡️'
         };
         const icon = typeIcons[type] || '●';
         
@@ -986,11 +1186,18 @@ export class NetworkGraphRenderer {
                 { key: 'character', icon: '👤', label: 'Characters', color: '#CC6677' },
                 { key: 'location', icon: '📍', label: 'Locations', color: '#44AA99' },
                 { key: 'event', icon: '⚡', label: 'Events', color: '#DDCC77' },
-                { key: 'item', icon: '🎁', label: 'Items', color: '#88CCEE' }
+                { key: 'item', icon: '🎁', label: 'Items', color: '#88CCEE' },
+                { key: 'culture', icon: '🏛️', label: 'Cultures', color: '#117733' },
+                { key: 'economy', icon: '💰', label: 'Economies', color: '#999933' },
+                { key: 'magicSystem', icon: '✨', label: 'Magic', color: '#AA4499' },
+                { key: 'group', icon: '🛡️', label: 'Groups', color: '#332288' }
             ];
+            const worldKeys = ['culture', 'economy', 'magicSystem', 'group'];
             
             typeInfo.forEach(({ key, icon, label, color }) => {
                 const count = typeCounts[key] || 0;
+                // World-building types only show up when connected
+                if (count === 0 && worldKeys.includes(key)) return;
                 const opacity = count > 0 ? 1 : 0.3;
                 content += `
                     <div style="background: var(--background-primary); padding: 6px; border-radius: 4px; border-left: 2px solid ${color}; opacity: ${opacity};">
@@ -1168,6 +1375,22 @@ export class NetworkGraphRenderer {
                             <div style="width: 20px; height: 20px; background: #88CCEE; border: 2px solid var(--background-modifier-border); clip-path: polygon(50% 0%, 100% 25%, 100% 75%, 50% 100%, 0% 75%, 0% 25%);"></div>
                             <span style="font-size: 11px; color: var(--text-muted);">🎁 Items</span>
                         </div>
+                        <div style="display: flex; align-items: center; gap: 8px;">
+                            <div style="width: 20px; height: 20px; background: #117733; border: 2px solid var(--background-modifier-border); clip-path: polygon(30% 0%, 70% 0%, 100% 30%, 100% 70%, 70% 100%, 30% 100%, 0% 70%, 0% 30%);"></div>
+                            <span style="font-size: 11px; color: var(--text-muted);">🏛️ Cultures</span>
+                        </div>
+                        <div style="display: flex; align-items: center; gap: 8px;">
+                            <div style="width: 20px; height: 20px; background: #999933; border: 2px solid var(--background-modifier-border); clip-path: polygon(0% 0%, 75% 0%, 100% 50%, 75% 100%, 0% 100%);"></div>
+                            <span style="font-size: 11px; color: var(--text-muted);">💰 Economies</span>
+                        </div>
+                        <div style="display: flex; align-items: center; gap: 8px;">
+                            <div style="width: 20px; height: 20px; background: #AA4499; clip-path: polygon(50% 0%, 61% 35%, 98% 35%, 68% 57%, 79% 91%, 50% 70%, 21% 91%, 32% 57%, 2% 35%, 39% 35%);"></div>
+                            <span style="font-size: 11px; color: var(--text-muted);">✨ Magic Systems</span>
+                        </div>
+                        <div style="display: flex; align-items: center; gap: 8px;">
+                            <div style="width: 20px; height: 20px; background: #332288; border: 2px solid var(--background-modifier-border); clip-path: polygon(50% 0%, 100% 38%, 82% 100%, 18% 100%, 0% 38%);"></div>
+                            <span style="font-size: 11px; color: var(--text-muted);">🛡️ Groups</span>
+                        </div>
                     </div>
                 </div>
                 
@@ -1527,6 +1750,135 @@ export class NetworkGraphRenderer {
         layout.run();
     }
 
+    // Story time of the selected slider step
+    private getSelectedTime(): number {
+        if (this.moments.length === 0 || this.timeStep >= this.moments.length) return Infinity;
+        if (this.timeStep <= 0) return this.moments[0].time - 1;
+        return this.moments[this.timeStep - 1].time;
+    }
+
+    // Render the story time slider; releasing it shows the graph as of that moment
+    private renderTimeSlider(): void {
+        if (!this.timeSliderEl) return;
+        this.timeSliderEl.empty();
+
+        const label = this.timeSliderEl.createSpan({ cls: 'storyteller-network-time-label' });
+        const updateLabel = () => {
+            if (this.moments.length === 0) label.setText(t('graphNoDatedMoments'));
+            else if (this.timeStep >= this.moments.length) label.setText(t('graphTimeLatest'));
+            else if (this.timeStep === 0) label.setText(t('graphTimeBefore'));
+            else label.setText(t('graphTimeAsOf', this.moments[this.timeStep - 1].label));
+        };
+
+        const slider = this.timeSliderEl.createEl('input', {
+            type: 'range',
+            attr: { min: '0', max: String(this.moments.length), step: '1', 'aria-label': t('graphTimeSlider') }
+        });
+        slider.value = String(this.timeStep);
+        slider.disabled = this.moments.length === 0;
+        slider.addEventListener('input', () => {
+            this.timeStep = Number(slider.value);
+            updateLabel();
+        });
+        slider.addEventListener('change', () => {
+            this.showLatest = this.timeStep >= this.moments.length;
+            this.refresh().catch(error => console.error('Error refreshing network graph:', error));
+        });
+        updateLabel();
+    }
+
+    // Keep the drawn data for analytics; a new graph invalidates cached results and the path
+    private setGraphData(nodes: GraphNode[], edges: GraphEdge[]): void {
+        this.graphData = { nodes, edges };
+        this.analysis = null;
+        this.connectionPath = null;
+    }
+
+    // Nodes currently drawn, for picking path endpoints
+    getGraphNodes(): GraphNode[] {
+        return this.graphData?.nodes || [];
+    }
+
+    // Centrality and community analysis of the drawn graph
+    getAnalysis(): GraphAnalysis | null {
+        if (!this.graphData) return null;
+        if (!this.analysis) this.analysis = analyzeGraph(this.graphData.nodes, this.graphData.edges);
+        return this.analysis;
+    }
+
+    getCentralitySizing(): CentralityMetric | null {
+        return this.sizeMetric;
+    }
+
+    // Size nodes by a centrality score, or by connection count when null
+    setCentralitySizing(metric: CentralityMetric | null): void {
+        this.sizeMetric = metric;
+        this.applyAnalytics();
+    }
+
+    isCommunityColoring(): boolean {
+        return this.colorCommunities;
+    }
+
+    setCommunityColoring(enabled: boolean): void {
+        this.colorCommunities = enabled;
+        this.applyAnalytics();
+    }
+
+    // Push the selected analytics into node data, which the stylesheet maps to size and color
+    private applyAnalytics(): void {
+        const cy = this.cy;
+        if (!cy) return;
+        const analysis = this.sizeMetric || this.colorCommunities ? this.getAnalysis() : null;
+        cy.batch(() => {
+            cy.nodes().forEach(node => {
+                const metrics = analysis?.metrics.get(node.id());
+                if (metrics && this.sizeMetric) node.data('analysisSize', 30 + metrics[this.sizeMetric] * 90);
+                else node.removeData('analysisSize');
+                if (metrics && this.colorCommunities) node.data('communityColor', COMMUNITY_COLORS[metrics.community % COMMUNITY_COLORS.length]);
+                else node.removeData('communityColor');
+            });
+        });
+    }
+
+    // Highlight the shortest chain between two nodes; returns it, or null when they aren't connected
+    highlightConnection(fromId: string, toId: string): string[] | null {
+        const cy = this.cy;
+        if (!cy || !this.graphData) return null;
+        this.clearConnection();
+        const path = shortestPath(this.graphData.nodes, this.graphData.edges, fromId, toId);
+        if (!path) return null;
+
+        this.connectionPath = path;
+        const onPath = new Set(path);
+        cy.batch(() => {
+            cy.elements().addClass('off-path');
+            path.forEach((id, i) => {
+                cy.getElementById(id).removeClass('off-path').addClass('path-node');
+                if (i === 0) return;
+                cy.edges().filter(edge => {
+                    const source = edge.source().id();
+                    const target = edge.target().id();
+                    return (source === path[i - 1] && target === id) || (source === id && target === path[i - 1]);
+                }).removeClass('off-path').addClass('path-edge');
+            });
+        });
+        cy.fit(cy.nodes().filter(node => onPath.has(node.id())), 50);
+        return path;
+    }
+
+    clearConnection(): void {
+        this.connectionPath = null;
+        this.cy?.elements().removeClass('off-path path-node path-edge');
+    }
+
+    // Markdown report of the analysis, including the highlighted path
+    buildAnalysisReport(): string | null {
+        const analysis = this.getAnalysis();
+        if (!analysis || !this.graphData) return null;
+        return formatAnalysisReport(this.graphData.nodes, analysis, this.connectionPath);
+    }
+
     // Apply filters and refresh graph
     async applyFilters(filters: GraphFilters): Promise<void> {
         this.currentFilters = filters;
@@ -1555,6 +1907,8 @@ export class NetworkGraphRenderer {
         this.cy.resize();
 
         const { nodes, edges } = await this.buildGraphData();
+        this.setGraphData(nodes, edges);
+        this.renderTimeSlider();
 
         // Calculate node degrees for dynamic sizing
         const nodeDegrees = new Map<string, number>();
@@ -1582,7 +1936,9 @@ export class NetworkGraphRenderer {
                     source: edge.source,
                     target: edge.target,
                     relationshipType: edge.relationshipType,
-                    label: edge.label
+                    label: edge.label,
+                    direction: edge.direction,
+                    intensity: edge.intensity
                 }
             }))
         ];
@@ -1609,6 +1965,7 @@ export class NetworkGraphRenderer {
                 node.lock();
             }
         });
+        this.applyAnalytics();
 
         // Run layout with current layout type
         this.cy.layout(this.getLayoutOptions(this.currentLayout)).run();
@@ -1686,6 +2043,11 @@ export class NetworkGraphRenderer {
             this.canvasEl = null;
         }
 
+        if (this.timeSliderEl) {
+            this.timeSliderEl.remove();
+            this.timeSliderEl = null;
+        }
+
         this.pinnedNodes.clear();
     }
 }
@@ -5,7 +5,7 @@ import { ItemView, WorkspaceLeaf, Setting, ButtonComponent } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
 import { t } from '../i18n/strings';
 import { NetworkGraphRenderer } from './NetworkGraphRenderer';
-import { GraphFilters } from '../types';
+import { GraphEntityType, GraphFilters } from '../types';
 
 export const VIEW_TYPE_NETWORK_GRAPH = 'storyteller-network-graph-view';
 
@@ -221,7 +221,7 @@ export class NetworkGraphView extends ItemView {
                 entitySection.createEl('h4', { text: t('selectEntityTypes') });
                 
                 const entityTypes: ('character' | 'location' | 'event' | 'item')[] = ['character', 'location', 'event', 'item'];
-                const selectedTypes: ('character' | 'location' | 'event' | 'item')[] = 
+                const selectedTypes: GraphEntityType[] = 
                     this.view.currentFilters.entityTypes ? [...this.view.currentFilters.entityTypes] : 
                     ['character', 'location', 'event', 'item'];
 
@@ -1,11 +1,14 @@
 // Network Graph View - Full workspace view for network visualization
 // Provides a dedicated panel for viewing and interacting with the entity relationship graph
 
-import { ItemView, WorkspaceLeaf, setIcon, Menu } from 'obsidian';
+import { ItemView, WorkspaceLeaf, setIcon, Menu, Notice } from 'obsidian';
 import StorytellerSuitePlugin from '../main';
 import { t } from '../i18n/strings';
 import { NetworkGraphRenderer } from './NetworkGraphRenderer';
-import { GraphFilters } from '../types';
+import { GraphEntityType, GraphFilters } from '../types';
+import { GRAPH_ENTITY_TYPES } from '../utils/GraphUtils';
+import { CENTRALITY_LABELS, CentralityMetric } from '../utils/GraphAnalytics';
+import { GraphPathModal } from '../modals/GraphPathModal';
 
 export const VIEW_TYPE_NETWORK_GRAPH = 'storyteller-network-graph-view';
 
@@ -14,8 +17,8 @@ export const VIEW_TYPE_NETWORK_GRAPH = 'storyteller-network-graph-view';
  * Users can open this in any workspace leaf for a larger, more detailed visualization
  * 
  * UI Structure (Optimized for vertical space):
- * - Toolbar: Icon buttons for layout, export, refresh
- * - Entity Filters: Inline icon toggles for character/location/event/item
+ * - Toolbar: Icon buttons for layout, analysis, export, refresh
+ * - Entity Filters: Inline icon toggles for every graph entity type
  * - Advanced Filters (collapsible): Search, timeline range
  * - Graph Container: Flex-grow to fill remaining space
  * - Status Footer: Entity count display
@@ -24,7 +27,7 @@ export class NetworkGraphView extends ItemView {
     plugin: StorytellerSuitePlugin;
     private graphRenderer: NetworkGraphRenderer | null = null;
     private currentFilters: GraphFilters = {
-        entityTypes: ['character', 'location', 'event', 'item']
+        entityTypes: [...GRAPH_ENTITY_TYPES]
     };
     
     // UI Elements
@@ -104,6 +107,17 @@ export class NetworkGraphView extends ItemView {
         setIcon(layoutBtn, 'layout-grid');
         layoutBtn.addEventListener('click', () => this.showLayoutMenu(layoutBtn));
 
+        // Analysis button: centrality sizing, communities, connection paths
+        const analysisBtn = this.toolbarEl.createEl('button', {
+            cls: 'clickable-icon storyteller-toolbar-btn',
+            attr: { 
+                'aria-label': t('graphAnalysis'),
+                'title': t('graphAnalysis')
+            }
+        });
+        setIcon(analysisBtn, 'bar-chart-2');
+        analysisBtn.addEventListener('click', () => this.showAnalysisMenu(analysisBtn));
+
         // Export button (prominent)
         const exportBtn = this.toolbarEl.createEl('button', {
             cls: 'storyteller-export-button',
@@ -184,14 +198,18 @@ export class NetworkGraphView extends ItemView {
         this.entityFilterEl.empty();
 
         const entityTypes: Array<{
-            type: 'character' | 'location' | 'event' | 'item';
+            type: GraphEntityType;
             icon: string;
             label: string;
         }> = [
             { type: 'character', icon: 'user', label: t('characters') },
             { type: 'location', icon: 'map-pin', label: t('locations') },
             { type: 'event', icon: 'calendar', label: t('events') },
-            { type: 'item', icon: 'package', label: t('items') }
+            { type: 'item', icon: 'package', label: t('items') },
+            { type: 'culture', icon: 'landmark', label: t('cultures') },
+            { type: 'economy', icon: 'coins', label: t('economies') },
+            { type: 'magicSystem', icon: 'sparkles', label: t('magicSystems') },
+            { type: 'group', icon: 'shield', label: t('groups') }
         ];
 
         entityTypes.forEach(({ type, icon, label }) => {
@@ -389,18 +407,18 @@ export class NetworkGraphView extends ItemView {
     /**
      * Get currently active entity types from filter buttons
      */
-    private getActiveEntityTypes(): ('character' | 'location' | 'event' | 'item')[] {
-        if (!this.entityFilterEl) return ['character', 'location', 'event', 'item'];
+    private getActiveEntityTypes(): GraphEntityType[] {
+        if (!this.entityFilterEl) return [...GRAPH_ENTITY_TYPES];
         
         const activeButtons = this.entityFilterEl.querySelectorAll('.storyteller-entity-filter-btn.is-active');
-        const types: ('character' | 'location' | 'event' | 'item')[] = [];
+        const types: GraphEntityType[] = [];
         
         activeButtons.forEach(btn => {
-            const type = btn.getAttribute('data-entity-type') as 'character' | 'location' | 'event' | 'item';
+            const type = btn.getAttribute('data-entity-type') as GraphEntityType;
             if (type) types.push(type);
         });
         
-        return types.length > 0 ? types : ['character', 'location', 'event', 'item'];
+        return types.length > 0 ? types : [...GRAPH_ENTITY_TYPES];
     }
 
     /**
@@ -470,6 +488,98 @@ export class NetworkGraphView extends ItemView {
         }));
     }
 
+    /**
+     * Show analysis menu
+     */
+    private showAnalysisMenu(buttonEl: HTMLElement): void {
+        const renderer = this.graphRenderer;
+        if (!renderer) return;
+        const menu = new Menu();
+
+        const sizing: Array<{ value: CentralityMetric | null; label: string }> = [
+            { value: null, label: t('sizeByConnections') },
+            ...(Object.keys(CENTRALITY_LABELS) as CentralityMetric[]).map(metric => ({
+                value: metric,
+                label: t('sizeByCentrality', CENTRALITY_LABELS[metric])
+            }))
+        ];
+        sizing.forEach(option => {
+            menu.addItem((item) => {
+                item.setTitle(option.label)
+                    .setIcon('circle-dot')
+                    .setChecked(renderer.getCentralitySizing() === option.value)
+                    .onClick(() => renderer.setCentralitySizing(option.value));
+            });
+        });
+
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item.setTitle(t('colorCommunities'))
+                .setIcon('palette')
+                .setChecked(renderer.isCommunityColoring())
+                .onClick(() => renderer.setCommunityColoring(!renderer.isCommunityColoring()));
+        });
+        menu.addItem((item) => {
+            item.setTitle(t('findConnection'))
+                .setIcon('route')
+                .onClick(() => this.findConnection());
+        });
+        menu.addItem((item) => {
+            item.setTitle(t('clearConnection'))
+                .setIcon('x')
+                .onClick(() => renderer.clearConnection());
+        });
+
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item.setTitle(t('exportAnalysisNote'))
+                .setIcon('file-text')
+                .onClick(() => { void this.exportAnalysisNote(); });
+        });
+
+        menu.showAtMouseEvent(new MouseEvent('click', { 
+            clientX: buttonEl.getBoundingClientRect().left,
+            clientY: buttonEl.getBoundingClientRect().bottom
+        }));
+    }
+
+    /**
+     * Ask for two entities and highlight the shortest chain between them
+     */
+    private findConnection(): void {
+        const renderer = this.graphRenderer;
+        if (!renderer) return;
+        const nodes = renderer.getGraphNodes();
+        new GraphPathModal(this.app, nodes, (fromId, toId) => {
+            const path = renderer.highlightConnection(fromId, toId);
+            const label = (id: string) => nodes.find(node => node.id === id)?.label || id;
+            if (!path) {
+                new Notice(t('noConnectionFound', label(fromId), label(toId)));
+                return;
+            }
+            new Notice(path.map(label).join(' → '));
+        }).open();
+    }
+
+    /**
+     * Write centralities, communities and the highlighted path to a new note
+     */
+    private async exportAnalysisNote(): Promise<void> {
+        const report = this.graphRenderer?.buildAnalysisReport();
+        if (!report) {
+            new Notice(t('emptyGraphMessage'));
+            return;
+        }
+
+        const fileName = `Network Analysis ${new Date().toISOString().split('T')[0]}.md`;
+        try {
+            await this.app.vault.create(fileName, report);
+            new Notice(t('analysisExported', fileName));
+        } catch (error) {
+            new Notice(t('analysisExportFailed', String(error)));
+        }
+    }
+
     /**
      * Show export menu
      */
@@ -0,0 +1,223 @@
+// Scene Kanban View - Scenes as cards in one column per status
+// Dragging a card to another column saves the scene with that status. Cards show progress
+// toward the scene's target length, its POV character and chapter; the board can be
+// narrowed to one chapter, POV character or tag.
+
+import { ItemView, WorkspaceLeaf, Notice, debounce } from 'obsidian';
+import StorytellerSuitePlugin from '../main';
+import { t } from '../i18n/strings';
+import { Chapter, Scene } from '../types';
+import {
+    KanbanColumn,
+    KanbanFilter,
+    UNASSIGNED_CHAPTER,
+    buildKanbanColumns,
+    getKanbanFilterOptions,
+    matchesKanbanFilter
+} from '../utils/SceneKanban';
+import { plainRef } from '../utils/ItemCustody';
+
+export const VIEW_TYPE_SCENE_KANBAN = 'storyteller-scene-kanban-view';
+
+/** Drag data type carrying the dragged scene's key */
+const DRAG_TYPE = 'text/plain';
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/**
+ * SceneKanbanView shows:
+ * - One column per configured scene status, plus any other status in use
+ * - Scene cards with word count against target, POV character and chapter
+ * - Chapter, POV and tag filters
+ */
+export class SceneKanbanView extends ItemView {
+    plugin: StorytellerSuitePlugin;
+    private scenes: Scene[] = [];
+    private chapters: Chapter[] = [];
+    private filter: KanbanFilter = {};
+    private filtersEl: HTMLElement | null = null;
+    private boardEl: HTMLElement | null = null;
+    private debouncedRefresh = debounce(() => { void this.refresh(); }, 300, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: StorytellerSuitePlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_SCENE_KANBAN;
+    }
+
+    getDisplayText(): string {
+        return t('sceneKanban');
+    }
+
+    getIcon(): string {
+        return 'kanban-square';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('storyteller-kanban-view');
+
+        const header = container.createDiv('storyteller-kanban-header');
+        header.createEl('h2', { text: t('sceneKanban') });
+        const refreshBtn = header.createEl('button', { text: t('refresh') });
+        refreshBtn.addEventListener('click', () => { void this.refresh(); });
+
+        this.filtersEl = container.createDiv('storyteller-kanban-filters');
+        this.boardEl = container.createDiv('storyteller-kanban-board');
+
+        // Scene and chapter notes are tracked by the plugin's entity index
+        this.register(this.plugin.entityIndex.onChange(changes => {
+            if (changes.some(change => change.type === 'scene' || change.type === 'chapter')) this.debouncedRefresh();
+        }));
+        await this.refresh();
+    }
+
+    /** Reload scenes and chapters and redraw the board */
+    async refresh(): Promise<void> {
+        this.scenes = await this.plugin.listScenes();
+        this.chapters = (await this.plugin.listChapters()).sort((a, b) => (a.number || 0) - (b.number || 0));
+        this.renderFilters();
+        this.renderBoard();
+    }
+
+    private renderFilters(): void {
+        if (!this.filtersEl) return;
+        this.filtersEl.empty();
+        const options = getKanbanFilterOptions(this.scenes);
+
+        const addFilter = (label: string, value: string | undefined, choices: Array<[string, string]>, onChange: (value: string) => void) => {
+            const wrapper = this.filtersEl?.createDiv('storyteller-kanban-filter');
+            if (!wrapper) return;
+            wrapper.createSpan({ text: `${label}: ` });
+            const select = wrapper.createEl('select');
+            select.createEl('option', { value: '', text: t('all') });
+            choices.forEach(([choiceValue, text]) => select.createEl('option', { value: choiceValue, text }));
+            select.value = value || '';
+            select.addEventListener('change', () => {
+                onChange(select.value);
+                this.renderBoard();
+            });
+        };
+
+        const chapterChoices: Array<[string, string]> = this.chapters
+            .filter(chapter => chapter.id && options.chapters.some(c => c.id === chapter.id))
+            .map(chapter => [chapter.id as string, chapter.name]);
+        if (this.scenes.some(scene => !scene.chapterId)) chapterChoices.push([UNASSIGNED_CHAPTER, t('unassigned')]);
+
+        addFilter(t('chapter'), this.filter.chapterId, chapterChoices, value => { this.filter.chapterId = value; });
+        addFilter(t('povCharacter'), this.filter.pov, options.povs.map(pov => [pov, pov]), value => { this.filter.pov = value; });
+        addFilter(t('tag'), this.filter.tag, options.tags.map(tag => [tag, tag]), value => { this.filter.tag = value; });
+    }
+
+    private renderBoard(): void {
+        if (!this.boardEl) return;
+        this.boardEl.empty();
+
+        if (this.scenes.length === 0) {
+            this.boardEl.createEl('p', { text: t('noScenesFound'), cls: 'storyteller-modal-list-empty' });
+            return;
+        }
+
+        const visible = this.scenes.filter(scene => matchesKanbanFilter(scene, this.filter));
+        const chapterOrder = this.chapters.map(chapter => chapter.id || '');
+        buildKanbanColumns(visible, this.plugin.settings.sceneStatuses || [], chapterOrder)
+            .forEach(column => this.renderColumn(column));
+    }
+
+    private renderColumn(column: KanbanColumn): void {
+        if (!this.boardEl) return;
+        const columnEl = this.boardEl.createDiv('storyteller-kanban-column');
+        if (column.extra) columnEl.addClass('is-unconfigured');
+
+        const words = column.scenes.reduce((sum, scene) => sum + this.getWordCount(scene), 0);
+        const headerEl = columnEl.createDiv('storyteller-kanban-column-header');
+        headerEl.createSpan({ text: column.status, cls: 'storyteller-kanban-column-title' });
+        headerEl.createSpan({ text: t('kanbanColumnCount', String(column.scenes.length), words.toLocaleString()), cls: 'storyteller-kanban-column-count' });
+
+        const cardsEl = columnEl.createDiv('storyteller-kanban-cards');
+        column.scenes.forEach(scene => this.renderCard(cardsEl, scene));
+
+        columnEl.addEventListener('dragover', event => {
+            event.preventDefault();
+            columnEl.addClass('is-drop-target');
+        });
+        columnEl.addEventListener('dragleave', event => {
+            if (!columnEl.contains(event.relatedTarget as Node | null)) columnEl.removeClass('is-drop-target');
+        });
+        columnEl.addEventListener('drop', event => {
+            event.preventDefault();
+            columnEl.removeClass('is-drop-target');
+            const key = event.dataTransfer?.getData(DRAG_TYPE);
+            if (key) void this.moveScene(key, column.status);
+        });
+    }
+
+    private renderCard(container: HTMLElement, scene: Scene): void {
+        const cardEl = container.createDiv('storyteller-kanban-card');
+        cardEl.draggable = true;
+        cardEl.addEventListener('dragstart', event => {
+            event.dataTransfer?.setData(DRAG_TYPE, this.sceneKey(scene));
+            cardEl.addClass('is-dragging');
+        });
+        cardEl.addEventListener('dragend', () => cardEl.removeClass('is-dragging'));
+        cardEl.addEventListener('click', () => {
+            if (scene.filePath) void this.app.workspace.openLinkText(scene.filePath, '', false);
+        });
+
+        cardEl.createDiv({ text: scene.name, cls: 'storyteller-kanban-card-title' });
+
+        const meta = cardEl.createDiv('storyteller-kanban-card-meta');
+        if (scene.chapterName) meta.createSpan({ text: `📖 ${scene.chapterName}` });
+        const pov = plainRef(scene.povCharacter);
+        if (pov) meta.createSpan({ text: `👁 ${pov}` });
+
+        const words = this.getWordCount(scene);
+        const wordsEl = cardEl.createDiv('storyteller-kanban-card-words');
+        if (scene.targetWordCount && scene.targetWordCount > 0) {
+            wordsEl.setText(t('kanbanWordsOfTarget', words.toLocaleString(), scene.targetWordCount.toLocaleString()));
+            const bar = cardEl.createDiv('storyteller-progress-bar');
+            const fill = bar.createDiv('storyteller-progress-fill');
+            fill.style.width = `${Math.min(100, (words / scene.targetWordCount) * 100)}%`;
+            if (words >= scene.targetWordCount) cardEl.addClass('is-target-met');
+        } else {
+            wordsEl.setText(t('kanbanWords', words.toLocaleString()));
+        }
+    }
+
+    /** Save a scene with a new status */
+    private async moveScene(key: string, status: string): Promise<void> {
+        const scene = this.scenes.find(s => this.sceneKey(s) === key);
+        if (!scene || scene.status === status) return;
+        const previous = scene.status;
+        scene.status = status;
+        this.renderBoard();
+        try {
+            await this.plugin.saveScene(scene);
+        } catch (error) {
+            console.error('Storyteller Suite: could not update scene status', error);
+            scene.status = previous;
+            this.renderBoard();
+            new Notice(t('kanbanMoveFailed', scene.name));
+        }
+    }
+
+    private sceneKey(scene: Scene): string {
+        return scene.filePath || scene.id || scene.name;
+    }
+
+    /** Words in the scene's prose, or its cached count when the prose is not loaded */
+    private getWordCount(scene: Scene): number {
+        return scene.content ? countWords(scene.content) : scene.wordCount || 0;
+    }
+
+    async onClose(): Promise<void> {
+        this.filtersEl = null;
+        this.boardEl = null;
+    }
+}
@@ -138,7 +138,7 @@ export class TimelineView extends ItemView {
             value: 'main',
             text: 'Main Timeline'
         });
-        mainOption.selected = true;
+        mainOption.selected = !this.currentState.currentForkId;
 
         // Add fork options
         const forks = this.plugin.getTimelineForks();
@@ -150,11 +150,42 @@ export class TimelineView extends ItemView {
             if (fork.color) {
                 option.style.color = fork.color;
             }
+            option.selected = fork.id === this.currentState.currentForkId;
+        });
+
+        // Edit the selected fork's overrides, or merge it into canon
+        const editForkBtn = forkContainer.createEl('button', {
+            cls: 'clickable-icon storyteller-toolbar-btn',
+            attr: { 'aria-label': 'Edit timeline fork', 'title': 'Edit timeline fork' }
+        });
+        setIcon(editForkBtn, 'git-branch');
+        editForkBtn.toggle(!!this.currentState.currentForkId);
+        editForkBtn.addEventListener('click', async () => {
+            const fork = this.currentState.currentForkId
+                ? this.plugin.getTimelineFork(this.currentState.currentForkId)
+                : undefined;
+            if (!fork) return;
+            const { TimelineForkModal } = await import('../modals/TimelineForkModal');
+            new TimelineForkModal(
+                this.app,
+                this.plugin,
+                structuredClone(fork),
+                async (updated) => {
+                    await this.plugin.updateTimelineFork(updated);
+                    await this.refresh();
+                },
+                async (deleted) => {
+                    await this.plugin.deleteTimelineFork(deleted.id);
+                    this.showMainTimeline();
+                },
+                async () => this.showMainTimeline()
+            ).open();
         });
 
         forkSelect.addEventListener('change', async () => {
             const selectedFork = forkSelect.value;
             this.currentState.currentForkId = selectedFork === 'main' ? undefined : selectedFork;
+            editForkBtn.toggle(!!this.currentState.currentForkId);
 
             if (selectedFork === 'main') {
                 // Show all events - clear any fork filters
@@ -163,7 +194,7 @@ export class TimelineView extends ItemView {
                     forkId: undefined
                 };
             } else {
-                // Filter to fork-specific events
+                // Overlay the fork's branch lane from its divergence point
                 const fork = this.plugin.getTimelineFork(selectedFork);
                 if (fork) {
                     this.currentState.filters = {
@@ -179,7 +210,7 @@ export class TimelineView extends ItemView {
         });
 
         // Conflict warnings badge (if conflicts exist)
-        const conflicts = this.plugin.settings.timelineConflicts || [];
+        const conflicts = this.plugin.getStoryRecords('timelineConflicts');
         const activeConflicts = conflicts.filter(c => !c.dismissed);
         if (activeConflicts.length > 0) {
             const conflictBadge = this.toolbarEl.createEl('button', {
@@ -237,7 +268,7 @@ export class TimelineView extends ItemView {
         trackDropdown.addOption('', 'All Events (Global)');
 
         // Populate tracks from settings
-        const tracks = this.plugin.settings.timelineTracks || [];
+        const tracks = this.plugin.getTimelineTracks();
         const visibleTracks = TimelineTrackManager.getVisibleTracks(tracks);
         for (const track of visibleTracks) {
             trackDropdown.addOption(track.id, track.name);
@@ -354,7 +385,7 @@ export class TimelineView extends ItemView {
      */
     private async handleConflicts(conflicts: DetectedConflict[]): Promise<void> {
         const newConflicts = ConflictDetector.toStorageFormat(conflicts);
-        const currentConflicts = this.plugin.settings.timelineConflicts || [];
+        const currentConflicts = this.plugin.getStoryRecords('timelineConflicts');
         
         // Merge to preserve dismissed status
         const mergedConflicts = newConflicts.map(newC => {
@@ -367,7 +398,7 @@ export class TimelineView extends ItemView {
 
         // Only update if changed
         if (JSON.stringify(mergedConflicts) !== JSON.stringify(currentConflicts)) {
-            this.plugin.settings.timelineConflicts = mergedConflicts;
+            this.plugin.setStoryRecords('timelineConflicts', mergedConflicts);
             await this.plugin.saveSettings();
             this.buildToolbar();
         }
@@ -634,6 +665,18 @@ export class TimelineView extends ItemView {
     /**
      * Refresh the timeline with current data
      */
+    /**
+     * Leave fork view, e.g. after the selected fork was deleted or merged
+     */
+    private showMainTimeline(): void {
+        this.currentState.currentForkId = undefined;
+        this.currentState.filters = { ...this.currentState.filters, forkId: undefined };
+        this.buildToolbar();
+        // Reload events as well: a merge may have changed them
+        this.renderer?.applyFilters(this.currentState.filters);
+        void this.refresh();
+    }
+
     async refresh(): Promise<void> {
         if (this.renderer) {
             await this.renderer.refresh();
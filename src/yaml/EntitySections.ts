@@ -21,18 +21,20 @@ export type EntityType =
   | 'faction'
   | 'economy'
   | 'magicSystem'
-  | 'calendar';
+  | 'calendar'
+  | 'group'
+  | 'gallery';
 
 /** Whitelisted frontmatter keys per entity type. */
 const FRONTMATTER_WHITELISTS: Record<EntityType, Set<string>> = {
   character: new Set([
-    'id', 'name', 'traits', 'relationships', 'locations', 'events',
+    'id', 'name', 'aliases', 'traits', 'relationships', 'locations', 'events',
     'currentLocationId', 'locationHistory',
-    'status', 'affiliation', 'groups', 'profileImagePath', 'customFields', 'connections',
+    'status', 'affiliation', 'birthDate', 'deathDate', 'groups', 'profileImagePath', 'customFields', 'connections',
     'mapCoordinates', 'mapId', 'markerId', 'relatedMapIds', 'mapIcon', 'mapColor'
   ]),
   location: new Set([
-    'id', 'name', 'locationType', 'type', 'region', 'status', 'parentLocation', 'parentLocationId',
+    'id', 'name', 'aliases', 'locationType', 'type', 'region', 'status', 'parentLocation', 'parentLocationId',
     'childLocationIds', 'mapBindings', 'entityRefs',
     'groups', 'profileImagePath', 'customFields', 'connections',
     'mapCoordinates', 'mapId', 'markerId', 'relatedMapIds', 'mapIcon', 'mapColor'
@@ -44,8 +46,8 @@ const FRONTMATTER_WHITELISTS: Record<EntityType, Set<string>> = {
     'mapCoordinates', 'mapId', 'markerId', 'relatedMapIds', 'mapIcon', 'mapColor'
   ]),
   item: new Set([
-    'id', 'name', 'isPlotCritical', 'currentOwner', 'pastOwners',
-    'currentLocation', 'associatedEvents', 'groups', 'profileImagePath', 'customFields', 'connections',
+    'id', 'name', 'aliases', 'isPlotCritical', 'currentOwner', 'pastOwners',
+    'currentLocation', 'associatedEvents', 'custodyHistory', 'groups', 'profileImagePath', 'customFields', 'connections',
     'mapCoordinates', 'mapId', 'markerId', 'relatedMapIds', 'mapIcon', 'mapColor'
   ]),
   reference: new Set([
@@ -56,7 +58,7 @@ const FRONTMATTER_WHITELISTS: Record<EntityType, Set<string>> = {
     'linkedCharacters', 'linkedLocations', 'linkedEvents', 'linkedItems', 'linkedGroups'
   ]),
   scene: new Set([
-    'id', 'name', 'chapterId', 'chapterName', 'status', 'priority', 'tags', 'profileImagePath',
+    'id', 'name', 'chapterId', 'chapterName', 'status', 'priority', 'tags', 'profileImagePath', 'timeOfDay',
     'linkedCharacters', 'linkedLocations', 'linkedEvents', 'linkedItems', 'linkedGroups'
   ]),
   map: new Set([
@@ -95,8 +97,19 @@ const FRONTMATTER_WHITELISTS: Record<EntityType, Set<string>> = {
   ]),
   calendar: new Set([
     'id', 'name', 'profileImagePath', 'calendarType', 'status', 'epoch', 'eras',
-    'months', 'daysPerWeek', 'hoursPerDay', 'linkedEvents', 'linkedCultures',
+    'months', 'daysPerWeek', 'hoursPerDay', 'weekdays', 'weekdayOffset',
+    'leapRules', 'epochs', 'moons', 'linkedEvents', 'linkedCultures',
     'groups', 'customFields', 'connections'
+  ]),
+  group: new Set([
+    'id', 'name', 'storyId', 'color', 'tags', 'profileImagePath', 'groupType', 'members',
+    'strength', 'status', 'militaryPower', 'economicPower', 'politicalInfluence', 'powerHistory', 'colors',
+    'emblem', 'motto', 'territories', 'groupRelationships', 'linkedEvents', 'linkedCulture',
+    'parentGroup', 'subgroups', 'customFields', 'connections'
+  ]),
+  // Gallery notes describe an image elsewhere in the vault; `imagePath` points at it
+  gallery: new Set([
+    'id', 'imagePath', 'title', 'caption', 'tags', 'linkedCharacters', 'linkedLocations', 'linkedEvents'
   ])
 };
 
@@ -14,6 +14,17 @@ export function parseYaml(yamlString: string): any {
   return yaml.load(yamlString);
 }
 
+export function parseFrontMatterTags(frontmatter: any): string[] | null {
+  const tags = frontmatter?.tags;
+  if (!tags) return null;
+  return (Array.isArray(tags) ? tags : [tags]).map((tag: string) => tag.startsWith('#') ? tag : `#${tag}`);
+}
+
+export function getAllTags(cache: any): string[] | null {
+  const tags = [...(parseFrontMatterTags(cache?.frontmatter) || []), ...(cache?.tags || []).map((t: any) => t.tag)];
+  return tags.length > 0 ? tags : null;
+}
+
 export class TFolder {
   path: string;
   name: string;
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { TFile, parseYaml } from 'obsidian';
+import { SceneOrderManager } from '../../src/compile/SceneOrderManager';
+import { TagTimelineGenerator } from '../../src/utils/TagTimelineGenerator';
+import type { Scene, StoryDraft } from '../../src/types';
+
+const SCENE_TEXT = '---\nname: Arrival\ntags: [scene, harbor]\ndate: 2024-05-01\n---\nThe ship came in at dawn. [[Mara]] waited.';
+
+/** Vault holding file text in memory, with Obsidian's split between markdown and other files */
+function createVault(initial: Record<string, string>) {
+    const files = new Map<string, { file: TFile; text: string }>();
+    const add = (path: string, text: string) => {
+        const file = new TFile(path);
+        files.set(path, { file, text });
+        return file;
+    };
+    Object.entries(initial).forEach(([path, text]) => add(path, text));
+
+    const vault = {
+        getAbstractFileByPath: (path: string) => files.get(path)?.file ?? null,
+        getMarkdownFiles: () => Array.from(files.values()).map(f => f.file).filter(f => f.extension === 'md'),
+        read: async (file: TFile) => files.get(file.path)?.text ?? '',
+        create: async (path: string, text: string) => add(path, text),
+        modify: async (file: TFile, text: string) => { add(file.path, text); }
+    };
+    const metadataCache = {
+        getFileCache: (file: TFile) => {
+            const match = (files.get(file.path)?.text ?? '').match(/^---\n([\s\S]*?)\n---/);
+            return match ? { frontmatter: parseYaml(match[1]) } : {};
+        }
+    };
+    return { vault, metadataCache, files };
+}
+
+describe('Draft snapshots', () => {
+    it('archives scene text where tag scanners do not pick it up', async () => {
+        const { vault, metadataCache, files } = createVault({ 'Story/Scenes/Arrival.md': SCENE_TEXT });
+        const app = { vault, metadataCache };
+        const scene = { id: 'sc1', name: 'Arrival', filePath: 'Story/Scenes/Arrival.md' } as Scene;
+        const plugin = {
+            app,
+            settings: { draftSnapshots: [] },
+            ensureFolder: async () => undefined,
+            getEntityFolder: () => 'Story/Scenes',
+            listScenes: async () => [scene],
+            saveSettings: async () => undefined
+        };
+        const draft = {
+            id: 'd1', storyId: 's1', name: 'First Draft', draftNumber: 1,
+            sceneOrder: [{ sceneId: 'sc1', indent: 0, includeInCompile: true }]
+        } as unknown as StoryDraft;
+
+        const manager = new SceneOrderManager(plugin as any);
+        const snapshot = await manager.createSnapshot(draft);
+
+        const archived = snapshot.scenes[0].path;
+        expect(archived.startsWith('Story/Archive/First Draft/v1/')).toBe(true);
+        expect(archived.endsWith('.md')).toBe(false);
+        expect(files.get(archived)?.text).toBe(SCENE_TEXT);
+        expect(await manager.readSnapshotText(snapshot.scenes[0])).toBe(SCENE_TEXT);
+
+        const previews = await new TagTimelineGenerator(app as any).generateFromTags({ tags: ['#scene'], dateStrategy: 'frontmatter' });
+        expect(previews.map(p => p.sourceFile.path)).toEqual(['Story/Scenes/Arrival.md']);
+    });
+});
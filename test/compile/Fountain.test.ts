@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFountain,
+  buildScreenplayPdf,
+  isInteriorLocation,
+  paginateScreenplay,
+  parseFountain,
+  sceneHeading
+} from '../../src/compile/Fountain';
+import type { FountainScene } from '../../src/compile/Fountain';
+
+const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const scenes: FountainScene[] = [
+  {
+    name: 'Arrival',
+    location: '[[Rusty Anchor]]',
+    interior: true,
+    timeOfDay: 'night',
+    sceneNumber: '1',
+    characters: ['Mara Voss', 'Tobin Ash'],
+    contents: [
+      'Rain hammers the windows.',
+      '"We leave at dawn," Mara said.',
+      'Tobin set down his cup. "Not without the map."',
+      'Mara: Then find it.'
+    ].join('\n\n')
+  },
+  { name: 'The Crossing', location: 'Grey Sea', interior: false, contents: 'THUNDER.\n\nNothing but waves.' },
+  { name: 'Dream', contents: 'Fog.' }
+];
+
+describe('Fountain', () => {
+  it('builds sluglines from location, interior and time of day', () => {
+    expect(sceneHeading(scenes[0], true)).toBe('INT. RUSTY ANCHOR - NIGHT #1#');
+    expect(sceneHeading(scenes[1])).toBe('EXT. GREY SEA');
+    expect(sceneHeading(scenes[2])).toBe('.DREAM');
+    expect(isInteriorLocation({ type: 'room' })).toBe(true);
+    expect(isInteriorLocation({ type: 'city', locationType: 'Tavern' })).toBe(true);
+    expect(isInteriorLocation({ type: 'region', locationType: 'Forest' })).toBe(false);
+  });
+
+  it('writes a title page, character cues and action', () => {
+    const fountain = buildFountain(scenes, { title: 'Tidebound', author: 'A. Writer', draftDate: '2026-10-19' }, { endMarker: 'The End' });
+    expect(fountain.startsWith('Title: Tidebound\nCredit: Written by\nAuthor: A. Writer\nDraft date: 2026-10-19\n\n')).toBe(true);
+    expect(fountain).toContain([
+      'INT. RUSTY ANCHOR - NIGHT',
+      'Rain hammers the windows.',
+      'MARA VOSS\nWe leave at dawn.',
+      'Tobin set down his cup.',
+      'TOBIN ASH\nNot without the map.',
+      'MARA VOSS\nThen find it.',
+      'EXT. GREY SEA',
+      // All-caps prose would read as a character cue, so it is forced to action
+      '!THUNDER.',
+      'Nothing but waves.'
+    ].join('\n\n'));
+    expect(fountain.trimEnd().endsWith('> THE END <')).toBe(true);
+  });
+
+  it('parses its own output back into screenplay elements', () => {
+    const doc = parseFountain(buildFountain(scenes, { title: 'Tidebound' }));
+    expect(doc.titlePage).toEqual([{ key: 'Title', value: 'Tidebound' }]);
+    expect(doc.elements.map(e => e.type)).toEqual([
+      'heading', 'action', 'dialogue', 'action', 'dialogue', 'dialogue', 'heading', 'action', 'action', 'heading', 'action'
+    ]);
+    expect(doc.elements[2]).toEqual({ type: 'dialogue', character: 'MARA VOSS', lines: [{ parenthetical: false, text: 'We leave at dawn.' }] });
+  });
+
+  it('paginates long speeches with MORE and CONTINUED', () => {
+    const speech = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const pages = paginateScreenplay(parseFountain(`INT. HALL - DAY\n\n${'Action line.\n\n'.repeat(20)}MARA\n${speech}\n`).elements);
+    expect(pages.length).toBe(2);
+    expect(pages.every(page => page.length <= 54)).toBe(true);
+    expect(pages[0][pages[0].length - 1].text).toBe('(MORE)');
+    expect(pages[1][0].text).toBe("MARA (CONT'D)");
+  });
+
+  it('renders a PDF with a title page and one page object per page', () => {
+    const pdf = decode(buildScreenplayPdf(buildFountain(scenes, { title: 'Tidebound (Draft)' })));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf.match(/\/Type \/Page /g)?.length).toBe(2);
+    expect(pdf).toContain('(TIDEBOUND \\(DRAFT\\))');
+    expect(pdf).toContain('(INT. RUSTY ANCHOR - NIGHT)');
+    // The xref offset points at the xref table
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseInline,
+  parseBlocks,
+  splitManuscript,
+  buildManuscriptDocument,
+  buildDocx,
+  buildEpub,
+  approximateWordCount
+} from '../../src/compile/ManuscriptDocuments';
+import { crc32 } from '../../src/compile/ZipWriter';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('ManuscriptDocuments', () => {
+  it('parses emphasis and strips links', () => {
+    expect(parseInline('A **bold** and *soft* [[Home|home]] snake_case_name')).toEqual([
+      { text: 'A ' },
+      { text: 'bold', bold: true },
+      { text: ' and ' },
+      { text: 'soft', italic: true },
+      { text: ' home snake_case_name' }
+    ]);
+  });
+
+  it('keeps italics that follow an intra-word underscore', () => {
+    expect(parseInline('snake_case and _italic_')).toEqual([
+      { text: 'snake_case and ' },
+      { text: 'italic', italic: true }
+    ]);
+    expect(parseInline('_foo_bar')).toEqual([{ text: '_foo_bar' }]);
+  });
+
+  it('parses paragraphs, quotes and collapses scene breaks', () => {
+    const blocks = parseBlocks('---\nFirst line\nsame para\n\n#\n\n***\n\n> quoted\n\nLast\n\n---');
+    expect(blocks.map(b => b.type)).toEqual(['paragraph', 'break', 'quote', 'paragraph']);
+  });
+
+  it('splits at recorded chapter boundaries and drops front matter', () => {
+    const frontMatter = '# My Book\n\n*Compiled on today*\n\n---\n\n';
+    const sections = splitManuscript({
+      contents: frontMatter + '# Chapter 1: Dawn\n\nIt began.\n\n# Chapter 2: Dusk\n\nIt ended.',
+      chapters: [
+        { heading: '# Chapter 1: Dawn', title: 'Chapter 1: Dawn' },
+        { heading: '# Chapter 2: Dusk', title: 'Chapter 2: Dusk' }
+      ],
+      metadata: { title: 'My Book', frontMatter }
+    });
+    expect(sections.map(s => s.title)).toEqual(['Chapter 1: Dawn', 'Chapter 2: Dusk']);
+    expect(sections[1].blocks).toEqual([{ type: 'paragraph', runs: [{ text: 'It ended.' }] }]);
+  });
+
+  it('rounds title page word counts like a manuscript', () => {
+    expect(approximateWordCount(4321)).toBe('about 4,300 words');
+    expect(approximateWordCount(84620)).toBe('about 85,000 words');
+  });
+
+  it('writes stored zip archives with valid checksums', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+
+    const doc = buildManuscriptDocument(
+      { contents: '# One\n\nTom & Jerry', metadata: { author: 'Ada Lovelace' } },
+      'Story'
+    );
+    const docx = decode(buildDocx(doc));
+    expect(docx.startsWith('PK')).toBe(true);
+    expect(docx).toContain('word/document.xml');
+    expect(docx).toContain('Tom &amp; Jerry');
+    expect(docx).toContain('Lovelace / STORY / ');
+
+    const epub = buildEpub(doc, { identifier: 'urn:test' });
+    // mimetype must be the first entry, uncompressed, right after the 30-byte header
+    expect(decode(epub.slice(30, 38))).toBe('mimetype');
+    expect(decode(epub)).toContain('<dc:creator>Ada Lovelace</dc:creator>');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addUserScriptStep,
+  createUserScriptStep,
+  validateUserScriptStep,
+  checkUserScriptOutput
+} from '../../src/compile/UserScriptLoader';
+import type { CompileWorkflow } from '../../src/types';
+
+const SMART_QUOTES = `
+module.exports = {
+  description: 'Curly quotes',
+  availableKinds: ['scene'],
+  options: [{ id: 'open', name: 'Open', description: '', type: 'text', default: '“' }],
+  compile: async (input, context) => input.map(s => ({
+    ...s,
+    contents: s.contents.replace(/"/g, context.optionValues.open)
+  }))
+};
+`;
+
+describe('UserScriptLoader', () => {
+  it('builds a step definition from module.exports', async () => {
+    const step = createUserScriptStep(SMART_QUOTES, 'Scripts/smart-quotes.js');
+    expect(step.id).toBe('user-script:Scripts/smart-quotes.js');
+    expect(step.name).toBe('smart-quotes');
+    expect(step.availableKinds).toEqual(['scene']);
+
+    const output = await step.compile(
+      [{ path: 'a.md', name: 'A', contents: '"Hi"', indentLevel: 0, index: 0 }],
+      { kind: 'scene', optionValues: { open: '“' } } as any
+    );
+    expect((output as any)[0].contents).toBe('“Hi“');
+  });
+
+  it('accepts transpiled ESM default exports', () => {
+    const source = `exports.default = { name: 'Noop', availableKinds: ['manuscript'], compile: async i => i };`;
+    expect(createUserScriptStep(source, 'noop.js').name).toBe('Noop');
+  });
+
+  it('reports syntax errors and invalid definitions', () => {
+    expect(() => createUserScriptStep('module.exports = {', 'bad.js')).toThrow(/Script error/);
+    expect(validateUserScriptStep({ availableKinds: ['chapter'], options: [{ id: 'x', type: 'color' }] })).toEqual([
+      'Missing compile function',
+      'Unknown step kinds: chapter',
+      'Option "x" has an invalid type'
+    ]);
+    expect(() => createUserScriptStep('module.exports = 42;', 'num.js')).toThrow(/module.exports/);
+  });
+
+  it('checks script output against the step kind', () => {
+    expect(() => checkUserScriptOutput('text', 'manuscript')).toThrow(/string contents/);
+    expect(() => checkUserScriptOutput([{ name: 'A' }], 'scene')).toThrow(/array of scenes/);
+    expect(checkUserScriptOutput({ contents: 'ok' }, 'join')).toEqual({ contents: 'ok' });
+  });
+
+  it('adds a user-script step before the workflow joins scenes', () => {
+    const workflow = {
+      id: 'w',
+      name: 'W',
+      steps: [
+        { id: 'strip', stepType: 'strip-frontmatter', enabled: true, options: {} },
+        { id: 'user-script-1', stepType: 'user-script', enabled: true, options: { scriptPath: 'a.js' } },
+        { id: 'join', stepType: 'concatenate', enabled: true, options: {} },
+        { id: 'export', stepType: 'export-markdown', enabled: true, options: {} }
+      ]
+    } as CompileWorkflow;
+    const isJoin = (stepType: string) => stepType === 'concatenate';
+
+    const updated = addUserScriptStep(workflow, 'Scripts/quotes.js', isJoin);
+    expect(updated.steps.map(s => s.id)).toEqual(['strip', 'user-script-1', 'user-script-2', 'join', 'export']);
+    expect(updated.steps[2].options).toEqual({ scriptPath: 'Scripts/quotes.js' });
+    expect(workflow.steps).toHaveLength(4);
+
+    const noJoin = addUserScriptStep({ ...workflow, steps: workflow.steps.slice(0, 1) }, 'b.js', isJoin);
+    expect(noJoin.steps.map(s => s.id)).toEqual(['strip', 'user-script-1']);
+  });
+});
@@ -72,4 +72,17 @@ describe('FolderResolver', () => {
       expect(r.getEntityFolder('magicSystem')).toBe('Root/My_Story/MagicSystems');
     });
   });
+
+  it('groups follow the story while the gallery is shared', () => {
+    const multi = new FolderResolver({ enableCustomEntityFolders: false, enableOneStoryMode: false }, () => story);
+    expect(multi.getEntityFolder('group')).toBe('StorytellerSuite/Stories/My Story/Groups');
+    expect(multi.getEntityFolder('gallery')).toBe('StorytellerSuite/Gallery');
+
+    const custom = new FolderResolver({ enableCustomEntityFolders: true, storyRootFolderTemplate: 'Root/{storySlug}' }, () => undefined);
+    expect(custom.getEntityFolder('gallery')).toBe('StorytellerSuite/Gallery');
+
+    const single = new FolderResolver({ enableCustomEntityFolders: false, enableOneStoryMode: true, oneStoryBaseFolder: 'Base' }, () => story);
+    expect(single.getEntityFolder('group')).toBe('Base/Groups');
+    expect(single.getEntityFolder('gallery')).toBe('Base/Gallery');
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CsvParser,
+  parseCsv,
+  suggestCsvTarget,
+  suggestCsvMapping,
+  buildCsvEntityRecords
+} from '../../src/import/parsers/CsvParser';
+
+describe('CsvParser', () => {
+  it('parses quoted cells, doubled quotes, embedded line breaks and BOMs', () => {
+    const table = parseCsv('\uFEFFName,Notes\r\n"Voss, Mara","Said ""no""\nthen left"\r\n\r\nIlse,\n');
+    expect(table.headers).toEqual(['Name', 'Notes']);
+    expect(table.rows).toEqual([
+      ['Voss, Mara', 'Said "no"\nthen left'],
+      ['Ilse', '']
+    ]);
+    expect(parseCsv('a;b\n1;2').delimiter).toBe(';');
+    expect(parseCsv('a\tb\n1\t2', 'x.tsv').rows).toEqual([['1', '2']]);
+  });
+
+  it('groups outline rows into chapters and scenes', () => {
+    const csv = [
+      'Chapter,Scene,Synopsis,Status,Characters',
+      'Chapter 1: Dawn,Gate,They leave.,Draft,"Mara; Ilse"',
+      ',Road,They walk.,,Mara',
+      'Chapter 2: Dusk,Camp,They rest.,Outline,'
+    ].join('\n');
+    const doc = new CsvParser().parse(csv, 'outline.csv');
+
+    expect(doc.chapters.map(c => [c.title, c.number, c.scenes?.length])).toEqual([
+      ['Chapter 1: Dawn', 1, 2],
+      ['Chapter 2: Dusk', 2, 1]
+    ]);
+    expect(doc.chapters[0].content).toBe('They leave.\n\nThey walk.');
+    expect(doc.chapters[0].scenes?.[0]).toMatchObject({
+      title: 'Gate',
+      status: 'Draft',
+      characters: ['Mara', 'Ilse']
+    });
+    expect(doc.csvTable?.rows).toHaveLength(3);
+  });
+
+  it('groups rows by chapter number cells that are words or numerals', () => {
+    const csv = [
+      'Chapter #,Chapter,Scene',
+      'I,Dawn,Gate',
+      'I,Dawn,Road',
+      'II,Dusk,Camp',
+      'Epilogue,,Home',
+      'Epilogue,,Hearth'
+    ].join('\n');
+    const doc = new CsvParser().parse(csv, 'outline.csv');
+
+    expect(doc.chapters.map(c => [c.title, c.scenes?.map(s => s.title)])).toEqual([
+      ['Dawn', ['Gate', 'Road']],
+      ['Dusk', ['Camp']],
+      ['Chapter 3', ['Home', 'Hearth']]
+    ]);
+  });
+
+  it('suggests targets and maps entity rows with custom fields', () => {
+    const table = parseCsv('Name,Date,Outcome,Milestone,Who,Weather\nSiege,1201-03-04,Lost,yes,"Mara, Tomas",Rain\n,1202,,,,');
+    expect(suggestCsvTarget(table.headers)).toBe('events');
+    expect(suggestCsvTarget(['Name', 'Traits'], 'cast.csv')).toBe('characters');
+
+    const mapping = suggestCsvMapping(table.headers, 'events');
+    expect(mapping.columns).toEqual(['name', 'dateTime', 'outcome', 'isMilestone', 'characters', 'custom']);
+
+    expect(buildCsvEntityRecords(table, mapping)).toEqual([{
+      name: 'Siege',
+      fields: { dateTime: '1201-03-04', outcome: 'Lost', isMilestone: true, characters: ['Mara', 'Tomas'] },
+      customFields: { Weather: 'Rain' }
+    }]);
+
+    const doc = new CsvParser().parseWithMapping(table, mapping, 'events.csv');
+    expect(doc.chapters).toEqual([]);
+    expect(doc.warnings).toEqual(['1 row(s) have no name and will be skipped.']);
+  });
+});
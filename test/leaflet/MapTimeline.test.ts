@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildMapTimeline, eventsInRange, positionAt, stopsInRange } from '../../src/leaflet/MapTimeline';
+import type { Character, Event, Location } from '../../src/types';
+
+const ms = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const locations: Location[] = [
+    { id: 'loc-harbor', name: 'Harbor', mapBindings: [{ mapId: 'world', coordinates: [10, 20] }] },
+    { id: 'loc-keep', name: 'Keep', mapBindings: [{ mapId: 'world', coordinates: [30, 40] }] },
+    { id: 'loc-cave', name: 'Cave', mapBindings: [{ mapId: 'other', coordinates: [1, 1] }] }
+] as Location[];
+
+const characters: Character[] = [
+    {
+        id: 'mara',
+        name: 'Mara',
+        locationHistory: [
+            { locationId: 'loc-keep', relationship: 'guard', timeRange: { start: '2024-03-10' } },
+            { locationId: 'loc-harbor', relationship: 'arrived', timeRange: { start: '2024-03-01', end: '2024-03-05' } },
+            { locationId: 'loc-cave', relationship: 'hid', timeRange: { start: '2024-03-06' } },
+            { locationId: 'Harbor', relationship: 'lives' }
+        ]
+    },
+    { id: 'tomas', name: 'Tomas', locationHistory: [{ locationId: 'loc-keep', relationship: 'visited' }] }
+] as Character[];
+
+const events: Event[] = [
+    { id: 'ev-siege', name: 'Siege', dateTime: '2024-03-12', location: 'Keep' },
+    { id: 'ev-landing', name: 'Landing', dateTime: '2024-03-02', location: 'Harbor' },
+    { id: 'ev-undated', name: 'Rumour', location: 'Harbor' },
+    { id: 'ev-elsewhere', name: 'Collapse', dateTime: '2024-03-07', location: 'Cave' }
+] as Event[];
+
+describe('MapTimeline', () => {
+    it('keeps only dated stays and events at locations bound to the map', () => {
+        const data = buildMapTimeline('world', characters, locations, events);
+
+        expect(data.paths).toHaveLength(1);
+        const [mara] = data.paths;
+        expect(mara.stops.map(s => s.locationName)).toEqual(['Harbor', 'Keep']);
+        expect(mara.stops[0].coordinates).toEqual([10, 20]);
+        // Open-ended final stay runs on indefinitely
+        expect(mara.stops[1].end).toBe(Infinity);
+
+        expect(data.events.map(e => e.eventName)).toEqual(['Landing', 'Siege']);
+        expect(data.bounds?.min).toBe(ms('2024-03-01'));
+        expect(data.bounds?.max).toBeGreaterThanOrEqual(ms('2024-03-12'));
+    });
+
+    it('places a character at the stay covering a moment, or the last one before it', () => {
+        const [mara] = buildMapTimeline('world', characters, locations, events).paths;
+
+        expect(positionAt(mara, ms('2024-02-20'))).toBeUndefined();
+        expect(positionAt(mara, ms('2024-03-03'))?.locationName).toBe('Harbor');
+        // Between stays she is shown where she was last seen
+        expect(positionAt(mara, ms('2024-03-07'))?.locationName).toBe('Harbor');
+        expect(positionAt(mara, ms('2024-04-01'))?.locationName).toBe('Keep');
+    });
+
+    it('limits paths and events to the selected range', () => {
+        const data = buildMapTimeline('world', characters, locations, events);
+        const [mara] = data.paths;
+
+        expect(stopsInRange(mara, ms('2024-03-02'), ms('2024-03-04')).map(s => s.locationName)).toEqual(['Harbor']);
+        expect(stopsInRange(mara, ms('2024-03-02'), ms('2024-03-11')).map(s => s.locationName)).toEqual(['Harbor', 'Keep']);
+        expect(eventsInRange(data.events, ms('2024-03-10'), ms('2024-03-20')).map(e => e.eventName)).toEqual(['Siege']);
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { EntityIndex } from '../../src/services/EntityIndex';
+
+type Handler = (...args: any[]) => void;
+
+function makeFile(path: string, mtime = 1): TFile {
+  const file = new TFile(path) as TFile & { stat: { mtime: number } };
+  file.stat = { mtime };
+  return file;
+}
+
+function makePlugin(files: TFile[], folder = 'Story/Characters') {
+  const handlers: Record<string, Handler> = {};
+  const on = (name: string, handler: Handler) => {
+    handlers[name] = handler;
+    return name;
+  };
+  const plugin = {
+    app: {
+      vault: { on, getMarkdownFiles: () => files },
+      metadataCache: { on: (name: string, handler: Handler) => on(`meta:${name}`, handler) }
+    },
+    registerEvent: () => undefined,
+    getEntityFolder: (type: string) => {
+      if (type !== 'character') throw new Error('not configured');
+      return folder;
+    }
+  };
+  return { plugin, handlers };
+}
+
+describe('EntityIndex', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('parses each file once until it changes', async () => {
+    const files = [makeFile('Story/Characters/Alice.md'), makeFile('Story/Locations/Town.md')];
+    const { plugin, handlers } = makePlugin(files);
+    const parse = vi.fn(async (file: TFile) => ({ name: file.basename }));
+    const index = new EntityIndex(plugin as any, parse);
+    index.register();
+
+    expect(await index.list('character')).toEqual([{ name: 'Alice' }]);
+    await index.list('character');
+    expect(parse).toHaveBeenCalledTimes(1);
+
+    handlers['meta:changed'](files[0]);
+    await index.list('character');
+    expect(parse).toHaveBeenCalledTimes(2);
+
+    (files[0] as any).stat.mtime = 2;
+    await index.list('character');
+    expect(parse).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns copies so callers cannot corrupt the cache', async () => {
+    const { plugin } = makePlugin([makeFile('Story/Characters/Alice.md')]);
+    const index = new EntityIndex(plugin as any, async () => ({ name: 'Alice', tags: ['hero'] }));
+
+    const [first] = await index.list<{ tags: string[] }>('character');
+    first.tags.push('villain');
+    const [second] = await index.list<{ tags: string[] }>('character');
+    expect(second.tags).toEqual(['hero']);
+  });
+
+  it('drops deleted files and notifies subscribers in batches', async () => {
+    const files = [makeFile('Story/Characters/Alice.md'), makeFile('Story/Characters/Bob.md')];
+    const { plugin, handlers } = makePlugin(files);
+    const index = new EntityIndex(plugin as any, async (file: TFile) => ({ name: file.basename }));
+    index.register();
+    await index.list('character');
+
+    const listener = vi.fn();
+    index.onChange(listener);
+    const removed = files.pop()!;
+    handlers['delete'](removed);
+    handlers['modify'](files[0]);
+    handlers['modify'](makeFile('Elsewhere/Note.md'));
+
+    expect(await index.list('character')).toEqual([{ name: 'Alice' }]);
+    expect(listener).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toEqual([
+      { type: 'character', kind: 'deleted', path: 'Story/Characters/Bob.md' },
+      { type: 'character', kind: 'changed', path: 'Story/Characters/Alice.md', oldPath: undefined }
+    ]);
+  });
+
+  it('rebuilds when the entity folder moves to another story', async () => {
+    const files = [makeFile('A/Characters/Alice.md'), makeFile('B/Characters/Bob.md')];
+    const { plugin } = makePlugin(files, 'A/Characters');
+    const index = new EntityIndex(plugin as any, async (file: TFile) => ({ name: file.basename }));
+
+    expect(await index.list('character')).toEqual([{ name: 'Alice' }]);
+    plugin.getEntityFolder = () => 'B/Characters';
+    expect(await index.list('character')).toEqual([{ name: 'Bob' }]);
+  });
+});
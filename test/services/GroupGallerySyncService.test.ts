@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { FolderResolver } from '../../src/folders/FolderResolver';
+import {
+  GroupGallerySyncService,
+  groupToNote,
+  noteToGroup,
+  recordFingerprint
+} from '../../src/services/GroupGallerySyncService';
+import type { GalleryImage, Group } from '../../src/types';
+
+type Handler = (...args: any[]) => void;
+
+const story = { id: 's1', name: 'Saga' };
+const GROUPS = 'StorytellerSuite/Stories/Saga/Groups';
+const GALLERY = 'StorytellerSuite/Gallery';
+
+function makePlugin(groups: Group[], images: GalleryImage[], migrated = false) {
+  const files = new Map<string, { file: TFile; content: string }>();
+  const handlers: Record<string, Handler> = {};
+  const vault = {
+    on: (name: string, handler: Handler) => { handlers[name] = handler; return name; },
+    getMarkdownFiles: () => Array.from(files.values()).map(f => f.file),
+    getAbstractFileByPath: (path: string) => files.get(path)?.file ?? null,
+    read: async (file: TFile) => files.get(file.path)!.content,
+    create: async (path: string, content: string) => { files.set(path, { file: new TFile(path), content }); },
+    modify: async (file: TFile, content: string) => { files.get(file.path)!.content = content; },
+    trash: async (file: TFile) => { files.delete(file.path); }
+  };
+  const plugin = {
+    app: {
+      vault,
+      fileManager: {
+        renameFile: async (file: TFile, path: string) => {
+          const entry = files.get(file.path)!;
+          files.delete(file.path);
+          files.set(path, { file: new TFile(path), content: entry.content });
+        }
+      }
+    },
+    settings: {
+      stories: [story],
+      groups,
+      galleryData: { images },
+      groupGalleryNotesMigrated: migrated,
+      customFieldsMode: 'flatten'
+    } as any,
+    registerEvent: () => undefined,
+    ensureFolder: async () => undefined,
+    getFolderResolver: (s?: typeof story) =>
+      new FolderResolver({ enableCustomEntityFolders: false, enableOneStoryMode: false }, () => s ?? story),
+    saveData: vi.fn(async () => undefined),
+    emitGroupsChanged: vi.fn()
+  };
+  return { plugin, files, handlers };
+}
+
+const guild: Group = {
+  id: 'g1',
+  storyId: 's1',
+  name: 'Iron Guild',
+  description: 'Smiths of the north.',
+  members: [{ name: 'Mara', rank: 'Master' }],
+  militaryPower: 40,
+  groupRelationships: [{ groupName: 'Salt League', relationshipType: 'rival' }],
+  customFields: { Founded: '1204' }
+};
+
+const sketch: GalleryImage = {
+  id: 'img1',
+  filePath: 'Art/keep-sketch.png',
+  title: 'Keep sketch',
+  description: 'Early concept.',
+  linkedLocations: ['Keep']
+};
+
+describe('GroupGallerySyncService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips a group through note frontmatter and sections', () => {
+    const note = groupToNote(guild);
+    expect(note.sections.Description).toBe('Smiths of the north.');
+    expect(note.frontmatter.description).toBeUndefined();
+
+    // Custom fields come back from flattened frontmatter keys
+    const { customFields, ...fields } = note.frontmatter;
+    const parsed = noteToGroup({ frontmatter: { ...fields, ...(customFields as object) }, sections: note.sections }, 's1', 'x.md');
+    expect(recordFingerprint(parsed!, ['filePath'])).toBe(recordFingerprint(guild, ['filePath']));
+  });
+
+  it('writes notes once on migration and reads edits back', async () => {
+    const { plugin, files, handlers } = makePlugin([{ ...guild }], [{ ...sketch }]);
+    const sync = new GroupGallerySyncService(plugin as any);
+    sync.register();
+    await sync.initialize();
+
+    expect(Array.from(files.keys()).sort()).toEqual([`${GALLERY}/Keep sketch.md`, `${GROUPS}/Iron Guild.md`]);
+    const groupNote = files.get(`${GROUPS}/Iron Guild.md`)!.content;
+    expect(groupNote).toContain('militaryPower: 40');
+    expect(groupNote).toContain('## Description\nSmiths of the north.');
+    expect(files.get(`${GALLERY}/Keep sketch.md`)!.content).toContain('imagePath: Art/keep-sketch.png');
+    expect(plugin.settings.groupGalleryNotesMigrated).toBe(true);
+
+    // Editing the note updates settings
+    const entry = files.get(`${GROUPS}/Iron Guild.md`)!;
+    entry.content = entry.content.replace('militaryPower: 40', 'militaryPower: 75');
+    vi.useFakeTimers();
+    handlers.modify(entry.file);
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+    await (sync as any).queue;
+    expect(plugin.settings.groups[0].militaryPower).toBe(75);
+    expect(plugin.emitGroupsChanged).toHaveBeenCalled();
+  });
+
+  it('renames and trashes notes as settings change', async () => {
+    const { plugin, files } = makePlugin([{ ...guild }], [{ ...sketch }]);
+    const sync = new GroupGallerySyncService(plugin as any);
+    await sync.initialize();
+
+    plugin.settings.groups[0].name = 'Iron Union';
+    plugin.settings.galleryData.images = [];
+    sync.schedulePush();
+    await (sync as any).queue;
+
+    expect(Array.from(files.keys())).toEqual([`${GROUPS}/Iron Union.md`]);
+    expect(files.get(`${GROUPS}/Iron Union.md`)!.content).toContain('name: Iron Union');
+  });
+
+  it('treats notes as the source of truth after migration', async () => {
+    const { plugin, files } = makePlugin([{ ...guild }], [], true);
+    await new GroupGallerySyncService(plugin as any).initialize();
+
+    // No note exists for the group, so it was deleted while the plugin was off
+    expect(plugin.settings.groups).toEqual([]);
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renameReference,
+  rewriteFieldValue,
+  applyRenameToRecord
+} from '../../src/services/RenamePropagationService';
+
+describe('RenamePropagationService', () => {
+  it('renames plain names and wikilinks, keeping aliases', () => {
+    expect(renameReference('Alice', 'Alice', 'Alicia')).toBe('Alicia');
+    expect(renameReference('[[Alice]]', 'Alice', 'Alicia')).toBe('[[Alicia]]');
+    expect(renameReference('[[Alice|the smith]]', 'Alice', 'Alicia')).toBe('[[Alicia|the smith]]');
+    expect(renameReference('Alice Smith', 'Alice', 'Alicia')).toBeNull();
+  });
+
+  it('rewrites string arrays and typed relationships', () => {
+    expect(rewriteFieldValue(['Bob', 'Alice'], 'Alice', 'Alicia')).toEqual(['Bob', 'Alicia']);
+    expect(rewriteFieldValue(['Bob'], 'Alice', 'Alicia')).toBeUndefined();
+    expect(rewriteFieldValue(['Bob', { target: 'Alice', type: 'ally' }], 'Alice', 'Alicia'))
+      .toEqual(['Bob', { target: 'Alicia', type: 'ally' }]);
+  });
+
+  it('only touches fields that point at the renamed entity type', () => {
+    const event: Record<string, unknown> = {
+      name: 'Siege',
+      characters: ['Alice', 'Bob'],
+      location: 'Alice',
+      connections: [{ target: 'Alice', type: 'neutral' }]
+    };
+    const before = applyRenameToRecord('event', event, 'character', 'Alice', 'Alicia');
+    expect(Object.keys(before).sort()).toEqual(['characters', 'connections']);
+    expect(event.characters).toEqual(['Alicia', 'Bob']);
+    expect(event.location).toBe('Alice');
+    expect(before.characters).toEqual(['Alice', 'Bob']);
+  });
+
+  it('updates nested paths, track entities and group members', () => {
+    const track: Record<string, unknown> = {
+      id: 't1', name: 'Alice', type: 'character', entityId: 'Alice',
+      filterCriteria: { characters: ['Alice'] }
+    };
+    applyRenameToRecord('track', track, 'character', 'Alice', 'Alicia');
+    expect(track.entityId).toBe('Alicia');
+    expect((track.filterCriteria as any).characters).toEqual(['Alicia']);
+
+    const group: Record<string, unknown> = {
+      id: 'g1', storyId: 's', name: 'Guild',
+      members: [{ type: 'character', id: 'c1', name: 'Alice' }, { type: 'location', id: 'l1', name: 'Alice' }]
+    };
+    applyRenameToRecord('group', group, 'character', 'Alice', 'Alicia', 'c1');
+    expect(group.members).toEqual([
+      { type: 'character', id: 'c1', name: 'Alicia' },
+      { type: 'location', id: 'l1', name: 'Alice' }
+    ]);
+  });
+
+  it('leaves connections to a same-named entity of another type alone', () => {
+    // A character and a location are both called Rose; the location is renamed
+    const character: Record<string, unknown> = {
+      name: 'Tomas',
+      locations: ['Rose'],
+      connections: [
+        { target: 'Rose', type: 'romantic', targetType: 'character' },
+        { target: 'Rose', type: 'neutral', targetType: 'location' },
+        { target: 'Rose', type: 'ally' }
+      ]
+    };
+    const before = applyRenameToRecord('character', character, 'location', 'Rose', 'Rose Hall', undefined, true);
+    expect(Object.keys(before).sort()).toEqual(['connections', 'locations']);
+    expect(character.locations).toEqual(['Rose Hall']);
+    expect(character.connections).toEqual([
+      { target: 'Rose', type: 'romantic', targetType: 'character' },
+      { target: 'Rose Hall', type: 'neutral', targetType: 'location' },
+      { target: 'Rose', type: 'ally' }
+    ]);
+
+    // Renaming the character touches only the character connection
+    const other: Record<string, unknown> = {
+      name: 'Ilse',
+      connections: [{ target: 'Rose', type: 'rival', targetType: 'location' }, { target: 'Rose', type: 'family', targetType: 'character' }]
+    };
+    applyRenameToRecord('character', other, 'character', 'Rose', 'Rosalind', undefined, true);
+    expect(other.connections).toEqual([
+      { target: 'Rose', type: 'rival', targetType: 'location' },
+      { target: 'Rosalind', type: 'family', targetType: 'character' }
+    ]);
+  });
+});
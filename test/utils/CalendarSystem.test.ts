@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { CalendarSystem } from '../../src/utils/CalendarSystem';
+import { parseEventDate, setActiveCalendar, formatParsedDate } from '../../src/utils/DateParsing';
+import type { Calendar } from '../../src/types';
+
+const MONTH_NAMES = [
+  'Frostmoon', 'Thawmoon', 'Seedmoon', 'Rainmoon', 'Bloommoon', 'Sunmoon', 'Highmoon',
+  'Harvestmoon', 'Ambermoon', 'Mistmoon', 'Duskmoon', 'Snowmoon', 'Deepmoon'
+];
+
+const thirteenMoons: Calendar = {
+  id: 'cal1',
+  name: 'Thirteen Moons',
+  months: MONTH_NAMES.map(name => ({ name, days: 28 })),
+  weekdays: ['Sunday', 'Moonday', 'Starday', 'Windday', 'Fireday', 'Stoneday', 'Restday'],
+  leapRules: [{ interval: 4, month: 'Deepmoon', days: 1 }],
+  epochs: [
+    { name: 'After Sundering', abbreviation: 'AS', startYear: 1 },
+    { name: 'Before Sundering', abbreviation: 'BS', startYear: 1, backwards: true }
+  ],
+  moons: [{ name: 'Selune', cycleDays: 28 }]
+};
+
+describe('CalendarSystem', () => {
+  const cal = new CalendarSystem(thirteenMoons);
+
+  it('computes month and year lengths with leap rules', () => {
+    expect(cal.yearLength(1)).toBe(364);
+    expect(cal.yearLength(4)).toBe(365);
+    expect(cal.monthLength(4, 12)).toBe(29);
+    expect(cal.monthLength(4, 0)).toBe(28);
+  });
+
+  it('round-trips day numbers across leap years and before year 1', () => {
+    for (const n of [-800, -1, 0, 1, 363, 364, 1455, 1456, 1457, 100000]) {
+      expect(cal.toDayNumber(cal.fromDayNumber(n))).toBe(n);
+    }
+    expect(cal.fromDayNumber(0)).toEqual({ year: 1, month: 0, day: 1 });
+    expect(cal.fromDayNumber(-1)).toEqual({ year: 0, month: 12, day: 29 });
+  });
+
+  it('parses named, numeric and epoch dates', () => {
+    expect(cal.parse('12 Frostmoon 1024 AS')).toEqual({ date: { year: 1024, month: 0, day: 12 }, precision: 'day' });
+    expect(cal.parse('Seedmoon 3, 20')).toEqual({ date: { year: 20, month: 2, day: 3 }, precision: 'day' });
+    expect(cal.parse('Seedmoon 20')?.precision).toBe('month');
+    expect(cal.parse('1024-13-29')?.date).toEqual({ year: 1024, month: 12, day: 29 });
+    expect(cal.parse('10 BS')).toEqual({ date: { year: -9, month: 0, day: 1 }, precision: 'year' });
+    expect(cal.parse('Moonday, 2 Frostmoon 5 14:30')?.date).toEqual({ year: 5, month: 0, day: 2, hour: 14, minute: 30 });
+  });
+
+  it('rejects days outside the month and unknown words', () => {
+    expect(cal.parse('29 Frostmoon 3')).toBeNull();
+    expect(cal.parse('1023-13-29')).toBeNull();
+    expect(cal.parse('next Friday')).toBeNull();
+  });
+
+  it('formats dates with weekday and epoch', () => {
+    expect(cal.format({ year: 1, month: 0, day: 2 })).toBe('Moonday, 2 Frostmoon 1 AS');
+    expect(cal.format({ year: 0, month: 0, day: 1 }, 'month')).toBe('Frostmoon 1 BS');
+    expect(cal.getMoonPhases({ year: 1, month: 0, day: 15 })[0].phase).toBe('Full Moon');
+  });
+
+  it('reports validation errors', () => {
+    expect(CalendarSystem.validate({ name: 'Empty' })).toHaveLength(1);
+    expect(CalendarSystem.validate(thirteenMoons)).toEqual([]);
+  });
+});
+
+describe('parseEventDate with an active calendar', () => {
+  afterEach(() => setActiveCalendar(null));
+
+  it('orders calendar dates by day number and formats them', () => {
+    setActiveCalendar(thirteenMoons);
+    const a = parseEventDate('28 Deepmoon 1023 AS');
+    const b = parseEventDate('1 Frostmoon 1024 AS');
+    expect(a.calendarDate).toBeDefined();
+    expect(b.start!.toMillis() - a.start!.toMillis()).toBe(24 * 60 * 60 * 1000);
+    expect(formatParsedDate(b)).toBe('Windday, 1 Frostmoon 1024 AS');
+  });
+
+  it('keeps Gregorian parsing when no calendar is active or when forced', () => {
+    expect(parseEventDate('2024-03-02').calendarDate).toBeUndefined();
+    setActiveCalendar(thirteenMoons);
+    expect(parseEventDate('2024-03-02', { calendar: null }).calendarDate).toBeUndefined();
+  });
+
+  it('rejects Gregorian dates while a calendar is active', () => {
+    setActiveCalendar(thirteenMoons);
+    expect(parseEventDate('May 1, 2024')).toEqual({ error: 'not-in-calendar' });
+    expect(parseEventDate('today').error).toBe('not-in-calendar');
+  });
+});
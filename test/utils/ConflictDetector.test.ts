@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ConflictDetector } from '../../src/utils/ConflictDetector';
+import { setActiveCalendar } from '../../src/utils/DateParsing';
+import type { Calendar, Character, Event, Scene } from '../../src/types';
+
+const characters: Character[] = [
+    { name: 'Mara Voss', birthDate: '1990-06-15', deathDate: '2030-01-01' },
+    { name: 'Tomas', customFields: { Born: '2005' } },
+    { name: 'Ilse' }
+] as Character[];
+
+describe('ConflictDetector lifespans', () => {
+    it('reads birth and death dates from fields or custom fields', () => {
+        expect(ConflictDetector.getLifespan(characters[0])).toEqual({ birth: '1990-06-15', death: '2030-01-01' });
+        expect(ConflictDetector.getLifespan(characters[1])).toEqual({ birth: '2005', death: undefined });
+    });
+
+    it('flags participants who are unborn or dead at an event', () => {
+        const events: Event[] = [
+            { name: 'Founding', dateTime: '1985-03-01', characters: ['[[Mara Voss]]', 'Ilse'] },
+            { name: 'Wedding', dateTime: '2012-05-20', characters: ['Mara Voss', 'Tomas'] },
+            { name: 'Funeral', dateTime: '2031-02-02', characters: ['Mara Voss'] },
+            { name: 'School', dateTime: '2004-09-01', characters: ['Tomas'] }
+        ] as Event[];
+
+        const conflicts = ConflictDetector.detectAllConflicts(events, { characters })
+            .filter(c => c.type === 'age');
+
+        expect(conflicts.map(c => `${c.character}@${c.events[0].name}`).sort()).toEqual([
+            'Mara Voss@Founding',
+            'Mara Voss@Funeral',
+            'Tomas@School'
+        ]);
+        expect(conflicts.every(c => c.severity === 'error')).toBe(true);
+        expect(ConflictDetector.toStorageFormat(conflicts)[0].type).toBe('age');
+    });
+});
+
+describe('ConflictDetector stated ages', () => {
+    it('finds age statements in several phrasings', () => {
+        const text = [
+            'Mara, 34, pushed the door open.',
+            'The twelve-year-old Tomas followed.',
+            'Tomas was thirteen years old that winter.',
+            'Mara was one of the last to leave.'
+        ].join('\n\n');
+
+        const statements = ConflictDetector.findAgeStatements(text, ['Mara Voss', 'Tomas']);
+        expect(statements.map(s => [s.character, s.age])).toEqual([
+            ['Mara Voss', 34],
+            ['Tomas', 13],
+            ['Tomas', 12]
+        ]);
+    });
+
+    it('reports ages that disagree with the scene date', () => {
+        const events: Event[] = [{ name: 'Harvest', dateTime: '2024-09-01' }] as Event[];
+        const scenes: Scene[] = [
+            { name: 'Barn', filePath: 'Scenes/Barn.md', linkedEvents: ['[[Harvest]]'], content: 'Mara, 34, counted sacks. Tomas (19) dozed.' },
+            { name: 'Undated', content: 'Mara, 12, ran off.' }
+        ] as Scene[];
+
+        const conflicts = ConflictDetector.detectAgeStatementConflicts(scenes, characters, events);
+
+        // Mara is 34 in September 2024; Tomas, born in 2005, is 18 or 19
+        expect(conflicts).toHaveLength(0);
+
+        scenes[0].content = 'Mara, 40, counted sacks. Tomas (21) dozed.';
+        const wrong = ConflictDetector.detectAgeStatementConflicts(scenes, characters, events);
+        expect(wrong.map(c => c.character)).toEqual(['Mara Voss', 'Tomas']);
+        expect(wrong[0].scene).toEqual({ name: 'Barn', filePath: 'Scenes/Barn.md' });
+        expect(wrong[0].details.description).toContain('Mara Voss 34');
+    });
+
+    describe('on a custom calendar', () => {
+        // Twelve months of 30 days: a Gregorian year diff drifts by five days a year
+        const reckoning: Calendar = {
+            id: 'cal360',
+            name: 'Reckoning',
+            months: ['Ash', 'Brine', 'Cinder', 'Dew', 'Ember', 'Frost', 'Gale', 'Haze', 'Ice', 'Jade', 'Kiln', 'Loam']
+                .map(name => ({ name, days: 30 }))
+        } as Calendar;
+
+        afterEach(() => setActiveCalendar(null));
+
+        it('counts ages and period ends in calendar years', () => {
+            setActiveCalendar(reckoning);
+            const people: Character[] = [
+                { name: 'Mara Voss', birthDate: '10 Brine 100' },
+                { name: 'Tomas', birthDate: '200' }
+            ] as Character[];
+            const events: Event[] = [{ name: 'Harvest', dateTime: '10 Brine 134' }, { name: 'Flood', dateTime: '30 Loam 219' }] as Event[];
+            const scenes: Scene[] = [
+                { name: 'Barn', linkedEvents: ['[[Harvest]]'], content: 'Mara, 34, counted sacks.' },
+                { name: 'Levee', linkedEvents: ['[[Flood]]'], content: 'Tomas (19) hauled sandbags.' }
+            ] as Scene[];
+
+            // Exactly 34 reckoning years; born some time in year 200, Tomas is 19 on the last day of 219
+            expect(ConflictDetector.detectAgeStatementConflicts(scenes, people, events)).toHaveLength(0);
+
+            scenes[0].content = 'Mara, 33, counted sacks.';
+            scenes[1].content = 'Tomas (20) hauled sandbags.';
+            const wrong = ConflictDetector.detectAgeStatementConflicts(scenes, people, events);
+            expect(wrong.map(c => c.character)).toEqual(['Mara Voss', 'Tomas']);
+        });
+    });
+});
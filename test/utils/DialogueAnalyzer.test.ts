@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { DialogueAnalyzer } from '../../src/utils/DialogueAnalyzer';
+
+const CAST = ['Mara Voss', 'Tomas Reed', 'Ilse'];
+
+describe('DialogueAnalyzer', () => {
+  it('attributes speech tags before and after quotes', () => {
+    const analyzer = new DialogueAnalyzer(CAST);
+    const lines = analyzer.analyzeScene({
+      name: 'Gate',
+      content: [
+        '"We leave at dawn," Mara said.',
+        'Tomas asked, “And the horses?”',
+        '"Sold," said Ilse.',
+        '«Already?» Tomas Reed quietly replied.'
+      ].join('\n\n')
+    });
+    expect(lines.map(l => [l.speaker, l.method])).toEqual([
+      ['Mara Voss', 'tag'],
+      ['Tomas Reed', 'tag'],
+      ['Ilse', 'tag'],
+      ['Tomas Reed', 'tag']
+    ]);
+  });
+
+  it('resolves pronouns, action beats and alternating turns', () => {
+    const analyzer = new DialogueAnalyzer(CAST);
+    const lines = analyzer.analyzeScene({
+      name: 'Cellar',
+      content: [
+        'Ilse lit the lamp.',
+        '"Too dark," she said.',
+        'Mara set down the crate. "Then hurry."',
+        '"I am hurrying."',
+        '"Not fast enough."',
+        'The lamp guttered.',
+        '"Who is there?"'
+      ].join('\n\n')
+    });
+    expect(lines.map(l => [l.speaker, l.method])).toEqual([
+      ['Ilse', 'pronoun'],
+      ['Mara Voss', 'beat'],
+      ['Ilse', 'turn'],
+      ['Mara Voss', 'turn'],
+      [undefined, undefined]
+    ]);
+  });
+
+  it('summarises totals, density and per-chapter breakdowns', () => {
+    const analyzer = new DialogueAnalyzer(CAST);
+    const analysis = analyzer.analyze([
+      { name: 'One', chapterName: 'Chapter 1', content: '"Go now," Mara said.' },
+      { name: 'Two', chapterName: 'Chapter 1', content: 'Rain fell on the roofs all night long.' },
+      { name: 'Three', content: '"Hello?"' }
+    ]);
+    expect(analysis.totalLines).toBe(2);
+    expect(analysis.byCharacter).toEqual({ 'Mara Voss': 1 });
+    expect(analysis.unattributed).toBe(1);
+    // 3 dialogue words out of 4 + 8 + 1
+    expect(analysis.density).toBe(23.1);
+    expect(analysis.byScene?.map(s => s.totalLines)).toEqual([1, 0, 1]);
+    expect(analysis.byChapter?.map(c => [c.name, c.totalLines, c.density])).toEqual([
+      ['Chapter 1', 1, 16.7],
+      ['Unassigned', 1, 100]
+    ]);
+  });
+});
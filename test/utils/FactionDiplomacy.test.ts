@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { diplomacyMoments, isFaction, powerAt, stanceBetween } from '../../src/utils/FactionDiplomacy';
+import type { Event, Group } from '../../src/types';
+
+const events: Event[] = [
+    { name: 'Border Raid', dateTime: '1201-03-01' },
+    { name: 'Treaty of Ash', dateTime: '1204-09-12' }
+] as Event[];
+
+const at = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+function makeFactions(): Group[] {
+    return [
+        {
+            id: 'g1', storyId: 's', name: 'Iron Guild', members: [], groupType: 'guild',
+            militaryPower: 40, economicPower: 70,
+            groupRelationships: [{
+                groupName: 'Salt League',
+                relationshipType: 'friendly',
+                changes: [
+                    { relationshipType: 'allied', event: 'Treaty of Ash' },
+                    { relationshipType: 'at-war', event: '[[Border Raid]]' },
+                    { relationshipType: 'hostile' }
+                ]
+            }],
+            powerHistory: [{ event: 'Border Raid', militaryPower: 65 }, { date: '1205', economicPower: 30 }]
+        },
+        { id: 'g2', storyId: 's', name: 'Salt League', members: [], groupType: 'political' },
+        { id: 'g3', storyId: 's', name: 'Book Club', members: [] }
+    ];
+}
+
+describe('FactionDiplomacy', () => {
+    it('applies dated stance changes in story order from either side', () => {
+        const [guild, league] = makeFactions();
+
+        expect(stanceBetween(league, guild, events, at('1200-01-01'))?.stance).toBe('friendly');
+        expect(stanceBetween(league, guild, events, at('1202-01-01'))?.stance).toBe('at-war');
+        const latest = stanceBetween(guild, league, events);
+        // The undated change is ignored
+        expect(latest?.stance).toBe('allied');
+        expect(latest?.change?.event).toBe('Treaty of Ash');
+        expect(latest?.owner).toBe(guild);
+    });
+
+    it('tracks power ratings and the moments to scrub through', () => {
+        const factions = makeFactions();
+        const [guild] = factions;
+
+        expect(powerAt(guild, events, at('1200-01-01'))).toEqual({ militaryPower: 40, economicPower: 70 });
+        expect(powerAt(guild, events)).toEqual({ militaryPower: 65, economicPower: 30 });
+        expect(factions.filter(isFaction).map(g => g.name)).toEqual(['Iron Guild', 'Salt League']);
+        expect(diplomacyMoments(factions, events).map(m => m.label)).toEqual(['Border Raid', 'Treaty of Ash', '1205']);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeGraph, formatAnalysisReport, shortestPath } from '../../src/utils/GraphAnalytics';
+import type { GraphEdge, GraphNode } from '../../src/types';
+
+const node = (id: string): GraphNode => ({ id, label: id, type: 'character', data: { name: id } });
+const edge = (source: string, target: string): GraphEdge => ({ source, target, relationshipType: 'ally' });
+
+// Two triangles joined through a bridge, plus a loner
+const nodes = ['Ada', 'Bran', 'Cole', 'Dara', 'Eli', 'Fen', 'Gus'].map(node);
+const edges = [
+    edge('Ada', 'Bran'), edge('Bran', 'Cole'), edge('Cole', 'Ada'),
+    // Mirrored edges count once
+    edge('Bran', 'Ada'),
+    edge('Cole', 'Dara'),
+    edge('Dara', 'Eli'), edge('Eli', 'Fen'), edge('Fen', 'Dara')
+];
+
+describe('GraphAnalytics', () => {
+    it('scores centrality and finds communities', () => {
+        const { metrics, communities } = analyzeGraph(nodes, edges);
+
+        expect(metrics.get('Ada')?.degree).toBeCloseTo(2 / 6);
+        // Every path between the triangles runs through the bridge
+        const bridge = metrics.get('Cole')!.betweenness;
+        expect(bridge).toBeGreaterThan(metrics.get('Ada')!.betweenness);
+        expect(metrics.get('Cole')!.betweenness).toBeCloseTo(metrics.get('Dara')!.betweenness);
+        expect(metrics.get('Ada')!.betweenness).toBe(0);
+        expect(metrics.get('Cole')!.eigenvector).toBe(1);
+        expect(metrics.get('Gus')).toMatchObject({ degree: 0, betweenness: 0, eigenvector: 0 });
+
+        expect(communities).toEqual([['Ada', 'Bran', 'Cole'], ['Dara', 'Eli', 'Fen'], ['Gus']]);
+    });
+
+    it('finds the shortest chain between two entities and reports it', () => {
+        expect(shortestPath(nodes, edges, 'Ada', 'Fen')).toEqual(['Ada', 'Cole', 'Dara', 'Fen']);
+        expect(shortestPath(nodes, edges, 'Ada', 'Gus')).toBeNull();
+
+        const report = formatAnalysisReport(nodes, analyzeGraph(nodes, edges), ['Ada', 'Cole', 'Dara']);
+        expect(report).toContain('### Community 3 (1)');
+        expect(report).toContain('[[Ada]] → [[Cole]] → [[Dara]]');
+    });
+});
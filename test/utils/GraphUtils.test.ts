@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildBidirectionalEdges, extractAllRelationships } from '../../src/utils/GraphUtils';
+import type { Character, Culture, Economy, Event, Group, Location, MagicSystem } from '../../src/types';
+
+const characters: Character[] = [{ name: 'Ada', groups: ['g-guild'] }, { name: 'Bran' }];
+const locations: Location[] = [{ name: 'Vell' }, { name: 'Port Ash' }];
+const events: Event[] = [{ name: 'Border Raid', dateTime: '1201-03-01' }] as Event[];
+
+const cultures: Culture[] = [{ name: 'Sea Folk', linkedLocations: ['Port Ash'], linkedCharacters: ['Bran'] }];
+const economies: Economy[] = [{
+    name: 'Salt Trade',
+    linkedFactions: ['g-guild'],
+    linkedCultures: ['Sea Folk'],
+    tradeRoutes: [{ name: 'Salt Road', origin: 'Vell', destination: 'Port Ash' }]
+}];
+const magicSystems: MagicSystem[] = [{ name: 'Tidecalling', linkedCharacters: ['Bran'], linkedCultures: ['Sea Folk'] }];
+const groups: Group[] = [
+    {
+        id: 'g-guild', storyId: 's', name: 'Iron Guild',
+        members: [{ type: 'character', id: 'Ada' }],
+        territories: ['Vell'],
+        groupRelationships: [{ groupName: 'Salt League', relationshipType: 'friendly', changes: [{ relationshipType: 'at-war', event: 'Border Raid' }] }]
+    },
+    { id: 'g-league', storyId: 's', name: 'Salt League', members: [] }
+];
+
+const pairs = (edges: ReturnType<typeof extractAllRelationships>) =>
+    edges.map(e => `${e.source}>${e.target}:${e.label}`);
+
+describe('GraphUtils', () => {
+    it('derives edges for cultures, economies, magic systems and groups', () => {
+        const edges = extractAllRelationships(characters, locations, events, [], { world: { cultures, economies, magicSystems, groups } });
+
+        expect(pairs(edges)).toEqual([
+            // Membership is linked once, from whichever side lists it first
+            'Ada>g-guild:member of',
+            'Sea Folk>Port Ash:prevalent in',
+            'Sea Folk>Bran:member',
+            'Salt Trade>g-guild:controlled by',
+            'Salt Trade>Sea Folk:participant',
+            'Vell>Port Ash:trade: Salt Road',
+            'Tidecalling>Bran:practitioner',
+            'Tidecalling>Sea Folk:used by',
+            'g-guild>Vell:controls',
+            'g-guild>g-league:at-war'
+        ]);
+    });
+
+    it('shows faction stances as of the requested time, in both directions', () => {
+        const before = extractAllRelationships([], [], events, [], { world: { groups }, time: new Date('1200-01-01T00:00:00').getTime() });
+        const stances = buildBidirectionalEdges(before).map(e => `${e.source}>${e.target}:${e.relationshipType}`);
+        expect(stances).toEqual(['g-guild>g-league:ally', 'g-league>g-guild:ally']);
+    });
+});
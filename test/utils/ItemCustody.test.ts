@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildCustodyChain, holderAt } from '../../src/utils/ItemCustody';
+import { ConflictDetector } from '../../src/utils/ConflictDetector';
+import type { Event, PlotItem } from '../../src/types';
+
+const events: Event[] = [
+    { name: 'Theft', dateTime: '1201-04-01', characters: ['Kell', 'Aldric'] },
+    { name: 'Ransom', dateTime: '1202-02-10', characters: ['Kell'] },
+    { name: 'Coronation', dateTime: '1201-08-15', characters: ['Aldric'] },
+    { name: 'Siege', dateTime: '1203-06-01', characters: ['Mira'] }
+] as Event[];
+
+function makeItem(): PlotItem {
+    return {
+        name: 'Crown of Ash',
+        isPlotCritical: true,
+        associatedEvents: ['[[Coronation]]', 'Siege', 'Theft'],
+        custodyHistory: [
+            { owner: 'Kell', event: 'Theft' },
+            { owner: '[[Aldric]]', location: 'Keep', from: '1200-01-01' },
+            { owner: 'Mira', from: '1202-02-10', event: 'Ransom' },
+            { location: 'Vault' }
+        ]
+    };
+}
+
+const at = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+describe('ItemCustody', () => {
+    it('orders periods and dates entries by their transfer event', () => {
+        const chain = buildCustodyChain(makeItem(), events);
+
+        // The undated vault entry is left out
+        expect(chain.map(p => p.index)).toEqual([1, 0, 2]);
+        expect(chain[1].start).toBe(at('1201-04-01'));
+        // Open-ended periods run until the next transfer
+        expect(chain[0].end).toBe(at('1201-04-01'));
+        expect(chain[2].end).toBe(Infinity);
+        expect(holderAt(chain, at('1201-08-15'))?.entry.owner).toBe('Kell');
+        expect(holderAt(chain, at('1199-01-01'))).toBeUndefined();
+    });
+
+    it('flags an item in two hands at once and use by a non-holder', () => {
+        const item = makeItem();
+        item.custodyHistory![1].to = '1201-06-01';
+
+        const conflicts = ConflictDetector.detectAllConflicts(events, { items: [item] })
+            .filter(c => c.type === 'custody');
+
+        expect(conflicts.map(c => [c.severity, c.events.map(e => e.name)])).toEqual([
+            ['error', ['Theft']],
+            ['warning', ['Coronation']]
+        ]);
+        // Siege has Mira, who holds the crown; Theft is a transfer and not checked for use
+        expect(conflicts[1].message).toContain('Kell holds it');
+        expect(ConflictDetector.toStorageFormat(conflicts)[0].entities).toEqual([
+            { entityId: 'Crown of Ash', entityType: 'item', entityName: 'Crown of Ash' }
+        ]);
+    });
+});
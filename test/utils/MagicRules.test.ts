@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { checkMagicRules, findMagicUses } from '../../src/utils/MagicRules';
+import { ConflictDetector } from '../../src/utils/ConflictDetector';
+import type { Event, MagicSystem, Scene } from '../../src/types';
+
+const events: Event[] = [
+    { name: 'Burning of Vell', dateTime: '1201-04-01', characters: ['Ada', 'Bran'], location: 'Vell', description: 'Ada calls down a Firestorm.' },
+    { name: 'Night Raid', dateTime: '1201-04-03', characters: ['Ada'], location: 'Port Ash', description: 'A firestorm over the docks.' },
+    { name: 'Council', dateTime: '1201-05-01', characters: ['Ada'], location: 'Sanctum' }
+] as Event[];
+
+const scenes: Scene[] = [
+    { name: 'Embers', linkedEvents: ['[[Burning of Vell]]'], linkedItems: ['Phoenix Ash'], content: 'Ash fell like snow.' },
+    { name: 'Sanctum Lesson', linkedLocations: ['Sanctum'], linkedCharacters: ['Cole'], content: 'Cole practised Emberweaving in secret.' }
+];
+
+const system: MagicSystem = {
+    name: 'Emberweaving',
+    linkedCharacters: ['Ada', 'Cole'],
+    linkedEvents: ['Council'],
+    abilities: [{ name: 'Firestorm', powerLevel: 8 }],
+    consistencyRules: [
+        { name: 'Ash fuels the storm', description: '', priority: 'critical', condition: { kind: 'requires-material', ability: 'Firestorm', material: 'Phoenix Ash' } },
+        { name: 'Burnout', description: '', condition: { kind: 'rest-between-uses', ability: 'Firestorm', days: 7 } },
+        { name: 'No fire in the Sanctum', description: '', priority: 'optional', condition: { kind: 'forbidden-location', location: '[[Sanctum]]' } },
+        { name: 'Unchecked lore', description: 'Written only' }
+    ]
+};
+
+describe('MagicRules', () => {
+    it('finds uses in linked events, ability mentions and scenes', () => {
+        const uses = findMagicUses(system, events, scenes);
+        expect(uses.map(u => [u.name, u.abilities, u.casters])).toEqual([
+            // Bran is present but isn't a practitioner
+            ['Burning of Vell', ['Firestorm'], ['Ada']],
+            ['Night Raid', ['Firestorm'], ['Ada']],
+            ['Council', [], ['Ada']],
+            ['Sanctum Lesson', [], ['Cole']]
+        ]);
+        // The depicting scene adds its prose and items to the event
+        expect(uses[0].scenes.map(s => s.name)).toEqual(['Embers']);
+        expect(uses[0].items).toEqual(['Phoenix Ash']);
+    });
+
+    it('reports broken rules as magic conflicts', () => {
+        const violations = checkMagicRules(system, findMagicUses(system, events, scenes));
+        expect(violations.map(v => `${v.rule.name}: ${v.use.name}`)).toEqual([
+            // The scene of the burning brings the ash; the raid has none
+            'Ash fuels the storm: Night Raid',
+            'Burnout: Night Raid',
+            'No fire in the Sanctum: Council',
+            'No fire in the Sanctum: Sanctum Lesson'
+        ]);
+
+        const conflicts = ConflictDetector.detectAllConflicts(events, { scenes, magicSystems: [system] })
+            .filter(c => c.type === 'magic');
+        expect(conflicts.map(c => c.severity)).toEqual(['error', 'warning', 'info', 'info']);
+        expect(conflicts[1]).toMatchObject({ character: 'Ada', magicSystem: 'Emberweaving' });
+        expect(conflicts[1].events.map(e => e.name)).toEqual(['Burning of Vell', 'Night Raid']);
+        expect(conflicts[1].details.description).toBe(
+            'Firestorm needs 7 day(s) of rest between uses, but Ada uses it in "Burning of Vell" (1201-04-01) and again in "Night Raid" (1201-04-03)'
+        );
+        expect(conflicts[3].scene?.name).toBe('Sanctum Lesson');
+        expect(ConflictDetector.toStorageFormat(conflicts)[0].type).toBe('magic');
+    });
+});
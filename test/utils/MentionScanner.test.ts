@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { buildMentionMatcher, buildMentionTargets, findMentions, unlinkedMentions } from '../../src/utils/MentionScanner';
+import type { Character, Location, PlotItem } from '../../src/types';
+
+const characters = [
+    { name: 'Mara Voss', aliases: ['the Widow'] },
+    { name: 'Mara Quill' },
+    { name: 'Tobin Ash' }
+] as Character[];
+const locations = [{ name: 'Port Ash' }, { name: 'Vell' }] as Location[];
+const items = [{ name: 'Ember Crown', aliases: ['the crown'] }] as PlotItem[];
+
+const matcher = buildMentionMatcher(buildMentionTargets({
+    characters,
+    locations,
+    items,
+    groups: [{ id: 'g1', storyId: 's1', name: 'Iron Guild', members: [] }]
+}));
+
+describe('MentionScanner', () => {
+    it('finds names, aliases, possessives and case variants with offsets', () => {
+        const text = 'MARA VOSS’s ship left Port Ash. Tobin’s crew followed the Widow to vell with the crown.';
+        const mentions = findMentions(text, matcher);
+        expect(mentions.map(m => [m.type, m.entityId, m.text])).toEqual([
+            ['character', 'Mara Voss', 'MARA VOSS’s'],
+            // The longest form wins over Tobin Ash's surname
+            ['location', 'Port Ash', 'Port Ash'],
+            ['character', 'Tobin Ash', 'Tobin’s'],
+            ['character', 'Mara Voss', 'the Widow'],
+            ['location', 'Vell', 'vell'],
+            ['item', 'Ember Crown', 'the crown']
+        ]);
+        mentions.forEach(m => expect(text.substr(m.offset, m.length)).toBe(m.text));
+    });
+
+    it('skips ambiguous first names and partial words', () => {
+        // "Mara" could be either Mara; "Vellum" only contains a name
+        expect(findMentions('Mara wrote on vellum for the Iron Guild.', matcher).map(m => m.entityId)).toEqual(['g1']);
+    });
+
+    it('suggests only mentions missing from the links', () => {
+        const mentions = findMentions('Tobin met Mara Voss in Vell, then Tobin left.', matcher);
+        expect(unlinkedMentions(mentions, { character: ['[[Mara Voss]]'] }).map(m => m.entityName))
+            .toEqual(['Tobin Ash', 'Vell']);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePacing, analyzeChapterPacing, comparePacing, classifyPace } from '../../src/utils/PacingAnalyzer';
+
+const sentences = (count: number, words: number) =>
+  Array.from({ length: count }, () => Array(words).fill('word').join(' ') + '.').join(' ');
+
+describe('PacingAnalyzer', () => {
+  it('measures sentences, paragraphs, dialogue and linked events', () => {
+    const events = new Map([['Ambush', { name: 'Ambush', isMilestone: true }], ['Camp', { name: 'Camp' }]]);
+    const pacing = analyzeChapterPacing({
+      name: 'One',
+      scenes: [
+        { content: '---\nname: A\n---\n# Heading\n\n"Run now," she said.\n\nThey ran. It rained.', linkedEvents: ['Ambush'] },
+        { content: 'Quiet followed.', linkedEvents: ['Ambush', 'Camp'] }
+      ]
+    }, events);
+    expect(pacing.wordCount).toBe(10);
+    expect(pacing.avgSentenceLength).toBe(2.5);
+    expect(pacing.avgParagraphLength).toBe(3.3);
+    expect(pacing.dialogueRatio).toBe(20);
+    expect(pacing.eventCount).toBe(2);
+    expect(pacing.milestoneCount).toBe(1);
+    expect(pacing.pacing).toBe('intense');
+  });
+
+  it('flags long chapters, slow runs and an early climax', () => {
+    const slow = { content: sentences(40, 30) };
+    const analysis = analyzePacing([
+      { name: 'C1', scenes: [{ content: '"Go!" "Now!"', linkedEvents: ['Fight'] }] },
+      { name: 'C2', scenes: [slow] },
+      { name: 'C3', scenes: [slow] },
+      { name: 'C4', scenes: [slow, slow, slow] }
+    ], [{ name: 'Fight', isMilestone: true }]);
+
+    expect(analysis.chapterPacing?.map(c => c.pacing)).toEqual(['intense', 'slow', 'slow', 'slow']);
+    expect(analysis.eventDensity?.map(d => d.density)).toEqual(['crowded', 'sparse', 'sparse', 'sparse']);
+    expect(analysis.tensionPoints?.[0]).toMatchObject({ tensionType: 'milestone', tensionLevel: 10 });
+
+    const areas = analysis.recommendations?.map(r => `${r.type}:${r.area}`);
+    expect(areas).toContain('warning:C4');
+    expect(areas).toContain('warning:C2 – C4');
+    expect(areas).toContain('suggestion:Structure');
+    expect(areas).not.toContain('success:Overall');
+    expect(analysis.overallScore).toBeLessThan(100);
+  });
+
+  it('compares two analyses chapter by chapter', () => {
+    const before = analyzePacing([{ name: 'A', scenes: [{ content: sentences(2, 5) }] }, { name: 'Cut', scenes: [] }], []);
+    const after = analyzePacing([{ name: 'A', scenes: [{ content: sentences(4, 5) }] }, { name: 'New', scenes: [] }], []);
+    expect(comparePacing(before, after).map(c => [c.chapterName, c.wordDelta, !!c.before, !!c.after])).toEqual([
+      ['A', 10, true, true],
+      ['New', 0, false, true],
+      ['Cut', 0, true, false]
+    ]);
+    expect(classifyPace(29)).toBe('slow');
+    expect(classifyPace(75)).toBe('intense');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { relationshipAt, relationshipMoments } from '../../src/utils/RelationshipHistory';
+import { buildBidirectionalEdges, extractAllRelationships } from '../../src/utils/GraphUtils';
+import type { Character, Event, Scene, TypedRelationship } from '../../src/types';
+
+const events: Event[] = [
+    { name: 'Harvest Ball', dateTime: '1201-04-01' },
+    { name: 'Siege of Vell', dateTime: '1203-10-20' }
+] as Event[];
+
+const scenes: Scene[] = [
+    { name: 'The Confession', linkedEvents: ['Siege of Vell', '[[Harvest Ball]]'] }
+];
+
+const at = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const rivalsToLovers: TypedRelationship = {
+    target: 'Bran',
+    type: 'rival',
+    intensity: 4,
+    history: [
+        { type: 'romantic', scene: 'The Confession', intensity: 9 },
+        { type: 'enemy', date: '1202-06-01', label: 'betrayed' },
+        { type: 'ally' }
+    ]
+};
+
+describe('RelationshipHistory', () => {
+    it('resolves the type in story order, dating scene changes by their earliest event', () => {
+        expect(relationshipAt(rivalsToLovers, events, scenes, at('1200-01-01'))).toEqual({ type: 'rival', label: undefined, intensity: 4 });
+        expect(relationshipAt(rivalsToLovers, events, scenes, at('1201-05-01'))).toMatchObject({ type: 'romantic', intensity: 9 });
+        // The undated change is ignored
+        const latest = relationshipAt(rivalsToLovers, events, scenes);
+        expect(latest).toMatchObject({ type: 'enemy', label: 'betrayed', intensity: 9 });
+        expect(relationshipMoments([rivalsToLovers], events, scenes).map(m => m.label))
+            .toEqual(['Harvest Ball', '1202-06-01', 'Siege of Vell']);
+    });
+
+    it('draws graph edges as of a time and mirrors only shared feelings', () => {
+        const characters: Character[] = [
+            { name: 'Ada', connections: [rivalsToLovers, { target: 'Cole', type: 'romantic', direction: 'one-way' }] },
+            { name: 'Bran' },
+            { name: 'Cole', connections: [{ target: 'Bran', type: 'acquaintance', direction: 'mutual' }] }
+        ];
+
+        const early = extractAllRelationships(characters, [], [], [], { time: at('1200-01-01'), events, scenes });
+        expect(early[0]).toMatchObject({ source: 'Ada', target: 'Bran', relationshipType: 'rival', intensity: 4 });
+
+        const edges = buildBidirectionalEdges(extractAllRelationships(characters, [], [], [], { events, scenes }));
+        const pairs = edges.map(e => `${e.source}>${e.target}:${e.relationshipType}`);
+        expect(pairs).toEqual(['Ada>Bran:enemy', 'Ada>Cole:romantic', 'Cole>Bran:acquaintance', 'Bran>Cole:acquaintance']);
+    });
+});
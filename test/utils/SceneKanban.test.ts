@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildKanbanColumns,
+    getKanbanFilterOptions,
+    matchesKanbanFilter,
+    normalizeStatuses,
+    sameStatus,
+    UNASSIGNED_CHAPTER
+} from '../../src/utils/SceneKanban';
+import type { Scene } from '../../src/types';
+
+const scenes: Scene[] = [
+    { name: 'Storm', status: 'wip', chapterId: 'c2', chapterName: 'Two', priority: 1, povCharacter: '[[Mara Voss]]', tags: ['Sea'] },
+    { name: 'Arrival', status: 'WIP', chapterId: 'c1', chapterName: 'One', priority: 2, povCharacter: 'Tobin', tags: ['sea', 'port'] },
+    { name: 'Dream' },
+    { name: 'Epilogue', status: 'Cut', chapterId: 'c2', chapterName: 'Two' }
+];
+
+describe('SceneKanban', () => {
+    it('falls back to the default statuses and drops duplicates', () => {
+        expect(normalizeStatuses([])).toEqual(['Draft', 'Outline', 'WIP', 'Revised', 'Final']);
+        expect(normalizeStatuses(['Idea', ' idea ', '', 'Done'])).toEqual(['Idea', 'Done']);
+    });
+
+    it('compares statuses trimmed and case-insensitively', () => {
+        expect(sameStatus('draft', 'Draft')).toBe(true);
+        expect(sameStatus(' WIP ', 'wip')).toBe(true);
+        expect(sameStatus('Draft', 'Final')).toBe(false);
+    });
+
+    it('groups scenes by status in chapter order, keeping unknown statuses', () => {
+        const columns = buildKanbanColumns(scenes, ['Draft', 'WIP', 'Final'], ['c1', 'c2']);
+        expect(columns.map(c => [c.status, c.extra, c.scenes.map(s => s.name)])).toEqual([
+            ['Draft', false, ['Dream']],
+            ['WIP', false, ['Arrival', 'Storm']],
+            ['Final', false, []],
+            ['Cut', true, ['Epilogue']]
+        ]);
+    });
+
+    it('filters by chapter, POV and tag', () => {
+        const names = (filter: Parameters<typeof matchesKanbanFilter>[1]) =>
+            scenes.filter(s => matchesKanbanFilter(s, filter)).map(s => s.name);
+        expect(names({ chapterId: 'c2' })).toEqual(['Storm', 'Epilogue']);
+        expect(names({ chapterId: UNASSIGNED_CHAPTER })).toEqual(['Dream']);
+        expect(names({ pov: 'mara voss' })).toEqual(['Storm']);
+        expect(names({ tag: 'SEA', chapterId: 'c1' })).toEqual(['Arrival']);
+        expect(getKanbanFilterOptions(scenes)).toEqual({
+            chapters: [{ id: 'c1', name: 'One' }, { id: 'c2', name: 'Two' }],
+            povs: ['Mara Voss', 'Tobin'],
+            tags: ['port', 'Sea']
+        });
+    });
+});
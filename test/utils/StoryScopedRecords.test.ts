@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+    clearStoryScopedRecords, getScopedRecords, migrateStoryScopedRecords, setScopedRecords
+} from '../../src/utils/StoryScopedRecords';
+import type { PacingAnalysis } from '../../src/types';
+
+/** Settings as saved in data.json before timeline and sensory records were kept per story */
+function legacyData(): any {
+    return {
+        stories: [{ id: 'story-a', name: 'A' }, { id: 'story-b', name: 'B' }],
+        activeStoryId: 'story-b',
+        timelineEras: [{ id: 'era1', name: 'Age of Ash', startDate: '1000', endDate: '1200' }],
+        timelineTracks: [{ id: 'track1', name: 'Court', type: 'custom' }],
+        timelineForks: [],
+        causalityLinks: [{ id: 'link1', causeEventId: 'e1', effectEventId: 'e2', linkType: 'direct' }],
+        timelineConflicts: [],
+        sensoryProfiles: [{ locationId: 'loc1', atmosphere: 'damp' }],
+        dailyWordCountGoal: 500
+    };
+}
+
+describe('StoryScopedRecords', () => {
+    it('moves flat arrays from an existing data.json into the active story', () => {
+        const data = legacyData();
+        expect(migrateStoryScopedRecords(data)).toBe(true);
+
+        expect(data.timelineEras).toEqual({ 'story-b': [legacyData().timelineEras[0]] });
+        expect(data.timelineTracks).toEqual({ 'story-b': legacyData().timelineTracks });
+        expect(data.causalityLinks).toEqual({ 'story-b': legacyData().causalityLinks });
+        expect(data.sensoryProfiles).toEqual({ 'story-b': legacyData().sensoryProfiles });
+        expect(data.timelineForks).toEqual({});
+        expect(data.timelineConflicts).toEqual({});
+        expect(data.dailyWordCountGoal).toBe(500);
+
+        // Already migrated settings are left alone
+        const migrated = JSON.parse(JSON.stringify(data));
+        expect(migrateStoryScopedRecords(data)).toBe(false);
+        expect(data).toEqual(migrated);
+    });
+
+    it('falls back to the first story when none is active', () => {
+        const data = { ...legacyData(), activeStoryId: '' };
+        migrateStoryScopedRecords(data);
+        expect(Object.keys(data.timelineEras)).toEqual(['story-a']);
+    });
+
+    it('clears only the deleted story\'s buckets', () => {
+        const data = legacyData();
+        migrateStoryScopedRecords(data);
+        data.timelineEras['story-a'] = [{ id: 'era2', name: 'Long Night' }];
+
+        clearStoryScopedRecords(data, 'story-b');
+        expect(data.timelineEras).toEqual({ 'story-a': [{ id: 'era2', name: 'Long Night' }] });
+        expect(data.timelineTracks).toEqual({});
+        expect(data.sensoryProfiles).toEqual({});
+    });
+
+    it('keeps pacing snapshots apart per story', () => {
+        const data: any = { ...legacyData(), pacingHistory: [{ id: 'old', analyzedDate: '2024-01-01', overallScore: 60 }] };
+        migrateStoryScopedRecords(data);
+        expect(getScopedRecords(data, 'pacingHistory', 'story-b').map(p => p.id)).toEqual(['old']);
+
+        const snapshot = (id: string): PacingAnalysis => ({ id, analyzedDate: '2024-06-01', overallScore: 70 });
+        setScopedRecords(data, 'pacingHistory', 'story-a', [snapshot('a1')]);
+        setScopedRecords(data, 'pacingHistory', 'story-b', [...getScopedRecords(data, 'pacingHistory', 'story-b'), snapshot('b1')]);
+
+        expect(getScopedRecords(data, 'pacingHistory', 'story-a').map(p => p.id)).toEqual(['a1']);
+        expect(getScopedRecords(data, 'pacingHistory', 'story-b').map(p => p.id)).toEqual(['old', 'b1']);
+        expect(getScopedRecords(data, 'pacingHistory', 'story-c')).toEqual([]);
+    });
+});
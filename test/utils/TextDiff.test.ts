@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffWords, sideBySide, summarizeDiff } from '../../src/utils/TextDiff';
+
+const before = ['The gate was shut.', '', 'Mara waited.', 'Rain fell.', 'Nobody came.'].join('\n');
+const after = ['The gate was shut.', '', 'Mara waited by the fire.', 'Nobody came.', 'Then a knock.'].join('\r\n');
+
+describe('TextDiff', () => {
+    it('diffs lines, ignoring line ending style', () => {
+        expect(diffLines(before, after)).toEqual([
+            { op: 'same', text: 'The gate was shut.' },
+            { op: 'same', text: '' },
+            { op: 'removed', text: 'Mara waited.' },
+            { op: 'removed', text: 'Rain fell.' },
+            { op: 'added', text: 'Mara waited by the fire.' },
+            { op: 'same', text: 'Nobody came.' },
+            { op: 'added', text: 'Then a knock.' }
+        ]);
+        expect(diffLines('', 'One')).toEqual([{ op: 'added', text: 'One' }]);
+    });
+
+    it('pairs removals with additions into side-by-side rows', () => {
+        const rows = sideBySide(before, after);
+        expect(rows.map(r => [r.kind, r.leftLine, r.rightLine])).toEqual([
+            ['same', 1, 1],
+            ['same', 2, 2],
+            ['changed', 3, 3],
+            ['removed', 4, undefined],
+            ['same', 5, 4],
+            ['added', undefined, 5]
+        ]);
+        expect(rows[2]).toMatchObject({ left: 'Mara waited.', right: 'Mara waited by the fire.' });
+        expect(summarizeDiff(rows)).toEqual({ added: 1, removed: 1, changed: 1 });
+    });
+
+    it('highlights changed words within a line', () => {
+        expect(diffWords('Mara waited.', 'Mara waited by the fire.')).toEqual([
+            { op: 'same', text: 'Mara ' },
+            { op: 'removed', text: 'waited.' },
+            { op: 'added', text: 'waited by the fire.' }
+        ]);
+    });
+});
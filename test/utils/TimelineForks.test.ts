@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildForkBranch,
+    forkEntity,
+    formatOverrideLines,
+    parseOverrideLines,
+    planForkMerge
+} from '../../src/utils/TimelineForks';
+import type { Character, Event, TimelineFork } from '../../src/types';
+
+const events: Event[] = [
+    { name: 'Coronation', dateTime: '1200-03-01' },
+    { name: 'Duel', dateTime: '1201-06-10' },
+    { name: 'Wedding', dateTime: '1202-05-05', characters: ['Aldric'] },
+    { name: 'Exile', dateTime: '1201-09-01' },
+    { name: 'Regency', dateTime: '1203-01-01' }
+] as Event[];
+
+const characters: Character[] = [
+    { name: 'Aldric', status: 'Alive', traits: ['brave'] },
+    { name: 'Mira', status: 'Alive' }
+] as Character[];
+
+function makeFork(): TimelineFork {
+    return {
+        id: 'f1',
+        name: 'Aldric falls',
+        divergenceEvent: 'Duel',
+        divergenceDate: '',
+        status: 'exploring',
+        created: '2024-01-01',
+        forkEvents: ['[[Regency]]'],
+        alteredCharacters: [{ entityId: 'Aldric', entityType: 'character', changes: 'Dies in the duel', overrides: { status: 'Deceased' } }],
+        alteredEvents: [{ entityId: 'Wedding', entityType: 'event', changes: 'Mira marries alone', overrides: { characters: ['Mira'] } }]
+    };
+}
+
+describe('TimelineForks', () => {
+    it('applies overrides only inside the fork', () => {
+        const fork = makeFork();
+        expect(forkEntity(fork, 'character', characters[0]).status).toBe('Deceased');
+        expect(characters[0].status).toBe('Alive');
+        expect(forkEntity(fork, 'character', characters[1])).toBe(characters[1]);
+    });
+
+    it('parses override lines using the canonical field types', () => {
+        const overrides = parseOverrideLines('status: Deceased\ntraits: grim, scarred\nid: nope\nnot a field', characters[0]);
+        expect(overrides).toEqual({ status: 'Deceased', traits: ['grim', 'scarred'] });
+        expect(formatOverrideLines(overrides)).toBe('status: Deceased\ntraits: grim, scarred');
+    });
+
+    it('builds the branch from the divergence event on', () => {
+        const other: TimelineFork = { ...makeFork(), id: 'f2', forkEvents: ['Exile'], alteredCharacters: [], alteredEvents: [] };
+        const branch = buildForkBranch(events, makeFork(), [makeFork(), other]);
+
+        expect(branch.divergence).toBe(new Date('1201-06-10T00:00:00').getTime());
+        // Coronation predates the divergence; Exile belongs to another fork
+        expect(branch.events.map(e => [e.event.name, e.forkOnly, e.altered])).toEqual([
+            ['Duel', false, false],
+            ['Wedding', false, true],
+            ['Regency', true, false]
+        ]);
+        expect(branch.events[1].event.characters).toEqual(['Mira']);
+        expect(branch.events[1].index).toBe(2);
+    });
+
+    it('plans a merge as field changes plus events joining canon', () => {
+        const fork = makeFork();
+        fork.alteredLocations = [{ entityId: 'Lost City', entityType: 'location', changes: '', overrides: { status: 'Ruined' } }];
+        const plan = planForkMerge(fork, { characters, locations: [], events, items: [] });
+
+        expect(plan.changes).toEqual([
+            { entityType: 'character', entityName: 'Aldric', field: 'status', from: 'Alive', to: 'Deceased' },
+            { entityType: 'event', entityName: 'Wedding', field: 'characters', from: ['Aldric'], to: ['Mira'] }
+        ]);
+        expect(plan.events).toEqual(['[[Regency]]']);
+        expect(plan.missing).toEqual(['Lost City']);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { estimateScarcity, formatTradeReport, resolveTradeRoutes, routeStatus } from '../../src/utils/TradeNetwork';
+import type { Economy, Location } from '../../src/types';
+
+const bound = (name: string, x: number, y: number): Location => ({
+    id: name.toLowerCase().replace(/ /g, '-'),
+    name,
+    mapBindings: [{ mapId: 'realm', coordinates: [y, x] }]
+});
+
+const locations: Location[] = [bound('Vell', 0, 0), bound('Port Ash', 10, 0), bound('Highkeep', 10, 20), { name: 'Far Isle' }];
+
+const economy: Economy = {
+    name: 'Salt Trade',
+    linkedLocations: ['[[Vell]]'],
+    resources: [
+        { name: 'Salt', availability: 'common' },
+        { name: 'Grain', availability: 'abundant' }
+    ],
+    tradeRoutes: [
+        { name: 'Salt Road', origin: '[[Vell]]', destination: 'port ash', goods: ['salt'] },
+        { name: 'Mountain Pass', origin: 'Port Ash', destination: 'highkeep', status: 'Disrupted by raids' },
+        { name: 'Sea Lane', origin: 'Port Ash', destination: 'Far Isle', status: 'Closed' },
+        { name: 'Ghost Road', origin: 'Vell', destination: 'Nowhere' }
+    ]
+};
+
+describe('TradeNetwork', () => {
+    it('resolves endpoints to locations and prices routes by distance and status', () => {
+        expect(routeStatus('')).toBe('active');
+        expect(routeStatus('Blockaded')).toBe('closed');
+
+        const routes = resolveTradeRoutes([economy], locations);
+        expect(routes.map(r => [r.origin?.name, r.destination?.name, r.status])).toEqual([
+            ['Vell', 'Port Ash', 'active'],
+            ['Port Ash', 'Highkeep', 'disrupted'],
+            ['Port Ash', 'Far Isle', 'closed'],
+            ['Vell', undefined, 'active']
+        ]);
+        // 10 and 20 map units against an average of 15, the pass doubled for its raids
+        expect(routes[0].cost).toBeCloseTo(2 / 3);
+        expect(routes[1].cost).toBeCloseTo(8 / 3);
+        // Far Isle isn't on the map, and the lane is closed anyway
+        expect(routes[2].cost).toBe(Infinity);
+        expect(routes[3].cost).toBe(Infinity);
+    });
+
+    it('gets scarcer and dearer away from where a resource is produced', () => {
+        const estimates = estimateScarcity([economy], locations);
+        const at = (resource: string, location: string) =>
+            estimates.find(e => e.resource === resource && e.locationName === location);
+
+        expect(at('Salt', 'Vell')).toMatchObject({ availability: 'common', priceMultiplier: 1, sourceId: 'vell' });
+        expect(at('Salt', 'Port Ash')?.availability).toBe('uncommon');
+        expect(at('Salt', 'Port Ash')?.priceMultiplier).toBeCloseTo(Math.pow(1.5, 2 / 3));
+        expect(at('Salt', 'Highkeep')?.availability).toBe('legendary');
+        expect(at('Salt', 'Far Isle')).toMatchObject({ availability: 'unavailable', level: Infinity });
+
+        // The Salt Road only carries salt, so grain never leaves Vell
+        expect(at('Grain', 'Vell')?.availability).toBe('abundant');
+        expect(at('Grain', 'Port Ash')?.availability).toBe('unavailable');
+
+        const report = formatTradeReport(resolveTradeRoutes([economy], locations), estimates, locations);
+        expect(report).toContain('| Ghost Road | [[Salt Trade]] | [[Vell]] | Nowhere (unresolved) | any | active | — |');
+        expect(report).toContain('| [[Port Ash]] | uncommon | ×1.31 | [[Vell]] |');
+    });
+});
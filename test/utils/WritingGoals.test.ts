@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, buildHeatmap, daysBetween, getRollingVelocity, getStreaks, planProjectGoal } from '../../src/utils/WritingGoals';
+import type { DailyWritingStats, ProjectGoal } from '../../src/types';
+
+const day = (date: string, netWords: number): DailyWritingStats => ({
+    date,
+    wordsWritten: Math.max(0, netWords),
+    wordsDeleted: Math.max(0, -netWords),
+    netWords,
+    timeSpent: 0,
+    scenesEdited: [],
+    goalMet: false
+});
+
+// Three-day run, a gap, then four days up to yesterday
+const stats = [
+    day('2026-02-25', 300), day('2026-02-26', 200), day('2026-02-27', 100),
+    day('2026-03-01', 500), day('2026-03-02', 700), day('2026-03-03', 400), day('2026-03-04', 400)
+];
+const goal: ProjectGoal = {
+    id: 'g1', storyId: 's1', name: 'Draft', target: 50000, deadline: '2026-03-31', startDate: '2026-02-25', startWords: 40000
+};
+
+describe('WritingGoals', () => {
+    it('does day arithmetic across month ends', () => {
+        expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+        expect(daysBetween('2026-02-25', '2026-03-05')).toBe(8);
+    });
+
+    it('counts streaks without breaking on a day not yet written', () => {
+        expect(getStreaks(stats, '2026-03-05')).toEqual({ current: 4, longest: 4 });
+        expect(getStreaks(stats, '2026-03-06')).toEqual({ current: 0, longest: 4 });
+    });
+
+    it('averages velocity over the window, from the first recorded day at most', () => {
+        expect(getRollingVelocity(stats, '2026-03-05', 5)).toBe(400);
+        // Nine days since the first record, including the gap and today
+        expect(getRollingVelocity(stats, '2026-03-05')).toBe(2600 / 9);
+        expect(getRollingVelocity([], '2026-03-05')).toBe(0);
+    });
+
+    it('plans the daily pace and projects a finish date', () => {
+        const plan = planProjectGoal(goal, 42600, stats, '2026-03-05', 5);
+        expect(plan.remaining).toBe(7400);
+        expect(plan.percent).toBe(26);
+        expect(plan.daysLeft).toBe(27);
+        expect(plan.wordsPerDay).toBe(275);
+        // 7400 words at 400 a day is 19 days, counting today
+        expect(plan.projectedDate).toBe('2026-03-23');
+        expect(plan.onTrack).toBe(true);
+
+        const stalled = planProjectGoal({ ...goal, deadline: '2026-03-04' }, 42600, [], '2026-03-05');
+        expect(stalled).toMatchObject({ daysLeft: 0, wordsPerDay: 7400, projectedDate: undefined, onTrack: false });
+        expect(planProjectGoal(goal, 51000, stats, '2026-03-05')).toMatchObject({ complete: true, percent: 100, onTrack: true });
+    });
+
+    it('lays out a Sunday-first heatmap ending with the current week', () => {
+        const heatmap = buildHeatmap(stats, '2026-03-05', 2);
+        expect(heatmap).toHaveLength(2);
+        expect(heatmap[0][0].date).toBe('2026-02-22');
+        expect(heatmap[1][0].date).toBe('2026-03-01');
+        expect(heatmap[1].map(cell => cell.level)).toEqual([3, 4, 3, 3, 0, 0, 0]);
+        expect(heatmap[1].map(cell => cell.future)).toEqual([false, false, false, false, false, true, true]);
+    });
+});
@@ -20,6 +20,13 @@ describe('EntitySections', () => {
     expect(fm).not.toHaveProperty('extra');
   });
 
+  it('buildFrontmatter keeps aliases edited in the character, location and item modals', () => {
+    for (const type of ['character', 'location', 'item'] as const) {
+      const fm = buildFrontmatter(type, { name: 'Sunblade', aliases: ['the Blade', 'Dawnbringer'] } as any);
+      expect(fm).toHaveProperty('aliases', ['the Blade', 'Dawnbringer']);
+    }
+  });
+
   it('parseSectionsFromMarkdown extracts all ## sections', () => {
     const body = `---\n---\n\n## Description\nText here\n\n## Backstory\nStory`; 
     const sections = parseSectionsFromMarkdown(body);